@@ -0,0 +1,52 @@
+// SwiftPass service worker: shows web push notifications sent by the server
+// (server/notification-delivery.ts) and opens the related page when one is
+// clicked. Payload: { title, body, url, type }.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = payload.title || 'SwiftPass';
+  // A newer alert of these kinds replaces the older one
+  const tag = ['low_balance', 'bus_approaching'].includes(payload.type) ? payload.type : undefined;
+
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || '',
+      icon: '/favicon.png',
+      badge: '/favicon.png',
+      tag,
+      renotify: Boolean(tag),
+      data: { url: payload.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  // Reuse an open SwiftPass tab when there is one
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        return existing.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -9,23 +9,35 @@ import { Loader2 } from "lucide-react";
 import LoginPage from "@/pages/login";
 import SignupPage from "@/pages/signup";
 import ProfileSetupPage from "@/pages/student/profile-setup";
+import SetPasswordPage from "@/pages/student/set-password";
 import StudentDashboard from "@/pages/student/dashboard";
 import StudentPass from "@/pages/student/pass";
 import StudentWallet from "@/pages/student/wallet";
 import StudentTrackBus from "@/pages/student/track-bus";
 import StudentTransactions from "@/pages/student/transactions";
 import StudentNotifications from "@/pages/student/notifications";
+import StudentProfile from "@/pages/student/profile";
 import DriverDashboard from "@/pages/driver/dashboard";
 import DriverStudents from "@/pages/driver/students";
 import DriverTrips from "@/pages/driver/trips";
 import AdminDashboard from "@/pages/admin/dashboard";
 import AdminBuses from "@/pages/admin/buses";
 import AdminRoutes from "@/pages/admin/routes";
+import AdminFarePolicies from "@/pages/admin/fare-policies";
+import AdminPassProducts from "@/pages/admin/pass-products";
 import AdminStudents from "@/pages/admin/students";
+import AdminStudentImport from "@/pages/admin/student-import";
 import AdminDrivers from "@/pages/admin/drivers";
 import AdminTransactions from "@/pages/admin/transactions";
 import AdminReports from "@/pages/admin/reports";
+import AdminPerformance from "@/pages/admin/performance";
+import AdminTripReplay from "@/pages/admin/trip-replay";
 import AdminRouteStops from "@/pages/admin/route-stops";
+import AdminTimetable from "@/pages/admin/timetable";
+import AdminAuditLog from "@/pages/admin/audit-log";
+import AdminReconciliation from "@/pages/admin/reconciliation";
+import AdminDisputes from "@/pages/admin/disputes";
+import AdminNotificationDeliveries from "@/pages/admin/notification-deliveries";
 import NotFound from "@/pages/not-found";
 
 function LoadingScreen() {
@@ -110,6 +122,12 @@ function Router() {
         </ProtectedRoute>
       </Route>
       
+      <Route path="/student/set-password">
+        <ProtectedRoute allowedRoles={['student']}>
+          <SetPasswordPage />
+        </ProtectedRoute>
+      </Route>
+
       <Route path="/student/dashboard">
         <ProtectedRoute allowedRoles={['student']}>
           <StudentDashboard />
@@ -146,6 +164,12 @@ function Router() {
         </ProtectedRoute>
       </Route>
       
+      <Route path="/student/profile">
+        <ProtectedRoute allowedRoles={['student']}>
+          <StudentProfile />
+        </ProtectedRoute>
+      </Route>
+      
       <Route path="/driver/dashboard">
         <ProtectedRoute allowedRoles={['driver']}>
           <DriverDashboard />
@@ -182,12 +206,36 @@ function Router() {
         </ProtectedRoute>
       </Route>
       
+      <Route path="/admin/fare-policies">
+        <ProtectedRoute allowedRoles={['admin']}>
+          <AdminFarePolicies />
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/admin/pass-products">
+        <ProtectedRoute allowedRoles={['admin']}>
+          <AdminPassProducts />
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/admin/timetable">
+        <ProtectedRoute allowedRoles={['admin']}>
+          <AdminTimetable />
+        </ProtectedRoute>
+      </Route>
+      
       <Route path="/admin/students">
         <ProtectedRoute allowedRoles={['admin']}>
           <AdminStudents />
         </ProtectedRoute>
       </Route>
       
+      <Route path="/admin/students/import">
+        <ProtectedRoute allowedRoles={['admin']}>
+          <AdminStudentImport />
+        </ProtectedRoute>
+      </Route>
+      
       <Route path="/admin/drivers">
         <ProtectedRoute allowedRoles={['admin']}>
           <AdminDrivers />
@@ -206,12 +254,48 @@ function Router() {
         </ProtectedRoute>
       </Route>
       
+      <Route path="/admin/performance">
+        <ProtectedRoute allowedRoles={['admin']}>
+          <AdminPerformance />
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/admin/trip-replay">
+        <ProtectedRoute allowedRoles={['admin']}>
+          <AdminTripReplay />
+        </ProtectedRoute>
+      </Route>
+      
       <Route path="/admin/route-stops">
         <ProtectedRoute allowedRoles={['admin']}>
           <AdminRouteStops />
         </ProtectedRoute>
       </Route>
       
+      <Route path="/admin/audit-log">
+        <ProtectedRoute allowedRoles={['admin']}>
+          <AdminAuditLog />
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/admin/reconciliation">
+        <ProtectedRoute allowedRoles={['admin']}>
+          <AdminReconciliation />
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/admin/disputes">
+        <ProtectedRoute allowedRoles={['admin']}>
+          <AdminDisputes />
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/admin/notification-deliveries">
+        <ProtectedRoute allowedRoles={['admin']}>
+          <AdminNotificationDeliveries />
+        </ProtectedRoute>
+      </Route>
+      
       <Route component={NotFound} />
     </Switch>
   );
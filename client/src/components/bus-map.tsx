@@ -0,0 +1,231 @@
+import { useEffect, useRef, useState } from 'react';
+import { isMapsConfigured, loadMapLibraries } from '@/lib/maps';
+import { cn } from '@/lib/utils';
+import type { BusLocation, RouteStop, TripStopStatus } from '@shared/schema';
+import { MapPin } from 'lucide-react';
+
+interface BusMapStop extends RouteStop {
+  status?: TripStopStatus;
+}
+
+type BusMapPoint = Pick<BusLocation, 'latitude' | 'longitude'>;
+
+// Extra pins drawn over the route, e.g. scans during a trip replay
+export interface BusMapMarker extends BusMapPoint {
+  id: string;
+  title: string;
+  color: string;
+}
+
+interface BusMapProps {
+  stops: BusMapStop[];
+  location: Pick<BusLocation, 'latitude' | 'longitude' | 'heading'> | null;
+  // Path the bus has driven, drawn under the bus marker
+  trail?: BusMapPoint[];
+  markers?: BusMapMarker[];
+  className?: string;
+}
+
+const STOP_COLORS: Record<TripStopStatus, string> = {
+  pending: '#94a3b8',
+  arrived: '#3b82f6',
+  departed: '#22c55e',
+};
+
+type MapLibraries = Awaited<ReturnType<typeof loadMapLibraries>>;
+
+export function BusMap({ stops, location, trail, markers, className }: BusMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<google.maps.Map | null>(null);
+  const librariesRef = useRef<MapLibraries | null>(null);
+  const stopMarkersRef = useRef<google.maps.Marker[]>([]);
+  const routeLineRef = useRef<google.maps.Polyline | null>(null);
+  const busMarkerRef = useRef<google.maps.Marker | null>(null);
+  const trailLineRef = useRef<google.maps.Polyline | null>(null);
+  const extraMarkersRef = useRef<google.maps.Marker[]>([]);
+  const framedRef = useRef(false);
+  const [ready, setReady] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isMapsConfigured || !containerRef.current) return;
+
+    let cancelled = false;
+
+    loadMapLibraries()
+      .then((libraries) => {
+        if (cancelled || !containerRef.current) return;
+        librariesRef.current = libraries;
+        mapRef.current = new libraries.maps.Map(containerRef.current, {
+          center: { lat: 20.5937, lng: 78.9629 },
+          zoom: 14,
+          disableDefaultUI: true,
+          zoomControl: true,
+        });
+        setReady(true);
+      })
+      .catch((err) => {
+        console.error('Failed to load map:', err);
+        if (!cancelled) setLoadError('Map could not be loaded.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Stop markers and the route line are redrawn when stop statuses change
+  useEffect(() => {
+    const map = mapRef.current;
+    const libraries = librariesRef.current;
+    if (!ready || !map || !libraries) return;
+
+    stopMarkersRef.current.forEach((marker) => marker.setMap(null));
+    routeLineRef.current?.setMap(null);
+
+    const stopsWithCoords = stops.filter((stop) => stop.latitude && stop.longitude);
+    const path = stopsWithCoords.map((stop) => ({ lat: Number(stop.latitude), lng: Number(stop.longitude) }));
+
+    stopMarkersRef.current = stopsWithCoords.map((stop, index) => new libraries.marker.Marker({
+      map,
+      position: path[index],
+      title: stop.stop_name,
+      label: { text: String(stop.sequence), color: '#ffffff', fontSize: '11px', fontWeight: '600' },
+      icon: {
+        path: libraries.core.SymbolPath.CIRCLE,
+        scale: 10,
+        fillColor: STOP_COLORS[stop.status ?? 'pending'],
+        fillOpacity: 1,
+        strokeColor: '#ffffff',
+        strokeWeight: 2,
+      },
+    }));
+
+    routeLineRef.current = new libraries.maps.Polyline({
+      map,
+      path,
+      strokeColor: '#6366f1',
+      strokeOpacity: 0.6,
+      strokeWeight: 4,
+    });
+  }, [ready, stops]);
+
+  // Frame the whole route once, when the map first has stops to show
+  useEffect(() => {
+    const map = mapRef.current;
+    const libraries = librariesRef.current;
+    if (!ready || !map || !libraries || framedRef.current) return;
+
+    const bounds = new libraries.core.LatLngBounds();
+    let hasPoints = false;
+
+    stops.forEach((stop) => {
+      if (!stop.latitude || !stop.longitude) return;
+      bounds.extend({ lat: Number(stop.latitude), lng: Number(stop.longitude) });
+      hasPoints = true;
+    });
+
+    if (location) {
+      bounds.extend({ lat: location.latitude, lng: location.longitude });
+      hasPoints = true;
+    }
+
+    trail?.forEach((point) => {
+      bounds.extend({ lat: point.latitude, lng: point.longitude });
+      hasPoints = true;
+    });
+
+    if (hasPoints) {
+      map.fitBounds(bounds, 48);
+      framedRef.current = true;
+    }
+  }, [ready, stops, location, trail]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const libraries = librariesRef.current;
+    if (!ready || !map || !libraries) return;
+
+    trailLineRef.current?.setMap(null);
+    trailLineRef.current = null;
+    if (!trail || trail.length < 2) return;
+
+    trailLineRef.current = new libraries.maps.Polyline({
+      map,
+      path: trail.map((point) => ({ lat: point.latitude, lng: point.longitude })),
+      strokeColor: '#16a34a',
+      strokeOpacity: 0.9,
+      strokeWeight: 3,
+      zIndex: 10,
+    });
+  }, [ready, trail]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const libraries = librariesRef.current;
+    if (!ready || !map || !libraries) return;
+
+    extraMarkersRef.current.forEach((marker) => marker.setMap(null));
+    extraMarkersRef.current = (markers || []).map((marker) => new libraries.marker.Marker({
+      map,
+      position: { lat: marker.latitude, lng: marker.longitude },
+      title: marker.title,
+      icon: {
+        path: libraries.core.SymbolPath.CIRCLE,
+        scale: 5,
+        fillColor: marker.color,
+        fillOpacity: 1,
+        strokeColor: '#ffffff',
+        strokeWeight: 1.5,
+      },
+      zIndex: 500,
+    }));
+  }, [ready, markers]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const libraries = librariesRef.current;
+    if (!ready || !map || !libraries) return;
+
+    if (!location) {
+      busMarkerRef.current?.setMap(null);
+      busMarkerRef.current = null;
+      return;
+    }
+
+    const position = { lat: location.latitude, lng: location.longitude };
+    const icon: google.maps.Symbol = {
+      path: libraries.core.SymbolPath.FORWARD_CLOSED_ARROW,
+      scale: 6,
+      rotation: location.heading ?? 0,
+      fillColor: '#16a34a',
+      fillOpacity: 1,
+      strokeColor: '#ffffff',
+      strokeWeight: 2,
+    };
+
+    if (busMarkerRef.current) {
+      busMarkerRef.current.setPosition(position);
+      busMarkerRef.current.setIcon(icon);
+    } else {
+      busMarkerRef.current = new libraries.marker.Marker({
+        map,
+        position,
+        icon,
+        title: 'Bus',
+        zIndex: 1000,
+      });
+    }
+  }, [ready, location]);
+
+  if (!isMapsConfigured || loadError) {
+    return (
+      <div className={cn('flex flex-col items-center justify-center rounded-lg bg-muted text-center text-muted-foreground', className)}>
+        <MapPin className="h-10 w-10 mb-2 opacity-50" />
+        <p className="text-sm">{loadError || 'Map is not configured.'}</p>
+      </div>
+    );
+  }
+
+  return <div ref={containerRef} className={cn('rounded-lg', className)} />;
+}
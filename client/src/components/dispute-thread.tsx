@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { addDisputeComment } from '@/lib/disputes';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import type { DisputeComment, FareDisputeDetail } from '@shared/schema';
+import { Loader2, Send } from 'lucide-react';
+
+interface DisputeThreadProps {
+  dispute: FareDisputeDetail;
+  // Whose messages are shown on the right
+  viewerRole: DisputeComment['author_role'];
+  onCommentAdded: (comment: DisputeComment) => void;
+}
+
+export function DisputeThread({ dispute, viewerRole, onCommentAdded }: DisputeThreadProps) {
+  const { toast } = useToast();
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const handleSend = async () => {
+    if (!message.trim()) return;
+
+    setSending(true);
+    try {
+      onCommentAdded(await addDisputeComment(dispute.id, message.trim()));
+      setMessage('');
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {dispute.comments.map((comment) => {
+          const own = comment.author_role === viewerRole;
+          return (
+            <div key={comment.id} className={`flex ${own ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                  own ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                }`}
+                data-testid={`dispute-comment-${comment.id}`}
+              >
+                <p className="whitespace-pre-wrap">{comment.message}</p>
+                <p className={`text-xs mt-1 ${own ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+                  {comment.author_role === 'admin' ? 'Transport office' : 'Student'} ·{' '}
+                  {new Date(comment.created_at).toLocaleString('en-IN', {
+                    day: 'numeric',
+                    month: 'short',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {dispute.status === 'open' && (
+        <div className="flex gap-2">
+          <Textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Add a comment..."
+            rows={2}
+            maxLength={1000}
+            data-testid="input-dispute-comment"
+          />
+          <Button
+            size="icon"
+            onClick={handleSend}
+            disabled={sending || !message.trim()}
+            data-testid="button-send-dispute-comment"
+          >
+            {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { downloadExport } from '@/lib/exports';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import type { ExportDataset, ExportFilters, ExportFormat } from '@shared/schema';
+import { Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+
+interface ExportButtonProps {
+  dataset: ExportDataset;
+  // The page's own filters; from / to seed the date inputs
+  filters?: ExportFilters;
+  label?: string;
+}
+
+export function ExportButton({ dataset, filters = {}, label = 'Export' }: ExportButtonProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [from, setFrom] = useState(filters.from ?? '');
+  const [to, setTo] = useState(filters.to ?? '');
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setFrom(filters.from ?? '');
+      setTo(filters.to ?? '');
+    }
+    setOpen(next);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      await downloadExport(dataset, format, {
+        ...filters,
+        from: from || undefined,
+        to: to || undefined,
+      });
+      setOpen(false);
+    } catch (err: any) {
+      toast({ title: 'Export failed', description: err.message, variant: 'destructive' });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" data-testid={`button-export-${dataset}`}>
+          <Download className="h-4 w-4 mr-2" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor={`export-${dataset}-from`}>From</Label>
+            <Input
+              id={`export-${dataset}-from`}
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor={`export-${dataset}-to`}>To</Label>
+            <Input
+              id={`export-${dataset}-to`}
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">Leave the dates empty to export the last 30 days.</p>
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            variant="outline"
+            disabled={exporting !== null}
+            onClick={() => handleExport('csv')}
+            data-testid={`button-export-${dataset}-csv`}
+          >
+            {exporting === 'csv' ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+            )}
+            CSV
+          </Button>
+          <Button
+            variant="outline"
+            disabled={exporting !== null}
+            onClick={() => handleExport('pdf')}
+            data-testid={`button-export-${dataset}-pdf`}
+          >
+            {exporting === 'pdf' ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileText className="h-4 w-4 mr-2" />
+            )}
+            PDF
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -31,6 +31,15 @@ import {
   History,
   LogOut,
   Settings,
+  UserCircle,
+  IndianRupee,
+  Ticket,
+  ScrollText,
+  Scale,
+  Flag,
+  Send,
+  CalendarClock,
+  Timer,
 } from 'lucide-react';
 import type { ReactNode } from 'react';
 
@@ -45,6 +54,7 @@ const studentNavItems = [
   { title: 'Track Bus', href: '/student/track-bus', icon: MapPin },
   { title: 'Transactions', href: '/student/transactions', icon: Receipt },
   { title: 'Notifications', href: '/student/notifications', icon: Bell },
+  { title: 'Profile', href: '/student/profile', icon: UserCircle },
 ];
 
 const driverNavItems = [
@@ -57,11 +67,20 @@ const adminNavItems = [
   { title: 'Dashboard', href: '/admin/dashboard', icon: LayoutDashboard },
   { title: 'Buses', href: '/admin/buses', icon: Bus },
   { title: 'Routes', href: '/admin/routes', icon: Route },
+  { title: 'Fare Policies', href: '/admin/fare-policies', icon: IndianRupee },
+  { title: 'Pass Products', href: '/admin/pass-products', icon: Ticket },
   { title: 'Route Stops', href: '/admin/route-stops', icon: MapPin },
+  { title: 'Timetable', href: '/admin/timetable', icon: CalendarClock },
   { title: 'Students', href: '/admin/students', icon: Users },
   { title: 'Drivers', href: '/admin/drivers', icon: Users },
   { title: 'Transactions', href: '/admin/transactions', icon: Receipt },
+  { title: 'Disputes', href: '/admin/disputes', icon: Flag },
+  { title: 'Deliveries', href: '/admin/notification-deliveries', icon: Send },
   { title: 'Reports', href: '/admin/reports', icon: BarChart3 },
+  { title: 'On-time Performance', href: '/admin/performance', icon: Timer },
+  { title: 'Trip Replay', href: '/admin/trip-replay', icon: History },
+  { title: 'Reconciliation', href: '/admin/reconciliation', icon: Scale },
+  { title: 'Audit Log', href: '/admin/audit-log', icon: ScrollText },
 ];
 
 export function SidebarLayout({ children }: SidebarLayoutProps) {
@@ -1,5 +1,6 @@
 import { createContext, useContext, useEffect, useState, useCallback, useRef, type ReactNode } from 'react';
 import { supabase } from './supabase';
+import { disablePush } from './push';
 import type { Session, AuthChangeEvent } from '@supabase/supabase-js';
 import type { UserRole, Student, Driver } from '@shared/schema';
 
@@ -186,6 +187,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signOut = async () => {
+    // Stop pushing this user's notifications to a browser they have left
+    try {
+      await disablePush();
+    } catch (err) {
+      console.error('Failed to remove push subscription:', err);
+    }
+
     await supabase.auth.signOut();
     setUser(null);
     setStudent(null);
@@ -0,0 +1,73 @@
+import { getAuthHeaders } from '@/lib/supabase';
+import type {
+  DisputeComment,
+  DisputeReason,
+  DisputeStatus,
+  FareDispute,
+  FareDisputeDetail,
+  FareDisputeWithDetails,
+  OpenDisputeData,
+  ResolveDisputeData,
+} from '@shared/schema';
+
+export const DISPUTE_REASON_LABELS: Record<DisputeReason, string> = {
+  not_on_bus: 'I was not on the bus',
+  charged_twice: 'Charged twice',
+  wrong_fare: 'Wrong fare amount',
+  had_pass: 'I have an active pass',
+  other: 'Something else',
+};
+
+export const DISPUTE_STATUS_LABELS: Record<DisputeStatus, string> = {
+  open: 'Open',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+async function disputeRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`/api/disputes${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+  });
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Dispute request failed');
+  }
+
+  return result;
+}
+
+export async function fetchDisputes(status?: DisputeStatus): Promise<FareDisputeWithDetails[]> {
+  const result = await disputeRequest<{ disputes: FareDisputeWithDetails[] }>(status ? `?status=${status}` : '');
+  return result.disputes;
+}
+
+export async function fetchDispute(disputeId: string): Promise<FareDisputeDetail> {
+  const result = await disputeRequest<{ dispute: FareDisputeDetail }>(`/${disputeId}`);
+  return result.dispute;
+}
+
+export async function openDispute(data: OpenDisputeData): Promise<FareDispute> {
+  const result = await disputeRequest<{ dispute: FareDispute }>('', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+  return result.dispute;
+}
+
+export async function addDisputeComment(disputeId: string, message: string): Promise<DisputeComment> {
+  const result = await disputeRequest<{ comment: DisputeComment }>(`/${disputeId}/comments`, {
+    method: 'POST',
+    body: JSON.stringify({ message }),
+  });
+  return result.comment;
+}
+
+export async function resolveDispute(disputeId: string, data: ResolveDisputeData): Promise<FareDispute> {
+  const result = await disputeRequest<{ dispute: FareDispute }>(`/${disputeId}/resolve`, {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+  return result.dispute;
+}
@@ -0,0 +1,44 @@
+import { getAuthHeaders } from '@/lib/supabase';
+import type { ExportDataset, ExportFilters, ExportFormat } from '@shared/schema';
+
+function exportUrl(dataset: ExportDataset, format: ExportFormat, filters: ExportFilters): string {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+
+  const query = params.toString();
+  return `/api/exports/${dataset}.${format}${query ? `?${query}` : ''}`;
+}
+
+function filenameFrom(response: Response, fallback: string): string {
+  const disposition = response.headers.get('Content-Disposition') || '';
+  return disposition.match(/filename="([^"]+)"/)?.[1] || fallback;
+}
+
+// Downloads a server-generated export through a temporary link, since the
+// endpoint needs the auth header a plain <a href> can't send
+export async function downloadExport(
+  dataset: ExportDataset,
+  format: ExportFormat,
+  filters: ExportFilters = {}
+): Promise<void> {
+  const response = await fetch(exportUrl(dataset, format, filters), {
+    headers: await getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => null);
+    throw new Error(result?.error || 'Export failed');
+  }
+
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filenameFrom(response, `${dataset}.${format}`);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,73 @@
+import { supabase } from '@/lib/supabase';
+import type { BusRoute, FarePolicy } from '@shared/schema';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Mirrors effective_fare_policy() in supabase-tables.sql: the rule a route
+// follows until an admin gives it a policy of its own
+export function defaultFarePolicy(route: BusRoute): FarePolicy {
+  return {
+    id: '',
+    route_id: route.id,
+    ride_fare: route.daily_fare,
+    peak_fare: null,
+    peak_periods: [],
+    max_rides_per_day: 2,
+    daily_cap: route.daily_fare,
+    weekly_cap: null,
+    monthly_cap: null,
+    free_return_window_minutes: null,
+    is_active: true,
+    created_at: route.created_at,
+    updated_at: route.created_at,
+  };
+}
+
+export async function fetchFarePolicy(route: BusRoute): Promise<FarePolicy> {
+  const { data, error } = await supabase
+    .from('fare_policies')
+    .select('*')
+    .eq('route_id', route.id)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching fare policy:', error.message);
+  }
+
+  return data ?? defaultFarePolicy(route);
+}
+
+function formatDays(days: number[]) {
+  if (days.length === 0 || days.length === 7) return 'daily';
+  return days.map((day) => WEEKDAY_LABELS[day]).join(', ');
+}
+
+// Plain-language summary of a policy, one rule per line
+export function describeFarePolicy(policy: FarePolicy): string[] {
+  const lines = [`₹${policy.ride_fare} per ride`];
+
+  if (policy.peak_fare !== null && policy.peak_periods.length > 0) {
+    const windows = policy.peak_periods
+      .map((period) => `${period.start}-${period.end} (${formatDays(period.days)})`)
+      .join('; ');
+    lines.push(`₹${policy.peak_fare} at peak times: ${windows}`);
+  }
+  if (policy.free_return_window_minutes !== null) {
+    lines.push(`Free return ride within ${policy.free_return_window_minutes} minutes`);
+  }
+  if (policy.max_rides_per_day !== null) {
+    lines.push(`Up to ${policy.max_rides_per_day} rides per day`);
+  }
+  if (policy.daily_cap !== null) {
+    lines.push(`Capped at ₹${policy.daily_cap} per day`);
+  }
+  if (policy.weekly_cap !== null) {
+    lines.push(`Capped at ₹${policy.weekly_cap} per week`);
+  }
+  if (policy.monthly_cap !== null) {
+    lines.push(`Capped at ₹${policy.monthly_cap} per month`);
+  }
+
+  return lines;
+}
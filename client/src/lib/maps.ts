@@ -0,0 +1,30 @@
+import { importLibrary, setOptions } from '@googlemaps/js-api-loader';
+
+const mapsApiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY as string | undefined;
+
+let configured = false;
+
+export const isMapsConfigured = Boolean(mapsApiKey);
+
+export async function loadMapLibraries(): Promise<{
+  maps: google.maps.MapsLibrary;
+  marker: google.maps.MarkerLibrary;
+  core: google.maps.CoreLibrary;
+}> {
+  if (!mapsApiKey) {
+    throw new Error('Missing VITE_GOOGLE_MAPS_API_KEY');
+  }
+
+  if (!configured) {
+    setOptions({ key: mapsApiKey, v: 'weekly' });
+    configured = true;
+  }
+
+  const [maps, marker, core] = await Promise.all([
+    importLibrary('maps'),
+    importLibrary('marker'),
+    importLibrary('core'),
+  ]);
+
+  return { maps, marker, core };
+}
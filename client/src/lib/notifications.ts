@@ -0,0 +1,78 @@
+import { getAuthHeaders } from '@/lib/supabase';
+import type {
+  ConfigurableNotificationType,
+  DeliveryFilters,
+  DeliveryStatus,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationPreferences,
+  NotificationPreferencesData,
+} from '@shared/schema';
+
+export const NOTIFICATION_TYPE_LABELS: Record<ConfigurableNotificationType, string> = {
+  recharge: 'Recharges',
+  deduction: 'Fare deductions',
+  scan: 'Scans',
+  system: 'Refunds, disputes and account messages',
+  bus_approaching: 'Bus approaching',
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+  push: 'Push',
+};
+
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  pending: 'Pending',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+};
+
+async function notificationRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+  });
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Notification request failed');
+  }
+
+  return result;
+}
+
+export async function fetchNotificationPreferences(): Promise<NotificationPreferences> {
+  const result = await notificationRequest<{ preferences: NotificationPreferences }>('/notifications/preferences');
+  return result.preferences;
+}
+
+export async function saveNotificationPreferences(data: NotificationPreferencesData): Promise<NotificationPreferences> {
+  const result = await notificationRequest<{ preferences: NotificationPreferences }>('/notifications/preferences', {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+  return result.preferences;
+}
+
+export async function fetchDeliveries(filters: DeliveryFilters = {}): Promise<NotificationDelivery[]> {
+  const params = new URLSearchParams();
+  if (filters.status) params.set('status', filters.status);
+  if (filters.channel) params.set('channel', filters.channel);
+
+  const query = params.toString();
+  const result = await notificationRequest<{ deliveries: NotificationDelivery[] }>(
+    `/notification-deliveries${query ? `?${query}` : ''}`
+  );
+  return result.deliveries;
+}
+
+export async function retryDelivery(deliveryId: string): Promise<NotificationDelivery> {
+  const result = await notificationRequest<{ delivery: NotificationDelivery }>(
+    `/notification-deliveries/${deliveryId}/retry`,
+    { method: 'POST' }
+  );
+  return result.delivery;
+}
@@ -0,0 +1,41 @@
+import { getAuthHeaders } from '@/lib/supabase';
+import type { ExitScanResult } from '@shared/schema';
+
+// The driver is warned once a bus is this full
+export const NEARLY_FULL_RATIO = 0.9;
+
+export type OccupancyLevel = 'available' | 'nearly_full' | 'full';
+
+export const OCCUPANCY_LABELS: Record<OccupancyLevel, string> = {
+  available: 'Seats available',
+  nearly_full: 'Nearly full',
+  full: 'Full',
+};
+
+export function occupancyLevel(onBoard: number, capacity: number): OccupancyLevel {
+  if (capacity <= 0) return 'available';
+  if (onBoard >= capacity) return 'full';
+  return onBoard >= capacity * NEARLY_FULL_RATIO ? 'nearly_full' : 'available';
+}
+
+export function formatSeatsLeft(onBoard: number, capacity: number): string {
+  const left = capacity - onBoard;
+  if (left < 0) return `${-left} over capacity`;
+  if (left === 0) return 'No seats left';
+  return left === 1 ? '1 seat left' : `${left} seats left`;
+}
+
+export async function submitExitScan(passToken: string): Promise<ExitScanResult> {
+  const response = await fetch('/api/scans/exit', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    body: JSON.stringify({ pass_token: passToken }),
+  });
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Exit scan failed');
+  }
+
+  return result.result;
+}
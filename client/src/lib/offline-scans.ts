@@ -0,0 +1,168 @@
+import type { OfflineRoster, QueuedScan, RosterStudent } from '@shared/schema';
+
+const DB_NAME = 'swiftpass-offline';
+const DB_VERSION = 1;
+const QUEUE_STORE = 'scan_queue';
+const ROSTER_STORE = 'rosters';
+
+interface PassTokenPayload {
+  sid: string;
+  rid: string | null;
+  exp: number;
+  n: string;
+}
+
+export type OfflineVerification =
+  | { valid: true; payload: PassTokenPayload; student: RosterStudent }
+  | { valid: false; reason: 'malformed' | 'bad_signature' | 'wrong_route' | 'expired' | 'unknown_student' };
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'scan_id' });
+      }
+      if (!db.objectStoreNames.contains(ROSTER_STORE)) {
+        db.createObjectStore(ROSTER_STORE, { keyPath: 'driver_id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    let result: T | undefined;
+
+    if (request) {
+      request.onsuccess = () => {
+        result = request.result;
+      };
+    }
+
+    tx.oncomplete = () => {
+      db.close();
+      resolve(result);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+}
+
+export async function saveRoster(roster: OfflineRoster): Promise<void> {
+  await withStore(ROSTER_STORE, 'readwrite', (store) => store.put(roster));
+}
+
+export async function loadRoster(driverId: string): Promise<OfflineRoster | null> {
+  const roster = await withStore<OfflineRoster>(ROSTER_STORE, 'readonly', (store) => store.get(driverId));
+  return roster ?? null;
+}
+
+export async function enqueueScan(scan: QueuedScan): Promise<void> {
+  await withStore(QUEUE_STORE, 'readwrite', (store) => store.put(scan));
+}
+
+export async function getQueuedScans(): Promise<QueuedScan[]> {
+  const scans = await withStore<QueuedScan[]>(QUEUE_STORE, 'readonly', (store) => store.getAll());
+  return (scans ?? []).sort((a, b) => a.scanned_at.localeCompare(b.scanned_at));
+}
+
+export async function removeQueuedScans(scanIds: string[]): Promise<void> {
+  if (scanIds.length === 0) return;
+  await withStore(QUEUE_STORE, 'readwrite', (store) => {
+    scanIds.forEach((id) => store.delete(id));
+  });
+}
+
+function decodeBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Mirrors verifyPassToken() in server/pass-tokens.ts using the public key
+// from the cached roster. The server re-verifies every queued scan on sync.
+export async function verifyPassOffline(token: string, roster: OfflineRoster): Promise<OfflineVerification> {
+  const parts = token.trim().split('.');
+  if (parts.length !== 3 || parts[0] !== 'SP2') {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  const [prefix, encodedPayload, signature] = parts;
+
+  try {
+    const key = await crypto.subtle.importKey(
+      'spki',
+      decodeBase64Url(roster.public_key),
+      { name: 'Ed25519' },
+      false,
+      ['verify']
+    );
+    const ok = await crypto.subtle.verify(
+      { name: 'Ed25519' },
+      key,
+      decodeBase64Url(signature),
+      new TextEncoder().encode(`${prefix}.${encodedPayload}`)
+    );
+    if (!ok) {
+      return { valid: false, reason: 'bad_signature' };
+    }
+  } catch {
+    return { valid: false, reason: 'bad_signature' };
+  }
+
+  let payload: PassTokenPayload;
+  try {
+    payload = JSON.parse(new TextDecoder().decode(decodeBase64Url(encodedPayload)));
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (!payload || typeof payload.sid !== 'string' || typeof payload.exp !== 'number' || typeof payload.n !== 'string') {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (payload.rid !== roster.route_id) {
+    return { valid: false, reason: 'wrong_route' };
+  }
+
+  if (payload.exp * 1000 < Date.now()) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  const student = roster.students.find((s) => s.id === payload.sid);
+  if (!student) {
+    return { valid: false, reason: 'unknown_student' };
+  }
+
+  return { valid: true, payload, student };
+}
+
+// Nonce of a pass token, used to catch the same QR being scanned twice while offline
+export function getPassNonce(token: string): string | null {
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(decodeBase64Url(token.trim().split('.')[1] ?? '')));
+    return typeof payload?.n === 'string' ? payload.n : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,51 @@
+import { supabase } from '@/lib/supabase';
+import type { PassPeriod, PassSubscriptionWithProduct } from '@shared/schema';
+
+export const PASS_PERIOD_LABELS: Record<PassPeriod, string> = {
+  monthly: 'Monthly',
+  semester: 'Semester',
+};
+
+// Today as YYYY-MM-DD in the browser's timezone, comparable with
+// valid_from / valid_until
+export function localDate(date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function formatPassDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+// Passes that are valid today or start later, earliest first
+export async function fetchPassSubscriptions(studentId: string): Promise<PassSubscriptionWithProduct[]> {
+  const { data, error } = await supabase
+    .from('pass_subscriptions')
+    .select('*, product:pass_products(*)')
+    .eq('student_id', studentId)
+    .eq('status', 'active')
+    .gte('valid_until', localDate())
+    .order('valid_from', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching passes:', error.message);
+  }
+
+  return data || [];
+}
+
+// The pass that covers today's rides on the route, if any
+export function findCurrentPass(
+  subscriptions: PassSubscriptionWithProduct[],
+  routeId: string | null | undefined
+): PassSubscriptionWithProduct | null {
+  const today = localDate();
+  return subscriptions.find(
+    (sub) => sub.route_id === routeId && sub.valid_from <= today && sub.valid_until >= today
+  ) ?? null;
+}
@@ -0,0 +1,94 @@
+import type { PaymentOrder } from '@shared/schema';
+
+const RAZORPAY_CHECKOUT_SRC = 'https://checkout.razorpay.com/v1/checkout.js';
+
+export interface CheckoutResult {
+  order_id: string;
+  payment_id: string;
+  signature: string;
+}
+
+interface CheckoutPrefill {
+  name?: string;
+  email?: string;
+  contact?: string;
+}
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: Record<string, unknown>) => {
+      open: () => void;
+      on: (event: string, handler: (response: any) => void) => void;
+    };
+  }
+}
+
+function loadRazorpayScript(): Promise<void> {
+  if (window.Razorpay) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = RAZORPAY_CHECKOUT_SRC;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error('Failed to load payment checkout'));
+    document.body.appendChild(script);
+  });
+}
+
+async function openRazorpayCheckout(order: PaymentOrder, prefill: CheckoutPrefill): Promise<CheckoutResult> {
+  await loadRazorpayScript();
+
+  return new Promise((resolve, reject) => {
+    const checkout = new window.Razorpay!({
+      key: order.checkout.keyId,
+      order_id: order.orderId,
+      amount: Math.round(order.amount * 100),
+      currency: order.currency,
+      name: 'SwiftPass',
+      description: order.checkout.recurring ? 'Auto-recharge setup' : 'Wallet recharge',
+      prefill,
+      // Auto-recharge setup saves the card against the gateway customer
+      ...(order.checkout.recurring && { customer_id: order.checkout.customerId, recurring: '1' }),
+      handler: (response: any) => resolve({
+        order_id: response.razorpay_order_id,
+        payment_id: response.razorpay_payment_id,
+        signature: response.razorpay_signature,
+      }),
+      modal: {
+        ondismiss: () => reject(new Error('Payment cancelled')),
+      },
+    });
+
+    checkout.on('payment.failed', (response: any) => {
+      reject(new Error(response?.error?.description || 'Payment failed'));
+    });
+
+    checkout.open();
+  });
+}
+
+// Local development: the fake gateway completes the payment immediately
+async function openFakeCheckout(order: PaymentOrder): Promise<CheckoutResult> {
+  const response = await fetch(`${order.checkout.gatewayUrl}/v1/checkout/${order.orderId}/pay`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ outcome: 'success' }),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result?.error?.description || 'Payment failed');
+  }
+
+  return {
+    order_id: result.razorpay_order_id,
+    payment_id: result.razorpay_payment_id,
+    signature: result.razorpay_signature,
+  };
+}
+
+export function openCheckout(order: PaymentOrder, prefill: CheckoutPrefill = {}): Promise<CheckoutResult> {
+  return order.checkout.mode === 'fake'
+    ? openFakeCheckout(order)
+    : openRazorpayCheckout(order, prefill);
+}
@@ -0,0 +1,74 @@
+import { getAuthHeaders } from '@/lib/supabase';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+async function pushRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`/api/push${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+  });
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Push request failed');
+  }
+
+  return result;
+}
+
+// VAPID keys are base64url; the PushManager wants the raw bytes
+function urlBase64ToUint8Array(value: string): Uint8Array {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+export function isPushSupported(): boolean {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+// Asks for permission, subscribes this browser and registers it with the
+// server for the signed-in user
+export async function enablePush(): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error('This browser does not support push notifications');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site in your browser settings');
+  }
+
+  const { publicKey } = await pushRequest<{ publicKey: string }>('/public-key');
+
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  const registration = await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(publicKey),
+    }));
+
+  await pushRequest('/subscriptions', {
+    method: 'POST',
+    body: JSON.stringify(subscription.toJSON()),
+  });
+}
+
+export async function disablePush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  await pushRequest('/subscriptions', {
+    method: 'DELETE',
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  });
+  await subscription.unsubscribe();
+}
@@ -13,3 +13,10 @@ export const supabase = createClient(
 );
 
 export default supabase;
+
+// Authorization header for calls to the Express API, which validates the
+// Supabase access token and the caller's role on every protected route
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
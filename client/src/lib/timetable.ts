@@ -0,0 +1,70 @@
+import { getAuthHeaders } from '@/lib/supabase';
+import type { DepartureFilters, TimetableDirection, UpcomingDeparture } from '@shared/schema';
+
+export const DIRECTION_LABELS: Record<TimetableDirection, string> = {
+  morning: 'Morning',
+  evening: 'Evening',
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Slot times come from Postgres as HH:MM:SS; the time input wants HH:MM
+export function toTimeInput(time: string): string {
+  return time.slice(0, 5);
+}
+
+export function formatSlotTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString('en-IN', {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function formatDays(days: number[]): string {
+  const sorted = [...days].sort((a, b) => a - b);
+  if (sorted.length === 7) return 'Every day';
+  if (sorted.join() === '1,2,3,4,5') return 'Mon - Fri';
+  if (sorted.join() === '1,2,3,4,5,6') return 'Mon - Sat';
+  return sorted.map((day) => WEEKDAY_LABELS[day]).join(', ');
+}
+
+export function formatDepartureTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+  if (date.toDateString() === new Date().toDateString()) return time;
+
+  const day = date.toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short' });
+  return `${day}, ${time}`;
+}
+
+// Whole minutes a trip started after its scheduled departure; negative when early
+export function minutesLate(startedAt: string, scheduledDeparture: string): number {
+  return Math.round((new Date(startedAt).getTime() - new Date(scheduledDeparture).getTime()) / 60000);
+}
+
+export function formatLateness(minutes: number): string {
+  if (minutes === 0) return 'On time';
+  return minutes > 0 ? `${minutes} min late` : `${-minutes} min early`;
+}
+
+export async function fetchUpcomingDepartures(
+  routeId: string,
+  filters: Partial<DepartureFilters> = {}
+): Promise<UpcomingDeparture[]> {
+  const params = new URLSearchParams();
+  if (filters.stop_id) params.set('stop_id', filters.stop_id);
+  if (filters.limit) params.set('limit', String(filters.limit));
+
+  const query = params.toString();
+  const response = await fetch(`/api/routes/${routeId}/departures${query ? `?${query}` : ''}`, {
+    headers: await getAuthHeaders(),
+  });
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to load departures');
+  }
+
+  return result.departures;
+}
@@ -0,0 +1,28 @@
+import { getAuthHeaders } from '@/lib/supabase';
+import type { Transaction, TransactionType } from '@shared/schema';
+
+// Money coming into the wallet, shown in green with a +
+export const isCreditTransaction = (type: TransactionType) => type === 'recharge' || type === 'refund';
+
+// Fare deductions that can still be refunded
+export const isReversible = (tx: Transaction) =>
+  tx.transaction_type === 'deduction' && tx.status === 'success' && !tx.reversed_at;
+
+// Refunds a fare deduction. Returns the refund transaction and the new balance.
+export async function reverseTransaction(
+  transactionId: string,
+  reason?: string
+): Promise<{ refund: Transaction; balanceAfter: number }> {
+  const response = await fetch(`/api/transactions/${transactionId}/reverse`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    body: JSON.stringify({ reason: reason || undefined }),
+  });
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to refund fare');
+  }
+
+  return { refund: result.refund, balanceAfter: result.balanceAfter };
+}
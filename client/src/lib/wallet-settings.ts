@@ -0,0 +1,58 @@
+import { getAuthHeaders } from '@/lib/supabase';
+import type { CheckoutResult } from '@/lib/payments';
+import type { MandateStatus, PaymentOrder, WalletSettings, WalletSettingsData } from '@shared/schema';
+
+export const MANDATE_STATUS_LABELS: Record<MandateStatus, string> = {
+  none: 'Not set up',
+  pending: 'Awaiting payment',
+  active: 'Card saved',
+  paused: 'Paused',
+  revoked: 'Card removed',
+};
+
+async function walletRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`/api/wallet${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+  });
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Wallet settings request failed');
+  }
+
+  return result;
+}
+
+export async function fetchWalletSettings(): Promise<WalletSettings> {
+  const result = await walletRequest<{ settings: WalletSettings }>('/settings');
+  return result.settings;
+}
+
+export async function saveWalletSettings(data: WalletSettingsData): Promise<WalletSettings> {
+  const result = await walletRequest<{ settings: WalletSettings }>('/settings', {
+    method: 'PUT',
+    body: JSON.stringify(data),
+  });
+  return result.settings;
+}
+
+// The setup order recharges the wallet with the auto-recharge amount and
+// asks the gateway to save the card
+export async function startAutoRechargeSetup(): Promise<PaymentOrder> {
+  const result = await walletRequest<{ order: PaymentOrder }>('/auto-recharge/mandate', { method: 'POST' });
+  return result.order;
+}
+
+export async function confirmAutoRechargeSetup(payment: CheckoutResult): Promise<WalletSettings> {
+  const result = await walletRequest<{ settings: WalletSettings }>('/auto-recharge/mandate/confirm', {
+    method: 'POST',
+    body: JSON.stringify(payment),
+  });
+  return result.settings;
+}
+
+export async function removeAutoRechargeCard(): Promise<WalletSettings> {
+  const result = await walletRequest<{ settings: WalletSettings }>('/auto-recharge/mandate', { method: 'DELETE' });
+  return result.settings;
+}
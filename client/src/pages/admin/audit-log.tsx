@@ -0,0 +1,357 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import type { AuditEvent } from '@shared/schema';
+import { ScrollText, Search, Loader2 } from 'lucide-react';
+
+const PAGE_SIZE = 50;
+
+const ENTITY_LABELS: Record<string, string> = {
+  students: 'Student',
+  drivers: 'Driver',
+  buses: 'Bus',
+  bus_routes: 'Route',
+  route_stops: 'Route Stop',
+  fare_policies: 'Fare Policy',
+  pass_products: 'Pass Product',
+  transactions: 'Transaction',
+  fare_disputes: 'Fare Dispute',
+  notifications: 'Notification',
+  users: 'User',
+};
+
+const ACTION_BADGES: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  create: 'default',
+  insert: 'default',
+  import: 'default',
+  approve: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+  reject: 'destructive',
+};
+
+// Columns that name a row, in order of preference
+const NAME_FIELDS = ['full_name', 'name', 'stop_name', 'route_number', 'bus_number', 'title', 'description', 'email'];
+
+function describeEntity(event: AuditEvent): string {
+  const row = event.after ?? event.before ?? {};
+  const field = NAME_FIELDS.find((key) => typeof row[key] === 'string' && row[key]);
+  return field ? String(row[field]) : event.entity_id ?? '';
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+  changed: boolean;
+}
+
+function diffEvent(event: AuditEvent): FieldChange[] {
+  const before = event.before ?? {};
+  const after = event.after ?? {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  return fields.map((field) => ({
+    field,
+    before: before[field],
+    after: after[field],
+    changed: JSON.stringify(before[field]) !== JSON.stringify(after[field]),
+  }));
+}
+
+export default function AdminAuditLog() {
+  const { toast } = useToast();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [entityType, setEntityType] = useState('all');
+  const [action, setAction] = useState('all');
+  const [actor, setActor] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [selectedEvent, setSelectedEvent] = useState<AuditEvent | null>(null);
+  const [showAllFields, setShowAllFields] = useState(false);
+
+  const fetchEvents = async (offset: number) => {
+    let query = supabase
+      .from('audit_events')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (entityType !== 'all') query = query.eq('entity_type', entityType);
+    if (action !== 'all') query = query.eq('action', action);
+    if (actor.trim()) query = query.ilike('actor_email', `%${actor.trim()}%`);
+    if (from) query = query.gte('created_at', new Date(`${from}T00:00:00`).toISOString());
+    if (to) query = query.lt('created_at', new Date(new Date(`${to}T00:00:00`).getTime() + 86400000).toISOString());
+
+    const { data, error } = await query;
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return [];
+    }
+
+    setHasMore((data || []).length === PAGE_SIZE);
+    return (data || []) as AuditEvent[];
+  };
+
+  useEffect(() => {
+    // Debounce so typing in the actor search doesn't query on every key
+    const timeout = setTimeout(async () => {
+      setEvents(await fetchEvents(0));
+      setLoading(false);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [entityType, action, actor, from, to]);
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    const more = await fetchEvents(events.length);
+    setEvents((current) => [...current, ...more]);
+    setLoadingMore(false);
+  };
+
+  const openEvent = (event: AuditEvent) => {
+    setShowAllFields(event.action !== 'update');
+    setSelectedEvent(event);
+  };
+
+  const changes = selectedEvent ? diffEvent(selectedEvent) : [];
+  const visibleChanges = showAllFields ? changes : changes.filter((change) => change.changed);
+
+  if (loading) {
+    return (
+      <SidebarLayout>
+        <div className="space-y-6">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-96" />
+        </div>
+      </SidebarLayout>
+    );
+  }
+
+  return (
+    <SidebarLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">Audit Log</h1>
+          <p className="text-muted-foreground mt-1">Every change made by an administrator</p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+          <div className="relative flex-1 max-w-sm">
+            <Label htmlFor="audit-actor">Admin</Label>
+            <Search className="absolute left-3 bottom-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="audit-actor"
+              placeholder="Search by email..."
+              value={actor}
+              onChange={(e) => setActor(e.target.value)}
+              className="pl-10"
+              data-testid="input-audit-actor"
+            />
+          </div>
+          <div className="lg:w-44">
+            <Label>Entity</Label>
+            <Select value={entityType} onValueChange={setEntityType}>
+              <SelectTrigger data-testid="select-audit-entity">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Entities</SelectItem>
+                {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="lg:w-36">
+            <Label>Action</Label>
+            <Select value={action} onValueChange={setAction}>
+              <SelectTrigger data-testid="select-audit-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Actions</SelectItem>
+                <SelectItem value="insert">Insert</SelectItem>
+                <SelectItem value="update">Update</SelectItem>
+                <SelectItem value="delete">Delete</SelectItem>
+                <SelectItem value="create">Create</SelectItem>
+                <SelectItem value="import">Import</SelectItem>
+                <SelectItem value="approve">Approve</SelectItem>
+                <SelectItem value="reject">Reject</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {/* Events Table */}
+        <Card>
+          <CardContent className="p-0">
+            {events.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-16 text-center">
+                <ScrollText className="h-16 w-16 text-muted-foreground mb-4" />
+                <h3 className="text-lg font-medium">No audit events found</h3>
+                <p className="text-muted-foreground mt-2">
+                  {entityType !== 'all' || action !== 'all' || actor || from || to
+                    ? 'Try adjusting your filters'
+                    : 'Changes made by administrators will appear here'}
+                </p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left p-4 font-medium text-muted-foreground">Date</th>
+                      <th className="text-left p-4 font-medium text-muted-foreground">Admin</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Action</th>
+                      <th className="text-left p-4 font-medium text-muted-foreground">Entity</th>
+                      <th className="text-right p-4 font-medium text-muted-foreground">Changes</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {events.map((event) => (
+                      <tr
+                        key={event.id}
+                        className="border-b hover:bg-muted/30 cursor-pointer"
+                        onClick={() => openEvent(event)}
+                        data-testid={`audit-row-${event.id}`}
+                      >
+                        <td className="p-4 text-sm whitespace-nowrap">
+                          {new Date(event.created_at).toLocaleString('en-IN', {
+                            day: 'numeric',
+                            month: 'short',
+                            year: 'numeric',
+                            hour: '2-digit',
+                            minute: '2-digit',
+                            second: '2-digit',
+                          })}
+                        </td>
+                        <td className="p-4 text-sm">{event.actor_email || 'Deleted user'}</td>
+                        <td className="p-4 text-center">
+                          <Badge variant={ACTION_BADGES[event.action] || 'outline'} className="capitalize">
+                            {event.action}
+                          </Badge>
+                        </td>
+                        <td className="p-4">
+                          <p className="font-medium">{ENTITY_LABELS[event.entity_type] || event.entity_type}</p>
+                          <p className="text-sm text-muted-foreground truncate max-w-xs">{describeEntity(event)}</p>
+                        </td>
+                        <td className="p-4 text-right text-sm text-muted-foreground">
+                          {event.action === 'update'
+                            ? `${diffEvent(event).filter((change) => change.changed).length} fields`
+                            : 'View'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {hasMore && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={loadMore} disabled={loadingMore} data-testid="button-audit-load-more">
+              {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Load more
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Diff Dialog */}
+      <Dialog open={!!selectedEvent} onOpenChange={(open) => !open && setSelectedEvent(null)}>
+        <DialogContent className="max-w-3xl">
+          {selectedEvent && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="capitalize">
+                  {selectedEvent.action} {ENTITY_LABELS[selectedEvent.entity_type] || selectedEvent.entity_type}
+                </DialogTitle>
+                <DialogDescription>
+                  {describeEntity(selectedEvent)} &middot; by {selectedEvent.actor_email || 'Deleted user'} on{' '}
+                  {new Date(selectedEvent.created_at).toLocaleString('en-IN')}
+                </DialogDescription>
+              </DialogHeader>
+              {selectedEvent.action === 'update' && (
+                <div className="flex items-center gap-2">
+                  <Switch id="audit-all-fields" checked={showAllFields} onCheckedChange={setShowAllFields} />
+                  <Label htmlFor="audit-all-fields">Show unchanged fields</Label>
+                </div>
+              )}
+              <div className="max-h-[60vh] overflow-auto border rounded-md">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left p-2 font-medium text-muted-foreground">Field</th>
+                      <th className="text-left p-2 font-medium text-muted-foreground">Before</th>
+                      <th className="text-left p-2 font-medium text-muted-foreground">After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleChanges.map((change) => (
+                      <tr key={change.field} className="border-b align-top">
+                        <td className="p-2 font-mono text-xs">{change.field}</td>
+                        <td className={`p-2 break-all ${change.changed && selectedEvent.before ? 'bg-destructive/10' : ''}`}>
+                          {selectedEvent.before ? formatValue(change.before) : ''}
+                        </td>
+                        <td className={`p-2 break-all ${change.changed && selectedEvent.after ? 'bg-chart-2/10' : ''}`}>
+                          {selectedEvent.after ? formatValue(change.after) : ''}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </SidebarLayout>
+  );
+}
@@ -5,7 +5,8 @@ import { SidebarLayout } from '@/components/layout/sidebar-layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import type { AdminStats, Transaction } from '@shared/schema';
+import { Badge } from '@/components/ui/badge';
+import type { AdminStats, Transaction, ScanSyncConflict } from '@shared/schema';
 import {
   BarChart,
   Bar,
@@ -33,11 +34,18 @@ import {
 
 const COLORS = ['#1976d2', '#2e7d32', '#f57c00', '#c62828'];
 
+const SYNC_CONFLICT_LABELS: Record<ScanSyncConflict, string> = {
+  duplicate: 'Duplicate',
+  negative_balance: 'Negative balance',
+  rejected: 'Rejected',
+};
+
 export default function AdminDashboard() {
   const [stats, setStats] = useState<AdminStats | null>(null);
   const [recentTransactions, setRecentTransactions] = useState<Transaction[]>([]);
   const [walletDistribution, setWalletDistribution] = useState<any[]>([]);
   const [monthlyRevenue, setMonthlyRevenue] = useState<any[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -131,6 +139,15 @@ export default function AdminDashboard() {
         .limit(5);
       if (txData) setRecentTransactions(txData);
 
+      // Get offline scans that settled differently on sync
+      const { data: conflictData } = await supabase
+        .from('scan_logs')
+        .select('*, students(full_name, enrollment_no), buses(bus_number)')
+        .not('sync_conflict', 'is', null)
+        .order('scan_timestamp', { ascending: false })
+        .limit(10);
+      if (conflictData) setSyncConflicts(conflictData);
+
       setLoading(false);
     };
 
@@ -287,6 +304,39 @@ export default function AdminDashboard() {
           </Link>
         </div>
 
+        {/* Offline Sync Conflicts */}
+        {syncConflicts.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-chart-3" />
+                Offline Scan Conflicts
+              </CardTitle>
+              <CardDescription>Scans accepted offline by drivers that settled differently on sync</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {syncConflicts.map((scan) => (
+                  <div key={scan.id} className="flex items-center justify-between gap-4 py-2 border-b last:border-0">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{scan.students?.full_name || 'Unknown student'}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {scan.buses?.bus_number} • {new Date(scan.scan_timestamp).toLocaleString('en-IN')}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <span className="text-sm text-muted-foreground">₹{Number(scan.balance_after_scan).toFixed(2)}</span>
+                      <Badge variant={scan.sync_conflict === 'negative_balance' ? 'destructive' : 'secondary'}>
+                        {SYNC_CONFLICT_LABELS[scan.sync_conflict as ScanSyncConflict]}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Charts */}
         <div className="grid gap-6 lg:grid-cols-2">
           {/* Revenue Chart */}
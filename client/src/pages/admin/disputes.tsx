@@ -0,0 +1,278 @@
+import { useEffect, useState } from 'react';
+import { DISPUTE_REASON_LABELS, DISPUTE_STATUS_LABELS, fetchDispute, fetchDisputes, resolveDispute } from '@/lib/disputes';
+import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { DisputeThread } from '@/components/dispute-thread';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import type { DisputeStatus, FareDisputeDetail, FareDisputeWithDetails, ResolveDisputeData } from '@shared/schema';
+import { CheckCircle2, Flag, Loader2, XCircle } from 'lucide-react';
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const STATUS_BADGES: Record<DisputeStatus, 'default' | 'secondary' | 'destructive'> = {
+  open: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+};
+
+export default function AdminDisputes() {
+  const { toast } = useToast();
+  const [disputes, setDisputes] = useState<FareDisputeWithDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<string>('open');
+  const [selected, setSelected] = useState<FareDisputeDetail | null>(null);
+  const [note, setNote] = useState('');
+  const [resolving, setResolving] = useState<ResolveDisputeData['decision'] | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchDisputes(filterStatus === 'all' ? undefined : (filterStatus as DisputeStatus))
+      .then(setDisputes)
+      .catch((err) => toast({ title: 'Error', description: err.message, variant: 'destructive' }))
+      .finally(() => setLoading(false));
+  }, [filterStatus]);
+
+  const openReview = async (dispute: FareDisputeWithDetails) => {
+    try {
+      setSelected(await fetchDispute(dispute.id));
+      setNote('');
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  const handleResolve = async (decision: ResolveDisputeData['decision']) => {
+    if (!selected) return;
+    if (decision === 'approve' && !confirm(`Refund ₹${Number(selected.transaction?.amount ?? 0).toFixed(2)}?`)) return;
+
+    setResolving(decision);
+    try {
+      const resolved = await resolveDispute(selected.id, { decision, note: note.trim() || undefined });
+      setDisputes((prev) =>
+        filterStatus === 'open'
+          ? prev.filter((d) => d.id !== resolved.id)
+          : prev.map((d) => (d.id === resolved.id ? { ...d, ...resolved } : d))
+      );
+      setSelected(null);
+      toast({ title: decision === 'approve' ? 'Dispute approved and fare refunded' : 'Dispute rejected' });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const scan = selected?.scan_log;
+
+  return (
+    <SidebarLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">Fare Disputes</h1>
+            <p className="text-muted-foreground mt-1">Review charges students have disputed</p>
+          </div>
+          <Select value={filterStatus} onValueChange={setFilterStatus}>
+            <SelectTrigger className="w-full sm:w-40" data-testid="select-dispute-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Disputes Table */}
+        <Card>
+          <CardContent className="p-0">
+            {loading ? (
+              <div className="p-4 space-y-3">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-12" />
+                ))}
+              </div>
+            ) : disputes.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-16 text-center">
+                <Flag className="h-16 w-16 text-muted-foreground mb-4" />
+                <h3 className="text-lg font-medium">No disputes</h3>
+                <p className="text-muted-foreground mt-2">
+                  {filterStatus === 'open' ? 'Every dispute has been resolved' : 'Try another status'}
+                </p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left p-4 font-medium text-muted-foreground">Student</th>
+                      <th className="text-left p-4 font-medium text-muted-foreground">Reason</th>
+                      <th className="text-right p-4 font-medium text-muted-foreground">Fare</th>
+                      <th className="text-left p-4 font-medium text-muted-foreground">Charged</th>
+                      <th className="text-left p-4 font-medium text-muted-foreground">Opened</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Status</th>
+                      <th className="text-right p-4 font-medium text-muted-foreground">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {disputes.map((dispute) => (
+                      <tr key={dispute.id} className="border-b hover:bg-muted/30" data-testid={`dispute-row-${dispute.id}`}>
+                        <td className="p-4">
+                          <p className="font-medium">{dispute.student?.full_name || 'Unknown'}</p>
+                          <p className="text-sm text-muted-foreground">{dispute.student?.enrollment_no}</p>
+                        </td>
+                        <td className="p-4">{DISPUTE_REASON_LABELS[dispute.reason]}</td>
+                        <td className="p-4 text-right font-semibold">
+                          ₹{Number(dispute.transaction?.amount ?? 0).toFixed(2)}
+                        </td>
+                        <td className="p-4 text-sm">
+                          {dispute.transaction ? formatDateTime(dispute.transaction.created_at) : '-'}
+                        </td>
+                        <td className="p-4 text-sm">{formatDateTime(dispute.created_at)}</td>
+                        <td className="p-4 text-center">
+                          <Badge variant={STATUS_BADGES[dispute.status]}>{DISPUTE_STATUS_LABELS[dispute.status]}</Badge>
+                        </td>
+                        <td className="p-4 text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openReview(dispute)}
+                            data-testid={`button-review-dispute-${dispute.id}`}
+                          >
+                            Review
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Review Dialog */}
+        <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>
+                {selected?.student?.full_name || 'Dispute'} · {selected && DISPUTE_REASON_LABELS[selected.reason]}
+              </DialogTitle>
+            </DialogHeader>
+            {selected && (
+              <div className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="rounded-lg border p-3 text-sm space-y-1">
+                    <p className="font-medium">Charge</p>
+                    <p>₹{Number(selected.transaction?.amount ?? 0).toFixed(2)}</p>
+                    <p className="text-muted-foreground">{selected.transaction?.description || 'No description'}</p>
+                    <p className="text-muted-foreground">
+                      {selected.transaction && formatDateTime(selected.transaction.created_at)}
+                    </p>
+                  </div>
+                  <div className="rounded-lg border p-3 text-sm space-y-1">
+                    <p className="font-medium">Scan</p>
+                    {scan ? (
+                      <>
+                        <p>
+                          Bus {scan.bus?.bus_number || 'Unknown'} · {scan.driver?.full_name || 'Unknown driver'}
+                        </p>
+                        <p className="text-muted-foreground">{formatDateTime(scan.scan_timestamp)}</p>
+                        <p className="text-muted-foreground capitalize">
+                          {scan.scan_status.replace(/_/g, ' ')}
+                          {scan.is_offline ? ' · scanned offline' : ''}
+                          {scan.sync_conflict ? ` · ${scan.sync_conflict.replace(/_/g, ' ')}` : ''}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-muted-foreground">No scan is linked to this charge</p>
+                    )}
+                  </div>
+                </div>
+
+                <DisputeThread
+                  dispute={selected}
+                  viewerRole="admin"
+                  onCommentAdded={(comment) =>
+                    setSelected((prev) => prev && { ...prev, comments: [...prev.comments, comment] })
+                  }
+                />
+
+                {selected.status === 'open' ? (
+                  <div className="space-y-3 border-t pt-4">
+                    <div>
+                      <Label htmlFor="resolution-note">Resolution note (sent to the student)</Label>
+                      <Textarea
+                        id="resolution-note"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        rows={2}
+                        maxLength={500}
+                        data-testid="input-resolution-note"
+                      />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => handleResolve('reject')}
+                        disabled={!!resolving}
+                        data-testid="button-reject-dispute"
+                      >
+                        {resolving === 'reject' ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <XCircle className="h-4 w-4 mr-2" />
+                        )}
+                        Reject
+                      </Button>
+                      <Button
+                        onClick={() => handleResolve('approve')}
+                        disabled={!!resolving}
+                        data-testid="button-approve-dispute"
+                      >
+                        {resolving === 'approve' ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <CheckCircle2 className="h-4 w-4 mr-2" />
+                        )}
+                        Approve &amp; Refund
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="rounded-lg border p-3 text-sm">
+                    <p className="font-medium">
+                      {DISPUTE_STATUS_LABELS[selected.status]}
+                      {selected.resolved_at ? ` on ${formatDateTime(selected.resolved_at)}` : ''}
+                      {selected.refund_transaction_id ? ' · fare refunded' : ''}
+                    </p>
+                    {selected.resolution_note && (
+                      <p className="text-muted-foreground mt-1">{selected.resolution_note}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </SidebarLayout>
+  );
+}
@@ -0,0 +1,402 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { defaultFarePolicy, describeFarePolicy } from '@/lib/fares';
+import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { farePolicySchema, type BusRoute, type FarePeakPeriod, type FarePolicy } from '@shared/schema';
+import { Edit, IndianRupee, Plus, Route, Trash2, X } from 'lucide-react';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface PolicyForm {
+  ride_fare: string;
+  peak_fare: string;
+  peak_periods: FarePeakPeriod[];
+  max_rides_per_day: string;
+  daily_cap: string;
+  weekly_cap: string;
+  monthly_cap: string;
+  free_return_window_minutes: string;
+  is_active: boolean;
+}
+
+const toField = (value: number | null) => (value === null ? '' : String(value));
+const fromField = (value: string) => (value.trim() === '' ? null : Number(value));
+
+function toForm(policy: FarePolicy): PolicyForm {
+  return {
+    ride_fare: String(policy.ride_fare),
+    peak_fare: toField(policy.peak_fare),
+    peak_periods: policy.peak_periods,
+    max_rides_per_day: toField(policy.max_rides_per_day),
+    daily_cap: toField(policy.daily_cap),
+    weekly_cap: toField(policy.weekly_cap),
+    monthly_cap: toField(policy.monthly_cap),
+    free_return_window_minutes: toField(policy.free_return_window_minutes),
+    is_active: policy.is_active,
+  };
+}
+
+export default function AdminFarePolicies() {
+  const { toast } = useToast();
+  const [routes, setRoutes] = useState<BusRoute[]>([]);
+  const [policies, setPolicies] = useState<Record<string, FarePolicy>>({});
+  const [loading, setLoading] = useState(true);
+  const [editingRoute, setEditingRoute] = useState<BusRoute | null>(null);
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchData = async () => {
+    const [{ data: routesData }, { data: policiesData }] = await Promise.all([
+      supabase.from('bus_routes').select('*').order('route_number'),
+      supabase.from('fare_policies').select('*'),
+    ]);
+
+    if (routesData) setRoutes(routesData);
+    if (policiesData) {
+      setPolicies(Object.fromEntries(policiesData.map((policy: FarePolicy) => [policy.route_id, policy])));
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const openEditor = (route: BusRoute) => {
+    setEditingRoute(route);
+    setForm(toForm(policies[route.id] ?? defaultFarePolicy(route)));
+  };
+
+  const closeEditor = () => {
+    setEditingRoute(null);
+    setForm(null);
+  };
+
+  const updatePeriod = (index: number, changes: Partial<FarePeakPeriod>) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      peak_periods: form.peak_periods.map((period, i) => (i === index ? { ...period, ...changes } : period)),
+    });
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    if (!form) return;
+    const days = form.peak_periods[index].days;
+    updatePeriod(index, {
+      days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort((a, b) => a - b),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editingRoute || !form) return;
+
+    const parsed = farePolicySchema.safeParse({
+      ride_fare: Number(form.ride_fare),
+      peak_fare: fromField(form.peak_fare),
+      peak_periods: form.peak_periods,
+      max_rides_per_day: fromField(form.max_rides_per_day),
+      daily_cap: fromField(form.daily_cap),
+      weekly_cap: fromField(form.weekly_cap),
+      monthly_cap: fromField(form.monthly_cap),
+      free_return_window_minutes: fromField(form.free_return_window_minutes),
+      is_active: form.is_active,
+    });
+
+    if (!parsed.success) {
+      toast({ title: 'Error', description: parsed.error.errors[0]?.message, variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('fare_policies')
+        .upsert(
+          { ...parsed.data, route_id: editingRoute.id, updated_at: new Date().toISOString() },
+          { onConflict: 'route_id' }
+        );
+
+      if (error) throw error;
+      toast({ title: 'Success', description: `Fare policy saved for ${editingRoute.route_number}` });
+      closeEditor();
+      fetchData();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async (route: BusRoute) => {
+    if (!confirm(`Remove the fare policy for ${route.route_number}? The route will go back to its daily fare.`)) return;
+
+    try {
+      const { error } = await supabase.from('fare_policies').delete().eq('route_id', route.id);
+      if (error) throw error;
+      toast({ title: 'Success', description: 'Fare policy removed' });
+      fetchData();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <SidebarLayout>
+        <div className="space-y-6">
+          <Skeleton className="h-8 w-48" />
+          <div className="grid gap-4 md:grid-cols-2">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-48" />
+            ))}
+          </div>
+        </div>
+      </SidebarLayout>
+    );
+  }
+
+  return (
+    <SidebarLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">Fare Policies</h1>
+          <p className="text-muted-foreground mt-1">Per-ride fares, caps, free returns and peak pricing for each route</p>
+        </div>
+
+        {routes.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+              <Route className="h-16 w-16 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium">No routes yet</h3>
+              <p className="text-muted-foreground mt-2">Add a route before setting up its fares</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {routes.map((route) => {
+              const policy = policies[route.id];
+              const effective = policy?.is_active ? policy : defaultFarePolicy(route);
+
+              return (
+                <Card key={route.id} data-testid={`fare-policy-card-${route.id}`}>
+                  <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                    <div>
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        {route.route_number}
+                        {policy ? (
+                          <Badge variant={policy.is_active ? 'default' : 'secondary'}>
+                            {policy.is_active ? 'Custom' : 'Inactive'}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">Default</Badge>
+                        )}
+                      </CardTitle>
+                      <CardDescription>{route.route_name}</CardDescription>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => openEditor(route)} data-testid={`button-edit-policy-${route.id}`}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      {policy && (
+                        <Button variant="ghost" size="icon" onClick={() => handleReset(route)} className="text-destructive">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="space-y-1 text-sm text-muted-foreground">
+                      {describeFarePolicy(effective).map((line) => (
+                        <li key={line} className="flex items-start gap-2">
+                          <IndianRupee className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                          <span>{line}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <Dialog open={!!editingRoute} onOpenChange={(open) => { if (!open) closeEditor(); }}>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Fare Policy - {editingRoute?.route_number}</DialogTitle>
+            </DialogHeader>
+            {form && (
+              <div className="space-y-4 py-2">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="ride_fare">Fare per Ride (₹)</Label>
+                    <Input
+                      id="ride_fare"
+                      type="number"
+                      min={0}
+                      value={form.ride_fare}
+                      onChange={(e) => setForm({ ...form, ride_fare: e.target.value })}
+                      data-testid="input-ride-fare"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="max_rides_per_day">Rides per Day</Label>
+                    <Input
+                      id="max_rides_per_day"
+                      type="number"
+                      min={1}
+                      placeholder="Unlimited"
+                      value={form.max_rides_per_day}
+                      onChange={(e) => setForm({ ...form, max_rides_per_day: e.target.value })}
+                      data-testid="input-max-rides"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="daily_cap">Daily Cap (₹)</Label>
+                    <Input
+                      id="daily_cap"
+                      type="number"
+                      min={0}
+                      placeholder="None"
+                      value={form.daily_cap}
+                      onChange={(e) => setForm({ ...form, daily_cap: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="weekly_cap">Weekly Cap (₹)</Label>
+                    <Input
+                      id="weekly_cap"
+                      type="number"
+                      min={0}
+                      placeholder="None"
+                      value={form.weekly_cap}
+                      onChange={(e) => setForm({ ...form, weekly_cap: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="monthly_cap">Monthly Cap (₹)</Label>
+                    <Input
+                      id="monthly_cap"
+                      type="number"
+                      min={0}
+                      placeholder="None"
+                      value={form.monthly_cap}
+                      onChange={(e) => setForm({ ...form, monthly_cap: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="free_return_window_minutes">Free Return Window (minutes)</Label>
+                  <Input
+                    id="free_return_window_minutes"
+                    type="number"
+                    min={1}
+                    placeholder="No free return"
+                    value={form.free_return_window_minutes}
+                    onChange={(e) => setForm({ ...form, free_return_window_minutes: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    A ride within this time of a charged ride is free.
+                  </p>
+                </div>
+
+                <div className="space-y-3 rounded-lg border p-3">
+                  <div>
+                    <Label htmlFor="peak_fare">Peak Fare (₹)</Label>
+                    <Input
+                      id="peak_fare"
+                      type="number"
+                      min={0}
+                      placeholder="No peak pricing"
+                      value={form.peak_fare}
+                      onChange={(e) => setForm({ ...form, peak_fare: e.target.value })}
+                    />
+                  </div>
+
+                  {form.peak_periods.map((period, index) => (
+                    <div key={index} className="space-y-2 rounded-md bg-muted/50 p-2">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="time"
+                          value={period.start}
+                          onChange={(e) => updatePeriod(index, { start: e.target.value })}
+                        />
+                        <span className="text-muted-foreground">to</span>
+                        <Input
+                          type="time"
+                          value={period.end}
+                          onChange={(e) => updatePeriod(index, { end: e.target.value })}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setForm({ ...form, peak_periods: form.peak_periods.filter((_, i) => i !== index) })}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {WEEKDAY_LABELS.map((label, day) => (
+                          <Button
+                            key={label}
+                            type="button"
+                            size="sm"
+                            variant={period.days.includes(day) ? 'default' : 'outline'}
+                            className="h-7 px-2 text-xs"
+                            onClick={() => toggleDay(index, day)}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setForm({
+                      ...form,
+                      peak_periods: [...form.peak_periods, { days: [1, 2, 3, 4, 5], start: '08:00', end: '10:00' }],
+                    })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Peak Period
+                  </Button>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="policy_active">Policy active</Label>
+                  <Switch
+                    id="policy_active"
+                    checked={form.is_active}
+                    onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+                  />
+                </div>
+
+                <Button onClick={handleSave} className="w-full" disabled={saving} data-testid="button-save-policy">
+                  Save Policy
+                </Button>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </SidebarLayout>
+  );
+}
@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import {
+  DELIVERY_STATUS_LABELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  fetchDeliveries,
+  retryDelivery,
+} from '@/lib/notifications';
+import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import type { DeliveryStatus, NotificationChannel, NotificationDelivery } from '@shared/schema';
+import { Loader2, RotateCcw, Send } from 'lucide-react';
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const STATUS_BADGES: Record<DeliveryStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  sending: 'outline',
+  sent: 'default',
+  failed: 'destructive',
+};
+
+export default function AdminNotificationDeliveries() {
+  const { toast } = useToast();
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [filterChannel, setFilterChannel] = useState<string>('all');
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchDeliveries({
+      status: filterStatus === 'all' ? undefined : (filterStatus as DeliveryStatus),
+      channel: filterChannel === 'all' ? undefined : (filterChannel as NotificationChannel),
+    })
+      .then(setDeliveries)
+      .catch((err) => toast({ title: 'Error', description: err.message, variant: 'destructive' }))
+      .finally(() => setLoading(false));
+  }, [filterStatus, filterChannel]);
+
+  const handleRetry = async (delivery: NotificationDelivery) => {
+    setRetryingId(delivery.id);
+    try {
+      const updated = await retryDelivery(delivery.id);
+      setDeliveries((prev) => prev.map((d) => (d.id === updated.id ? updated : d)));
+      toast({ title: 'Delivery queued again' });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <SidebarLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">Notification Deliveries</h1>
+            <p className="text-muted-foreground mt-1">Emails, text messages and push notifications sent for notifications</p>
+          </div>
+          <div className="flex gap-2">
+            <Select value={filterChannel} onValueChange={setFilterChannel}>
+              <SelectTrigger className="w-full sm:w-32" data-testid="select-delivery-channel">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All channels</SelectItem>
+                <SelectItem value="email">Email</SelectItem>
+                <SelectItem value="sms">SMS</SelectItem>
+                <SelectItem value="push">Push</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={filterStatus} onValueChange={setFilterStatus}>
+              <SelectTrigger className="w-full sm:w-32" data-testid="select-delivery-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="sending">Sending</SelectItem>
+                <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Deliveries Table */}
+        <Card>
+          <CardContent className="p-0">
+            {loading ? (
+              <div className="p-4 space-y-3">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-12" />
+                ))}
+              </div>
+            ) : deliveries.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-16 text-center">
+                <Send className="h-16 w-16 text-muted-foreground mb-4" />
+                <h3 className="text-lg font-medium">No deliveries</h3>
+                <p className="text-muted-foreground mt-2">Try another status or channel</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left p-4 font-medium text-muted-foreground">Notification</th>
+                      <th className="text-left p-4 font-medium text-muted-foreground">Recipient</th>
+                      <th className="text-left p-4 font-medium text-muted-foreground">Created</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Attempts</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Status</th>
+                      <th className="text-right p-4 font-medium text-muted-foreground">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {deliveries.map((delivery) => (
+                      <tr key={delivery.id} className="border-b hover:bg-muted/30" data-testid={`delivery-row-${delivery.id}`}>
+                        <td className="p-4">
+                          <p className="font-medium">{delivery.title}</p>
+                          <p className="text-sm text-muted-foreground capitalize">{delivery.type.replace(/_/g, ' ')}</p>
+                        </td>
+                        <td className="p-4">
+                          {/* A push recipient is the browser's subscription URL */}
+                          <p className="max-w-64 truncate" title={delivery.recipient}>
+                            {delivery.channel === 'push' ? new URL(delivery.recipient).host : delivery.recipient}
+                          </p>
+                          <p className="text-sm text-muted-foreground">{NOTIFICATION_CHANNEL_LABELS[delivery.channel]}</p>
+                        </td>
+                        <td className="p-4 text-sm">
+                          {formatDateTime(delivery.created_at)}
+                          {delivery.sent_at && (
+                            <p className="text-muted-foreground">Sent {formatDateTime(delivery.sent_at)}</p>
+                          )}
+                        </td>
+                        <td className="p-4 text-center">{delivery.attempts}</td>
+                        <td className="p-4 text-center">
+                          <Badge variant={STATUS_BADGES[delivery.status]}>{DELIVERY_STATUS_LABELS[delivery.status]}</Badge>
+                          {delivery.last_error && delivery.status !== 'sent' && (
+                            <p className="text-xs text-muted-foreground mt-1 max-w-48 mx-auto truncate" title={delivery.last_error}>
+                              {delivery.last_error}
+                            </p>
+                          )}
+                        </td>
+                        <td className="p-4 text-right">
+                          {delivery.status === 'failed' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRetry(delivery)}
+                              disabled={retryingId !== null}
+                              data-testid={`button-retry-delivery-${delivery.id}`}
+                            >
+                              {retryingId === delivery.id ? (
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                              ) : (
+                                <RotateCcw className="h-4 w-4 mr-2" />
+                              )}
+                              Retry
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </SidebarLayout>
+  );
+}
@@ -0,0 +1,346 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { PASS_PERIOD_LABELS, localDate } from '@/lib/passes';
+import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { passProductSchema, type BusRoute, type PassPeriod, type PassProduct } from '@shared/schema';
+import { Calendar, Edit, IndianRupee, Plus, Ticket, Trash2, Users } from 'lucide-react';
+
+// Suggested duration when the period is picked; the admin can still change it
+const DEFAULT_DURATION_DAYS: Record<PassPeriod, number> = {
+  monthly: 30,
+  semester: 180,
+};
+
+const emptyForm = {
+  route_id: '',
+  name: '',
+  period: 'monthly' as PassPeriod,
+  duration_days: '30',
+  price: '',
+  is_active: true,
+};
+
+export default function AdminPassProducts() {
+  const { toast } = useToast();
+  const [products, setProducts] = useState<PassProduct[]>([]);
+  const [routes, setRoutes] = useState<BusRoute[]>([]);
+  const [activeCounts, setActiveCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<PassProduct | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchData = async () => {
+    const today = localDate();
+
+    const [{ data: productsData }, { data: routesData }, { data: subscriptionsData }] = await Promise.all([
+      supabase.from('pass_products').select('*').order('price'),
+      supabase.from('bus_routes').select('*').order('route_number'),
+      supabase
+        .from('pass_subscriptions')
+        .select('product_id')
+        .eq('status', 'active')
+        .lte('valid_from', today)
+        .gte('valid_until', today),
+    ]);
+
+    if (productsData) setProducts(productsData);
+    if (routesData) setRoutes(routesData);
+    if (subscriptionsData) {
+      const counts: Record<string, number> = {};
+      subscriptionsData.forEach((sub: { product_id: string }) => {
+        counts[sub.product_id] = (counts[sub.product_id] || 0) + 1;
+      });
+      setActiveCounts(counts);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const resetForm = () => {
+    setEditingProduct(null);
+    setFormData(emptyForm);
+  };
+
+  const openEditDialog = (product: PassProduct) => {
+    setEditingProduct(product);
+    setFormData({
+      route_id: product.route_id,
+      name: product.name,
+      period: product.period,
+      duration_days: String(product.duration_days),
+      price: String(product.price),
+      is_active: product.is_active,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.route_id) {
+      toast({ title: 'Error', description: 'Route is required', variant: 'destructive' });
+      return;
+    }
+
+    const parsed = passProductSchema.safeParse({
+      name: formData.name.trim(),
+      period: formData.period,
+      duration_days: Number(formData.duration_days),
+      price: Number(formData.price),
+      is_active: formData.is_active,
+    });
+
+    if (!parsed.success) {
+      toast({ title: 'Error', description: parsed.error.errors[0]?.message, variant: 'destructive' });
+      return;
+    }
+
+    try {
+      if (editingProduct) {
+        const { error } = await supabase
+          .from('pass_products')
+          .update({ ...parsed.data, route_id: formData.route_id, updated_at: new Date().toISOString() })
+          .eq('id', editingProduct.id);
+
+        if (error) throw error;
+        toast({ title: 'Success', description: 'Pass updated successfully' });
+      } else {
+        const { error } = await supabase
+          .from('pass_products')
+          .insert({ ...parsed.data, route_id: formData.route_id });
+
+        if (error) throw error;
+        toast({ title: 'Success', description: 'Pass added successfully' });
+      }
+
+      setDialogOpen(false);
+      resetForm();
+      fetchData();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (product: PassProduct) => {
+    if (!confirm(`Delete ${product.name}?`)) return;
+
+    try {
+      const { error } = await supabase.from('pass_products').delete().eq('id', product.id);
+      // Sold passes are kept for their subscriptions (foreign key violation)
+      if (error?.code === '23503') {
+        throw new Error('This pass has already been sold. Make it inactive instead.');
+      }
+      if (error) throw error;
+      toast({ title: 'Success', description: 'Pass deleted successfully' });
+      fetchData();
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  const routeLabel = (routeId: string) => {
+    const route = routes.find((r) => r.id === routeId);
+    return route ? `${route.route_number} - ${route.route_name}` : 'Unknown route';
+  };
+
+  if (loading) {
+    return (
+      <SidebarLayout>
+        <div className="space-y-6">
+          <Skeleton className="h-8 w-48" />
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-48" />
+            ))}
+          </div>
+        </div>
+      </SidebarLayout>
+    );
+  }
+
+  return (
+    <SidebarLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">Pass Products</h1>
+            <p className="text-muted-foreground mt-1">Monthly and semester passes students can buy for their route</p>
+          </div>
+          <Dialog open={dialogOpen} onOpenChange={(open) => { setDialogOpen(open); if (!open) resetForm(); }}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-add-pass-product">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Pass
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{editingProduct ? 'Edit Pass' : 'Add New Pass'}</DialogTitle>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div>
+                  <Label>Route</Label>
+                  <Select
+                    value={formData.route_id}
+                    onValueChange={(value) => setFormData({ ...formData, route_id: value })}
+                  >
+                    <SelectTrigger data-testid="select-pass-route">
+                      <SelectValue placeholder="Choose a route" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {routes.map((route) => (
+                        <SelectItem key={route.id} value={route.id}>
+                          {route.route_number} - {route.route_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="pass_name">Name</Label>
+                  <Input
+                    id="pass_name"
+                    placeholder="e.g. R1 Monthly Pass"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    data-testid="input-pass-name"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Period</Label>
+                    <Select
+                      value={formData.period}
+                      onValueChange={(value: PassPeriod) => setFormData({
+                        ...formData,
+                        period: value,
+                        duration_days: String(DEFAULT_DURATION_DAYS[value]),
+                      })}
+                    >
+                      <SelectTrigger data-testid="select-pass-period">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(PASS_PERIOD_LABELS) as PassPeriod[]).map((period) => (
+                          <SelectItem key={period} value={period}>
+                            {PASS_PERIOD_LABELS[period]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="duration_days">Valid for (days)</Label>
+                    <Input
+                      id="duration_days"
+                      type="number"
+                      min={1}
+                      value={formData.duration_days}
+                      onChange={(e) => setFormData({ ...formData, duration_days: e.target.value })}
+                      data-testid="input-pass-duration"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="pass_price">Price (₹)</Label>
+                  <Input
+                    id="pass_price"
+                    type="number"
+                    min={0}
+                    value={formData.price}
+                    onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                    data-testid="input-pass-price"
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="pass_active">Available for purchase</Label>
+                  <Switch
+                    id="pass_active"
+                    checked={formData.is_active}
+                    onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+                  />
+                </div>
+                <Button onClick={handleSubmit} className="w-full" data-testid="button-submit-pass-product">
+                  {editingProduct ? 'Update Pass' : 'Add Pass'}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Products Grid */}
+        {products.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+              <Ticket className="h-16 w-16 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium">No passes yet</h3>
+              <p className="text-muted-foreground mt-2">Add a monthly or semester pass for a route</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {products.map((product) => (
+              <Card key={product.id} data-testid={`pass-product-card-${product.id}`}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                  <div>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      {product.name}
+                      <Badge variant={product.is_active ? 'default' : 'secondary'}>
+                        {product.is_active ? PASS_PERIOD_LABELS[product.period] : 'Inactive'}
+                      </Badge>
+                    </CardTitle>
+                    <CardDescription>{routeLabel(product.route_id)}</CardDescription>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => openEditDialog(product)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(product)} className="text-destructive">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      <IndianRupee className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-muted-foreground">Price</span>
+                    </div>
+                    <span className="font-medium">₹{product.price}</span>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      <Calendar className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-muted-foreground">Valid for</span>
+                    </div>
+                    <span className="font-medium">{product.duration_days} days</span>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      <Users className="h-4 w-4 text-muted-foreground" />
+                      <span className="text-muted-foreground">Active holders</span>
+                    </div>
+                    <span className="font-medium">{activeCounts[product.id] || 0}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </SidebarLayout>
+  );
+}
@@ -0,0 +1,438 @@
+import { useEffect, useState } from 'react';
+import { supabase, getAuthHeaders } from '@/lib/supabase';
+import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import type { BusRoute, Driver, DwellBucket, PerformanceReport, PerformanceTotals } from '@shared/schema';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { CheckCircle2, Clock, Loader2, Route as RouteIcon, Timer } from 'lucide-react';
+
+const TOOLTIP_STYLE = {
+  backgroundColor: 'hsl(var(--card))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '6px',
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+
+const formatRate = (rate: number | null) => (rate == null ? '—' : `${Math.round(rate * 100)}%`);
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds == null) return '—';
+  if (seconds < 60) return `${Math.round(seconds)} s`;
+  return `${Math.round(seconds / 60)} min`;
+};
+
+// Signed: early departures and arrivals show as negative
+const formatDelay = (seconds: number | null) => {
+  if (seconds == null) return '—';
+  const sign = seconds > 0 ? '+' : seconds < 0 ? '-' : '';
+  const abs = Math.abs(seconds);
+  return abs < 60 ? `${sign}${Math.round(abs)} s` : `${sign}${(abs / 60).toFixed(1)} min`;
+};
+
+const formatDwellBucket = ({ minSeconds, maxSeconds }: DwellBucket) => {
+  const label = (seconds: number) => (seconds < 60 ? `${seconds}s` : `${seconds / 60}m`);
+  if (maxSeconds == null) return `${label(minSeconds)}+`;
+  return minSeconds === 0 ? `<${label(maxSeconds)}` : `${label(minSeconds)}-${label(maxSeconds)}`;
+};
+
+function TotalsCells({ totals }: { totals: PerformanceTotals }) {
+  return (
+    <>
+      <td className="p-4 text-center">
+        {totals.trips}
+        <p className="text-xs text-muted-foreground">{totals.scheduledTrips} scheduled</p>
+      </td>
+      <td className="p-4 text-center font-medium">{formatRate(totals.onTimeRate)}</td>
+      <td className="p-4 text-center">{formatDelay(totals.avgDelaySeconds)}</td>
+      <td className="p-4 text-center">{formatDuration(totals.medianDurationSeconds)}</td>
+    </>
+  );
+}
+
+export default function AdminPerformance() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [routes, setRoutes] = useState<BusRoute[]>([]);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [report, setReport] = useState<PerformanceReport | null>(null);
+  // Empty dates let the server pick its default range (the last 30 days)
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [routeId, setRouteId] = useState('all');
+  const [driverId, setDriverId] = useState('all');
+
+  useEffect(() => {
+    const fetchFilters = async () => {
+      const [{ data: routesData }, { data: driversData }] = await Promise.all([
+        supabase.from('bus_routes').select('*').order('route_number'),
+        supabase.from('drivers').select('*').order('full_name'),
+      ]);
+      if (routesData) setRoutes(routesData);
+      if (driversData) setDrivers(driversData);
+    };
+    fetchFilters();
+  }, []);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setRefreshing(true);
+      try {
+        const params = new URLSearchParams();
+        if (from) params.set('from', from);
+        if (to) params.set('to', to);
+        if (routeId !== 'all') params.set('route_id', routeId);
+        if (driverId !== 'all') params.set('driver_id', driverId);
+
+        const response = await fetch(`/api/reports/performance?${params}`, {
+          headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        });
+
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'Failed to load performance report');
+        }
+
+        setReport(result.report);
+      } catch (err: any) {
+        toast({ title: 'Error', description: err.message, variant: 'destructive' });
+      } finally {
+        setRefreshing(false);
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [from, to, routeId, driverId]);
+
+  const summary = report?.summary;
+  const daily = (report?.daily ?? []).map((day) => ({
+    date: formatDay(day.date),
+    duration: day.medianDurationSeconds == null ? null : Math.round(day.medianDurationSeconds / 60),
+    onTime: day.onTimeRate == null ? null : Math.round(day.onTimeRate * 100),
+  }));
+  const dwell = (report?.dwell ?? []).map((bucket) => ({ label: formatDwellBucket(bucket), visits: bucket.visits }));
+  const rangeLabel = report ? `${formatDay(report.range.from)} - ${formatDay(report.range.to)}` : '';
+  const windowLabel = report
+    ? `${report.onTimeWindow.earlySeconds / 60} min early to ${report.onTimeWindow.lateSeconds / 60} min late`
+    : '';
+
+  if (loading) {
+    return (
+      <SidebarLayout>
+        <div className="space-y-6">
+          <Skeleton className="h-8 w-48" />
+          <div className="grid gap-4 md:grid-cols-4">
+            {[1, 2, 3, 4].map((i) => (
+              <Skeleton key={i} className="h-24" />
+            ))}
+          </div>
+          <Skeleton className="h-80" />
+        </div>
+      </SidebarLayout>
+    );
+  }
+
+  return (
+    <SidebarLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">On-time Performance</h1>
+          <p className="text-muted-foreground mt-1">
+            Punctuality, stop delays and trip durations from finished trips. On time is {windowLabel}
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div>
+            <Label htmlFor="performance-from">From</Label>
+            <Input
+              id="performance-from"
+              type="date"
+              value={from || report?.range.from || ''}
+              max={to || report?.range.to}
+              onChange={(e) => setFrom(e.target.value)}
+              data-testid="input-performance-from"
+            />
+          </div>
+          <div>
+            <Label htmlFor="performance-to">To</Label>
+            <Input
+              id="performance-to"
+              type="date"
+              value={to || report?.range.to || ''}
+              min={from || report?.range.from}
+              onChange={(e) => setTo(e.target.value)}
+              data-testid="input-performance-to"
+            />
+          </div>
+          <div className="sm:w-56">
+            <Label>Route</Label>
+            <Select value={routeId} onValueChange={setRouteId}>
+              <SelectTrigger data-testid="select-performance-route">
+                <SelectValue placeholder="All routes" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All routes</SelectItem>
+                {routes.map((route) => (
+                  <SelectItem key={route.id} value={route.id}>
+                    {route.route_number} - {route.route_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="sm:w-56">
+            <Label>Driver</Label>
+            <Select value={driverId} onValueChange={setDriverId}>
+              <SelectTrigger data-testid="select-performance-driver">
+                <SelectValue placeholder="All drivers" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All drivers</SelectItem>
+                {drivers.map((driver) => (
+                  <SelectItem key={driver.id} value={driver.id}>
+                    {driver.full_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {refreshing && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mb-2" />}
+        </div>
+
+        {/* Summary Stats */}
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card>
+            <CardContent className="flex items-center gap-4 p-4">
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10">
+                <RouteIcon className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Trips</p>
+                <p className="text-xl font-bold">{summary?.trips ?? 0}</p>
+                <p className="text-xs text-muted-foreground">{summary?.scheduledTrips ?? 0} on the timetable</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="flex items-center gap-4 p-4">
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-chart-2/10">
+                <CheckCircle2 className="h-5 w-5 text-chart-2" />
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">On Time</p>
+                <p className="text-xl font-bold" data-testid="text-on-time-rate">{formatRate(summary?.onTimeRate ?? null)}</p>
+                <p className="text-xs text-muted-foreground">of {summary?.timedStops ?? 0} scheduled stops</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="flex items-center gap-4 p-4">
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-chart-4/10">
+                <Clock className="h-5 w-5 text-chart-4" />
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Avg Delay</p>
+                <p className="text-xl font-bold">{formatDelay(summary?.avgDelaySeconds ?? null)}</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="flex items-center gap-4 p-4">
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-chart-3/10">
+                <Timer className="h-5 w-5 text-chart-3" />
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Median Trip</p>
+                <p className="text-xl font-bold">{formatDuration(summary?.medianDurationSeconds ?? null)}</p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Charts */}
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Daily Trend</CardTitle>
+              <CardDescription>Median trip duration and on-time share, {rangeLabel}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={daily}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" fontSize={12} interval="preserveStartEnd" />
+                    <YAxis yAxisId="duration" stroke="hsl(var(--muted-foreground))" fontSize={12} unit=" min" />
+                    <YAxis yAxisId="onTime" orientation="right" domain={[0, 100]} stroke="hsl(var(--muted-foreground))" fontSize={12} unit="%" />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} />
+                    <Legend />
+                    <Line yAxisId="duration" type="monotone" dataKey="duration" name="Median trip (min)" stroke="#1976d2" strokeWidth={2} connectNulls />
+                    <Line yAxisId="onTime" type="monotone" dataKey="onTime" name="On time (%)" stroke="#2e7d32" strokeWidth={2} connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Dwell Times</CardTitle>
+              <CardDescription>How long buses stood at stops, {rangeLabel}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={dwell}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                    <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} allowDecimals={false} />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => [`${value} stops`, 'Visits']} />
+                    <Bar dataKey="visits" fill="#f57c00" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Routes Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle>By Route</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {(report?.routes ?? []).length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">No finished trips in this range.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left p-4 font-medium text-muted-foreground">Route</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Trips</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">On Time</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Avg Delay</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Median Trip</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report!.routes.map((route) => (
+                      <tr key={route.routeId} className="border-b hover:bg-muted/30" data-testid={`performance-route-${route.routeId}`}>
+                        <td className="p-4">
+                          <p className="font-medium">{route.routeNumber}</p>
+                          <p className="text-sm text-muted-foreground">{route.routeName}</p>
+                        </td>
+                        <TotalsCells totals={route} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Drivers Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle>By Driver</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {(report?.drivers ?? []).length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">No finished trips in this range.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left p-4 font-medium text-muted-foreground">Driver</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Trips</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">On Time</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Avg Delay</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Median Trip</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report!.drivers.map((driver) => (
+                      <tr key={driver.driverId} className="border-b hover:bg-muted/30" data-testid={`performance-driver-${driver.driverId}`}>
+                        <td className="p-4 font-medium">{driver.driverName}</td>
+                        <TotalsCells totals={driver} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Stops Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle>By Stop</CardTitle>
+            <CardDescription>Delay against the timetable and dwell time at each stop</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {routeId === 'all' ? (
+              <p className="p-4 text-sm text-muted-foreground">Pick a route to see its stops.</p>
+            ) : (report?.stops ?? []).length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">This route has no stops.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left p-4 font-medium text-muted-foreground">Stop</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Visits</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">On Time</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Avg Delay</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Median Dwell</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">90th pct Dwell</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report!.stops.map((stop) => (
+                      <tr key={stop.stopId} className="border-b hover:bg-muted/30" data-testid={`performance-stop-${stop.stopId}`}>
+                        <td className="p-4">
+                          <span className="text-muted-foreground mr-2">{stop.sequence}.</span>
+                          {stop.stopName}
+                        </td>
+                        <td className="p-4 text-center">{stop.visits}</td>
+                        <td className="p-4 text-center font-medium">{formatRate(stop.onTimeRate)}</td>
+                        <td className="p-4 text-center">{formatDelay(stop.avgDelaySeconds)}</td>
+                        <td className="p-4 text-center">{formatDuration(stop.medianDwellSeconds)}</td>
+                        <td className="p-4 text-center">{formatDuration(stop.p90DwellSeconds)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </SidebarLayout>
+  );
+}
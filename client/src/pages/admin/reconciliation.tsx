@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import { getAuthHeaders } from '@/lib/supabase';
+import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import type { WalletReconciliation } from '@shared/schema';
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw, Scale } from 'lucide-react';
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const formatSigned = (amount: number) => `${amount > 0 ? '+' : amount < 0 ? '-' : ''}₹${Math.abs(amount).toFixed(2)}`;
+
+export default function AdminReconciliation() {
+  const { toast } = useToast();
+  const [reconciliation, setReconciliation] = useState<WalletReconciliation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+
+  const request = async (method: 'GET' | 'POST') => {
+    const response = await fetch(method === 'GET' ? '/api/admin/reconciliation' : '/api/admin/reconciliation/run', {
+      method,
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to load reconciliation');
+    }
+
+    setReconciliation(result.reconciliation);
+  };
+
+  useEffect(() => {
+    request('GET')
+      .catch((err) => toast({ title: 'Error', description: err.message, variant: 'destructive' }))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const runNow = async () => {
+    setRunning(true);
+    try {
+      await request('POST');
+      toast({ title: 'Reconciliation complete' });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <SidebarLayout>
+        <div className="space-y-6">
+          <Skeleton className="h-8 w-48" />
+          <div className="grid gap-4 md:grid-cols-3">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-24" />
+            ))}
+          </div>
+          <Skeleton className="h-64" />
+        </div>
+      </SidebarLayout>
+    );
+  }
+
+  const latest = reconciliation?.latest ?? null;
+  const issues = reconciliation?.issues ?? [];
+
+  return (
+    <SidebarLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">Wallet Reconciliation</h1>
+            <p className="text-muted-foreground mt-1">Stored wallet balances checked against the ledger</p>
+          </div>
+          <Button onClick={runNow} disabled={running} data-testid="button-run-reconciliation">
+            {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Run Now
+          </Button>
+        </div>
+
+        {!latest ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+              <Scale className="h-16 w-16 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium">No reconciliation yet</h3>
+              <p className="text-muted-foreground mt-2">Wallets are checked every hour, or run a check now</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid gap-4 md:grid-cols-3">
+              <Card>
+                <CardContent className="flex items-center gap-4 p-4">
+                  <div
+                    className={`flex h-12 w-12 items-center justify-center rounded-full ${
+                      latest.mismatches > 0 ? 'bg-destructive/10' : 'bg-chart-2/10'
+                    }`}
+                  >
+                    {latest.mismatches > 0 ? (
+                      <AlertTriangle className="h-6 w-6 text-destructive" />
+                    ) : (
+                      <CheckCircle2 className="h-6 w-6 text-chart-2" />
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Mismatched Wallets</p>
+                    <p className="text-2xl font-bold">{latest.mismatches}</p>
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-sm text-muted-foreground">Wallets Checked</p>
+                  <p className="text-2xl font-bold">{latest.students_checked}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-sm text-muted-foreground">Total Drift (stored - ledger)</p>
+                  <p className={`text-2xl font-bold ${Number(latest.total_difference) !== 0 ? 'text-destructive' : ''}`}>
+                    {formatSigned(Number(latest.total_difference))}
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Mismatches */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Mismatched Students</CardTitle>
+                <CardDescription>
+                  Last checked {formatDateTime(latest.created_at)}
+                  {latest.triggered_by === 'admin' ? ' (manual run)' : ''}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                {issues.length === 0 ? (
+                  <div className="flex items-center gap-2 px-6 pb-6 text-sm text-muted-foreground">
+                    <CheckCircle2 className="h-4 w-4 text-chart-2" />
+                    Every stored balance matches its ledger
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b bg-muted/50">
+                          <th className="text-left p-4 font-medium text-muted-foreground">Student</th>
+                          <th className="text-right p-4 font-medium text-muted-foreground">Stored Balance</th>
+                          <th className="text-right p-4 font-medium text-muted-foreground">Ledger Balance</th>
+                          <th className="text-right p-4 font-medium text-muted-foreground">Difference</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {issues.map((issue) => (
+                          <tr key={issue.id} className="border-b hover:bg-muted/30" data-testid={`reconciliation-issue-${issue.student_id}`}>
+                            <td className="p-4">
+                              <p className="font-medium">{issue.student?.full_name || 'Unknown'}</p>
+                              <p className="text-sm text-muted-foreground">{issue.student?.enrollment_no}</p>
+                            </td>
+                            <td className="p-4 text-right">₹{Number(issue.stored_balance).toFixed(2)}</td>
+                            <td className="p-4 text-right">₹{Number(issue.ledger_balance).toFixed(2)}</td>
+                            <td className="p-4 text-right font-semibold text-destructive">
+                              {formatSigned(Number(issue.difference))}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* History */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent Runs</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {(reconciliation?.history ?? []).map((run) => (
+                  <div key={run.id} className="flex items-center justify-between text-sm border-b last:border-0 pb-2">
+                    <span>{formatDateTime(run.created_at)}</span>
+                    <div className="flex items-center gap-2">
+                      <span className="text-muted-foreground capitalize">{run.triggered_by}</span>
+                      <Badge variant={run.mismatches > 0 ? 'destructive' : 'secondary'}>
+                        {run.mismatches > 0 ? `${run.mismatches} mismatched` : 'All match'}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </SidebarLayout>
+  );
+}
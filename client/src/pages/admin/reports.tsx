@@ -1,8 +1,15 @@
 import { useEffect, useState } from 'react';
-import { supabase } from '@/lib/supabase';
+import { supabase, getAuthHeaders } from '@/lib/supabase';
 import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { ExportButton } from '@/components/export-button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { OCCUPANCY_LABELS, occupancyLevel } from '@/lib/occupancy';
+import type { BusRoute, ReportOverview } from '@shared/schema';
 import {
   BarChart,
   Bar,
@@ -14,142 +21,91 @@ import {
   PieChart,
   Pie,
   Cell,
-  LineChart,
-  Line,
   AreaChart,
   Area,
 } from 'recharts';
-import { TrendingUp, Users, Wallet, QrCode, Route, Bus } from 'lucide-react';
+import { TrendingUp, Users, Wallet, QrCode, Loader2 } from 'lucide-react';
 
 const COLORS = ['#1976d2', '#2e7d32', '#f57c00', '#c62828', '#7b1fa2'];
 
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+
 export default function AdminReports() {
+  const { toast } = useToast();
   const [loading, setLoading] = useState(true);
-  const [dailyScans, setDailyScans] = useState<any[]>([]);
-  const [routeDistribution, setRouteDistribution] = useState<any[]>([]);
-  const [revenueByType, setRevenueByType] = useState<any[]>([]);
-  const [monthlyTrend, setMonthlyTrend] = useState<any[]>([]);
-  const [stats, setStats] = useState({
-    avgBalance: 0,
-    totalRevenue: 0,
-    totalScans: 0,
-    activeStudents: 0,
-  });
+  const [refreshing, setRefreshing] = useState(false);
+  const [routes, setRoutes] = useState<BusRoute[]>([]);
+  const [report, setReport] = useState<ReportOverview | null>(null);
+  // Empty dates let the server pick its default range (the last 30 days)
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [routeId, setRouteId] = useState('all');
 
   useEffect(() => {
-    const fetchData = async () => {
-      // Get daily scans for last 7 days
-      const last7Days = [];
-      for (let i = 6; i >= 0; i--) {
-        const date = new Date();
-        date.setDate(date.getDate() - i);
-        date.setHours(0, 0, 0, 0);
-        const nextDate = new Date(date);
-        nextDate.setDate(nextDate.getDate() + 1);
-
-        const { count: successCount } = await supabase
-          .from('scan_logs')
-          .select('*', { count: 'exact', head: true })
-          .eq('scan_status', 'success')
-          .gte('scan_timestamp', date.toISOString())
-          .lt('scan_timestamp', nextDate.toISOString());
+    const fetchRoutes = async () => {
+      const { data } = await supabase.from('bus_routes').select('*').order('route_number');
+      if (data) setRoutes(data);
+    };
+    fetchRoutes();
+  }, []);
 
-        const { count: failedCount } = await supabase
-          .from('scan_logs')
-          .select('*', { count: 'exact', head: true })
-          .neq('scan_status', 'success')
-          .gte('scan_timestamp', date.toISOString())
-          .lt('scan_timestamp', nextDate.toISOString());
+  useEffect(() => {
+    const fetchReport = async () => {
+      setRefreshing(true);
+      try {
+        const params = new URLSearchParams();
+        if (from) params.set('from', from);
+        if (to) params.set('to', to);
+        if (routeId !== 'all') params.set('route_id', routeId);
 
-        last7Days.push({
-          date: date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short' }),
-          success: successCount || 0,
-          failed: failedCount || 0,
+        const response = await fetch(`/api/reports/overview?${params}`, {
+          headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         });
-      }
-      setDailyScans(last7Days);
-
-      // Get route distribution
-      const { data: routes } = await supabase.from('bus_routes').select('id, route_name');
-      if (routes) {
-        const routeStats = await Promise.all(
-          routes.map(async (route) => {
-            const { count } = await supabase
-              .from('students')
-              .select('*', { count: 'exact', head: true })
-              .eq('bus_route_id', route.id);
-            return { name: route.route_name, value: count || 0 };
-          })
-        );
-        setRouteDistribution(routeStats.filter((r) => r.value > 0));
-      }
-
-      // Get revenue by type
-      const { data: recharges } = await supabase
-        .from('transactions')
-        .select('amount')
-        .eq('transaction_type', 'recharge')
-        .eq('status', 'success');
 
-      const { data: deductions } = await supabase
-        .from('transactions')
-        .select('amount')
-        .eq('transaction_type', 'deduction')
-        .eq('status', 'success');
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'Failed to load reports');
+        }
 
-      setRevenueByType([
-        { name: 'Recharges', value: recharges?.reduce((s, t) => s + t.amount, 0) || 0 },
-        { name: 'Deductions', value: deductions?.reduce((s, t) => s + t.amount, 0) || 0 },
-      ]);
-
-      // Get monthly trend (last 30 days)
-      const monthlyData = [];
-      for (let i = 29; i >= 0; i--) {
-        const date = new Date();
-        date.setDate(date.getDate() - i);
-        date.setHours(0, 0, 0, 0);
-        const nextDate = new Date(date);
-        nextDate.setDate(nextDate.getDate() + 1);
-
-        const { data: dayRecharges } = await supabase
-          .from('transactions')
-          .select('amount')
-          .eq('transaction_type', 'recharge')
-          .eq('status', 'success')
-          .gte('created_at', date.toISOString())
-          .lt('created_at', nextDate.toISOString());
-
-        monthlyData.push({
-          date: date.toLocaleDateString('en-IN', { day: 'numeric', month: 'short' }),
-          revenue: dayRecharges?.reduce((s, t) => s + t.amount, 0) || 0,
-        });
+        setReport(result.report);
+      } catch (err: any) {
+        toast({ title: 'Error', description: err.message, variant: 'destructive' });
+      } finally {
+        setRefreshing(false);
+        setLoading(false);
       }
-      setMonthlyTrend(monthlyData);
-
-      // Get overall stats
-      const { data: students } = await supabase.from('students').select('wallet_balance');
-      const avgBalance = students?.length
-        ? students.reduce((s, st) => s + st.wallet_balance, 0) / students.length
-        : 0;
-      const activeStudents = students?.filter((s) => s.wallet_balance >= 60).length || 0;
-
-      const totalRevenue = recharges?.reduce((s, t) => s + t.amount, 0) || 0;
-      const { count: totalScans } = await supabase
-        .from('scan_logs')
-        .select('*', { count: 'exact', head: true });
-
-      setStats({
-        avgBalance,
-        totalRevenue,
-        totalScans: totalScans || 0,
-        activeStudents,
-      });
-
-      setLoading(false);
     };
 
-    fetchData();
-  }, []);
+    fetchReport();
+  }, [from, to, routeId]);
+
+  const stats = report?.summary ?? {
+    totalRevenue: 0,
+    totalFares: 0,
+    totalScans: 0,
+    successfulScans: 0,
+    students: 0,
+    avgBalance: 0,
+    activeStudents: 0,
+  };
+  const dailyScans = (report?.dailyScans ?? []).map((day) => ({ ...day, date: formatDay(day.date) }));
+  const monthlyTrend = (report?.dailyRevenue ?? []).map((day) => ({ date: formatDay(day.date), revenue: day.recharges }));
+  const routeDistribution = (report?.routes ?? [])
+    .map((route) => ({ name: route.routeName, value: route.students }))
+    .filter((route) => route.value > 0);
+  const exportFilters = {
+    from: from || report?.range.from,
+    to: to || report?.range.to,
+    route_id: routeId === 'all' ? undefined : routeId,
+  };
+  const rangeLabel = report ? `${formatDay(report.range.from)} - ${formatDay(report.range.to)}` : '';
+  const routeLoads = (report?.routes ?? []).filter((route) => route.trips > 0);
+  const stopBoardings = (report?.stops ?? []).map((stop) => ({
+    name: `${stop.sequence}. ${stop.stopName}`,
+    boardings: stop.boardings,
+    students: stop.students,
+  }));
 
   if (loading) {
     return (
@@ -174,9 +130,58 @@ export default function AdminReports() {
     <SidebarLayout>
       <div className="space-y-6">
         {/* Page Header */}
-        <div>
-          <h1 className="text-2xl font-semibold text-foreground">Reports & Analytics</h1>
-          <p className="text-muted-foreground mt-1">Insights and statistics for your transport system</p>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">Reports & Analytics</h1>
+            <p className="text-muted-foreground mt-1">Insights and statistics for your transport system</p>
+          </div>
+          <div className="flex gap-2">
+            <ExportButton dataset="report" filters={exportFilters} label="Export Report" />
+            <ExportButton dataset="scans" filters={exportFilters} label="Export Scans" />
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div>
+            <Label htmlFor="report-from">From</Label>
+            <Input
+              id="report-from"
+              type="date"
+              value={from || report?.range.from || ''}
+              max={to || report?.range.to}
+              onChange={(e) => setFrom(e.target.value)}
+              data-testid="input-report-from"
+            />
+          </div>
+          <div>
+            <Label htmlFor="report-to">To</Label>
+            <Input
+              id="report-to"
+              type="date"
+              value={to || report?.range.to || ''}
+              min={from || report?.range.from}
+              onChange={(e) => setTo(e.target.value)}
+              data-testid="input-report-to"
+            />
+          </div>
+          <div className="sm:w-56">
+            <Label>Route</Label>
+            <Select value={routeId} onValueChange={setRouteId}>
+              <SelectTrigger data-testid="select-report-route">
+                <SelectValue placeholder="All routes" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All routes</SelectItem>
+                {routes.map((route) => (
+                  <SelectItem key={route.id} value={route.id}>
+                    {route.route_number} - {route.route_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {refreshing && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mb-2" />}
         </div>
 
         {/* Summary Stats */}
@@ -232,8 +237,8 @@ export default function AdminReports() {
           {/* Daily Scans */}
           <Card>
             <CardHeader>
-              <CardTitle>Daily Scans (Last 7 Days)</CardTitle>
-              <CardDescription>Success vs Failed scans per day</CardDescription>
+              <CardTitle>Daily Scans</CardTitle>
+              <CardDescription>Success vs Failed scans per day, {rangeLabel}</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="h-64">
@@ -313,8 +318,8 @@ export default function AdminReports() {
           {/* Revenue Trend */}
           <Card className="lg:col-span-2">
             <CardHeader>
-              <CardTitle>Revenue Trend (Last 30 Days)</CardTitle>
-              <CardDescription>Daily recharge amounts</CardDescription>
+              <CardTitle>Revenue Trend</CardTitle>
+              <CardDescription>Daily recharge amounts, {rangeLabel}</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="h-64">
@@ -350,6 +355,94 @@ export default function AdminReports() {
             </CardContent>
           </Card>
         </div>
+
+        {/* Boardings by Stop */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Boardings by Stop</CardTitle>
+            <CardDescription>Successful scans at each stop of the route, {rangeLabel}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {routeId === 'all' ? (
+              <p className="text-sm text-muted-foreground">Pick a route to see boardings at its stops.</p>
+            ) : stopBoardings.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This route has no stops.</p>
+            ) : (
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={stopBoardings}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="name" stroke="hsl(var(--muted-foreground))" fontSize={12} tickLine={false} />
+                    <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} allowDecimals={false} />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: 'hsl(var(--card))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: '6px',
+                      }}
+                    />
+                    <Bar dataKey="boardings" fill="#1976d2" name="Boardings" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="students" fill="#7b1fa2" name="Students" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Peak Load */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Peak Load by Route</CardTitle>
+            <CardDescription>Most students on board at once, {rangeLabel}</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {routeLoads.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">No trips in this range.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left p-4 font-medium text-muted-foreground">Route</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Trips</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Peak Load</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Avg Peak</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Fullest Trip</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {routeLoads.map((route) => (
+                      <tr key={route.routeId} className="border-b hover:bg-muted/30" data-testid={`route-load-${route.routeId}`}>
+                        <td className="p-4">
+                          <p className="font-medium">{route.routeNumber}</p>
+                          <p className="text-sm text-muted-foreground">{route.routeName}</p>
+                        </td>
+                        <td className="p-4 text-center">{route.trips}</td>
+                        <td className="p-4 text-center font-medium">{route.peakLoad}</td>
+                        <td className="p-4 text-center">
+                          {route.avgPeakLoad == null ? '—' : route.avgPeakLoad.toFixed(1)}
+                        </td>
+                        <td className="p-4 text-center">
+                          {route.peakLoadRate == null ? (
+                            '—'
+                          ) : (
+                            <>
+                              {Math.round(route.peakLoadRate * 100)}%
+                              <p className="text-xs text-muted-foreground">
+                                {OCCUPANCY_LABELS[occupancyLevel(route.peakLoadRate, 1)]}
+                              </p>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </SidebarLayout>
   );
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { Link } from 'wouter';
 import { supabase } from '@/lib/supabase';
 import { SidebarLayout } from '@/components/layout/sidebar-layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -276,6 +277,9 @@ export default function AdminRoutes() {
                     </div>
                     <span className="font-medium">{route.studentCount}</span>
                   </div>
+                  <Link href="/admin/fare-policies" className="block text-sm text-primary hover:underline">
+                    Edit fare policy
+                  </Link>
                 </CardContent>
               </Card>
             ))}
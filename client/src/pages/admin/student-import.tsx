@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { getAuthHeaders } from '@/lib/supabase';
+import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { STUDENT_IMPORT_MAX_ROWS, type StudentImportReport, type StudentImportRowStatus } from '@shared/schema';
+import { ArrowLeft, CheckCircle2, FileSpreadsheet, Loader2, Upload, XCircle } from 'lucide-react';
+
+const EXPECTED_COLUMNS = [
+  'Enrollment No',
+  'Name',
+  'Course',
+  'Department',
+  'Phone',
+  'Email',
+  'Route Number (optional)',
+];
+
+const STATUS_BADGES: Record<StudentImportRowStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  created: { label: 'Created', variant: 'default' },
+  valid: { label: 'Valid', variant: 'secondary' },
+  error: { label: 'Error', variant: 'destructive' },
+};
+
+export default function AdminStudentImport() {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<StudentImportReport | null>(null);
+  const [running, setRunning] = useState<'dry-run' | 'import' | null>(null);
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+    if (!dryRun && !confirm(`Create accounts for ${report?.valid ?? 0} students?`)) return;
+
+    setRunning(dryRun ? 'dry-run' : 'import');
+    try {
+      const body = new FormData();
+      body.append('file', file);
+
+      const response = await fetch(`/api/students/import${dryRun ? '?dry_run=true' : ''}`, {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body,
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Import failed');
+      }
+
+      const imported: StudentImportReport = result.report;
+      setReport(imported);
+
+      if (!dryRun) {
+        toast({
+          title: 'Import finished',
+          description: `${imported.created} created, ${imported.failed} failed`,
+          variant: imported.failed > 0 ? 'destructive' : 'default',
+        });
+      }
+    } catch (err: any) {
+      setReport(null);
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  return (
+    <SidebarLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div>
+          <Link href="/admin/students" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Students
+          </Link>
+          <h1 className="text-2xl font-semibold text-foreground">Import Students</h1>
+          <p className="text-muted-foreground mt-1">Create student accounts in bulk from a spreadsheet</p>
+        </div>
+
+        {/* Upload */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5" />
+              Spreadsheet
+            </CardTitle>
+            <CardDescription>
+              CSV or XLSX with a header row: {EXPECTED_COLUMNS.join(', ')}, up to {STUDENT_IMPORT_MAX_ROWS}
+              students per file. Validate first to see every problem before anything is created.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="max-w-md">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx,text/csv"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null);
+                  setReport(null);
+                }}
+                data-testid="input-import-file"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                disabled={!file || running !== null}
+                onClick={() => runImport(true)}
+                data-testid="button-validate-import"
+              >
+                {running === 'dry-run' ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                )}
+                Validate
+              </Button>
+              <Button
+                disabled={!report?.dryRun || report.valid === 0 || running !== null}
+                onClick={() => runImport(false)}
+                data-testid="button-run-import"
+              >
+                {running === 'import' ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                Import {report?.dryRun && report.valid > 0 ? `${report.valid} Students` : ''}
+              </Button>
+            </div>
+            {report?.dryRun && report.failed > 0 && report.valid > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Rows with errors are skipped. Fix them and import the file again to add them later.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        {report && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{report.dryRun ? 'Validation Report' : 'Import Report'}</CardTitle>
+              <CardDescription>
+                {report.total} rows &middot;{' '}
+                {report.dryRun ? `${report.valid} valid` : `${report.created} created`} &middot; {report.failed} with
+                errors
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left p-4 font-medium text-muted-foreground">Row</th>
+                      <th className="text-left p-4 font-medium text-muted-foreground">Student</th>
+                      <th className="text-left p-4 font-medium text-muted-foreground">Email</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Status</th>
+                      <th className="text-left p-4 font-medium text-muted-foreground">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.rows.map((row) => (
+                      <tr key={row.row} className="border-b hover:bg-muted/30" data-testid={`import-row-${row.row}`}>
+                        <td className="p-4 text-sm text-muted-foreground">{row.row}</td>
+                        <td className="p-4">
+                          <p className="font-medium">{row.fullName || '-'}</p>
+                          <p className="text-sm text-muted-foreground">{row.enrollmentNo}</p>
+                        </td>
+                        <td className="p-4 text-sm">{row.email}</td>
+                        <td className="p-4 text-center">
+                          <Badge variant={STATUS_BADGES[row.status].variant}>{STATUS_BADGES[row.status].label}</Badge>
+                        </td>
+                        <td className="p-4 text-sm">
+                          {row.errors.length > 0 ? (
+                            <ul className="space-y-1 text-destructive">
+                              {row.errors.map((error) => (
+                                <li key={error} className="flex items-start gap-1">
+                                  <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                                  {error}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : row.status === 'created' ? (
+                            <span>Invite sent to set a password</span>
+                          ) : (
+                            <span className="text-muted-foreground">Ready to import</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </SidebarLayout>
+  );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
-import { supabase } from '@/lib/supabase';
+import { Link } from 'wouter';
+import { supabase, getAuthHeaders } from '@/lib/supabase';
 import { SidebarLayout } from '@/components/layout/sidebar-layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -12,7 +13,7 @@ import { Label } from '@/components/ui/label';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import type { StudentWithRoute, BusRoute } from '@shared/schema';
-import { Search, Users, Edit, Ban, Wallet, GraduationCap, Phone } from 'lucide-react';
+import { Search, Users, Edit, Ban, Wallet, GraduationCap, Phone, Upload } from 'lucide-react';
 
 export default function AdminStudents() {
   const { toast } = useToast();
@@ -22,6 +23,7 @@ export default function AdminStudents() {
   const [loading, setLoading] = useState(true);
   const [selectedStudent, setSelectedStudent] = useState<StudentWithRoute | null>(null);
   const [adjustmentAmount, setAdjustmentAmount] = useState('');
+  const [adjustmentReason, setAdjustmentReason] = useState('');
 
   const fetchData = async () => {
     const [studentsResult, routesResult] = await Promise.all([
@@ -69,44 +71,23 @@ export default function AdminStudents() {
     }
 
     try {
-      const newBalance = selectedStudent.wallet_balance + amount;
-      if (newBalance < 0) {
-        toast({ title: 'Error', description: 'Balance cannot be negative', variant: 'destructive' });
-        return;
-      }
-
-      // Update balance
-      const { error: updateError } = await supabase
-        .from('students')
-        .update({ wallet_balance: newBalance })
-        .eq('id', selectedStudent.id);
-
-      if (updateError) throw updateError;
-
-      // Create transaction record
-      await supabase.from('transactions').insert({
-        student_id: selectedStudent.id,
-        amount: Math.abs(amount),
-        transaction_type: 'admin_adjustment',
-        currency: 'INR',
-        status: 'success',
-        balance_before: selectedStudent.wallet_balance,
-        balance_after: newBalance,
-        description: `Admin adjustment: ${amount > 0 ? '+' : ''}${amount}`,
+      // Posted through the wallet ledger on the server, which also records the
+      // transaction and notifies the student
+      const response = await fetch(`/api/admin/students/${selectedStudent.id}/adjust-balance`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({ amount, reason: adjustmentReason.trim() || undefined }),
       });
 
-      // Notify student
-      await supabase.from('notifications').insert({
-        user_id: selectedStudent.user_id,
-        title: 'Wallet Adjusted',
-        message: `Your wallet balance has been adjusted by ₹${amount}. New balance: ₹${newBalance.toFixed(2)}`,
-        type: 'system',
-        is_read: false,
-      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to adjust balance');
+      }
 
       toast({ title: 'Success', description: 'Balance adjusted successfully' });
       setSelectedStudent(null);
       setAdjustmentAmount('');
+      setAdjustmentReason('');
       fetchData();
     } catch (err: any) {
       toast({ title: 'Error', description: err.message, variant: 'destructive' });
@@ -136,9 +117,17 @@ export default function AdminStudents() {
     <SidebarLayout>
       <div className="space-y-6">
         {/* Page Header */}
-        <div>
-          <h1 className="text-2xl font-semibold text-foreground">Students</h1>
-          <p className="text-muted-foreground mt-1">Manage student accounts and wallets</p>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">Students</h1>
+            <p className="text-muted-foreground mt-1">Manage student accounts and wallets</p>
+          </div>
+          <Button asChild data-testid="button-import-students">
+            <Link href="/admin/students/import">
+              <Upload className="h-4 w-4 mr-2" />
+              Import Students
+            </Link>
+          </Button>
         </div>
 
         {/* Search */}
@@ -243,7 +232,7 @@ export default function AdminStudents() {
         </Card>
 
         {/* Adjustment Dialog */}
-        <Dialog open={!!selectedStudent} onOpenChange={() => { setSelectedStudent(null); setAdjustmentAmount(''); }}>
+        <Dialog open={!!selectedStudent} onOpenChange={() => { setSelectedStudent(null); setAdjustmentAmount(''); setAdjustmentReason(''); }}>
           <DialogContent>
             <DialogHeader>
               <DialogTitle>Adjust Wallet Balance</DialogTitle>
@@ -279,6 +268,17 @@ export default function AdminStudents() {
                     Use positive value to add, negative to deduct
                   </p>
                 </div>
+                <div>
+                  <Label htmlFor="reason">Reason</Label>
+                  <Input
+                    id="reason"
+                    value={adjustmentReason}
+                    onChange={(e) => setAdjustmentReason(e.target.value)}
+                    placeholder="e.g. Refund for missed trip"
+                    maxLength={200}
+                    data-testid="input-adjustment-reason"
+                  />
+                </div>
                 <Button onClick={adjustBalance} className="w-full" data-testid="button-confirm-adjustment">
                   Confirm Adjustment
                 </Button>
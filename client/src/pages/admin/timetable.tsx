@@ -0,0 +1,619 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { localDate, formatPassDate } from '@/lib/passes';
+import {
+  DIRECTION_LABELS,
+  WEEKDAY_LABELS,
+  formatDays,
+  formatSlotTime,
+  toTimeInput,
+} from '@/lib/timetable';
+import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import {
+  timetableHolidaySchema,
+  timetableSlotSchema,
+  type Bus,
+  type BusRoute,
+  type RouteStop,
+  type TimetableDirection,
+  type TimetableHoliday,
+  type TimetableSlot,
+} from '@shared/schema';
+import { CalendarOff, Clock, Edit, Loader2, MapPin, Plus, Trash2 } from 'lucide-react';
+
+// Bus select value for "any bus on the route"
+const ANY_BUS = 'any';
+// Holiday route select value for "every route"
+const ALL_ROUTES = 'all';
+
+const emptySlotForm = {
+  direction: 'morning' as TimetableDirection,
+  departure_time: '08:00',
+  days: [1, 2, 3, 4, 5],
+  bus_id: ANY_BUS,
+  is_active: true,
+};
+
+const emptyHolidayForm = {
+  holiday_date: '',
+  name: '',
+  route_id: ALL_ROUTES,
+};
+
+export default function AdminTimetable() {
+  const { toast } = useToast();
+  const [routes, setRoutes] = useState<BusRoute[]>([]);
+  const [selectedRouteId, setSelectedRouteId] = useState('');
+  const [slots, setSlots] = useState<TimetableSlot[]>([]);
+  const [buses, setBuses] = useState<Bus[]>([]);
+  const [stops, setStops] = useState<RouteStop[]>([]);
+  const [offsets, setOffsets] = useState<Record<string, string>>({});
+  const [holidays, setHolidays] = useState<TimetableHoliday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [routeLoading, setRouteLoading] = useState(false);
+  const [savingOffsets, setSavingOffsets] = useState(false);
+
+  const [slotDialogOpen, setSlotDialogOpen] = useState(false);
+  const [editingSlot, setEditingSlot] = useState<TimetableSlot | null>(null);
+  const [slotForm, setSlotForm] = useState(emptySlotForm);
+
+  const [holidayDialogOpen, setHolidayDialogOpen] = useState(false);
+  const [holidayForm, setHolidayForm] = useState(emptyHolidayForm);
+
+  const fetchHolidays = async () => {
+    const { data, error } = await supabase
+      .from('timetable_holidays')
+      .select('*')
+      .gte('holiday_date', localDate())
+      .order('holiday_date');
+
+    if (error) {
+      console.error('Error fetching holidays:', error.message);
+      return;
+    }
+    setHolidays(data || []);
+  };
+
+  const fetchRouteTimetable = async (routeId: string) => {
+    setRouteLoading(true);
+
+    const [{ data: slotsData }, { data: busesData }, { data: stopsData }] = await Promise.all([
+      supabase
+        .from('timetable_slots')
+        .select('*')
+        .eq('route_id', routeId)
+        .order('direction')
+        .order('departure_time'),
+      supabase.from('buses').select('*').eq('route_id', routeId).order('bus_number'),
+      supabase.from('route_stops').select('*').eq('route_id', routeId).order('sequence'),
+    ]);
+
+    setSlots(slotsData || []);
+    setBuses(busesData || []);
+    setStops(stopsData || []);
+    setOffsets(
+      Object.fromEntries(
+        (stopsData || []).map((stop: RouteStop) => [stop.id, stop.scheduled_offset_minutes?.toString() ?? ''])
+      )
+    );
+    setRouteLoading(false);
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      const { data: routesData } = await supabase.from('bus_routes').select('*').order('route_number');
+      if (routesData) {
+        setRoutes(routesData);
+        if (routesData.length > 0) setSelectedRouteId(routesData[0].id);
+      }
+      await fetchHolidays();
+      setLoading(false);
+    };
+
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    if (selectedRouteId) fetchRouteTimetable(selectedRouteId);
+  }, [selectedRouteId]);
+
+  const resetSlotForm = () => {
+    setEditingSlot(null);
+    setSlotForm(emptySlotForm);
+  };
+
+  const openEditSlot = (slot: TimetableSlot) => {
+    setEditingSlot(slot);
+    setSlotForm({
+      direction: slot.direction,
+      departure_time: toTimeInput(slot.departure_time),
+      days: slot.days,
+      bus_id: slot.bus_id ?? ANY_BUS,
+      is_active: slot.is_active,
+    });
+    setSlotDialogOpen(true);
+  };
+
+  const toggleDay = (day: number) => {
+    const days = slotForm.days;
+    setSlotForm({
+      ...slotForm,
+      days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort((a, b) => a - b),
+    });
+  };
+
+  const handleSaveSlot = async () => {
+    const parsed = timetableSlotSchema.safeParse({
+      ...slotForm,
+      bus_id: slotForm.bus_id === ANY_BUS ? null : slotForm.bus_id,
+    });
+
+    if (!parsed.success) {
+      toast({ title: 'Error', description: parsed.error.errors[0]?.message, variant: 'destructive' });
+      return;
+    }
+
+    try {
+      const { error } = editingSlot
+        ? await supabase
+            .from('timetable_slots')
+            .update({ ...parsed.data, updated_at: new Date().toISOString() })
+            .eq('id', editingSlot.id)
+        : await supabase
+            .from('timetable_slots')
+            .insert({ ...parsed.data, route_id: selectedRouteId });
+
+      if (error?.code === '23505') {
+        throw new Error(`There is already a ${parsed.data.direction} departure at ${parsed.data.departure_time}`);
+      }
+      if (error) throw error;
+
+      toast({ title: 'Success', description: editingSlot ? 'Departure updated' : 'Departure added' });
+      setSlotDialogOpen(false);
+      resetSlotForm();
+      fetchRouteTimetable(selectedRouteId);
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteSlot = async (slot: TimetableSlot) => {
+    if (!confirm(`Delete the ${formatSlotTime(slot.departure_time)} ${slot.direction} departure?`)) return;
+
+    // Trips already linked to the slot keep their scheduled time
+    const { error } = await supabase.from('timetable_slots').delete().eq('id', slot.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: 'Departure deleted' });
+    fetchRouteTimetable(selectedRouteId);
+  };
+
+  const handleSaveOffsets = async () => {
+    const changed = stops.filter((stop) => (stop.scheduled_offset_minutes?.toString() ?? '') !== offsets[stop.id]);
+
+    for (const stop of changed) {
+      const value = offsets[stop.id].trim();
+      if (value !== '' && (!Number.isInteger(Number(value)) || Number(value) < 0)) {
+        toast({ title: 'Error', description: `Enter whole minutes for ${stop.stop_name}`, variant: 'destructive' });
+        return;
+      }
+    }
+
+    setSavingOffsets(true);
+    try {
+      for (const stop of changed) {
+        const value = offsets[stop.id].trim();
+        const { error } = await supabase
+          .from('route_stops')
+          .update({ scheduled_offset_minutes: value === '' ? null : Number(value) })
+          .eq('id', stop.id);
+        if (error) throw error;
+      }
+
+      toast({ title: 'Success', description: 'Stop times saved' });
+      fetchRouteTimetable(selectedRouteId);
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSavingOffsets(false);
+    }
+  };
+
+  const handleAddHoliday = async () => {
+    const parsed = timetableHolidaySchema.safeParse({
+      ...holidayForm,
+      route_id: holidayForm.route_id === ALL_ROUTES ? null : holidayForm.route_id,
+    });
+
+    if (!parsed.success) {
+      toast({ title: 'Error', description: parsed.error.errors[0]?.message, variant: 'destructive' });
+      return;
+    }
+
+    const { error } = await supabase.from('timetable_holidays').insert(parsed.data);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Success', description: 'Holiday added' });
+    setHolidayDialogOpen(false);
+    setHolidayForm(emptyHolidayForm);
+    fetchHolidays();
+  };
+
+  const handleDeleteHoliday = async (holiday: TimetableHoliday) => {
+    if (!confirm(`Delete ${holiday.name}?`)) return;
+
+    const { error } = await supabase.from('timetable_holidays').delete().eq('id', holiday.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Success', description: 'Holiday deleted' });
+    fetchHolidays();
+  };
+
+  const routeLabel = (routeId: string | null) => {
+    if (!routeId) return 'All routes';
+    const route = routes.find((r) => r.id === routeId);
+    return route ? `${route.route_number} - ${route.route_name}` : 'Unknown route';
+  };
+
+  const busLabel = (busId: string | null) => {
+    if (!busId) return 'Any bus';
+    return buses.find((b) => b.id === busId)?.bus_number ?? 'Other bus';
+  };
+
+  if (loading) {
+    return (
+      <SidebarLayout>
+        <div className="space-y-6">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-64" />
+          <Skeleton className="h-48" />
+        </div>
+      </SidebarLayout>
+    );
+  }
+
+  return (
+    <SidebarLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">Timetable</h1>
+            <p className="text-muted-foreground mt-1">Scheduled departures for each route, and days without service</p>
+          </div>
+          <div className="flex gap-2">
+            <Select value={selectedRouteId} onValueChange={setSelectedRouteId}>
+              <SelectTrigger className="w-full sm:w-56" data-testid="select-timetable-route">
+                <SelectValue placeholder="Choose a route" />
+              </SelectTrigger>
+              <SelectContent>
+                {routes.map((route) => (
+                  <SelectItem key={route.id} value={route.id}>
+                    {route.route_number} - {route.route_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Dialog open={slotDialogOpen} onOpenChange={(open) => { setSlotDialogOpen(open); if (!open) resetSlotForm(); }}>
+              <DialogTrigger asChild>
+                <Button disabled={!selectedRouteId} data-testid="button-add-departure">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Departure
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{editingSlot ? 'Edit Departure' : 'Add Departure'}</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 py-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label>Direction</Label>
+                      <Select
+                        value={slotForm.direction}
+                        onValueChange={(value: TimetableDirection) => setSlotForm({ ...slotForm, direction: value })}
+                      >
+                        <SelectTrigger data-testid="select-departure-direction">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(DIRECTION_LABELS) as TimetableDirection[]).map((direction) => (
+                            <SelectItem key={direction} value={direction}>
+                              {DIRECTION_LABELS[direction]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="departure_time">Departs first stop at</Label>
+                      <Input
+                        id="departure_time"
+                        type="time"
+                        value={slotForm.departure_time}
+                        onChange={(e) => setSlotForm({ ...slotForm, departure_time: e.target.value })}
+                        data-testid="input-departure-time"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <Label>Runs on</Label>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {WEEKDAY_LABELS.map((label, day) => (
+                        <Button
+                          key={label}
+                          type="button"
+                          size="sm"
+                          variant={slotForm.days.includes(day) ? 'default' : 'outline'}
+                          className="h-7 px-2 text-xs"
+                          onClick={() => toggleDay(day)}
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <Label>Bus</Label>
+                    <Select value={slotForm.bus_id} onValueChange={(value) => setSlotForm({ ...slotForm, bus_id: value })}>
+                      <SelectTrigger data-testid="select-departure-bus">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY_BUS}>Any bus on the route</SelectItem>
+                        {buses.map((bus) => (
+                          <SelectItem key={bus.id} value={bus.id}>
+                            {bus.bus_number}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="departure_active">Running</Label>
+                    <Switch
+                      id="departure_active"
+                      checked={slotForm.is_active}
+                      onCheckedChange={(checked) => setSlotForm({ ...slotForm, is_active: checked })}
+                    />
+                  </div>
+                  <Button onClick={handleSaveSlot} className="w-full" data-testid="button-submit-departure">
+                    {editingSlot ? 'Update Departure' : 'Add Departure'}
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+
+        {/* Departures Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5 text-primary" />
+              Departures
+            </CardTitle>
+            <CardDescription>Driver trips are linked to the departure nearest their start, within an hour</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {routeLoading ? (
+              <div className="p-4 space-y-3">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-12" />
+                ))}
+              </div>
+            ) : slots.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <Clock className="h-12 w-12 text-muted-foreground mb-3" />
+                <h3 className="text-lg font-medium">No departures scheduled</h3>
+                <p className="text-muted-foreground mt-2">Add the morning and evening runs of this route</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left p-4 font-medium text-muted-foreground">Departure</th>
+                      <th className="text-left p-4 font-medium text-muted-foreground">Direction</th>
+                      <th className="text-left p-4 font-medium text-muted-foreground">Days</th>
+                      <th className="text-left p-4 font-medium text-muted-foreground">Bus</th>
+                      <th className="text-center p-4 font-medium text-muted-foreground">Status</th>
+                      <th className="text-right p-4 font-medium text-muted-foreground">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {slots.map((slot) => (
+                      <tr key={slot.id} className="border-b hover:bg-muted/30" data-testid={`departure-row-${slot.id}`}>
+                        <td className="p-4 font-medium">{formatSlotTime(slot.departure_time)}</td>
+                        <td className="p-4">{DIRECTION_LABELS[slot.direction]}</td>
+                        <td className="p-4 text-sm">{formatDays(slot.days)}</td>
+                        <td className="p-4 text-sm">{busLabel(slot.bus_id)}</td>
+                        <td className="p-4 text-center">
+                          <Badge variant={slot.is_active ? 'default' : 'secondary'}>
+                            {slot.is_active ? 'Running' : 'Paused'}
+                          </Badge>
+                        </td>
+                        <td className="p-4 text-right">
+                          <Button variant="ghost" size="icon" onClick={() => openEditSlot(slot)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDeleteSlot(slot)} className="text-destructive">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Stop Times */}
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <MapPin className="h-5 w-5 text-primary" />
+                Stop Times
+              </CardTitle>
+              <CardDescription>Minutes after departure the bus is due at each stop; leave blank for no scheduled time</CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleSaveOffsets}
+              disabled={savingOffsets || stops.length === 0}
+              data-testid="button-save-stop-times"
+            >
+              {savingOffsets && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Stop Times
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {stops.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This route has no stops yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {stops.map((stop) => (
+                  <div key={stop.id} className="flex items-center justify-between gap-4 py-2 border-b last:border-0">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-muted text-xs font-bold">
+                        {stop.sequence}
+                      </span>
+                      <span className="truncate">{stop.stop_name}</span>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Input
+                        type="number"
+                        min={0}
+                        className="w-24"
+                        value={offsets[stop.id] ?? ''}
+                        onChange={(e) => setOffsets({ ...offsets, [stop.id]: e.target.value })}
+                        data-testid={`input-stop-offset-${stop.id}`}
+                      />
+                      <span className="text-sm text-muted-foreground">min</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Holidays */}
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarOff className="h-5 w-5 text-primary" />
+                Holidays
+              </CardTitle>
+              <CardDescription>No departures run on these days</CardDescription>
+            </div>
+            <Dialog open={holidayDialogOpen} onOpenChange={(open) => { setHolidayDialogOpen(open); if (!open) setHolidayForm(emptyHolidayForm); }}>
+              <DialogTrigger asChild>
+                <Button variant="outline" data-testid="button-add-holiday">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Holiday
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add Holiday</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 py-4">
+                  <div>
+                    <Label htmlFor="holiday_date">Date</Label>
+                    <Input
+                      id="holiday_date"
+                      type="date"
+                      min={localDate()}
+                      value={holidayForm.holiday_date}
+                      onChange={(e) => setHolidayForm({ ...holidayForm, holiday_date: e.target.value })}
+                      data-testid="input-holiday-date"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="holiday_name">Name</Label>
+                    <Input
+                      id="holiday_name"
+                      placeholder="e.g. Diwali"
+                      value={holidayForm.name}
+                      onChange={(e) => setHolidayForm({ ...holidayForm, name: e.target.value })}
+                      data-testid="input-holiday-name"
+                    />
+                  </div>
+                  <div>
+                    <Label>Route</Label>
+                    <Select
+                      value={holidayForm.route_id}
+                      onValueChange={(value) => setHolidayForm({ ...holidayForm, route_id: value })}
+                    >
+                      <SelectTrigger data-testid="select-holiday-route">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL_ROUTES}>All routes</SelectItem>
+                        {routes.map((route) => (
+                          <SelectItem key={route.id} value={route.id}>
+                            {route.route_number} - {route.route_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button onClick={handleAddHoliday} className="w-full" data-testid="button-submit-holiday">
+                    Add Holiday
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </CardHeader>
+          <CardContent>
+            {holidays.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No upcoming holidays.</p>
+            ) : (
+              <div className="space-y-2">
+                {holidays.map((holiday) => (
+                  <div
+                    key={holiday.id}
+                    className="flex items-center justify-between gap-4 py-2 border-b last:border-0"
+                    data-testid={`holiday-row-${holiday.id}`}
+                  >
+                    <div>
+                      <p className="font-medium">{holiday.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatPassDate(holiday.holiday_date)} • {routeLabel(holiday.route_id)}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="icon" onClick={() => handleDeleteHoliday(holiday)} className="text-destructive">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </SidebarLayout>
+  );
+}
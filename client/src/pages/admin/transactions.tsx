@@ -1,12 +1,16 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
+import { isCreditTransaction, isReversible, reverseTransaction } from '@/lib/transactions';
 import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { ExportButton } from '@/components/export-button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
-import type { TransactionWithStudent } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import type { TransactionType, TransactionWithStudent } from '@shared/schema';
 import {
   Search,
   Filter,
@@ -16,14 +20,18 @@ import {
   XCircle,
   Clock,
   Receipt,
+  Undo2,
+  Loader2,
 } from 'lucide-react';
 
 export default function AdminTransactions() {
+  const { toast } = useToast();
   const [transactions, setTransactions] = useState<TransactionWithStudent[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterType, setFilterType] = useState<string>('all');
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [reversingId, setReversingId] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchTransactions = async () => {
@@ -59,6 +67,28 @@ export default function AdminTransactions() {
     .filter((t) => t.transaction_type === 'deduction' && t.status === 'success')
     .reduce((sum, t) => sum + t.amount, 0);
 
+  const refundFare = async (tx: TransactionWithStudent) => {
+    const reason = prompt(
+      `Refund ₹${tx.amount.toFixed(2)} to ${tx.student?.full_name || 'this student'}? Enter a reason (optional):`
+    );
+    if (reason === null) return;
+
+    setReversingId(tx.id);
+    try {
+      const { refund, balanceAfter } = await reverseTransaction(tx.id, reason.trim());
+      const reversed = { reversed_at: new Date().toISOString(), reversal_reason: reason.trim() || null };
+      setTransactions((prev) => [
+        { ...refund, student: tx.student },
+        ...prev.map((t) => (t.id === tx.id ? { ...t, ...reversed } : t)),
+      ]);
+      toast({ title: 'Fare refunded', description: `New balance: ₹${balanceAfter.toFixed(2)}` });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setReversingId(null);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'success':
@@ -106,9 +136,18 @@ export default function AdminTransactions() {
     <SidebarLayout>
       <div className="space-y-6">
         {/* Page Header */}
-        <div>
-          <h1 className="text-2xl font-semibold text-foreground">Transactions</h1>
-          <p className="text-muted-foreground mt-1">View all wallet transactions</p>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">Transactions</h1>
+            <p className="text-muted-foreground mt-1">View all wallet transactions</p>
+          </div>
+          <ExportButton
+            dataset="transactions"
+            filters={{
+              type: filterType === 'all' ? undefined : (filterType as TransactionType),
+              status: filterStatus === 'all' ? undefined : filterStatus,
+            }}
+          />
         </div>
 
         {/* Summary Cards */}
@@ -158,6 +197,8 @@ export default function AdminTransactions() {
               <SelectItem value="recharge">Recharges</SelectItem>
               <SelectItem value="deduction">Deductions</SelectItem>
               <SelectItem value="admin_adjustment">Adjustments</SelectItem>
+              <SelectItem value="pass_purchase">Pass Purchases</SelectItem>
+              <SelectItem value="refund">Refunds</SelectItem>
             </SelectContent>
           </Select>
           <Select value={filterStatus} onValueChange={setFilterStatus}>
@@ -197,6 +238,7 @@ export default function AdminTransactions() {
                       <th className="text-center p-4 font-medium text-muted-foreground">Status</th>
                       <th className="text-left p-4 font-medium text-muted-foreground">Date</th>
                       <th className="text-right p-4 font-medium text-muted-foreground">Balance After</th>
+                      <th className="text-right p-4 font-medium text-muted-foreground">Actions</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -212,7 +254,7 @@ export default function AdminTransactions() {
                         </td>
                         <td className="p-4">
                           <div className="flex items-center gap-2">
-                            {tx.transaction_type === 'recharge' ? (
+                            {isCreditTransaction(tx.transaction_type) ? (
                               <ArrowDownLeft className="h-4 w-4 text-chart-2" />
                             ) : (
                               <ArrowUpRight className="h-4 w-4 text-destructive" />
@@ -223,13 +265,22 @@ export default function AdminTransactions() {
                         <td className="p-4 text-right">
                           <span
                             className={`font-semibold ${
-                              tx.transaction_type === 'recharge' ? 'text-chart-2' : 'text-destructive'
+                              isCreditTransaction(tx.transaction_type) ? 'text-chart-2' : 'text-destructive'
                             }`}
                           >
-                            {tx.transaction_type === 'recharge' ? '+' : '-'}₹{Math.abs(tx.amount).toFixed(2)}
+                            {isCreditTransaction(tx.transaction_type) ? '+' : '-'}₹{Math.abs(tx.amount).toFixed(2)}
                           </span>
                         </td>
-                        <td className="p-4 text-center">{getStatusBadge(tx.status)}</td>
+                        <td className="p-4 text-center">
+                          <div className="flex flex-wrap items-center justify-center gap-1">
+                            {getStatusBadge(tx.status)}
+                            {tx.reversed_at && (
+                              <Badge variant="outline" title={tx.reversal_reason || undefined}>
+                                Refunded
+                              </Badge>
+                            )}
+                          </div>
+                        </td>
                         <td className="p-4 text-sm">
                           {new Date(tx.created_at).toLocaleDateString('en-IN', {
                             day: 'numeric',
@@ -240,6 +291,24 @@ export default function AdminTransactions() {
                           })}
                         </td>
                         <td className="p-4 text-right font-medium">₹{tx.balance_after.toFixed(2)}</td>
+                        <td className="p-4 text-right">
+                          {isReversible(tx) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => refundFare(tx)}
+                              disabled={reversingId === tx.id}
+                              data-testid={`button-reverse-${tx.id}`}
+                            >
+                              {reversingId === tx.id ? (
+                                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                              ) : (
+                                <Undo2 className="h-4 w-4 mr-1" />
+                              )}
+                              Refund
+                            </Button>
+                          )}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
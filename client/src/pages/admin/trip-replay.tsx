@@ -0,0 +1,591 @@
+import { useEffect, useMemo, useState } from 'react';
+import { supabase, getAuthHeaders } from '@/lib/supabase';
+import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { BusMap, type BusMapMarker } from '@/components/bus-map';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Slider } from '@/components/ui/slider';
+import { useToast } from '@/hooks/use-toast';
+import type { ActiveTripWithDetails, BusRoute, ReplayBreadcrumb, TripReplay, TripStopStatus } from '@shared/schema';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Gauge, History, Loader2, MapPin, Pause, Play, RotateCcw, ScanLine } from 'lucide-react';
+
+const TOOLTIP_STYLE = {
+  backgroundColor: 'hsl(var(--card))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '6px',
+};
+
+// Replay seconds per real second
+const PLAYBACK_SPEEDS = [1, 10, 30, 60, 120];
+const PLAYBACK_TICK_MS = 200;
+
+const SCAN_COLORS = {
+  success: '#22c55e',
+  failed: '#ef4444',
+};
+
+interface ReplayEvent {
+  key: string;
+  at: number;
+  kind: 'arrived' | 'departed' | 'scan';
+  label: string;
+  detail: string;
+  success?: boolean;
+}
+
+const todayLocal = () => {
+  const now = new Date();
+  const offset = now.getTimezoneOffset() * 60000;
+  return new Date(now.getTime() - offset).toISOString().slice(0, 10);
+};
+
+const formatClock = (ms: number) =>
+  new Date(ms).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+const formatSpeed = (speed: number | null) => (speed == null ? '—' : `${Math.round(speed * 3.6)} km/h`);
+
+// Index of the last fix at or before the given time, -1 before the first fix
+function fixIndexAt(breadcrumbs: ReplayBreadcrumb[], times: number[], at: number) {
+  let low = 0;
+  let high = breadcrumbs.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (times[mid] <= at) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Where the bus was at the given time, moving in a straight line between fixes
+function positionAt(breadcrumbs: ReplayBreadcrumb[], times: number[], at: number) {
+  const index = fixIndexAt(breadcrumbs, times, at);
+  if (index < 0) return null;
+
+  const fix = breadcrumbs[index];
+  const next = breadcrumbs[index + 1];
+  if (!next) return { ...fix, index };
+
+  const ratio = (at - times[index]) / (times[index + 1] - times[index] || 1);
+  return {
+    ...fix,
+    latitude: fix.latitude + (next.latitude - fix.latitude) * ratio,
+    longitude: fix.longitude + (next.longitude - fix.longitude) * ratio,
+    index,
+  };
+}
+
+export default function AdminTripReplay() {
+  const { toast } = useToast();
+  const [routes, setRoutes] = useState<BusRoute[]>([]);
+  const [trips, setTrips] = useState<ActiveTripWithDetails[]>([]);
+  const [tripsLoading, setTripsLoading] = useState(true);
+  const [date, setDate] = useState(todayLocal);
+  const [routeId, setRouteId] = useState('all');
+  const [tripId, setTripId] = useState<string | null>(null);
+  const [replay, setReplay] = useState<TripReplay | null>(null);
+  const [replayLoading, setReplayLoading] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(30);
+
+  useEffect(() => {
+    const fetchRoutes = async () => {
+      const { data } = await supabase.from('bus_routes').select('*').order('route_number');
+      if (data) setRoutes(data);
+    };
+    fetchRoutes();
+  }, []);
+
+  useEffect(() => {
+    const fetchTrips = async () => {
+      setTripsLoading(true);
+      const dayStart = new Date(`${date}T00:00:00`);
+      const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+      let query = supabase
+        .from('active_trips')
+        .select('*, route:bus_routes(*), bus:buses(*), driver:drivers(*)')
+        .eq('is_active', false)
+        .gte('started_at', dayStart.toISOString())
+        .lt('started_at', dayEnd.toISOString())
+        .order('started_at', { ascending: true });
+
+      if (routeId !== 'all') query = query.eq('route_id', routeId);
+
+      const { data, error } = await query;
+      if (error) {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      }
+      setTrips((data || []) as ActiveTripWithDetails[]);
+      setTripsLoading(false);
+    };
+
+    if (date) fetchTrips();
+  }, [date, routeId]);
+
+  useEffect(() => {
+    if (!tripId) return;
+
+    const fetchReplay = async () => {
+      setReplayLoading(true);
+      setPlaying(false);
+      setPosition(0);
+      try {
+        const response = await fetch(`/api/trips/${tripId}/replay`, {
+          headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        });
+
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'Failed to load trip replay');
+        }
+
+        setReplay(result.trip);
+      } catch (err: any) {
+        setReplay(null);
+        toast({ title: 'Error', description: err.message, variant: 'destructive' });
+      } finally {
+        setReplayLoading(false);
+      }
+    };
+
+    fetchReplay();
+  }, [tripId]);
+
+  const breadcrumbs = replay?.breadcrumbs ?? [];
+  const times = useMemo(() => breadcrumbs.map((fix) => new Date(fix.timestamp).getTime()), [breadcrumbs]);
+
+  // The timeline runs from the trip start to its end, or to the last fix
+  // when the trip was never closed properly
+  const startMs = replay ? new Date(replay.started_at).getTime() : 0;
+  const endMs = replay
+    ? Math.max(
+        replay.ended_at ? new Date(replay.ended_at).getTime() : startMs,
+        times.length > 0 ? times[times.length - 1] : startMs
+      )
+    : 0;
+  const duration = endMs - startMs;
+  const currentMs = startMs + position;
+
+  useEffect(() => {
+    if (!playing) return;
+
+    const timer = setInterval(() => {
+      setPosition((value) => {
+        const next = value + PLAYBACK_TICK_MS * playbackSpeed;
+        if (next >= duration) {
+          setPlaying(false);
+          return duration;
+        }
+        return next;
+      });
+    }, PLAYBACK_TICK_MS);
+
+    return () => clearInterval(timer);
+  }, [playing, playbackSpeed, duration]);
+
+  const busPosition = replay ? positionAt(breadcrumbs, times, currentMs) : null;
+
+  const trail = busPosition ? [...breadcrumbs.slice(0, busPosition.index + 1), busPosition] : [];
+
+  const events = useMemo(() => {
+    if (!replay) return [];
+    const list: ReplayEvent[] = [];
+
+    replay.stops.forEach((stop) => {
+      if (stop.arrived_at) {
+        list.push({
+          key: `${stop.id}-arrived`,
+          at: new Date(stop.arrived_at).getTime(),
+          kind: 'arrived',
+          label: `Arrived at ${stop.stop_name}`,
+          detail: `Stop ${stop.sequence}`,
+        });
+      }
+      if (stop.departed_at) {
+        list.push({
+          key: `${stop.id}-departed`,
+          at: new Date(stop.departed_at).getTime(),
+          kind: 'departed',
+          label: `Left ${stop.stop_name}`,
+          detail: `Stop ${stop.sequence}`,
+        });
+      }
+    });
+
+    replay.scans.forEach((scan) => {
+      list.push({
+        key: scan.id,
+        at: new Date(scan.scan_timestamp).getTime(),
+        kind: 'scan',
+        label: scan.student?.full_name ?? 'Unknown student',
+        detail: scan.route_stop ? `${scan.scan_status} at ${scan.route_stop.stop_name}` : scan.scan_status,
+        success: scan.scan_status === 'success',
+      });
+    });
+
+    return list.sort((a, b) => a.at - b.at);
+  }, [replay]);
+
+  // Stop colours and scan pins only change when playback passes an event
+  const passedEvents = events.filter((event) => event.at <= currentMs).length;
+
+  const stops = useMemo(
+    () =>
+      (replay?.stops ?? []).map((stop) => {
+        let status: TripStopStatus = 'pending';
+        if (stop.departed_at && new Date(stop.departed_at).getTime() <= currentMs) status = 'departed';
+        else if (stop.arrived_at && new Date(stop.arrived_at).getTime() <= currentMs) status = 'arrived';
+        return { ...stop, status };
+      }),
+    [replay, passedEvents]
+  );
+
+  // Scans are pinned where the bus was when they happened, or at their stop
+  // when there was no fix yet
+  const scanMarkers = useMemo(() => {
+    const markers: BusMapMarker[] = [];
+    for (const scan of replay?.scans ?? []) {
+      const at = new Date(scan.scan_timestamp).getTime();
+      if (at > currentMs) continue;
+
+      const point = positionAt(breadcrumbs, times, at) ?? (
+        scan.route_stop?.latitude && scan.route_stop?.longitude
+          ? { latitude: Number(scan.route_stop.latitude), longitude: Number(scan.route_stop.longitude) }
+          : null
+      );
+      if (!point) continue;
+
+      markers.push({
+        id: scan.id,
+        latitude: point.latitude,
+        longitude: point.longitude,
+        title: `${scan.student?.full_name ?? 'Student'} - ${scan.scan_status} at ${formatClock(at)}`,
+        color: scan.scan_status === 'success' ? SCAN_COLORS.success : SCAN_COLORS.failed,
+      });
+    }
+    return markers;
+  }, [replay, times, passedEvents]);
+
+  const speedSeries = useMemo(
+    () =>
+      breadcrumbs.map((fix, index) => ({
+        minute: (times[index] - startMs) / 60000,
+        speed: fix.speed == null ? null : Math.round(fix.speed * 3.6),
+      })),
+    [breadcrumbs, times, startMs]
+  );
+
+  const togglePlaying = () => {
+    if (!playing && position >= duration) setPosition(0);
+    setPlaying(!playing);
+  };
+
+  const seekTo = (at: number) => {
+    setPosition(Math.min(Math.max(at - startMs, 0), duration));
+  };
+
+  return (
+    <SidebarLayout>
+      <div className="space-y-6">
+        {/* Page Header */}
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">Trip Replay</h1>
+          <p className="text-muted-foreground mt-1">
+            Play back a finished trip's GPS track, stop arrivals and scans to look into complaints
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div>
+            <Label htmlFor="replay-date">Date</Label>
+            <Input
+              id="replay-date"
+              type="date"
+              value={date}
+              max={todayLocal()}
+              onChange={(e) => setDate(e.target.value)}
+              data-testid="input-replay-date"
+            />
+          </div>
+          <div className="sm:w-56">
+            <Label>Route</Label>
+            <Select value={routeId} onValueChange={setRouteId}>
+              <SelectTrigger data-testid="select-replay-route">
+                <SelectValue placeholder="All routes" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All routes</SelectItem>
+                {routes.map((route) => (
+                  <SelectItem key={route.id} value={route.id}>
+                    {route.route_number} - {route.route_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="sm:w-80">
+            <Label>Trip</Label>
+            <Select value={tripId ?? ''} onValueChange={setTripId} disabled={tripsLoading || trips.length === 0}>
+              <SelectTrigger data-testid="select-replay-trip">
+                <SelectValue placeholder={tripsLoading ? 'Loading trips...' : trips.length === 0 ? 'No finished trips' : 'Pick a trip'} />
+              </SelectTrigger>
+              <SelectContent>
+                {trips.map((trip) => (
+                  <SelectItem key={trip.id} value={trip.id}>
+                    {formatClock(new Date(trip.started_at).getTime())} - {trip.route?.route_number ?? 'Route'} ({trip.bus?.bus_number ?? 'Bus'}, {trip.driver?.full_name ?? 'Driver'})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {replayLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground mb-3" />}
+        </div>
+
+        {!replay && !replayLoading && (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>Pick a finished trip to replay it</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {replayLoading && !replay && <Skeleton className="h-[420px]" />}
+
+        {replay && (
+          <>
+            <div className="grid gap-6 lg:grid-cols-3">
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="text-lg">
+                    {replay.route?.route_number} - {replay.route?.route_name}
+                  </CardTitle>
+                  <CardDescription>
+                    {replay.bus?.bus_number} · {replay.driver?.full_name} · {breadcrumbs.length} GPS fixes
+                    {replay.breadcrumbs_downsampled_at && ' (thinned by retention)'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <BusMap
+                    key={replay.id}
+                    stops={stops}
+                    location={busPosition}
+                    trail={trail}
+                    markers={scanMarkers}
+                    className="h-[380px] w-full"
+                  />
+                  {breadcrumbs.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      No GPS fixes were recorded for this trip; stop events and scans are still shown.
+                    </p>
+                  )}
+
+                  {/* Timeline */}
+                  <div className="space-y-3">
+                    <div className="relative h-3">
+                      {events.map((event) => (
+                        <button
+                          key={event.key}
+                          type="button"
+                          title={`${formatClock(event.at)} ${event.label}`}
+                          onClick={() => seekTo(event.at)}
+                          className={`absolute top-0 h-3 w-1 rounded-sm ${
+                            event.kind === 'scan'
+                              ? event.success ? 'bg-green-500' : 'bg-red-500'
+                              : event.kind === 'arrived' ? 'bg-blue-500' : 'bg-muted-foreground'
+                          }`}
+                          style={{ left: `${duration > 0 ? ((event.at - startMs) / duration) * 100 : 0}%` }}
+                        />
+                      ))}
+                    </div>
+                    <Slider
+                      value={[position]}
+                      min={0}
+                      max={Math.max(duration, 1)}
+                      step={1000}
+                      onValueChange={([value]) => setPosition(value)}
+                      data-testid="slider-replay-position"
+                    />
+                    <div className="flex flex-wrap items-center gap-3">
+                      <Button size="sm" onClick={togglePlaying} data-testid="button-replay-play">
+                        {playing ? <Pause className="h-4 w-4 mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+                        {playing ? 'Pause' : 'Play'}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setPlaying(false);
+                          setPosition(0);
+                        }}
+                        data-testid="button-replay-restart"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <Select value={String(playbackSpeed)} onValueChange={(value) => setPlaybackSpeed(Number(value))}>
+                        <SelectTrigger className="w-24" data-testid="select-replay-speed">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PLAYBACK_SPEEDS.map((speed) => (
+                            <SelectItem key={speed} value={String(speed)}>
+                              {speed}x
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span className="text-sm font-medium">{formatClock(currentMs)}</span>
+                      <span className="text-sm text-muted-foreground">
+                        {formatElapsed(position)} / {formatElapsed(duration)}
+                      </span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <div className="space-y-6">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">Speed</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center gap-2 text-2xl font-semibold" data-testid="text-replay-speed">
+                      <Gauge className="h-5 w-5 text-muted-foreground" />
+                      {formatSpeed(busPosition?.speed ?? null)}
+                    </div>
+                    {speedSeries.length > 1 && (
+                      <div className="h-32 mt-4">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart data={speedSeries}>
+                            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                            <XAxis
+                              dataKey="minute"
+                              type="number"
+                              domain={[0, duration / 60000]}
+                              tickFormatter={(minute) => `${Math.round(minute)}m`}
+                              className="text-xs"
+                            />
+                            <YAxis width={32} className="text-xs" />
+                            <Tooltip
+                              contentStyle={TOOLTIP_STYLE}
+                              labelFormatter={(minute) => formatElapsed(Number(minute) * 60000)}
+                              formatter={(value: number) => [`${value} km/h`, 'Speed']}
+                            />
+                            <Line type="monotone" dataKey="speed" stroke="hsl(var(--primary))" dot={false} connectNulls />
+                            <ReferenceLine x={position / 60000} stroke="hsl(var(--destructive))" />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">Events</CardTitle>
+                    <CardDescription>Click an event to jump to it</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {events.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No stop events or scans on this trip</p>
+                    ) : (
+                      <div className="max-h-80 overflow-y-auto space-y-1">
+                        {events.map((event) => (
+                          <button
+                            key={event.key}
+                            type="button"
+                            onClick={() => seekTo(event.at)}
+                            className={`w-full flex items-start gap-3 rounded-md p-2 text-left hover-elevate ${
+                              event.at <= currentMs ? '' : 'opacity-50'
+                            }`}
+                            data-testid={`button-replay-event-${event.key}`}
+                          >
+                            {event.kind === 'scan' ? (
+                              <ScanLine className={`h-4 w-4 mt-0.5 ${event.success ? 'text-green-600' : 'text-red-600'}`} />
+                            ) : (
+                              <MapPin className={`h-4 w-4 mt-0.5 ${event.kind === 'arrived' ? 'text-blue-600' : 'text-muted-foreground'}`} />
+                            )}
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-medium truncate">{event.label}</p>
+                              <p className="text-xs text-muted-foreground">{event.detail}</p>
+                            </div>
+                            <span className="text-xs text-muted-foreground">{formatClock(event.at)}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+
+            {/* Stops */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Stops</CardTitle>
+                <CardDescription>When the bus reached and left each stop, and who boarded there</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left p-4 font-medium text-sm">Stop</th>
+                      <th className="text-center p-4 font-medium text-sm">Arrived</th>
+                      <th className="text-center p-4 font-medium text-sm">Left</th>
+                      <th className="text-center p-4 font-medium text-sm">Boardings</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {replay.stops.map((stop) => (
+                      <tr key={stop.id} className="border-b last:border-0">
+                        <td className="p-4">
+                          <span className="text-muted-foreground mr-2">{stop.sequence}.</span>
+                          {stop.stop_name}
+                        </td>
+                        <td className="p-4 text-center">
+                          {stop.arrived_at ? (
+                            <button type="button" className="underline-offset-2 hover:underline" onClick={() => seekTo(new Date(stop.arrived_at!).getTime())}>
+                              {formatClock(new Date(stop.arrived_at).getTime())}
+                            </button>
+                          ) : (
+                            <Badge variant="outline" className="text-red-600 border-red-200">Not recorded</Badge>
+                          )}
+                        </td>
+                        <td className="p-4 text-center">
+                          {stop.departed_at ? formatClock(new Date(stop.departed_at).getTime()) : '—'}
+                        </td>
+                        <td className="p-4 text-center">
+                          {replay.scans.filter((scan) => scan.route_stop_id === stop.id && scan.scan_status === 'success').length}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </SidebarLayout>
+  );
+}
@@ -1,15 +1,46 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
 import { useAuth } from '@/lib/auth-context';
-import { supabase } from '@/lib/supabase';
+import { supabase, getAuthHeaders } from '@/lib/supabase';
 import { SidebarLayout } from '@/components/layout/sidebar-layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Progress } from '@/components/ui/progress';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useToast } from '@/hooks/use-toast';
-import type { Bus, BusRoute, Student, RouteStop, ActiveTrip, TripStopStatus } from '@shared/schema';
+import {
+  saveRoster,
+  loadRoster,
+  enqueueScan,
+  getQueuedScans,
+  removeQueuedScans,
+  verifyPassOffline,
+  getPassNonce,
+  type OfflineVerification,
+} from '@/lib/offline-scans';
+import { fetchUpcomingDepartures, formatDepartureTime, formatLateness, minutesLate } from '@/lib/timetable';
+import {
+  OCCUPANCY_LABELS,
+  formatSeatsLeft,
+  occupancyLevel,
+  submitExitScan,
+  type OccupancyLevel,
+} from '@/lib/occupancy';
+import type {
+  Bus,
+  BusRoute,
+  RouteStop,
+  ActiveTrip,
+  TripStopStatus,
+  ScanResult,
+  ExitScanResult,
+  ScanSyncResult,
+  ScanSyncConflict,
+  UpcomingDeparture,
+} from '@shared/schema';
+import { isAcceptableScanTime } from '@shared/schema';
 import { Html5Qrcode } from 'html5-qrcode';
 import {
   Play,
@@ -27,11 +58,22 @@ import {
   Clock,
   Navigation,
   Wifi,
+  WifiOff,
+  RefreshCw,
+  AlertTriangle,
+  LogIn,
+  LogOut,
 } from 'lucide-react';
 
 const ARRIVAL_RADIUS_METERS = 50;
 const DEPARTURE_RADIUS_METERS = 80;
 
+// Live position publishing: at most one fix per interval, and a parked bus
+// only sends a heartbeat fix every LOCATION_HEARTBEAT_MS
+const LOCATION_PUBLISH_INTERVAL_MS = 10000;
+const LOCATION_HEARTBEAT_MS = 30000;
+const LOCATION_MIN_MOVE_METERS = 15;
+
 function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
   const R = 6371e3;
   const phi1 = lat1 * Math.PI / 180;
@@ -47,13 +89,25 @@ function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: numbe
   return R * c;
 }
 
-interface ScanResult {
-  status: 'success' | 'insufficient_balance' | 'limit_exceeded' | 'blocked' | 'not_found';
-  student?: Student;
-  message: string;
-  fareDeducted?: number;
-  balanceAfter?: number;
-}
+const OFFLINE_REJECTION_MESSAGES: Record<Extract<OfflineVerification, { valid: false }>['reason'], string> = {
+  malformed: 'Invalid pass QR code.',
+  bad_signature: 'Invalid pass QR code.',
+  wrong_route: 'This pass is not valid for this route.',
+  expired: 'This pass code has expired. Ask the student to refresh their pass.',
+  unknown_student: 'Student is not on the cached list for this route.',
+};
+
+const SYNC_CONFLICT_LABELS: Record<ScanSyncConflict, string> = {
+  duplicate: 'Duplicate scan - not charged',
+  negative_balance: 'Charged into negative balance',
+  rejected: 'Rejected by server',
+};
+
+const OCCUPANCY_STYLES: Record<OccupancyLevel, string> = {
+  available: 'text-emerald-600',
+  nearly_full: 'text-amber-600',
+  full: 'text-red-600',
+};
 
 interface StopWithStatus extends RouteStop {
   status: TripStopStatus;
@@ -68,6 +122,7 @@ export default function DriverDashboard() {
   const [route, setRoute] = useState<BusRoute | null>(null);
   const [stops, setStops] = useState<StopWithStatus[]>([]);
   const [activeTrip, setActiveTrip] = useState<ActiveTrip | null>(null);
+  const [nextDeparture, setNextDeparture] = useState<UpcomingDeparture | null>(null);
   const [todayStats, setTodayStats] = useState({ total: 0, success: 0, failed: 0 });
   const [totalStudents, setTotalStudents] = useState(0);
   const [loading, setLoading] = useState(true);
@@ -76,17 +131,33 @@ export default function DriverDashboard() {
   const [scannerOpen, setScannerOpen] = useState(false);
   const [scanning, setScanning] = useState(false);
   const [scanResult, setScanResult] = useState<ScanResult | null>(null);
+  const [scanMode, setScanMode] = useState<'board' | 'exit'>('board');
+  const [exitResult, setExitResult] = useState<ExitScanResult | null>(null);
   const scannerRef = useRef<Html5Qrcode | null>(null);
+  // Read by the scanner callback, which keeps the closure it started with
+  const scanModeRef = useRef<'board' | 'exit'>('board');
+
+  // Students on board the running trip, kept apart from activeTrip so
+  // boardings don't restart the GPS watch
+  const [onBoard, setOnBoard] = useState(0);
+  const occupancyLevelRef = useRef<OccupancyLevel>('available');
   
   const [gpsEnabled, setGpsEnabled] = useState(false);
   const [currentLocation, setCurrentLocation] = useState<{lat: number, lng: number} | null>(null);
   const [gpsError, setGpsError] = useState<string | null>(null);
   const watchIdRef = useRef<number | null>(null);
   const lastAutoUpdateRef = useRef<{stopId: string, status: TripStopStatus, time: number} | null>(null);
+  const lastPublishedRef = useRef<{lat: number, lng: number, time: number} | null>(null);
   
   const [testMode, setTestMode] = useState(false);
   const [simulatingStop, setSimulatingStop] = useState<string | null>(null);
 
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const [syncConflicts, setSyncConflicts] = useState<ScanSyncResult[]>([]);
+  const syncingRef = useRef(false);
+
   useEffect(() => {
     const fetchData = async () => {
       if (!driver?.bus_id) {
@@ -135,6 +206,7 @@ export default function DriverDashboard() {
           
           if (tripData && stopsData) {
             setActiveTrip(tripData);
+            setOnBoard(tripData.occupancy ?? 0);
             
             const { data: eventData } = await supabase
               .from('trip_stop_events')
@@ -206,6 +278,130 @@ export default function DriverDashboard() {
     fetchData();
   }, [driver]);
 
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const refreshTodayStats = useCallback(async () => {
+    if (!driver) return;
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const { data: scans } = await supabase
+      .from('scan_logs')
+      .select('scan_status')
+      .eq('driver_id', driver.id)
+      .gte('scan_timestamp', today.toISOString());
+
+    if (scans) {
+      setTodayStats({
+        total: scans.length,
+        success: scans.filter((s) => s.scan_status === 'success').length,
+        failed: scans.filter((s) => s.scan_status !== 'success').length,
+      });
+    }
+  }, [driver]);
+
+  const syncOfflineScans = useCallback(async () => {
+    if (!driver || syncingRef.current) return;
+
+    const all = await getQueuedScans();
+    setPendingSyncCount(all.length);
+    if (all.length === 0) return;
+
+    // The server refuses a whole batch holding a scan outside its time window,
+    // so those are settled here as rejected instead of blocking the queue
+    const stale = all.filter((scan) => !isAcceptableScanTime(scan.scanned_at));
+    const queued = all.filter((scan) => isAcceptableScanTime(scan.scanned_at));
+
+    if (stale.length > 0) {
+      await removeQueuedScans(stale.map((scan) => scan.scan_id));
+      setPendingSyncCount(queued.length);
+      setSyncConflicts(prev => [
+        ...stale.map((scan): ScanSyncResult => ({
+          scan_id: scan.scan_id,
+          result: {
+            status: 'invalid_pass',
+            message: 'This scan was recorded too long ago to be settled.',
+            offline: true,
+            conflict: 'rejected',
+          },
+        })),
+        ...prev,
+      ]);
+    }
+    if (queued.length === 0) return;
+
+    syncingRef.current = true;
+    setSyncing(true);
+
+    try {
+      const response = await fetch('/api/scans/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({ scans: queued }),
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Sync failed');
+      }
+
+      const results = data.results as ScanSyncResult[];
+      const settled = results.filter((r) => r.result);
+      const conflicts = settled.filter((r) => r.result?.conflict);
+
+      await removeQueuedScans(settled.map((r) => r.scan_id));
+      setPendingSyncCount(queued.length - settled.length);
+      setSyncConflicts(prev => [...conflicts, ...prev]);
+
+      toast({
+        title: 'Offline scans synced',
+        description: conflicts.length > 0
+          ? `${settled.length} settled, ${conflicts.length} need attention.`
+          : `${settled.length} settled.`,
+        variant: conflicts.length > 0 ? 'destructive' : undefined,
+      });
+
+      await refreshTodayStats();
+    } catch (err) {
+      console.error('Failed to sync offline scans:', err);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, [driver, toast, refreshTodayStats]);
+
+  useEffect(() => {
+    if (!driver || !isOnline) return;
+
+    const cacheRoster = async () => {
+      try {
+        const response = await fetch('/api/driver/offline-roster', {
+          headers: await getAuthHeaders(),
+        });
+        const data = await response.json();
+        if (response.ok && data.success) {
+          await saveRoster(data.roster);
+        }
+      } catch (err) {
+        console.error('Failed to cache offline roster:', err);
+      }
+    };
+
+    cacheRoster();
+    syncOfflineScans();
+  }, [driver, isOnline, syncOfflineScans]);
+
   const autoUpdateStopStatus = useCallback(async (stop: StopWithStatus, newStatus: TripStopStatus, tripId: string) => {
     if (!stop.event_id) return;
     
@@ -254,6 +450,44 @@ export default function DriverDashboard() {
     }
   }, [toast]);
 
+  const publishLocation = useCallback(async (
+    tripId: string,
+    coords: { latitude: number; longitude: number; speed?: number | null; heading?: number | null },
+    force = false
+  ) => {
+    if (!driver || !bus) return;
+
+    const now = Date.now();
+    const last = lastPublishedRef.current;
+    if (!force && last) {
+      const elapsed = now - last.time;
+      const moved = calculateDistance(last.lat, last.lng, coords.latitude, coords.longitude);
+      if (elapsed < LOCATION_PUBLISH_INTERVAL_MS) return;
+      if (moved < LOCATION_MIN_MOVE_METERS && elapsed < LOCATION_HEARTBEAT_MS) return;
+    }
+
+    lastPublishedRef.current = { lat: coords.latitude, lng: coords.longitude, time: now };
+
+    // Browsers report NaN heading while stationary
+    const heading = coords.heading != null && !Number.isNaN(coords.heading) ? coords.heading : null;
+
+    const { error } = await supabase.from('bus_locations').insert({
+      bus_id: bus.id,
+      driver_id: driver.id,
+      trip_id: tripId,
+      latitude: coords.latitude,
+      longitude: coords.longitude,
+      speed: coords.speed ?? null,
+      heading,
+      timestamp: new Date(now).toISOString(),
+      is_active: true,
+    });
+
+    if (error) {
+      console.error('Failed to publish bus location:', error.message);
+    }
+  }, [driver, bus]);
+
   const simulateAtStop = useCallback(async (stop: StopWithStatus) => {
     if (!activeTrip || !stop.latitude || !stop.longitude) return;
     
@@ -262,6 +496,7 @@ export default function DriverDashboard() {
     const simulatedLat = stop.latitude;
     const simulatedLng = stop.longitude;
     setCurrentLocation({ lat: simulatedLat, lng: simulatedLng });
+    await publishLocation(activeTrip.id, { latitude: simulatedLat, longitude: simulatedLng }, true);
 
     for (const s of stops) {
       if (!s.latitude || !s.longitude) continue;
@@ -288,7 +523,7 @@ export default function DriverDashboard() {
       title: 'GPS Simulated',
       description: `Location set to: ${stop.stop_name}`,
     });
-  }, [activeTrip, stops, autoUpdateStopStatus, toast]);
+  }, [activeTrip, stops, autoUpdateStopStatus, publishLocation, toast]);
 
   const simulateDeparture = useCallback(async (stop: StopWithStatus) => {
     if (!activeTrip || !stop.latitude || !stop.longitude) return;
@@ -347,6 +582,7 @@ export default function DriverDashboard() {
     const handlePosition = (position: GeolocationPosition) => {
       const { latitude, longitude } = position.coords;
       setCurrentLocation({ lat: latitude, lng: longitude });
+      publishLocation(activeTrip.id, position.coords);
 
       for (const stop of stops) {
         if (!stop.latitude || !stop.longitude) continue;
@@ -405,7 +641,71 @@ export default function DriverDashboard() {
         watchIdRef.current = null;
       }
     };
-  }, [activeTrip, stops, autoUpdateStopStatus]);
+  }, [activeTrip, stops, autoUpdateStopStatus, publishLocation]);
+
+  // Boardings and alightings are counted by the database, including students
+  // dropped off at their stop and exit scans, so follow the trip row
+  const activeTripId = activeTrip?.id;
+  useEffect(() => {
+    if (!activeTripId) return;
+
+    const channel = supabase
+      .channel(`trip-occupancy-${activeTripId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'active_trips',
+          filter: `id=eq.${activeTripId}`,
+        },
+        (payload) => {
+          const trip = payload.new as ActiveTrip;
+          if (typeof trip.occupancy === 'number') setOnBoard(trip.occupancy);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [activeTripId]);
+
+  // Warn each time the bus becomes nearly full or full
+  useEffect(() => {
+    if (!bus || !activeTripId) {
+      occupancyLevelRef.current = 'available';
+      return;
+    }
+
+    const level = occupancyLevel(onBoard, bus.capacity);
+    const previous = occupancyLevelRef.current;
+    occupancyLevelRef.current = level;
+
+    if (level === previous || level === 'available' || (previous === 'full' && level === 'nearly_full')) return;
+
+    toast({
+      title: level === 'full' ? 'Bus is full' : 'Bus is nearly full',
+      description: `${onBoard} of ${bus.capacity} on board - ${formatSeatsLeft(onBoard, bus.capacity).toLowerCase()}.`,
+      variant: 'destructive',
+    });
+  }, [onBoard, bus, activeTripId, toast]);
+
+  // The next timetabled run for this bus, shown until a trip starts
+  useEffect(() => {
+    if (!route || !bus || activeTrip) {
+      setNextDeparture(null);
+      return;
+    }
+
+    fetchUpcomingDepartures(route.id, { limit: 5 })
+      .then(departures => {
+        setNextDeparture(
+          departures.find(d => !d.trip_id && (!d.bus_id || d.bus_id === bus.id)) ?? null
+        );
+      })
+      .catch(err => console.error('Failed to load departures:', err));
+  }, [route, bus, activeTrip]);
 
   const startTrip = async () => {
     if (!driver || !bus || !route) return;
@@ -426,6 +726,7 @@ export default function DriverDashboard() {
       if (error) throw error;
 
       setActiveTrip(tripData);
+      setOnBoard(0);
 
       const stopEvents = stops.map(stop => ({
         trip_id: tripData.id,
@@ -451,9 +752,14 @@ export default function DriverDashboard() {
         }));
       }
 
+      // The database links the trip to the nearest timetabled departure
       toast({
         title: 'Trip started',
-        description: 'Students can now track your bus location.',
+        description: tripData.scheduled_departure
+          ? `Scheduled departure ${formatDepartureTime(tripData.scheduled_departure)} - ${formatLateness(
+              minutesLate(tripData.started_at, tripData.scheduled_departure)
+            ).toLowerCase()}.`
+          : 'Students can now track your bus location.',
       });
     } catch (err) {
       console.error('Failed to start trip:', err);
@@ -474,7 +780,15 @@ export default function DriverDashboard() {
         .update({ is_active: false, ended_at: new Date().toISOString() })
         .eq('id', activeTrip.id);
 
+      await supabase
+        .from('bus_locations')
+        .update({ is_active: false })
+        .eq('trip_id', activeTrip.id);
+
+      lastPublishedRef.current = null;
+
       setActiveTrip(null);
+      setOnBoard(0);
       setStops(prevStops => prevStops.map(stop => ({
         ...stop,
         status: 'pending' as TripStopStatus,
@@ -545,6 +859,7 @@ export default function DriverDashboard() {
   const startScanner = async () => {
     setScannerOpen(true);
     setScanResult(null);
+    setExitResult(null);
     setScanning(true);
 
     setTimeout(async () => {
@@ -586,180 +901,145 @@ export default function DriverDashboard() {
     await stopScanner();
     setScannerOpen(false);
     setScanResult(null);
+    setExitResult(null);
+    changeScanMode('board');
   };
 
-  const onScanSuccess = async (decodedText: string) => {
-    await stopScanner();
+  const changeScanMode = (mode: 'board' | 'exit') => {
+    scanModeRef.current = mode;
+    setScanMode(mode);
+  };
 
-    const studentId = decodedText.trim();
-    
-    if (!driver || !bus || !route) {
-      setScanResult({
+  // Exit scans only update occupancy, so they are not queued while offline;
+  // the student is dropped off at their stop or at the end of the trip instead
+  const recordExitScan = async (passToken: string) => {
+    if (!navigator.onLine) {
+      setExitResult({
         status: 'not_found',
-        message: 'Driver or bus configuration error.',
+        message: 'Exit scans need a connection. The student will be counted off at their stop.',
       });
       return;
     }
 
     try {
-      const { data: student, error: studentError } = await supabase
-        .from('students')
-        .select('*')
-        .eq('id', studentId)
-        .single();
-
-      if (studentError || !student) {
-        setScanResult({
-          status: 'not_found',
-          message: 'Student not found in the system.',
-        });
-        return;
-      }
+      const result = await submitExitScan(passToken);
+      setExitResult(result);
+      if (result.occupancy) setOnBoard(result.occupancy.onBoard);
+    } catch (err) {
+      console.error('Exit scan error:', err);
+      setExitResult({
+        status: 'not_found',
+        message: 'Error recording exit. Please try again.',
+      });
+    }
+  };
 
-      if (student.is_blocked) {
-        await supabase.from('scan_logs').insert({
-          student_id: student.id,
-          driver_id: driver.id,
-          bus_id: bus.id,
-          scan_status: 'blocked',
-          fare_deducted: 0,
-          balance_after_scan: student.wallet_balance,
-        });
+  const recordOfflineScan = async (scanId: string, passToken: string) => {
+    if (!driver) return;
 
-        setScanResult({
-          status: 'blocked',
-          student,
-          message: 'This student pass is blocked. Contact administrator.',
-        });
-        return;
-      }
+    const roster = await loadRoster(driver.id);
+    if (!roster) {
+      setScanResult({
+        status: 'not_found',
+        message: 'Offline and no cached student list. Connect once to download it.',
+        offline: true,
+      });
+      return;
+    }
 
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+    const verification = await verifyPassOffline(passToken, roster);
+    if (!verification.valid) {
+      setScanResult({
+        status: verification.reason === 'expired' ? 'invalid_pass' : 'not_found',
+        message: OFFLINE_REJECTION_MESSAGES[verification.reason],
+        offline: true,
+      });
+      return;
+    }
 
-      const { count: scanCount } = await supabase
-        .from('scan_logs')
-        .select('*', { count: 'exact', head: true })
-        .eq('student_id', student.id)
-        .eq('scan_status', 'success')
-        .gte('scan_timestamp', today.toISOString());
+    const { student } = verification;
+    const queued = await getQueuedScans();
 
-      const todayScans = scanCount || 0;
+    if (queued.some((q) => getPassNonce(q.pass_token) === verification.payload.n)) {
+      setScanResult({
+        status: 'invalid_pass',
+        student,
+        message: 'This pass code has already been used. Ask the student to refresh their pass.',
+        offline: true,
+      });
+      return;
+    }
 
-      if (todayScans >= 2) {
-        await supabase.from('scan_logs').insert({
-          student_id: student.id,
-          driver_id: driver.id,
-          bus_id: bus.id,
-          scan_status: 'limit_exceeded',
-          fare_deducted: 0,
-          balance_after_scan: student.wallet_balance,
-        });
+    // Blocked scans are queued too so the server logs them once back online
+    await enqueueScan({ scan_id: scanId, pass_token: passToken, scanned_at: new Date().toISOString() });
+    setPendingSyncCount(queued.length + 1);
+
+    setScanResult(student.is_blocked ? {
+      status: 'blocked',
+      student,
+      message: 'This student pass is blocked. Contact administrator.',
+      offline: true,
+    } : {
+      status: 'success',
+      student,
+      message: 'Recorded offline - fare will be settled when back online.',
+      offline: true,
+    });
+  };
 
-        setScanResult({
-          status: 'limit_exceeded',
-          student,
-          message: 'Daily scan limit (2) exceeded.',
-        });
-        return;
-      }
+  const onScanSuccess = async (decodedText: string) => {
+    await stopScanner();
 
-      const dailyFare = route.daily_fare;
-
-      if (todayScans === 0) {
-        if (student.wallet_balance < dailyFare) {
-          await supabase.from('scan_logs').insert({
-            student_id: student.id,
-            driver_id: driver.id,
-            bus_id: bus.id,
-            scan_status: 'insufficient_balance',
-            fare_deducted: 0,
-            balance_after_scan: student.wallet_balance,
-          });
-
-          setScanResult({
-            status: 'insufficient_balance',
-            student,
-            message: `Insufficient balance. Need ₹${dailyFare}, have ₹${student.wallet_balance.toFixed(2)}`,
-          });
-          return;
-        }
+    if (!driver || !bus || !route) {
+      setScanResult({
+        status: 'not_found',
+        message: 'Driver or bus configuration error.',
+      });
+      return;
+    }
 
-        const newBalance = student.wallet_balance - dailyFare;
-
-        await supabase
-          .from('students')
-          .update({ wallet_balance: newBalance })
-          .eq('id', student.id);
-
-        await supabase.from('transactions').insert({
-          student_id: student.id,
-          amount: dailyFare,
-          transaction_type: 'deduction',
-          currency: 'INR',
-          status: 'success',
-          balance_before: student.wallet_balance,
-          balance_after: newBalance,
-          description: `Daily fare deduction - ${route.route_name}`,
-        });
+    const scanId = crypto.randomUUID();
+    const passToken = decodedText.trim();
 
-        await supabase.from('scan_logs').insert({
-          student_id: student.id,
-          driver_id: driver.id,
-          bus_id: bus.id,
-          scan_status: 'success',
-          fare_deducted: dailyFare,
-          balance_after_scan: newBalance,
-        });
+    if (scanModeRef.current === 'exit') {
+      await recordExitScan(passToken);
+      return;
+    }
 
-        if (newBalance < dailyFare * 3) {
-          await supabase.from('notifications').insert({
-            user_id: student.user_id,
-            title: 'Low Balance Warning',
-            message: `Your wallet balance is ₹${newBalance.toFixed(2)}. Please recharge soon.`,
-            type: 'low_balance',
-            is_read: false,
-          });
-        }
+    if (!navigator.onLine) {
+      await recordOfflineScan(scanId, passToken);
+      return;
+    }
 
-        setScanResult({
-          status: 'success',
-          student,
-          message: 'First scan - Fare deducted successfully',
-          fareDeducted: dailyFare,
-          balanceAfter: newBalance,
-        });
-      } else {
-        await supabase.from('scan_logs').insert({
-          student_id: student.id,
-          driver_id: driver.id,
-          bus_id: bus.id,
-          scan_status: 'success',
-          fare_deducted: 0,
-          balance_after_scan: student.wallet_balance,
-        });
+    let response: Response;
+    try {
+      response = await fetch('/api/scans', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({
+          scan_id: scanId,
+          pass_token: passToken,
+        }),
+      });
+    } catch (err) {
+      // Network failure: fall back to the offline queue. Reusing the scan id
+      // keeps this idempotent if the request did reach the server.
+      console.error('Scan request failed, queueing offline:', err);
+      await recordOfflineScan(scanId, passToken);
+      return;
+    }
 
-        setScanResult({
-          status: 'success',
-          student,
-          message: 'Second scan - Return trip (no charge)',
-          fareDeducted: 0,
-          balanceAfter: student.wallet_balance,
-        });
+    try {
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Scan failed');
       }
 
-      const { data: scans } = await supabase
-        .from('scan_logs')
-        .select('scan_status')
-        .eq('driver_id', driver.id)
-        .gte('scan_timestamp', today.toISOString());
+      setScanResult(data.result as ScanResult);
+      if (data.result.occupancy) setOnBoard(data.result.occupancy.onBoard);
 
-      if (scans) {
-        setTodayStats({
-          total: scans.length,
-          success: scans.filter((s) => s.scan_status === 'success').length,
-          failed: scans.filter((s) => s.scan_status !== 'success').length,
-        });
+      if (data.result.status !== 'not_found') {
+        await refreshTodayStats();
       }
     } catch (err) {
       console.error('Scan processing error:', err);
@@ -786,6 +1066,11 @@ export default function DriverDashboard() {
     );
   }
 
+  const currentOccupancy = bus ? occupancyLevel(onBoard, bus.capacity) : 'available';
+  const scanOccupancy = scanResult?.occupancy
+    ? occupancyLevel(scanResult.occupancy.onBoard, scanResult.occupancy.capacity)
+    : 'available';
+
   return (
     <SidebarLayout>
       <div className="space-y-4 md:space-y-6 pb-4">
@@ -806,11 +1091,41 @@ export default function DriverDashboard() {
                   <span className="text-sm font-medium opacity-90">
                     {activeTrip ? 'Trip in Progress' : 'Ready to Start'}
                   </span>
+                  {!isOnline && (
+                    <span
+                      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-400 text-amber-950"
+                      data-testid="badge-offline"
+                    >
+                      <WifiOff className="h-3 w-3" />
+                      Offline
+                    </span>
+                  )}
+                  {pendingSyncCount > 0 && (
+                    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-white/20">
+                      {syncing ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+                      {pendingSyncCount} to sync
+                    </span>
+                  )}
                 </div>
                 <h1 className="text-xl md:text-2xl font-bold">{bus?.bus_number || 'No Bus Assigned'}</h1>
                 <p className="text-white/70 text-sm mt-0.5">
                   {route ? `${route.route_number} • ${route.route_name}` : 'No route assigned'}
                 </p>
+                {activeTrip ? (
+                  <p className="text-white/70 text-xs mt-1 flex items-center gap-1" data-testid="text-trip-schedule">
+                    <Clock className="h-3 w-3" />
+                    {activeTrip.scheduled_departure
+                      ? `Scheduled ${formatDepartureTime(activeTrip.scheduled_departure)} • ${formatLateness(
+                          minutesLate(activeTrip.started_at, activeTrip.scheduled_departure)
+                        )}`
+                      : 'Unscheduled trip'}
+                  </p>
+                ) : nextDeparture && (
+                  <p className="text-white/70 text-xs mt-1 flex items-center gap-1" data-testid="text-next-departure">
+                    <Clock className="h-3 w-3" />
+                    Next departure {formatDepartureTime(nextDeparture.scheduled_departure)}
+                  </p>
+                )}
               </div>
 
               <Button
@@ -850,6 +1165,35 @@ export default function DriverDashboard() {
           </div>
         </div>
 
+        {activeTrip && bus && (
+          <div
+            className={`bg-white dark:bg-slate-900 rounded-xl p-4 border ${
+              currentOccupancy === 'available' ? 'border-slate-200 dark:border-slate-800' : 'border-amber-300 dark:border-amber-800'
+            }`}
+            data-testid="card-occupancy"
+          >
+            <div className="flex items-center justify-between gap-3 mb-3">
+              <div className="flex items-center gap-3">
+                <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-blue-50 dark:bg-blue-950">
+                  <Users className="h-5 w-5 text-blue-600" />
+                </div>
+                <div>
+                  <h2 className="font-semibold text-slate-900 dark:text-white">On Board</h2>
+                  <p className={`text-xs font-medium ${OCCUPANCY_STYLES[currentOccupancy]}`}>
+                    {currentOccupancy === 'available'
+                      ? formatSeatsLeft(onBoard, bus.capacity)
+                      : `${OCCUPANCY_LABELS[currentOccupancy]} - ${formatSeatsLeft(onBoard, bus.capacity).toLowerCase()}`}
+                  </p>
+                </div>
+              </div>
+              <p className="text-2xl font-bold text-slate-900 dark:text-white" data-testid="text-occupancy">
+                {onBoard}<span className="text-base font-medium text-slate-400">/{bus.capacity}</span>
+              </p>
+            </div>
+            <Progress value={Math.min(100, (onBoard / Math.max(bus.capacity, 1)) * 100)} className="h-2" />
+          </div>
+        )}
+
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 md:gap-4">
           <div className="bg-white dark:bg-slate-900 rounded-xl p-4 border border-slate-200 dark:border-slate-800">
             <div className="flex items-center justify-between mb-2">
@@ -884,6 +1228,38 @@ export default function DriverDashboard() {
           </div>
         </div>
 
+        {syncConflicts.length > 0 && (
+          <div className="bg-white dark:bg-slate-900 rounded-xl border border-amber-200 dark:border-amber-900 overflow-hidden">
+            <div className="p-4 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-amber-50 dark:bg-amber-950">
+                  <AlertTriangle className="h-5 w-5 text-amber-600" />
+                </div>
+                <div>
+                  <h2 className="font-semibold text-slate-900 dark:text-white">Offline Scan Conflicts</h2>
+                  <p className="text-xs text-slate-500">Settled differently than shown while offline</p>
+                </div>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setSyncConflicts([])}>
+                Dismiss
+              </Button>
+            </div>
+            <div className="p-4 space-y-2">
+              {syncConflicts.map(({ scan_id, result }) => result && (
+                <div key={scan_id} className="flex items-center justify-between gap-3 p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm truncate">{result.student?.full_name || 'Unknown pass'}</p>
+                    <p className="text-xs text-slate-500 truncate">{result.message}</p>
+                  </div>
+                  <Badge variant="outline" className="shrink-0">
+                    {result.conflict ? SYNC_CONFLICT_LABELS[result.conflict] : result.status}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {activeTrip && stops.length > 0 && (
           <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden">
             <div className="p-4 border-b border-slate-100 dark:border-slate-800">
@@ -1081,15 +1457,85 @@ export default function DriverDashboard() {
             </DialogTitle>
           </DialogHeader>
 
-          {scanning && !scanResult && (
+          {scanning && !scanResult && !exitResult && (
             <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant={scanMode === 'board' ? 'default' : 'outline'}
+                  onClick={() => changeScanMode('board')}
+                  data-testid="button-scan-mode-board"
+                >
+                  <LogIn className="h-4 w-4 mr-2" />
+                  Boarding
+                </Button>
+                <Button
+                  variant={scanMode === 'exit' ? 'default' : 'outline'}
+                  onClick={() => changeScanMode('exit')}
+                  data-testid="button-scan-mode-exit"
+                >
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Exit
+                </Button>
+              </div>
               <div id="qr-reader" className="w-full rounded-lg overflow-hidden" />
               <p className="text-sm text-muted-foreground text-center">
-                Point camera at student's QR code
+                {scanMode === 'exit'
+                  ? "Scan the student's QR code as they get off"
+                  : "Point camera at student's QR code"}
               </p>
             </div>
           )}
 
+          {exitResult && (
+            <div className="space-y-4 py-4">
+              <div className="flex justify-center">
+                <div
+                  className={`flex h-20 w-20 items-center justify-center rounded-full ${
+                    exitResult.status === 'alighted' ? 'bg-chart-2/10' : 'bg-destructive/10'
+                  }`}
+                >
+                  {exitResult.status === 'alighted' ? (
+                    <LogOut className="h-10 w-10 text-chart-2" />
+                  ) : (
+                    <XCircle className="h-10 w-10 text-destructive" />
+                  )}
+                </div>
+              </div>
+
+              {exitResult.student && (
+                <div className="text-center">
+                  <p className="font-semibold text-lg">{exitResult.student.full_name}</p>
+                  <p className="text-sm text-muted-foreground">{exitResult.student.enrollment_no}</p>
+                </div>
+              )}
+
+              <div
+                className={`p-4 rounded-lg text-center ${
+                  exitResult.status === 'alighted' ? 'bg-chart-2/10' : 'bg-destructive/10'
+                }`}
+              >
+                <p className={`font-medium ${exitResult.status === 'alighted' ? 'text-chart-2' : 'text-destructive'}`}>
+                  {exitResult.message}
+                </p>
+                {exitResult.occupancy && (
+                  <p className="mt-2 text-sm">
+                    On board: {exitResult.occupancy.onBoard}/{exitResult.occupancy.capacity}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex gap-3">
+                <Button variant="outline" onClick={closeScanner} className="flex-1">
+                  Close
+                </Button>
+                <Button onClick={startScanner} className="flex-1">
+                  <QrCode className="h-4 w-4 mr-2" />
+                  Scan Again
+                </Button>
+              </div>
+            </div>
+          )}
+
           {scanResult && (
             <div className="space-y-4 py-4">
               <div className="flex justify-center">
@@ -1134,6 +1580,12 @@ export default function DriverDashboard() {
                 >
                   {scanResult.message}
                 </p>
+                {scanResult.offline && (
+                  <p className="mt-1 inline-flex items-center gap-1 text-xs text-muted-foreground">
+                    <WifiOff className="h-3 w-3" />
+                    Verified offline
+                  </p>
+                )}
                 {scanResult.fareDeducted !== undefined && (
                   <div className="mt-2 text-sm">
                     <p>Fare: ₹{scanResult.fareDeducted}</p>
@@ -1142,6 +1594,16 @@ export default function DriverDashboard() {
                 )}
               </div>
 
+              {scanResult.occupancy && scanOccupancy !== 'available' && (
+                <div
+                  className="flex items-center gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-950/40 text-sm text-amber-700 dark:text-amber-400"
+                  data-testid="text-capacity-warning"
+                >
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {OCCUPANCY_LABELS[scanOccupancy]}: {scanResult.occupancy.onBoard} of {scanResult.occupancy.capacity} on board
+                </div>
+              )}
+
               <div className="flex gap-3">
                 <Button variant="outline" onClick={closeScanner} className="flex-1">
                   Close
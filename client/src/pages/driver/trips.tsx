@@ -2,26 +2,65 @@ import { useEffect, useState } from 'react';
 import { useAuth } from '@/lib/auth-context';
 import { supabase } from '@/lib/supabase';
 import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { ExportButton } from '@/components/export-button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import type { ScanLog, Student } from '@shared/schema';
-import { Calendar, Clock, Users, CheckCircle2, XCircle, History } from 'lucide-react';
-
-interface ScanLogWithStudent extends ScanLog {
-  student?: Student;
-}
+import { formatDepartureTime } from '@/lib/timetable';
+import type { ScanLogWithDetails } from '@shared/schema';
+import { Calendar, CheckCircle2, XCircle, History, Bus, MapPin } from 'lucide-react';
 
+// One trip's scans, or the scans of a day made while no trip was running
 interface GroupedScans {
-  date: string;
+  key: string;
+  trip: ScanLogWithDetails['trip'];
   displayDate: string;
-  scans: ScanLogWithStudent[];
+  scans: ScanLogWithDetails[];
   successCount: number;
   failedCount: number;
   firstScan?: string;
   lastScan?: string;
+  // Successful scans per stop, in route order
+  stopBoardings: { name: string; sequence: number; count: number }[];
+}
+
+const formatTime = (timestamp: string | number) =>
+  new Date(timestamp).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+
+function groupScans(key: string, scans: ScanLogWithDetails[]): GroupedScans {
+  const trip = scans[0].trip ?? null;
+  const timestamps = scans.map((s) => new Date(s.scan_timestamp).getTime());
+  const stops = new Map<string, GroupedScans['stopBoardings'][number]>();
+
+  scans.forEach((scan) => {
+    if (scan.scan_status !== 'success' || !scan.route_stop) return;
+    const stop = stops.get(scan.route_stop.id) ?? {
+      name: scan.route_stop.stop_name,
+      sequence: scan.route_stop.sequence,
+      count: 0,
+    };
+    stop.count += 1;
+    stops.set(scan.route_stop.id, stop);
+  });
+
+  return {
+    key,
+    trip,
+    displayDate: new Date(trip?.started_at ?? scans[0].scan_timestamp).toLocaleDateString('en-IN', {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+    }),
+    scans,
+    successCount: scans.filter((s) => s.scan_status === 'success').length,
+    failedCount: scans.filter((s) => s.scan_status !== 'success').length,
+    firstScan: timestamps.length > 0 ? formatTime(Math.min(...timestamps)) : undefined,
+    lastScan: timestamps.length > 0 ? formatTime(Math.max(...timestamps)) : undefined,
+    stopBoardings: Array.from(stops.values()).sort((a, b) => a.sequence - b.sequence),
+  };
 }
 
 export default function DriverTrips() {
@@ -36,55 +75,32 @@ export default function DriverTrips() {
         return;
       }
 
-      // Fetch scan logs with student info
+      // Fetch scan logs with student, trip and boarding stop
       const { data: scansData } = await supabase
         .from('scan_logs')
-        .select('*, students(*)')
+        .select('*, students(*), active_trips(*), route_stops(*)')
         .eq('driver_id', driver.id)
         .order('scan_timestamp', { ascending: false });
 
       if (scansData) {
-        // Group by date
-        const grouped: Record<string, ScanLogWithStudent[]> = {};
-        
+        // Group by trip; scans made with no trip running are grouped by date.
+        // Scans are newest first, so groups come out most recent first.
+        const grouped = new Map<string, ScanLogWithDetails[]>();
+
         scansData.forEach((scan: any) => {
-          const date = new Date(scan.scan_timestamp).toISOString().split('T')[0];
-          if (!grouped[date]) {
-            grouped[date] = [];
+          const key = scan.trip_id ?? `day-${new Date(scan.scan_timestamp).toISOString().split('T')[0]}`;
+          if (!grouped.has(key)) {
+            grouped.set(key, []);
           }
-          grouped[date].push({
+          grouped.get(key)!.push({
             ...scan,
             student: scan.students,
+            trip: scan.active_trips,
+            route_stop: scan.route_stops,
           });
         });
 
-        // Convert to array with stats
-        const groupedArray: GroupedScans[] = Object.entries(grouped).map(([date, scans]) => {
-          const successCount = scans.filter((s) => s.scan_status === 'success').length;
-          const failedCount = scans.filter((s) => s.scan_status !== 'success').length;
-          const timestamps = scans.map((s) => new Date(s.scan_timestamp).getTime());
-          
-          return {
-            date,
-            displayDate: new Date(date).toLocaleDateString('en-IN', {
-              weekday: 'long',
-              day: 'numeric',
-              month: 'long',
-              year: 'numeric',
-            }),
-            scans,
-            successCount,
-            failedCount,
-            firstScan: timestamps.length > 0 
-              ? new Date(Math.min(...timestamps)).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })
-              : undefined,
-            lastScan: timestamps.length > 0
-              ? new Date(Math.max(...timestamps)).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })
-              : undefined,
-          };
-        });
-
-        setGroupedScans(groupedArray);
+        setGroupedScans(Array.from(grouped, ([key, scans]) => groupScans(key, scans)));
       }
 
       setLoading(false);
@@ -127,9 +143,12 @@ export default function DriverTrips() {
     <SidebarLayout>
       <div className="space-y-6">
         {/* Page Header */}
-        <div>
-          <h1 className="text-2xl font-semibold text-foreground">Trip History</h1>
-          <p className="text-muted-foreground mt-1">View your scan history grouped by date</p>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground">Trip History</h1>
+            <p className="text-muted-foreground mt-1">View your scan history trip by trip</p>
+          </div>
+          <ExportButton dataset="scans" />
         </div>
 
         {/* Trip History */}
@@ -147,21 +166,34 @@ export default function DriverTrips() {
           <Accordion type="single" collapsible className="space-y-4">
             {groupedScans.map((group) => (
               <AccordionItem
-                key={group.date}
-                value={group.date}
+                key={group.key}
+                value={group.key}
                 className="border rounded-lg bg-card overflow-hidden"
               >
                 <AccordionTrigger className="px-4 py-3 hover:no-underline hover:bg-muted/50">
                   <div className="flex items-center justify-between w-full pr-4">
                     <div className="flex items-center gap-4">
                       <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
-                        <Calendar className="h-5 w-5 text-primary" />
+                        {group.trip ? (
+                          <Bus className="h-5 w-5 text-primary" />
+                        ) : (
+                          <Calendar className="h-5 w-5 text-primary" />
+                        )}
                       </div>
                       <div className="text-left">
                         <p className="font-medium">{group.displayDate}</p>
                         <p className="text-sm text-muted-foreground">
-                          {group.firstScan} - {group.lastScan}
+                          {group.trip
+                            ? `Trip ${formatTime(group.trip.started_at)} - ${
+                                group.trip.ended_at ? formatTime(group.trip.ended_at) : 'in progress'
+                              }`
+                            : `Outside a trip, ${group.firstScan} - ${group.lastScan}`}
                         </p>
+                        {group.trip?.scheduled_departure && (
+                          <p className="text-xs text-muted-foreground">
+                            Scheduled {formatDepartureTime(group.trip.scheduled_departure)}
+                          </p>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-4">
@@ -180,6 +212,16 @@ export default function DriverTrips() {
                   </div>
                 </AccordionTrigger>
                 <AccordionContent className="px-4 pb-4">
+                  {group.stopBoardings.length > 0 && (
+                    <div className="flex flex-wrap gap-2 pt-2">
+                      {group.stopBoardings.map((stop) => (
+                        <Badge key={stop.sequence} variant="outline" className="gap-1">
+                          <MapPin className="h-3 w-3" />
+                          {stop.name}: {stop.count}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
                   <div className="space-y-3 pt-2">
                     {group.scans.map((scan) => (
                       <div
@@ -205,12 +247,10 @@ export default function DriverTrips() {
                         </div>
                         <div className="flex items-center gap-4">
                           <div className="text-right">
-                            <p className="text-sm">
-                              {new Date(scan.scan_timestamp).toLocaleTimeString('en-IN', {
-                                hour: '2-digit',
-                                minute: '2-digit',
-                              })}
-                            </p>
+                            <p className="text-sm">{formatTime(scan.scan_timestamp)}</p>
+                            {scan.route_stop && (
+                              <p className="text-xs text-muted-foreground">{scan.route_stop.stop_name}</p>
+                            )}
                             {scan.fare_deducted > 0 && (
                               <p className="text-xs text-muted-foreground">
                                 -₹{scan.fare_deducted}
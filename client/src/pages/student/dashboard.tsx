@@ -2,11 +2,13 @@ import { useEffect, useState } from 'react';
 import { Link } from 'wouter';
 import { useAuth } from '@/lib/auth-context';
 import { supabase } from '@/lib/supabase';
+import { isCreditTransaction } from '@/lib/transactions';
+import { DIRECTION_LABELS, fetchUpcomingDepartures, formatDepartureTime } from '@/lib/timetable';
 import { SidebarLayout } from '@/components/layout/sidebar-layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import type { Transaction, BusRoute } from '@shared/schema';
+import type { Transaction, BusRoute, UpcomingDeparture } from '@shared/schema';
 import {
   Wallet,
   Calendar,
@@ -17,11 +19,13 @@ import {
   ArrowDownLeft,
   TrendingUp,
   AlertTriangle,
+  CalendarClock,
 } from 'lucide-react';
 
 export default function StudentDashboard() {
   const { student } = useAuth();
   const [route, setRoute] = useState<BusRoute | null>(null);
+  const [nextDeparture, setNextDeparture] = useState<UpcomingDeparture | null>(null);
   const [recentTransactions, setRecentTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -37,6 +41,16 @@ export default function StudentDashboard() {
           .eq('id', student.bus_route_id)
           .single();
         if (routeData) setRoute(routeData);
+
+        try {
+          const [departure] = await fetchUpcomingDepartures(student.bus_route_id, {
+            stop_id: student.boarding_stop_id ?? undefined,
+            limit: 1,
+          });
+          setNextDeparture(departure ?? null);
+        } catch (err) {
+          console.error('Error fetching next departure:', err);
+        }
       }
 
       // Fetch recent transactions
@@ -165,6 +179,37 @@ export default function StudentDashboard() {
           </Card>
         </div>
 
+        {/* Next Bus */}
+        {route && (
+          <Card>
+            <CardContent className="flex items-center gap-4 p-4">
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10">
+                <CalendarClock className="h-5 w-5 text-primary" />
+              </div>
+              <div className="flex-1">
+                <p className="text-sm text-muted-foreground">Next bus</p>
+                {nextDeparture ? (
+                  <p className="font-medium" data-testid="text-next-departure">
+                    {formatDepartureTime(nextDeparture.stop_arrival ?? nextDeparture.scheduled_departure)}
+                    <span className="text-sm font-normal text-muted-foreground">
+                      {' '}• {DIRECTION_LABELS[nextDeparture.direction]}
+                      {nextDeparture.stop_arrival ? ' at your stop' : ' from the first stop'}
+                      {nextDeparture.trip_id && ', on the way'}
+                    </span>
+                  </p>
+                ) : (
+                  <p className="font-medium">No departures scheduled this week</p>
+                )}
+              </div>
+              <Link href="/student/track-bus">
+                <Button variant="outline" size="sm" data-testid="button-view-departures">
+                  Timetable
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Quick Actions */}
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
           <Link href="/student/wallet">
@@ -255,12 +300,12 @@ export default function StudentDashboard() {
                     <div className="flex items-center gap-3">
                       <div
                         className={`flex h-10 w-10 items-center justify-center rounded-full ${
-                          tx.transaction_type === 'recharge'
+                          isCreditTransaction(tx.transaction_type)
                             ? 'bg-chart-2/10'
                             : 'bg-destructive/10'
                         }`}
                       >
-                        {tx.transaction_type === 'recharge' ? (
+                        {isCreditTransaction(tx.transaction_type) ? (
                           <ArrowDownLeft className="h-5 w-5 text-chart-2" />
                         ) : (
                           <ArrowUpRight className="h-5 w-5 text-destructive" />
@@ -268,7 +313,13 @@ export default function StudentDashboard() {
                       </div>
                       <div>
                         <p className="font-medium text-sm">
-                          {tx.transaction_type === 'recharge' ? 'Wallet Recharge' : 'Fare Deduction'}
+                          {tx.transaction_type === 'recharge'
+                            ? 'Wallet Recharge'
+                            : tx.transaction_type === 'pass_purchase'
+                            ? 'Pass Purchase'
+                            : tx.transaction_type === 'refund'
+                            ? 'Fare Refund'
+                            : 'Fare Deduction'}
                         </p>
                         <p className="text-xs text-muted-foreground">
                           {new Date(tx.created_at).toLocaleDateString('en-IN', {
@@ -283,10 +334,10 @@ export default function StudentDashboard() {
                     <div className="text-right">
                       <p
                         className={`font-semibold ${
-                          tx.transaction_type === 'recharge' ? 'text-chart-2' : 'text-destructive'
+                          isCreditTransaction(tx.transaction_type) ? 'text-chart-2' : 'text-destructive'
                         }`}
                       >
-                        {tx.transaction_type === 'recharge' ? '+' : '-'}₹{Math.abs(tx.amount).toFixed(2)}
+                        {isCreditTransaction(tx.transaction_type) ? '+' : '-'}₹{Math.abs(tx.amount).toFixed(2)}
                       </p>
                       <p className="text-xs text-muted-foreground">
                         Bal: ₹{tx.balance_after.toFixed(2)}
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { Link } from 'wouter';
 import { useAuth } from '@/lib/auth-context';
 import { supabase } from '@/lib/supabase';
 import { SidebarLayout } from '@/components/layout/sidebar-layout';
@@ -6,7 +7,23 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
-import type { Notification } from '@shared/schema';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DELIVERY_STATUS_LABELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_TYPE_LABELS,
+  fetchNotificationPreferences,
+  saveNotificationPreferences,
+} from '@/lib/notifications';
+import { disablePush, enablePush, getPushSubscription, isPushSupported } from '@/lib/push';
+import type {
+  ConfigurableNotificationType,
+  Notification,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationPreferences,
+} from '@shared/schema';
 import {
   Bell,
   CreditCard,
@@ -16,11 +33,22 @@ import {
   Info,
   CheckCheck,
   Trash2,
+  Bus,
+  Mail,
+  BellRing,
+  Loader2,
 } from 'lucide-react';
 
+const CHANNELS: NotificationChannel[] = ['email', 'sms', 'push'];
+
 export default function StudentNotifications() {
   const { user } = useAuth();
+  const { toast } = useToast();
   const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [pushBusy, setPushBusy] = useState(false);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -34,6 +62,22 @@ export default function StudentNotifications() {
         .order('created_at', { ascending: false });
 
       if (data) setNotifications(data);
+
+      const { data: deliveryData } = await supabase
+        .from('notification_deliveries')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(200);
+      if (deliveryData) setDeliveries(deliveryData);
+
+      try {
+        setPreferences(await fetchNotificationPreferences());
+        setPushEnabled(!!(await getPushSubscription()));
+      } catch (err) {
+        console.error('Failed to load notification preferences:', err);
+      }
+
       setLoading(false);
     };
 
@@ -89,6 +133,49 @@ export default function StudentNotifications() {
     setNotifications((prev) => prev.filter((n) => n.id !== id));
   };
 
+  const toggleChannel = async (type: ConfigurableNotificationType, channel: NotificationChannel, checked: boolean) => {
+    if (!preferences) return;
+
+    const channels = checked
+      ? [...preferences[type].filter((c) => c !== channel), channel]
+      : preferences[type].filter((c) => c !== channel);
+
+    try {
+      setPreferences(await saveNotificationPreferences({ [type]: channels }));
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
+  const togglePush = async () => {
+    setPushBusy(true);
+    try {
+      if (pushEnabled) {
+        await disablePush();
+        setPushEnabled(false);
+        toast({ title: 'Push notifications turned off for this device' });
+      } else {
+        await enablePush();
+        setPushEnabled(true);
+        toast({ title: 'Push notifications turned on for this device' });
+      }
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setPushBusy(false);
+    }
+  };
+
+  // Push has one delivery per device, so repeats are collapsed
+  const getDeliverySummary = (notificationId: string) =>
+    Array.from(
+      new Set(
+        deliveries
+          .filter((d) => d.notification_id === notificationId)
+          .map((d) => `${NOTIFICATION_CHANNEL_LABELS[d.channel]} ${DELIVERY_STATUS_LABELS[d.status].toLowerCase()}`)
+      )
+    ).join(' · ');
+
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'recharge':
@@ -99,6 +186,8 @@ export default function StudentNotifications() {
         return <QrCode className="h-5 w-5 text-primary" />;
       case 'low_balance':
         return <AlertTriangle className="h-5 w-5 text-chart-4" />;
+      case 'bus_approaching':
+        return <Bus className="h-5 w-5 text-green-600" />;
       default:
         return <Info className="h-5 w-5 text-muted-foreground" />;
     }
@@ -114,6 +203,8 @@ export default function StudentNotifications() {
         return 'bg-primary/10';
       case 'low_balance':
         return 'bg-chart-4/10';
+      case 'bus_approaching':
+        return 'bg-green-500/10';
       default:
         return 'bg-muted';
     }
@@ -204,6 +295,7 @@ export default function StudentNotifications() {
                               hour: '2-digit',
                               minute: '2-digit',
                             })}
+                            {getDeliverySummary(notification.id) && ` · ${getDeliverySummary(notification.id)}`}
                           </p>
                         </div>
                         <div className="flex items-center gap-2 shrink-0">
@@ -235,6 +327,85 @@ export default function StudentNotifications() {
             )}
           </CardContent>
         </Card>
+
+        {/* Alert Channels */}
+        {preferences && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Mail className="h-5 w-5 text-primary" />
+                Email, SMS &amp; Push Alerts
+              </CardTitle>
+              <CardDescription>Every notification appears here; choose which ones are also sent to you</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border p-4 mb-4">
+                <div className="flex items-center gap-3">
+                  <BellRing className="h-5 w-5 text-muted-foreground" />
+                  <div>
+                    <p className="font-medium">Push notifications on this device</p>
+                    <p className="text-sm text-muted-foreground">
+                      {!isPushSupported()
+                        ? 'This browser does not support push notifications'
+                        : pushEnabled
+                        ? 'On - alerts reach you even when SwiftPass is closed'
+                        : 'Off'}
+                    </p>
+                  </div>
+                </div>
+                {isPushSupported() && (
+                  <Button
+                    variant={pushEnabled ? 'outline' : 'default'}
+                    onClick={togglePush}
+                    disabled={pushBusy}
+                    data-testid="button-toggle-push"
+                  >
+                    {pushBusy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {pushEnabled ? 'Turn off' : 'Turn on'}
+                  </Button>
+                )}
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b bg-muted/50">
+                      <th className="text-left p-4 font-medium text-muted-foreground">Notification</th>
+                      {CHANNELS.map((channel) => (
+                        <th key={channel} className="text-center p-4 font-medium text-muted-foreground">
+                          {NOTIFICATION_CHANNEL_LABELS[channel]}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(Object.keys(NOTIFICATION_TYPE_LABELS) as ConfigurableNotificationType[]).map((type) => (
+                      <tr key={type} className="border-b last:border-0">
+                        <td className="p-4">{NOTIFICATION_TYPE_LABELS[type]}</td>
+                        {CHANNELS.map((channel) => (
+                          <td key={channel} className="p-4 text-center">
+                            <Checkbox
+                              checked={preferences[type].includes(channel)}
+                              onCheckedChange={(checked) => toggleChannel(type, channel, checked === true)}
+                              aria-label={`${NOTIFICATION_TYPE_LABELS[type]} by ${NOTIFICATION_CHANNEL_LABELS[channel]}`}
+                              data-testid={`checkbox-${type}-${channel}`}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted-foreground mt-4">
+                Low balance warnings are set up on your{' '}
+                <Link href="/student/wallet" className="text-primary hover:underline">
+                  Wallet
+                </Link>{' '}
+                page.
+              </p>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </SidebarLayout>
   );
@@ -1,15 +1,17 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Link } from 'wouter';
 import { QRCodeSVG } from 'qrcode.react';
 import { useAuth } from '@/lib/auth-context';
-import { supabase } from '@/lib/supabase';
+import { supabase, getAuthHeaders } from '@/lib/supabase';
+import { describeFarePolicy, fetchFarePolicy } from '@/lib/fares';
+import { fetchPassSubscriptions, findCurrentPass, formatPassDate } from '@/lib/passes';
 import { SidebarLayout } from '@/components/layout/sidebar-layout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Skeleton } from '@/components/ui/skeleton';
-import type { BusRoute, ScanLog } from '@shared/schema';
+import type { BusRoute, FarePolicy, ScanLog, PassToken, PassSubscriptionWithProduct } from '@shared/schema';
 import {
   CheckCircle2,
   XCircle,
@@ -19,13 +21,24 @@ import {
   Calendar,
   QrCode,
   AlertTriangle,
+  Loader2,
+  RefreshCw,
+  Ticket,
 } from 'lucide-react';
 
+// Pass tokens live for 60 seconds on the server; refresh at the halfway mark
+const PASS_REFRESH_INTERVAL_MS = 30000;
+
 export default function StudentPass() {
   const { student } = useAuth();
   const [route, setRoute] = useState<BusRoute | null>(null);
+  const [farePolicy, setFarePolicy] = useState<FarePolicy | null>(null);
+  const [passSubscriptions, setPassSubscriptions] = useState<PassSubscriptionWithProduct[]>([]);
   const [todayScans, setTodayScans] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [passToken, setPassToken] = useState<PassToken | null>(null);
+  const [passTokenError, setPassTokenError] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(0);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -38,9 +51,14 @@ export default function StudentPass() {
           .select('*')
           .eq('id', student.bus_route_id)
           .single();
-        if (routeData) setRoute(routeData);
+        if (routeData) {
+          setRoute(routeData);
+          setFarePolicy(await fetchFarePolicy(routeData));
+        }
       }
 
+      setPassSubscriptions(await fetchPassSubscriptions(student.id));
+
       // Count today's scans
       const today = new Date();
       today.setHours(0, 0, 0, 0);
@@ -59,14 +77,63 @@ export default function StudentPass() {
     fetchData();
   }, [student]);
 
-  const dailyFare = route?.daily_fare || 60;
-  const hasSufficientBalance = student && student.wallet_balance >= dailyFare;
-  const daysRemaining = student ? Math.floor(student.wallet_balance / dailyFare) : 0;
+  const rideFare = farePolicy?.ride_fare ?? route?.daily_fare ?? 60;
+  // A typical day is a round trip, unless the policy caps the day lower
+  const dailySpend = Math.min(rideFare * 2, farePolicy?.daily_cap ?? Infinity) || rideFare;
+  const maxRidesPerDay = farePolicy ? farePolicy.max_rides_per_day : 2;
+  const hasSufficientBalance = student && student.wallet_balance >= rideFare;
+  // Rides on the route are not charged while a travel pass covers the day
+  const currentPass = findCurrentPass(passSubscriptions, student?.bus_route_id);
+  const canShowPass = (!!hasSufficientBalance || !!currentPass) && !student?.is_blocked;
+
+  const fetchPassToken = useCallback(async () => {
+    if (!student) return;
+
+    try {
+      const response = await fetch('/api/pass-token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load pass');
+      }
+
+      setPassToken({ token: result.token, expiresAt: result.expiresAt });
+      setPassTokenError(false);
+    } catch (err) {
+      console.error('Error fetching pass token:', err);
+      setPassTokenError(true);
+    }
+  }, [student]);
+
+  useEffect(() => {
+    if (!canShowPass) return;
+
+    fetchPassToken();
+    const interval = setInterval(fetchPassToken, PASS_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [canShowPass, fetchPassToken]);
+
+  useEffect(() => {
+    if (!passToken) return;
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.round((new Date(passToken.expiresAt).getTime() - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [passToken]);
+  const daysRemaining = student && dailySpend > 0 ? Math.floor(student.wallet_balance / dailySpend) : 0;
 
   const getPassStatus = () => {
     if (!student) return { status: 'inactive', label: 'Inactive', color: 'secondary' };
     if (student.is_blocked) return { status: 'blocked', label: 'Blocked', color: 'destructive' };
-    if (!hasSufficientBalance) return { status: 'insufficient', label: 'Insufficient Balance', color: 'destructive' };
+    if (!hasSufficientBalance && !currentPass) return { status: 'insufficient', label: 'Insufficient Balance', color: 'destructive' };
     return { status: 'active', label: 'Active', color: 'default' };
   };
 
@@ -133,14 +200,32 @@ export default function StudentPass() {
 
             {/* QR Code Section */}
             <div className="flex flex-col items-center py-4">
-              {hasSufficientBalance && !student?.is_blocked ? (
-                <div className="p-4 bg-white rounded-lg shadow-sm" data-testid="qr-code-container">
-                  <QRCodeSVG
-                    value={student?.id || ''}
-                    size={200}
-                    level="H"
-                    includeMargin
-                  />
+              {canShowPass ? (
+                <div className="flex flex-col items-center gap-2">
+                  <div className="p-4 bg-white rounded-lg shadow-sm" data-testid="qr-code-container">
+                    {passToken && secondsLeft > 0 ? (
+                      <QRCodeSVG
+                        value={passToken.token}
+                        size={200}
+                        level="M"
+                        includeMargin
+                      />
+                    ) : (
+                      <div className="flex h-[200px] w-[200px] items-center justify-center">
+                        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                      </div>
+                    )}
+                  </div>
+                  {passTokenError ? (
+                    <Button variant="outline" size="sm" onClick={fetchPassToken} data-testid="button-refresh-pass">
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Retry
+                    </Button>
+                  ) : (
+                    <p className="text-xs text-muted-foreground" data-testid="text-pass-expiry">
+                      Code refreshes automatically • valid for {secondsLeft}s
+                    </p>
+                  )}
                 </div>
               ) : (
                 <div className="flex flex-col items-center p-8 rounded-lg border-2 border-dashed border-destructive/30 bg-destructive/5">
@@ -177,12 +262,24 @@ export default function StudentPass() {
                 </span>
               </div>
 
+              <div className="flex items-center justify-between py-2">
+                <div className="flex items-center gap-3 text-muted-foreground">
+                  <Ticket className="h-5 w-5" />
+                  <span>Travel Pass</span>
+                </div>
+                <span className="font-medium text-right" data-testid="text-travel-pass">
+                  {currentPass
+                    ? `Valid until ${formatPassDate(currentPass.valid_until)}`
+                    : 'None'}
+                </span>
+              </div>
+
               <div className="flex items-center justify-between py-2">
                 <div className="flex items-center gap-3 text-muted-foreground">
                   <Wallet className="h-5 w-5" />
                   <span>Wallet Balance</span>
                 </div>
-                <span className={`font-medium ${!hasSufficientBalance ? 'text-destructive' : ''}`}>
+                <span className={`font-medium ${!hasSufficientBalance && !currentPass ? 'text-destructive' : ''}`}>
                   ₹{student?.wallet_balance?.toFixed(2)}
                 </span>
               </div>
@@ -190,9 +287,9 @@ export default function StudentPass() {
               <div className="flex items-center justify-between py-2">
                 <div className="flex items-center gap-3 text-muted-foreground">
                   <CreditCard className="h-5 w-5" />
-                  <span>Daily Fare</span>
+                  <span>Fare per Ride</span>
                 </div>
-                <span className="font-medium">₹{dailyFare}</span>
+                <span className="font-medium">{currentPass ? 'Covered by pass' : `₹${rideFare}`}</span>
               </div>
 
               <div className="flex items-center justify-between py-2">
@@ -200,7 +297,7 @@ export default function StudentPass() {
                   <Calendar className="h-5 w-5" />
                   <span>Days Remaining</span>
                 </div>
-                <span className={`font-medium ${daysRemaining <= 3 ? 'text-destructive' : ''}`}>
+                <span className={`font-medium ${daysRemaining <= 3 && !currentPass ? 'text-destructive' : ''}`}>
                   {daysRemaining} days
                 </span>
               </div>
@@ -210,7 +307,9 @@ export default function StudentPass() {
                   <QrCode className="h-5 w-5" />
                   <span>Scans Today</span>
                 </div>
-                <span className="font-medium">{todayScans} / 2</span>
+                <span className="font-medium">
+                  {maxRidesPerDay ? `${todayScans} / ${maxRidesPerDay}` : todayScans}
+                </span>
               </div>
             </div>
           </CardContent>
@@ -220,7 +319,11 @@ export default function StudentPass() {
         <Card className="bg-muted/50">
           <CardContent className="p-4">
             <p className="text-sm text-muted-foreground text-center">
-              Your pass allows 2 scans per day. First scan deducts fare, second scan is free (return trip).
+              {currentPass
+                ? `${currentPass.product?.name || 'Your travel pass'} covers your rides on this route from ${formatPassDate(currentPass.valid_from)} to ${formatPassDate(currentPass.valid_until)}.`
+                : farePolicy
+                ? describeFarePolicy(farePolicy).join(' · ')
+                : 'Your pass allows 2 scans per day. First scan deducts fare, second scan is free (return trip).'}
             </p>
           </CardContent>
         </Card>
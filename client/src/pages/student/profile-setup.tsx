@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/lib/auth-context';
 import { supabase } from '@/lib/supabase';
-import type { BusRoute } from '@shared/schema';
+import type { BusRoute, RouteStop } from '@shared/schema';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -23,6 +23,7 @@ export default function ProfileSetupPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [currentStep, setCurrentStep] = useState(1);
   const [routes, setRoutes] = useState<BusRoute[]>([]);
+  const [routeStops, setRouteStops] = useState<RouteStop[]>([]);
   
   const [formData, setFormData] = useState({
     full_name: '',
@@ -31,6 +32,7 @@ export default function ProfileSetupPage() {
     course: '',
     department: '',
     bus_route_id: '',
+    boarding_stop_id: '',
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -46,6 +48,23 @@ export default function ProfileSetupPage() {
     fetchRoutes();
   }, []);
 
+  useEffect(() => {
+    if (!formData.bus_route_id) {
+      setRouteStops([]);
+      return;
+    }
+
+    const fetchStops = async () => {
+      const { data } = await supabase
+        .from('route_stops')
+        .select('*')
+        .eq('route_id', formData.bus_route_id)
+        .order('sequence', { ascending: true });
+      setRouteStops(data || []);
+    };
+    fetchStops();
+  }, [formData.bus_route_id]);
+
   const validateStep = (step: number): boolean => {
     const newErrors: Record<string, string> = {};
     
@@ -108,6 +127,8 @@ export default function ProfileSetupPage() {
           department: formData.department,
           phone: formData.phone,
           bus_route_id: formData.bus_route_id || null,
+          boarding_stop_id: formData.boarding_stop_id || null,
+          notify_bus_approaching: true,
           wallet_balance: 0,
           is_blocked: false,
         });
@@ -249,7 +270,11 @@ export default function ProfileSetupPage() {
                   <Label>Select Your Bus Route</Label>
                   <Select
                     value={formData.bus_route_id || "__none__"}
-                    onValueChange={(value) => setFormData({ ...formData, bus_route_id: value === "__none__" ? "" : value })}
+                    onValueChange={(value) => setFormData({
+                      ...formData,
+                      bus_route_id: value === "__none__" ? "" : value,
+                      boarding_stop_id: '',
+                    })}
                   >
                     <SelectTrigger data-testid="select-route">
                       <SelectValue placeholder="Choose a route (optional)" />
@@ -264,6 +289,30 @@ export default function ProfileSetupPage() {
                     </SelectContent>
                   </Select>
                 </div>
+                {routeStops.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Your Boarding Stop</Label>
+                    <Select
+                      value={formData.boarding_stop_id || "__none__"}
+                      onValueChange={(value) => setFormData({ ...formData, boarding_stop_id: value === "__none__" ? "" : value })}
+                    >
+                      <SelectTrigger data-testid="select-boarding-stop">
+                        <SelectValue placeholder="Choose your stop (optional)" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="__none__">Skip - Select later</SelectItem>
+                        {routeStops.map((stop) => (
+                          <SelectItem key={stop.id} value={stop.id}>
+                            {stop.sequence}. {stop.stop_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      We'll notify you when the bus is approaching your stop.
+                    </p>
+                  </div>
+                )}
                 <div className="rounded-lg border bg-muted/50 p-4">
                   <p className="text-sm text-muted-foreground">
                     Bus route is optional. You can select or change it later from your profile settings.
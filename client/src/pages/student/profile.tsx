@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth-context';
+import { supabase } from '@/lib/supabase';
+import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { BusRoute, RouteStop } from '@shared/schema';
+import { Loader2, Route, MapPin, Bell, User } from 'lucide-react';
+
+export default function StudentProfile() {
+  const { student, refreshProfile } = useAuth();
+  const { toast } = useToast();
+
+  const [routes, setRoutes] = useState<BusRoute[]>([]);
+  const [routeStops, setRouteStops] = useState<RouteStop[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [busRouteId, setBusRouteId] = useState('');
+  const [boardingStopId, setBoardingStopId] = useState('');
+  const [notifyBusApproaching, setNotifyBusApproaching] = useState(true);
+
+  useEffect(() => {
+    if (!student) return;
+    setBusRouteId(student.bus_route_id || '');
+    setBoardingStopId(student.boarding_stop_id || '');
+    setNotifyBusApproaching(student.notify_bus_approaching ?? true);
+  }, [student]);
+
+  useEffect(() => {
+    const fetchRoutes = async () => {
+      const { data } = await supabase
+        .from('bus_routes')
+        .select('*')
+        .order('route_name');
+      if (data) setRoutes(data);
+      setLoading(false);
+    };
+    fetchRoutes();
+  }, []);
+
+  useEffect(() => {
+    if (!busRouteId) {
+      setRouteStops([]);
+      return;
+    }
+
+    const fetchStops = async () => {
+      const { data } = await supabase
+        .from('route_stops')
+        .select('*')
+        .eq('route_id', busRouteId)
+        .order('sequence', { ascending: true });
+      setRouteStops(data || []);
+    };
+    fetchStops();
+  }, [busRouteId]);
+
+  const handleSave = async () => {
+    if (!student) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('students')
+        .update({
+          bus_route_id: busRouteId || null,
+          boarding_stop_id: boardingStopId || null,
+          notify_bus_approaching: notifyBusApproaching,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', student.id);
+
+      if (error) throw error;
+
+      await refreshProfile();
+
+      toast({
+        title: 'Profile updated',
+        description: 'Your travel preferences have been saved.',
+      });
+    } catch (err: any) {
+      toast({
+        title: 'Failed to update profile',
+        description: err.message || 'An unexpected error occurred.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !student) {
+    return (
+      <SidebarLayout>
+        <div className="space-y-6">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-32" />
+          <Skeleton className="h-64" />
+        </div>
+      </SidebarLayout>
+    );
+  }
+
+  return (
+    <SidebarLayout>
+      <div className="space-y-6 max-w-2xl">
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">Profile</h1>
+          <p className="text-muted-foreground mt-1">Your details and travel preferences</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <User className="h-5 w-5 text-primary" />
+              {student.full_name}
+            </CardTitle>
+            <CardDescription>
+              {student.enrollment_no} · {student.course} · {student.department}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Route className="h-5 w-5 text-primary" />
+              Bus Route & Stop
+            </CardTitle>
+            <CardDescription>Choose the route you travel on and the stop where you board</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Bus Route</Label>
+              <Select
+                value={busRouteId || '__none__'}
+                onValueChange={(value) => {
+                  setBusRouteId(value === '__none__' ? '' : value);
+                  setBoardingStopId('');
+                }}
+              >
+                <SelectTrigger data-testid="select-route">
+                  <SelectValue placeholder="Choose a route" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__none__">No route</SelectItem>
+                  {routes.map((route) => (
+                    <SelectItem key={route.id} value={route.id}>
+                      {route.route_number} - {route.route_name} (₹{route.daily_fare}/day)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <MapPin className="h-4 w-4" />
+                Boarding Stop
+              </Label>
+              <Select
+                value={boardingStopId || '__none__'}
+                onValueChange={(value) => setBoardingStopId(value === '__none__' ? '' : value)}
+                disabled={routeStops.length === 0}
+              >
+                <SelectTrigger data-testid="select-boarding-stop">
+                  <SelectValue placeholder={busRouteId ? 'Choose your stop' : 'Select a route first'} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__none__">Not set</SelectItem>
+                  {routeStops.map((stop) => (
+                    <SelectItem key={stop.id} value={stop.id}>
+                      {stop.sequence}. {stop.stop_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {busRouteId && routeStops.length === 0 && (
+                <p className="text-xs text-muted-foreground">No stops have been added to this route yet.</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Bell className="h-5 w-5 text-primary" />
+              Notifications
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium">Bus approaching alerts</p>
+                <p className="text-sm text-muted-foreground">
+                  Get notified when your bus leaves a stop shortly before yours.
+                </p>
+              </div>
+              <Switch
+                checked={notifyBusApproaching}
+                onCheckedChange={setNotifyBusApproaching}
+                disabled={!boardingStopId}
+                data-testid="switch-bus-approaching"
+              />
+            </div>
+            {!boardingStopId && (
+              <p className="text-xs text-muted-foreground mt-2">Set your boarding stop to receive these alerts.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Button onClick={handleSave} disabled={saving} data-testid="button-save-profile">
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Changes
+        </Button>
+      </div>
+    </SidebarLayout>
+  );
+}
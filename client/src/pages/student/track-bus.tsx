@@ -1,12 +1,31 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useAuth } from '@/lib/auth-context';
-import { supabase } from '@/lib/supabase';
+import { supabase, getAuthHeaders } from '@/lib/supabase';
 import { SidebarLayout } from '@/components/layout/sidebar-layout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Progress } from '@/components/ui/progress';
-import type { BusRoute, Bus, RouteStop, ActiveTrip, TripStopStatus } from '@shared/schema';
+import { BusMap } from '@/components/bus-map';
+import {
+  DIRECTION_LABELS,
+  fetchUpcomingDepartures,
+  formatDepartureTime,
+  formatLateness,
+  minutesLate,
+} from '@/lib/timetable';
+import { OCCUPANCY_LABELS, occupancyLevel, type OccupancyLevel } from '@/lib/occupancy';
+import type {
+  BusRoute,
+  Bus,
+  RouteStop,
+  ActiveTrip,
+  ActiveTripWithDetails,
+  TripStopStatus,
+  BusLocation,
+  StopEta,
+  UpcomingDeparture,
+} from '@shared/schema';
 import {
   Bus as BusIcon,
   Clock,
@@ -19,8 +38,22 @@ import {
   ArrowRight,
   Zap,
   Timer,
+  Map as MapIcon,
+  Gauge,
+  CalendarClock,
+  Users,
 } from 'lucide-react';
 
+// ETAs are also refreshed on this interval between stop events, as the bus moves
+const ETA_REFRESH_INTERVAL_MS = 30000;
+const DEPARTURES_REFRESH_INTERVAL_MS = 60000;
+
+const OCCUPANCY_BADGE_STYLES: Record<OccupancyLevel, string> = {
+  available: 'border-green-600 text-green-600',
+  nearly_full: 'border-amber-500 text-amber-600',
+  full: 'border-red-600 text-red-600',
+};
+
 interface StopWithStatus extends RouteStop {
   status: TripStopStatus;
   arrived_at: string | null;
@@ -35,6 +68,9 @@ export default function StudentTrackBus() {
   const [stops, setStops] = useState<StopWithStatus[]>([]);
   const [baseStops, setBaseStops] = useState<RouteStop[]>([]);
   const [activeTrip, setActiveTrip] = useState<ActiveTrip | null>(null);
+  const [busLocation, setBusLocation] = useState<BusLocation | null>(null);
+  const [etas, setEtas] = useState<Record<string, StopEta>>({});
+  const [departures, setDepartures] = useState<UpcomingDeparture[]>([]);
   const [loading, setLoading] = useState(true);
 
   const updateStopsWithEvents = useCallback(async (tripId: string, stopsData: RouteStop[]) => {
@@ -207,6 +243,40 @@ export default function StudentTrackBus() {
     };
   }, [bus, route, baseStops, updateStopsWithEvents, resetStopsToPending]);
 
+  const refreshEtas = useCallback(async (tripId: string) => {
+    try {
+      const response = await fetch(`/api/trips/${tripId}/eta`, {
+        headers: await getAuthHeaders(),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load arrival times');
+      }
+
+      const trip = result.trip as ActiveTripWithDetails;
+      const next: Record<string, StopEta> = {};
+      trip.stops?.forEach(stop => {
+        if (stop.eta) next[stop.id] = stop.eta;
+      });
+      setEtas(next);
+    } catch (err) {
+      console.error('Error fetching ETAs:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!activeTrip) {
+      setEtas({});
+      return;
+    }
+
+    refreshEtas(activeTrip.id);
+    const interval = setInterval(() => refreshEtas(activeTrip.id), ETA_REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [activeTrip, refreshEtas]);
+
   useEffect(() => {
     if (!activeTrip || baseStops.length === 0) return;
 
@@ -224,6 +294,56 @@ export default function StudentTrackBus() {
         },
         async () => {
           await updateStopsWithEvents(activeTrip.id, baseStops);
+          await refreshEtas(activeTrip.id);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [activeTrip, baseStops, updateStopsWithEvents, refreshEtas]);
+
+  useEffect(() => {
+    if (!activeTrip) {
+      setBusLocation(null);
+      return;
+    }
+
+    const fetchLatestLocation = async () => {
+      const { data, error } = await supabase
+        .from('bus_locations')
+        .select('*')
+        .eq('trip_id', activeTrip.id)
+        .order('timestamp', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching bus location:', error.message);
+        return;
+      }
+
+      setBusLocation(data);
+    };
+
+    fetchLatestLocation();
+
+    const channel = supabase
+      .channel(`bus-locations-${activeTrip.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'bus_locations',
+          filter: `trip_id=eq.${activeTrip.id}`,
+        },
+        (payload) => {
+          const location = payload.new as BusLocation;
+          setBusLocation(prev =>
+            prev && new Date(prev.timestamp) > new Date(location.timestamp) ? prev : location
+          );
         }
       )
       .subscribe();
@@ -231,7 +351,27 @@ export default function StudentTrackBus() {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [activeTrip, baseStops, updateStopsWithEvents]);
+  }, [activeTrip]);
+
+  // Scheduled times are for the student's own stop when it is on this route
+  const boardingStopId = baseStops.some(stop => stop.id === student?.boarding_stop_id)
+    ? student?.boarding_stop_id ?? undefined
+    : undefined;
+
+  useEffect(() => {
+    if (!route) return;
+
+    const refreshDepartures = () => {
+      fetchUpcomingDepartures(route.id, { stop_id: boardingStopId, limit: 5 })
+        .then(setDepartures)
+        .catch(err => console.error('Error fetching departures:', err));
+    };
+
+    refreshDepartures();
+    const interval = setInterval(refreshDepartures, DEPARTURES_REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [route, boardingStopId, activeTrip?.id]);
 
   const formatTime = (timestamp: string | null) => {
     if (!timestamp) return '';
@@ -241,6 +381,12 @@ export default function StudentTrackBus() {
     });
   };
 
+  const formatEta = (eta: StopEta) => {
+    const minutes = Math.round((new Date(eta.predicted_arrival).getTime() - Date.now()) / 60000);
+    const relative = minutes <= 0 ? 'due now' : `in ${minutes} min`;
+    return `${formatTime(eta.predicted_arrival)} (${relative})`;
+  };
+
   const getCurrentStopName = () => {
     const currentStop = stops.find(stop => stop.status === 'arrived');
     if (currentStop) return currentStop.stop_name;
@@ -355,11 +501,72 @@ export default function StudentTrackBus() {
                     </span>
                   </div>
                 )}
+                {activeTrip?.scheduled_departure && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Scheduled {formatTime(activeTrip.scheduled_departure)} • started{' '}
+                    {formatLateness(minutesLate(activeTrip.started_at, activeTrip.scheduled_departure)).toLowerCase()}
+                  </p>
+                )}
+                {activeTrip && bus && (
+                  <div className="flex items-center gap-2 mt-2 flex-wrap" data-testid="text-bus-occupancy">
+                    <Users className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-sm">
+                      {activeTrip.occupancy ?? 0} of {bus.capacity} on board
+                    </span>
+                    <Badge
+                      variant="outline"
+                      className={OCCUPANCY_BADGE_STYLES[occupancyLevel(activeTrip.occupancy ?? 0, bus.capacity)]}
+                    >
+                      {OCCUPANCY_LABELS[occupancyLevel(activeTrip.occupancy ?? 0, bus.capacity)]}
+                    </Badge>
+                  </div>
+                )}
               </div>
             </div>
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <CalendarClock className="h-5 w-5 text-primary" />
+              Upcoming Departures
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {departures.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No departures scheduled for this route in the next week.</p>
+            ) : (
+              <div className="space-y-2">
+                {departures.map(departure => (
+                  <div
+                    key={`${departure.slot_id}-${departure.scheduled_departure}`}
+                    className="flex items-center justify-between gap-3 py-2 border-b last:border-0"
+                    data-testid={`departure-${departure.slot_id}`}
+                  >
+                    <div>
+                      <p className="font-medium">
+                        {formatDepartureTime(departure.stop_arrival ?? departure.scheduled_departure)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {DIRECTION_LABELS[departure.direction]} •{' '}
+                        {departure.stop_arrival
+                          ? `at your stop, leaves ${formatTime(departure.scheduled_departure)}`
+                          : 'from the first stop'}
+                      </p>
+                    </div>
+                    {departure.trip_id ? (
+                      <Badge className="bg-green-600">On the way</Badge>
+                    ) : (
+                      <Badge variant="outline">Scheduled</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {activeTrip && (
           <div className="grid grid-cols-3 gap-4">
             <Card>
@@ -419,6 +626,39 @@ export default function StudentTrackBus() {
           </Card>
         )}
 
+        <Card className="overflow-hidden">
+          <CardHeader className="pb-2">
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <MapIcon className="h-5 w-5 text-primary" />
+                Live Map
+              </CardTitle>
+              {busLocation && (
+                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                  {busLocation.speed != null && (
+                    <span className="flex items-center gap-1">
+                      <Gauge className="h-3 w-3" />
+                      {Math.round(busLocation.speed * 3.6)} km/h
+                    </span>
+                  )}
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    Updated {formatTime(busLocation.timestamp)}
+                  </span>
+                </div>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <BusMap stops={stops} location={busLocation} className="h-[320px] w-full" />
+            {activeTrip && !busLocation && (
+              <p className="text-sm text-muted-foreground mt-3">
+                Waiting for the bus to share its location...
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-lg flex items-center gap-2">
@@ -506,6 +746,9 @@ export default function StudentTrackBus() {
                                 </span>
                                 {isFirst && <Badge variant="outline" className="text-xs py-0 h-5">Start</Badge>}
                                 {isLast && <Badge variant="outline" className="text-xs py-0 h-5">Destination</Badge>}
+                                {stop.id === student?.boarding_stop_id && (
+                                  <Badge className="text-xs py-0 h-5 bg-primary/10 text-primary hover:bg-primary/10">Your Stop</Badge>
+                                )}
                               </div>
                             </div>
                             
@@ -533,6 +776,15 @@ export default function StudentTrackBus() {
                             </div>
                           </div>
 
+                          {activeTrip && isPending && etas[stop.id] && (
+                            <div className="mt-3 flex items-center gap-1.5 text-xs text-yellow-700 dark:text-yellow-400">
+                              <Timer className="h-3 w-3" />
+                              <span>
+                                {etas[stop.id].source === 'distance' ? 'Approx. arrival' : 'Expected'}: {formatEta(etas[stop.id])}
+                              </span>
+                            </div>
+                          )}
+
                           {(stop.arrived_at || stop.departed_at) && (
                             <div className="mt-3 flex items-center gap-4 text-xs">
                               {stop.arrived_at && (
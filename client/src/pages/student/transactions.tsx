@@ -1,14 +1,21 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/lib/auth-context';
 import { supabase } from '@/lib/supabase';
+import { isCreditTransaction, isReversible } from '@/lib/transactions';
+import { DISPUTE_REASON_LABELS, DISPUTE_STATUS_LABELS, fetchDispute, openDispute } from '@/lib/disputes';
 import { SidebarLayout } from '@/components/layout/sidebar-layout';
+import { DisputeThread } from '@/components/dispute-thread';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
-import type { Transaction } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+import type { DisputeReason, FareDispute, FareDisputeDetail, ScanLogWithDetails, Transaction } from '@shared/schema';
 import {
   Search,
   ArrowUpRight,
@@ -18,26 +25,57 @@ import {
   XCircle,
   Clock,
   Receipt,
+  Loader2,
+  Flag,
+  MapPin,
+  Bus,
 } from 'lucide-react';
 
+const RECENT_RIDES_LIMIT = 20;
+
 export default function StudentTransactions() {
   const { student } = useAuth();
+  const { toast } = useToast();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterType, setFilterType] = useState<string>('all');
+  // Keyed by the disputed transaction
+  const [disputes, setDisputes] = useState<Record<string, FareDispute>>({});
+  const [disputeTx, setDisputeTx] = useState<Transaction | null>(null);
+  const [disputeReason, setDisputeReason] = useState<DisputeReason>('not_on_bus');
+  const [disputeComment, setDisputeComment] = useState('');
+  const [submittingDispute, setSubmittingDispute] = useState(false);
+  const [viewedDispute, setViewedDispute] = useState<FareDisputeDetail | null>(null);
+  const [rides, setRides] = useState<ScanLogWithDetails[]>([]);
 
   useEffect(() => {
     const fetchTransactions = async () => {
       if (!student) return;
 
-      const { data } = await supabase
-        .from('transactions')
-        .select('*')
-        .eq('student_id', student.id)
-        .order('created_at', { ascending: false });
+      const [{ data }, { data: disputeData }, { data: rideData }] = await Promise.all([
+        supabase
+          .from('transactions')
+          .select('*')
+          .eq('student_id', student.id)
+          .order('created_at', { ascending: false }),
+        supabase.from('fare_disputes').select('*').eq('student_id', student.id),
+        supabase
+          .from('scan_logs')
+          .select('*, route_stops(*), buses(*)')
+          .eq('student_id', student.id)
+          .eq('scan_status', 'success')
+          .order('scan_timestamp', { ascending: false })
+          .limit(RECENT_RIDES_LIMIT),
+      ]);
 
       if (data) setTransactions(data);
+      if (rideData) {
+        setRides(rideData.map((ride: any) => ({ ...ride, route_stop: ride.route_stops, bus: ride.buses })));
+      }
+      if (disputeData) {
+        setDisputes(Object.fromEntries(disputeData.map((d: FareDispute) => [d.transaction_id, d])));
+      }
       setLoading(false);
     };
 
@@ -52,6 +90,49 @@ export default function StudentTransactions() {
     return matchesSearch && matchesFilter;
   });
 
+  // Fare deductions among the recent rides: show where that ride started
+  const boardingStops = Object.fromEntries(
+    rides
+      .filter((ride) => ride.transaction_id && ride.route_stop)
+      .map((ride) => [ride.transaction_id!, ride.route_stop!.stop_name])
+  );
+
+  const canDispute = (tx: Transaction) => isReversible(tx) && !disputes[tx.id];
+
+  const closeDisputeForm = () => {
+    setDisputeTx(null);
+    setDisputeReason('not_on_bus');
+    setDisputeComment('');
+  };
+
+  const submitDispute = async () => {
+    if (!disputeTx) return;
+
+    setSubmittingDispute(true);
+    try {
+      const dispute = await openDispute({
+        transaction_id: disputeTx.id,
+        reason: disputeReason,
+        comment: disputeComment.trim(),
+      });
+      setDisputes((prev) => ({ ...prev, [dispute.transaction_id]: dispute }));
+      closeDisputeForm();
+      toast({ title: 'Dispute submitted', description: 'The transport office will review your charge' });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSubmittingDispute(false);
+    }
+  };
+
+  const viewDispute = async (dispute: FareDispute) => {
+    try {
+      setViewedDispute(await fetchDispute(dispute.id));
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'success':
@@ -126,6 +207,8 @@ export default function StudentTransactions() {
               <SelectItem value="recharge">Recharges</SelectItem>
               <SelectItem value="deduction">Deductions</SelectItem>
               <SelectItem value="admin_adjustment">Adjustments</SelectItem>
+              <SelectItem value="pass_purchase">Pass Purchases</SelectItem>
+              <SelectItem value="refund">Refunds</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -160,14 +243,14 @@ export default function StudentTransactions() {
                     <div className="flex items-start gap-4">
                       <div
                         className={`flex h-12 w-12 items-center justify-center rounded-full shrink-0 ${
-                          tx.transaction_type === 'recharge'
+                          isCreditTransaction(tx.transaction_type)
                             ? 'bg-chart-2/10'
                             : tx.transaction_type === 'admin_adjustment'
                             ? 'bg-chart-4/10'
                             : 'bg-destructive/10'
                         }`}
                       >
-                        {tx.transaction_type === 'recharge' ? (
+                        {isCreditTransaction(tx.transaction_type) ? (
                           <ArrowDownLeft className="h-6 w-6 text-chart-2" />
                         ) : (
                           <ArrowUpRight className="h-6 w-6 text-destructive" />
@@ -180,13 +263,24 @@ export default function StudentTransactions() {
                               ? 'Wallet Recharge'
                               : tx.transaction_type === 'admin_adjustment'
                               ? 'Admin Adjustment'
+                              : tx.transaction_type === 'pass_purchase'
+                              ? 'Pass Purchase'
+                              : tx.transaction_type === 'refund'
+                              ? 'Fare Refund'
                               : 'Fare Deduction'}
                           </p>
                           {getStatusBadge(tx.status)}
+                          {tx.reversed_at && <Badge variant="outline">Refunded</Badge>}
                         </div>
                         <p className="text-sm text-muted-foreground mt-1">
                           {tx.description || 'No description'}
                         </p>
+                        {boardingStops[tx.id] && (
+                          <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                            <MapPin className="h-3 w-3" />
+                            Boarded at {boardingStops[tx.id]}
+                          </p>
+                        )}
                         <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
                           <span>
                             {new Date(tx.created_at).toLocaleDateString('en-IN', {
@@ -207,17 +301,41 @@ export default function StudentTransactions() {
                     <div className="text-right sm:text-right pl-16 sm:pl-0">
                       <p
                         className={`text-xl font-semibold ${
-                          tx.transaction_type === 'recharge'
+                          isCreditTransaction(tx.transaction_type)
                             ? 'text-chart-2'
                             : 'text-destructive'
                         }`}
                       >
-                        {tx.transaction_type === 'recharge' ? '+' : '-'}₹
+                        {isCreditTransaction(tx.transaction_type) ? '+' : '-'}₹
                         {Math.abs(tx.amount).toFixed(2)}
                       </p>
                       <p className="text-sm text-muted-foreground mt-1">
                         Balance: ₹{tx.balance_after.toFixed(2)}
                       </p>
+                      {canDispute(tx) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="mt-1"
+                          onClick={() => setDisputeTx(tx)}
+                          data-testid={`button-dispute-${tx.id}`}
+                        >
+                          <Flag className="h-4 w-4 mr-1" />
+                          Dispute
+                        </Button>
+                      )}
+                      {disputes[tx.id] && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="mt-1"
+                          onClick={() => viewDispute(disputes[tx.id])}
+                          data-testid={`button-view-dispute-${tx.id}`}
+                        >
+                          <Flag className="h-4 w-4 mr-1" />
+                          Dispute: {DISPUTE_STATUS_LABELS[disputes[tx.id].status]}
+                        </Button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -225,6 +343,152 @@ export default function StudentTransactions() {
             )}
           </CardContent>
         </Card>
+
+        {/* Recent Rides */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Rides</CardTitle>
+            <CardDescription>Where you boarded on your last {RECENT_RIDES_LIMIT} rides</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {rides.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Bus className="h-12 w-12 mx-auto mb-3 opacity-50" />
+                <p>No rides yet</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {rides.map((ride) => (
+                  <div
+                    key={ride.id}
+                    className="flex items-center justify-between gap-3 py-2 border-b last:border-0"
+                    data-testid={`ride-${ride.id}`}
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className="flex h-10 w-10 items-center justify-center rounded-full bg-primary/10 shrink-0">
+                        <MapPin className="h-5 w-5 text-primary" />
+                      </div>
+                      <div className="min-w-0">
+                        <p className="font-medium text-sm truncate">
+                          {ride.route_stop ? ride.route_stop.stop_name : 'Stop not recorded'}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(ride.scan_timestamp).toLocaleDateString('en-IN', {
+                            day: 'numeric',
+                            month: 'short',
+                            hour: '2-digit',
+                            minute: '2-digit',
+                          })}
+                          {ride.bus && ` • ${ride.bus.bus_number}`}
+                        </p>
+                      </div>
+                    </div>
+                    <p className="text-sm text-muted-foreground shrink-0">
+                      {ride.fare_deducted > 0 ? `₹${Number(ride.fare_deducted).toFixed(2)}` : 'No fare'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Open Dispute Dialog */}
+        <Dialog open={!!disputeTx} onOpenChange={(open) => !open && closeDisputeForm()}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Dispute Charge</DialogTitle>
+              <DialogDescription>
+                {disputeTx &&
+                  `₹${disputeTx.amount.toFixed(2)} on ${new Date(disputeTx.created_at).toLocaleString('en-IN', {
+                    day: 'numeric',
+                    month: 'short',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}`}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label>Reason</Label>
+                <Select value={disputeReason} onValueChange={(value) => setDisputeReason(value as DisputeReason)}>
+                  <SelectTrigger data-testid="select-dispute-reason">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DISPUTE_REASON_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="dispute-comment">What happened?</Label>
+                <Textarea
+                  id="dispute-comment"
+                  value={disputeComment}
+                  onChange={(e) => setDisputeComment(e.target.value)}
+                  rows={4}
+                  maxLength={1000}
+                  data-testid="input-dispute-comment-initial"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={closeDisputeForm}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={submitDispute}
+                  disabled={submittingDispute || !disputeComment.trim()}
+                  data-testid="button-submit-dispute"
+                >
+                  {submittingDispute && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Submit Dispute
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        {/* Dispute Thread Dialog */}
+        <Dialog open={!!viewedDispute} onOpenChange={(open) => !open && setViewedDispute(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Your Dispute</DialogTitle>
+              <DialogDescription>
+                {viewedDispute && (
+                  <>
+                    {DISPUTE_REASON_LABELS[viewedDispute.reason]} · {DISPUTE_STATUS_LABELS[viewedDispute.status]}
+                  </>
+                )}
+              </DialogDescription>
+            </DialogHeader>
+            {viewedDispute && (
+              <div className="space-y-4">
+                {viewedDispute.status !== 'open' && (
+                  <div className="rounded-lg border p-3 text-sm">
+                    <p className="font-medium">
+                      {viewedDispute.status === 'approved' ? 'Approved' : 'Rejected'}
+                      {viewedDispute.refund_transaction_id ? ' and refunded' : ''}
+                    </p>
+                    {viewedDispute.resolution_note && (
+                      <p className="text-muted-foreground mt-1">{viewedDispute.resolution_note}</p>
+                    )}
+                  </div>
+                )}
+                <DisputeThread
+                  dispute={viewedDispute}
+                  viewerRole="student"
+                  onCommentAdded={(comment) =>
+                    setViewedDispute((prev) => prev && { ...prev, comments: [...prev.comments, comment] })
+                  }
+                />
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
       </div>
     </SidebarLayout>
   );
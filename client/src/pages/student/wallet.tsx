@@ -1,14 +1,37 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/lib/auth-context';
-import { supabase } from '@/lib/supabase';
+import { supabase, getAuthHeaders } from '@/lib/supabase';
 import { SidebarLayout } from '@/components/layout/sidebar-layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
-import type { BusRoute, Transaction } from '@shared/schema';
+import { openCheckout } from '@/lib/payments';
+import { PASS_PERIOD_LABELS, fetchPassSubscriptions, findCurrentPass, formatPassDate } from '@/lib/passes';
+import { isCreditTransaction } from '@/lib/transactions';
+import {
+  MANDATE_STATUS_LABELS,
+  confirmAutoRechargeSetup,
+  fetchWalletSettings,
+  removeAutoRechargeCard,
+  saveWalletSettings,
+  startAutoRechargeSetup,
+} from '@/lib/wallet-settings';
+import type {
+  BusRoute,
+  Transaction,
+  PaymentOrder,
+  PassProduct,
+  PassSubscriptionWithProduct,
+  LowBalanceChannel,
+  WalletSettings,
+  WalletSettingsData,
+} from '@shared/schema';
 import {
   Wallet,
   Calendar,
@@ -18,12 +41,27 @@ import {
   CheckCircle2,
   ArrowUpRight,
   ArrowDownLeft,
+  Clock,
+  XCircle,
+  Ticket,
+  BellRing,
+  RefreshCw,
 } from 'lucide-react';
 
 const quickAmounts = [500, 1000, 2000, 5000];
 
+const LOW_BALANCE_CHANNELS: { value: LowBalanceChannel; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' },
+  { value: 'push', label: 'Push' },
+];
+
+// Blank inputs mean "not set"
+const parseOptionalAmount = (value: string) => (value.trim() === '' ? null : Number(value));
+const formatOptionalAmount = (value: number | null) => (value === null ? '' : String(value));
+
 export default function StudentWallet() {
-  const { student, refreshProfile } = useAuth();
+  const { user, student, refreshProfile } = useAuth();
   const { toast } = useToast();
   const [route, setRoute] = useState<BusRoute | null>(null);
   const [recentTransactions, setRecentTransactions] = useState<Transaction[]>([]);
@@ -31,6 +69,16 @@ export default function StudentWallet() {
   const [selectedAmount, setSelectedAmount] = useState<number | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [passProducts, setPassProducts] = useState<PassProduct[]>([]);
+  const [passSubscriptions, setPassSubscriptions] = useState<PassSubscriptionWithProduct[]>([]);
+  const [purchasingProductId, setPurchasingProductId] = useState<string | null>(null);
+  const [walletSettings, setWalletSettings] = useState<WalletSettings | null>(null);
+  const [lowBalanceThreshold, setLowBalanceThreshold] = useState('');
+  const [lowBalanceChannels, setLowBalanceChannels] = useState<LowBalanceChannel[]>([]);
+  const [autoRechargeAmount, setAutoRechargeAmount] = useState('');
+  const [autoRechargeThreshold, setAutoRechargeThreshold] = useState('');
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [settingUpAutoRecharge, setSettingUpAutoRecharge] = useState(false);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -44,8 +92,18 @@ export default function StudentWallet() {
           .eq('id', student.bus_route_id)
           .single();
         if (routeData) setRoute(routeData);
+
+        const { data: productData } = await supabase
+          .from('pass_products')
+          .select('*')
+          .eq('route_id', student.bus_route_id)
+          .eq('is_active', true)
+          .order('price', { ascending: true });
+        if (productData) setPassProducts(productData);
       }
 
+      setPassSubscriptions(await fetchPassSubscriptions(student.id));
+
       // Fetch recent transactions
       const { data: txData } = await supabase
         .from('transactions')
@@ -55,6 +113,12 @@ export default function StudentWallet() {
         .limit(10);
       if (txData) setRecentTransactions(txData);
 
+      try {
+        applyWalletSettings(await fetchWalletSettings());
+      } catch (err) {
+        console.error('Failed to load wallet settings:', err);
+      }
+
       setLoading(false);
     };
 
@@ -62,6 +126,7 @@ export default function StudentWallet() {
   }, [student]);
 
   const dailyFare = route?.daily_fare || 60;
+  const currentPass = findCurrentPass(passSubscriptions, student?.bus_route_id);
   const daysRemaining = student ? Math.floor(student.wallet_balance / dailyFare) : 0;
 
   const handleQuickAmountSelect = (amount: number) => {
@@ -80,6 +145,145 @@ export default function StudentWallet() {
     return isNaN(parsed) ? 0 : parsed;
   };
 
+  const refreshTransactions = async () => {
+    if (!student) return;
+
+    const { data: txData } = await supabase
+      .from('transactions')
+      .select('*')
+      .eq('student_id', student.id)
+      .order('created_at', { ascending: false })
+      .limit(10);
+    if (txData) setRecentTransactions(txData);
+  };
+
+  const applyWalletSettings = (settings: WalletSettings) => {
+    setWalletSettings(settings);
+    setLowBalanceThreshold(formatOptionalAmount(settings.low_balance_threshold));
+    setLowBalanceChannels(settings.low_balance_channels);
+    setAutoRechargeAmount(formatOptionalAmount(settings.auto_recharge_amount));
+    setAutoRechargeThreshold(formatOptionalAmount(settings.auto_recharge_threshold));
+  };
+
+  const toggleLowBalanceChannel = (channel: LowBalanceChannel, checked: boolean) => {
+    setLowBalanceChannels((prev) =>
+      checked ? [...prev.filter((c) => c !== channel), channel] : prev.filter((c) => c !== channel)
+    );
+  };
+
+  const getSettingsData = (autoRechargeEnabled: boolean): WalletSettingsData => ({
+    low_balance_threshold: parseOptionalAmount(lowBalanceThreshold),
+    low_balance_channels: lowBalanceChannels,
+    auto_recharge_enabled: autoRechargeEnabled,
+    auto_recharge_amount: parseOptionalAmount(autoRechargeAmount),
+    auto_recharge_threshold: parseOptionalAmount(autoRechargeThreshold),
+  });
+
+  const handleSaveSettings = async (autoRechargeEnabled = walletSettings?.auto_recharge_enabled ?? false) => {
+    setSavingSettings(true);
+    try {
+      applyWalletSettings(await saveWalletSettings(getSettingsData(autoRechargeEnabled)));
+      toast({ title: 'Wallet settings saved' });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  // Saves the current amount and threshold, then takes the first payment
+  // through checkout so the gateway can keep the card for later recharges
+  const handleSetUpAutoRecharge = async () => {
+    if (!student) return;
+
+    const amount = parseOptionalAmount(autoRechargeAmount);
+    if (amount === null || parseOptionalAmount(autoRechargeThreshold) === null) {
+      toast({
+        title: 'Missing details',
+        description: 'Enter an auto-recharge amount and threshold first',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (!confirm(`Pay ₹${amount} now and save your card for auto-recharge?`)) return;
+
+    setSettingUpAutoRecharge(true);
+    try {
+      await saveWalletSettings(getSettingsData(false));
+      const order = await startAutoRechargeSetup();
+      const payment = await openCheckout(order, {
+        name: student.full_name,
+        email: user?.email,
+        contact: student.phone,
+      });
+      applyWalletSettings(await confirmAutoRechargeSetup(payment));
+
+      await refreshProfile();
+      await refreshTransactions();
+
+      toast({
+        title: 'Auto-recharge is on',
+        description: `₹${amount} has been added to your wallet and your card is saved.`,
+      });
+    } catch (err: any) {
+      await refreshTransactions();
+      toast({ title: 'Auto-recharge setup failed', description: err.message, variant: 'destructive' });
+    } finally {
+      setSettingUpAutoRecharge(false);
+    }
+  };
+
+  const handleRemoveCard = async () => {
+    if (!confirm('Remove your saved card? Auto-recharge will be turned off.')) return;
+
+    setSettingUpAutoRecharge(true);
+    try {
+      applyWalletSettings(await removeAutoRechargeCard());
+      toast({ title: 'Saved card removed' });
+    } catch (err: any) {
+      toast({ title: 'Error', description: err.message, variant: 'destructive' });
+    } finally {
+      setSettingUpAutoRecharge(false);
+    }
+  };
+
+  const handleBuyPass = async (product: PassProduct) => {
+    if (!student) return;
+    if (!confirm(`Buy ${product.name} for ₹${product.price}? The amount will be taken from your wallet.`)) return;
+
+    setPurchasingProductId(product.id);
+
+    try {
+      const response = await fetch('/api/passes/purchase', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({ product_id: product.id }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to buy pass');
+      }
+
+      await refreshProfile();
+      await refreshTransactions();
+      setPassSubscriptions(await fetchPassSubscriptions(student.id));
+
+      toast({
+        title: 'Pass purchased!',
+        description: `${product.name} is valid from ${formatPassDate(result.subscription.valid_from)} to ${formatPassDate(result.subscription.valid_until)}.`,
+      });
+    } catch (err: any) {
+      toast({
+        title: 'Purchase failed',
+        description: err.message || 'An error occurred while buying the pass.',
+        variant: 'destructive',
+      });
+    } finally {
+      setPurchasingProductId(null);
+    }
+  };
+
   const handleRecharge = async () => {
     const amount = getRechargeAmount();
     
@@ -106,61 +310,41 @@ export default function StudentWallet() {
     setIsProcessing(true);
 
     try {
-      // For now, we'll simulate a successful payment (mock Razorpay)
-      // In production, this would integrate with real Razorpay
-      
-      const balanceBefore = student.wallet_balance;
-      const balanceAfter = balanceBefore + amount;
-
-      // Create transaction record
-      const { error: txError } = await supabase
-        .from('transactions')
-        .insert({
-          student_id: student.id,
-          amount: amount,
-          transaction_type: 'recharge',
-          currency: 'INR',
-          payment_gateway: 'razorpay_mock',
-          payment_id: `mock_${Date.now()}`,
-          order_id: `order_${Date.now()}`,
-          status: 'success',
-          balance_before: balanceBefore,
-          balance_after: balanceAfter,
-          description: 'Wallet recharge',
-        });
-
-      if (txError) throw txError;
-
-      // Update wallet balance
-      const { error: updateError } = await supabase
-        .from('students')
-        .update({ wallet_balance: balanceAfter })
-        .eq('id', student.id);
-
-      if (updateError) throw updateError;
-
-      // Create notification
-      await supabase
-        .from('notifications')
-        .insert({
-          user_id: student.user_id,
-          title: 'Wallet Recharged',
-          message: `₹${amount} has been added to your wallet. New balance: ₹${balanceAfter.toFixed(2)}`,
-          type: 'recharge',
-          is_read: false,
-        });
+      // Create a gateway order; the server records it as a pending transaction
+      const orderResponse = await fetch('/api/payments/orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({ amount }),
+      });
+
+      const orderResult = await orderResponse.json();
+      if (!orderResponse.ok || !orderResult.success) {
+        throw new Error(orderResult.error || 'Failed to start payment');
+      }
+
+      const order = orderResult.order as PaymentOrder;
+      const payment = await openCheckout(order, {
+        name: student.full_name,
+        email: user?.email,
+        contact: student.phone,
+      });
+
+      // The server checks the gateway signature before crediting the wallet
+      const verifyResponse = await fetch('/api/payments/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify(payment),
+      });
+
+      const verifyResult = await verifyResponse.json();
+      if (!verifyResponse.ok || !verifyResult.success) {
+        throw new Error(verifyResult.error || 'Payment verification failed');
+      }
 
       // Refresh profile to get updated balance
       await refreshProfile();
 
-      // Refresh transactions
-      const { data: txData } = await supabase
-        .from('transactions')
-        .select('*')
-        .eq('student_id', student.id)
-        .order('created_at', { ascending: false })
-        .limit(10);
-      if (txData) setRecentTransactions(txData);
+      await refreshTransactions();
 
       toast({
         title: 'Recharge successful!',
@@ -170,6 +354,9 @@ export default function StudentWallet() {
       setSelectedAmount(null);
       setCustomAmount('');
     } catch (err: any) {
+      // Show the order as pending or failed
+      await refreshTransactions();
+
       toast({
         title: 'Recharge failed',
         description: err.message || 'An error occurred during recharge.',
@@ -313,6 +500,244 @@ export default function StudentWallet() {
           </Card>
         </div>
 
+        {/* Low Balance & Auto-recharge */}
+        {walletSettings && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BellRing className="h-5 w-5 text-primary" />
+                Low Balance &amp; Auto-recharge
+              </CardTitle>
+              <CardDescription>Choose when we warn you and top up your wallet automatically</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid gap-6 md:grid-cols-2">
+                {/* Low balance alerts */}
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="low-balance-threshold" className="mb-2 block">
+                      Warn me below
+                    </Label>
+                    <div className="relative">
+                      <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">₹</span>
+                      <Input
+                        id="low-balance-threshold"
+                        type="number"
+                        placeholder={`${dailyFare * 3} (3 days of travel)`}
+                        value={lowBalanceThreshold}
+                        onChange={(e) => setLowBalanceThreshold(e.target.value)}
+                        className="pl-8"
+                        min={0}
+                        max={10000}
+                        data-testid="input-low-balance-threshold"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <Label className="mb-2 block">Also send the warning by</Label>
+                    <div className="flex gap-6">
+                      {LOW_BALANCE_CHANNELS.map(({ value, label }) => (
+                        <div key={value} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`low-balance-${value}`}
+                            checked={lowBalanceChannels.includes(value)}
+                            onCheckedChange={(checked) => toggleLowBalanceChannel(value, checked === true)}
+                            data-testid={`checkbox-low-balance-${value}`}
+                          />
+                          <Label htmlFor={`low-balance-${value}`} className="font-normal">
+                            {label}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      You always get an in-app notification. Push needs to be turned on for this device on your
+                      Notifications page.
+                    </p>
+                  </div>
+                </div>
+
+                {/* Auto-recharge */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium flex items-center gap-2">
+                        <RefreshCw className="h-4 w-4" />
+                        Auto-recharge
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {MANDATE_STATUS_LABELS[walletSettings.mandate_status]}
+                      </p>
+                    </div>
+                    <Switch
+                      checked={walletSettings.auto_recharge_enabled}
+                      onCheckedChange={(checked) => handleSaveSettings(checked)}
+                      disabled={walletSettings.mandate_status !== 'active' || savingSettings}
+                      data-testid="switch-auto-recharge"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor="auto-recharge-threshold" className="mb-2 block">
+                        When below
+                      </Label>
+                      <Input
+                        id="auto-recharge-threshold"
+                        type="number"
+                        placeholder="₹"
+                        value={autoRechargeThreshold}
+                        onChange={(e) => setAutoRechargeThreshold(e.target.value)}
+                        min={0}
+                        max={10000}
+                        data-testid="input-auto-recharge-threshold"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="auto-recharge-amount" className="mb-2 block">
+                        Add
+                      </Label>
+                      <Input
+                        id="auto-recharge-amount"
+                        type="number"
+                        placeholder="₹50 - ₹10,000"
+                        value={autoRechargeAmount}
+                        onChange={(e) => setAutoRechargeAmount(e.target.value)}
+                        min={50}
+                        max={10000}
+                        data-testid="input-auto-recharge-amount"
+                      />
+                    </div>
+                  </div>
+                  {walletSettings.mandate_status === 'paused' && (
+                    <p className="text-sm text-destructive">
+                      Auto-recharge was paused after {walletSettings.auto_recharge_failures} failed charges. Set it up
+                      again with a working card.
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    {walletSettings.mandate_status !== 'active' && (
+                      <Button
+                        variant="outline"
+                        onClick={handleSetUpAutoRecharge}
+                        disabled={settingUpAutoRecharge}
+                        data-testid="button-setup-auto-recharge"
+                      >
+                        {settingUpAutoRecharge ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <CreditCard className="mr-2 h-4 w-4" />
+                        )}
+                        Set up with card
+                      </Button>
+                    )}
+                    {(walletSettings.mandate_status === 'active' || walletSettings.mandate_status === 'paused') && (
+                      <Button
+                        variant="outline"
+                        onClick={handleRemoveCard}
+                        disabled={settingUpAutoRecharge}
+                        data-testid="button-remove-auto-recharge-card"
+                      >
+                        Remove card
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Setting up charges the auto-recharge amount once to save your card.
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => handleSaveSettings()}
+                  disabled={savingSettings}
+                  data-testid="button-save-wallet-settings"
+                >
+                  {savingSettings && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Settings
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Travel Passes */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Ticket className="h-5 w-5 text-primary" />
+              Travel Passes
+            </CardTitle>
+            <CardDescription>Pay once for your route instead of paying per ride</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {passSubscriptions.length > 0 && (
+              <div className="space-y-2">
+                {passSubscriptions.map((sub) => (
+                  <div
+                    key={sub.id}
+                    className="flex items-center justify-between rounded-lg bg-chart-2/10 p-3"
+                    data-testid={`pass-subscription-${sub.id}`}
+                  >
+                    <div>
+                      <p className="font-medium">{sub.product?.name || 'Travel Pass'}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatPassDate(sub.valid_from)} - {formatPassDate(sub.valid_until)}
+                      </p>
+                    </div>
+                    <Badge variant={sub.id === currentPass?.id ? 'default' : 'secondary'}>
+                      {sub.id === currentPass?.id ? 'Active' : 'Upcoming'}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {!student?.bus_route_id ? (
+              <p className="text-sm text-muted-foreground">Choose your bus route on your profile to see the passes for it.</p>
+            ) : passProducts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No passes are available for your route yet.</p>
+            ) : (
+              <div className="grid gap-3 sm:grid-cols-2">
+                {passProducts.map((product) => (
+                  <div
+                    key={product.id}
+                    className="flex items-center justify-between gap-3 rounded-lg border p-4"
+                    data-testid={`pass-product-${product.id}`}
+                  >
+                    <div>
+                      <p className="font-medium">{product.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {PASS_PERIOD_LABELS[product.period]} · {product.duration_days} days
+                      </p>
+                      <p className="text-lg font-semibold mt-1">₹{product.price}</p>
+                    </div>
+                    <Button
+                      onClick={() => handleBuyPass(product)}
+                      disabled={purchasingProductId !== null || (student?.wallet_balance ?? 0) < product.price}
+                      data-testid={`button-buy-pass-${product.id}`}
+                    >
+                      {purchasingProductId === product.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : currentPass ? (
+                        'Renew'
+                      ) : (
+                        'Buy'
+                      )}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {passProducts.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Passes are paid from your wallet balance. A renewal starts the day after your current pass ends.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Recent Transactions */}
         <Card>
           <CardHeader>
@@ -336,14 +761,14 @@ export default function StudentWallet() {
                     <div className="flex items-center gap-3">
                       <div
                         className={`flex h-10 w-10 items-center justify-center rounded-full ${
-                          tx.transaction_type === 'recharge'
+                          isCreditTransaction(tx.transaction_type)
                             ? 'bg-chart-2/10'
                             : tx.transaction_type === 'admin_adjustment'
                             ? 'bg-chart-4/10'
                             : 'bg-destructive/10'
                         }`}
                       >
-                        {tx.transaction_type === 'recharge' ? (
+                        {isCreditTransaction(tx.transaction_type) ? (
                           <ArrowDownLeft className="h-5 w-5 text-chart-2" />
                         ) : (
                           <ArrowUpRight className="h-5 w-5 text-destructive" />
@@ -352,9 +777,15 @@ export default function StudentWallet() {
                       <div>
                         <p className="font-medium">
                           {tx.transaction_type === 'recharge'
-                            ? 'Wallet Recharge'
+                            ? tx.auto_recharge
+                              ? 'Auto-recharge'
+                              : 'Wallet Recharge'
                             : tx.transaction_type === 'admin_adjustment'
                             ? 'Admin Adjustment'
+                            : tx.transaction_type === 'pass_purchase'
+                            ? 'Pass Purchase'
+                            : tx.transaction_type === 'refund'
+                            ? 'Fare Refund'
                             : 'Fare Deduction'}
                         </p>
                         <p className="text-xs text-muted-foreground">
@@ -383,7 +814,17 @@ export default function StudentWallet() {
                         {tx.status === 'success' && (
                           <CheckCircle2 className="h-3 w-3 text-chart-2" />
                         )}
-                        <span>Bal: ₹{tx.balance_after.toFixed(2)}</span>
+                        {tx.status === 'pending' && (
+                          <Clock className="h-3 w-3 text-chart-4" />
+                        )}
+                        {tx.status === 'failed' && (
+                          <XCircle className="h-3 w-3 text-destructive" />
+                        )}
+                        <span>
+                          {tx.status === 'success'
+                            ? `Bal: ₹${tx.balance_after.toFixed(2)}`
+                            : tx.status === 'pending' ? 'Pending' : 'Failed'}
+                        </span>
                       </div>
                     </div>
                   </div>
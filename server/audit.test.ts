@@ -0,0 +1,102 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PGlite } from "@electric-sql/pglite";
+import { asUser, createTestDatabase, createTestRider, createTestUser, type TestRider } from "./test-database";
+
+interface AuditRow {
+  actor_id: string;
+  action: string;
+  entity_type: string;
+  entity_id: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+describe("audit_admin_change", () => {
+  let db: PGlite;
+  let rider: TestRider;
+  let adminId: string;
+
+  before(async () => {
+    db = await createTestDatabase();
+    rider = await createTestRider(db);
+    adminId = await createTestUser(db, "admin");
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  async function auditEvents(entityId: string): Promise<AuditRow[]> {
+    const { rows } = await db.query<AuditRow>(
+      "SELECT * FROM audit_events WHERE entity_id = $1 ORDER BY created_at",
+      [entityId]
+    );
+    return rows;
+  }
+
+  it("records an admin's insert, update and delete with the row before and after", async () => {
+    const policyId = await asUser(db, adminId, async () => {
+      const { rows: [policy] } = await db.query<{ id: string }>(
+        "INSERT INTO fare_policies (route_id, ride_fare) VALUES ($1, 30) RETURNING id",
+        [rider.routeId]
+      );
+      await db.query("UPDATE fare_policies SET ride_fare = 40 WHERE id = $1", [policy.id]);
+      await db.query("DELETE FROM fare_policies WHERE id = $1", [policy.id]);
+      return policy.id;
+    });
+
+    const events = await auditEvents(policyId);
+
+    assert.deepEqual(
+      events.map((event) => [event.actor_id, event.action, event.entity_type, event.before?.ride_fare, event.after?.ride_fare]),
+      [
+        [adminId, "insert", "fare_policies", undefined, 30],
+        [adminId, "update", "fare_policies", 30, 40],
+        [adminId, "delete", "fare_policies", 40, undefined],
+      ]
+    );
+  });
+
+  it("skips updates that change nothing", async () => {
+    const { rows: [policy] } = await db.query<{ id: string }>(
+      "INSERT INTO fare_policies (route_id, ride_fare) VALUES ($1, 30) RETURNING id",
+      [rider.routeId]
+    );
+
+    await asUser(db, adminId, () => db.query("UPDATE fare_policies SET ride_fare = 30 WHERE id = $1", [policy.id]));
+
+    assert.deepEqual(await auditEvents(policy.id), []);
+  });
+
+  it("ignores changes by other users and the service role", async () => {
+    const studentId = await createTestUser(db, "student");
+
+    const stopId = await asUser(db, studentId, async () => {
+      const { rows: [stop] } = await db.query<{ id: string }>(
+        "INSERT INTO route_stops (route_id, stop_name, sequence) VALUES ($1, 'Gate', 1) RETURNING id",
+        [rider.routeId]
+      );
+      return stop.id;
+    });
+    await db.query("UPDATE route_stops SET stop_name = 'Main gate' WHERE id = $1", [stopId]);
+
+    assert.deepEqual(await auditEvents(stopId), []);
+  });
+
+  it("lets only admins read the log", async () => {
+    const studentId = await createTestUser(db, "student");
+
+    const count = (userId: string) =>
+      asUser(db, userId, async () => {
+        const { rows } = await db.query<{ n: number }>("SELECT COUNT(*)::int AS n FROM audit_events");
+        return rows[0].n;
+      });
+
+    const adminCount = await count(adminId);
+    const studentCount = await count(studentId);
+
+    assert.ok(adminCount > 0);
+    assert.equal(studentCount, 0);
+  });
+});
@@ -0,0 +1,35 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RequestAuth } from "./auth";
+
+export interface AuditEventInput {
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+// Admin changes made through the Supabase client are recorded by the
+// audit_admin_change() trigger. Routes that write as the service role on an
+// admin's behalf call this instead. `actor` is undefined when the request was
+// let through by ADMIN_SETUP_TOKEN. The change has already been made, so a
+// failure here is logged rather than failing the request.
+export async function recordAuditEvent(
+  supabase: SupabaseClient,
+  actor: RequestAuth | undefined,
+  event: AuditEventInput
+) {
+  const { error } = await supabase.from("audit_events").insert({
+    actor_id: actor?.userId ?? null,
+    actor_email: actor?.email ?? "setup token",
+    action: event.action,
+    entity_type: event.entityType,
+    entity_id: event.entityId ?? null,
+    before: event.before ?? null,
+    after: event.after ?? null,
+  });
+
+  if (error) {
+    console.error("Audit event error:", error);
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import { requireAdminOrSetupToken, requireAuth } from "./auth";
+
+interface Outcome {
+  nextCalled: boolean;
+  status?: number;
+  body?: unknown;
+}
+
+// Runs a middleware against a request with the given headers and records
+// whether it let the request through or what it answered
+async function run(middleware: ReturnType<typeof requireAuth>, headers: Record<string, string> = {}): Promise<Outcome> {
+  const outcome: Outcome = { nextCalled: false };
+  const lowerCased = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+
+  const req = { header: (name: string) => lowerCased[name.toLowerCase()] } as unknown as Request;
+  const res = {
+    status(code: number) {
+      outcome.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      outcome.body = body;
+      return this;
+    },
+  } as unknown as Response;
+
+  await middleware(req, res, () => {
+    outcome.nextCalled = true;
+  });
+  return outcome;
+}
+
+describe("requireAuth", () => {
+  it("rejects a request without a bearer token", async () => {
+    for (const headers of [{}, { Authorization: "Basic abc" }, { Authorization: "Bearer " }]) {
+      const outcome = await run(requireAuth("admin"), headers);
+
+      assert.equal(outcome.nextCalled, false);
+      assert.equal(outcome.status, 401);
+      assert.deepEqual(outcome.body, { success: false, error: "Authentication required" });
+    }
+  });
+});
+
+describe("requireAdminOrSetupToken", () => {
+  it("lets a request with the setup token through", async () => {
+    process.env.ADMIN_SETUP_TOKEN = "setup-secret";
+
+    const outcome = await run(requireAdminOrSetupToken(), { "X-Setup-Token": "setup-secret" });
+
+    assert.equal(outcome.nextCalled, true);
+  });
+
+  it("requires an admin session for a wrong setup token, of any length", async () => {
+    process.env.ADMIN_SETUP_TOKEN = "setup-secret";
+
+    for (const token of ["setup-guess!", "setup-secre", "setup-secret-and-more"]) {
+      const outcome = await run(requireAdminOrSetupToken(), { "X-Setup-Token": token });
+
+      assert.equal(outcome.nextCalled, false);
+      assert.equal(outcome.status, 401);
+    }
+  });
+
+  it("ignores the setup token header when ADMIN_SETUP_TOKEN is not set", async () => {
+    delete process.env.ADMIN_SETUP_TOKEN;
+
+    for (const token of ["", "undefined"]) {
+      const outcome = await run(requireAdminOrSetupToken(), { "X-Setup-Token": token });
+
+      assert.equal(outcome.nextCalled, false);
+      assert.equal(outcome.status, 401);
+    }
+  });
+});
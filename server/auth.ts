@@ -0,0 +1,118 @@
+import { timingSafeEqual } from "crypto";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { UserRole } from "@shared/schema";
+import { getSupabaseAdmin } from "./supabase";
+
+export interface RequestAuth {
+  userId: string;
+  email: string;
+  role: UserRole;
+  studentId: string | null;
+  driverId: string | null;
+}
+
+declare module "http" {
+  interface IncomingMessage {
+    auth?: RequestAuth;
+  }
+}
+
+function sendAuthError(res: Response, status: 401 | 403, error: string) {
+  return res.status(status).json({ success: false, error });
+}
+
+function getBearerToken(req: Request): string | null {
+  const header = req.header("authorization");
+  if (!header?.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+// Validates the Supabase access token from the Authorization header, loads the
+// caller's role from the users table and rejects roles not in `roles`
+// (any signed-in user when none are given). On success the caller is
+// available as req.auth, including their student or driver profile id.
+export function requireAuth(...roles: UserRole[]): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const token = getBearerToken(req);
+    if (!token) {
+      return sendAuthError(res, 401, "Authentication required");
+    }
+
+    try {
+      const supabase = getSupabaseAdmin();
+
+      const { data: authData, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !authData.user) {
+        return sendAuthError(res, 401, "Invalid or expired session");
+      }
+
+      const { data: userData } = await supabase
+        .from('users')
+        .select('id, email, role')
+        .eq('id', authData.user.id)
+        .single();
+
+      if (!userData) {
+        return sendAuthError(res, 403, "User profile not found");
+      }
+
+      if (roles.length > 0 && !roles.includes(userData.role)) {
+        return sendAuthError(res, 403, "You do not have permission to perform this action");
+      }
+
+      let studentId: string | null = null;
+      let driverId: string | null = null;
+
+      if (userData.role === 'student') {
+        const { data: studentData } = await supabase
+          .from('students')
+          .select('id')
+          .eq('user_id', userData.id)
+          .single();
+        studentId = studentData?.id ?? null;
+      } else if (userData.role === 'driver') {
+        const { data: driverData } = await supabase
+          .from('drivers')
+          .select('id')
+          .eq('user_id', userData.id)
+          .single();
+        driverId = driverData?.id ?? null;
+      }
+
+      req.auth = {
+        userId: userData.id,
+        email: userData.email,
+        role: userData.role,
+        studentId,
+        driverId,
+      };
+
+      next();
+    } catch (error: any) {
+      console.error("Auth error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  };
+}
+
+// Compared in constant time so the token cannot be guessed byte by byte
+function setupTokenMatches(setupToken: string, header: string | undefined): boolean {
+  const expected = Buffer.from(setupToken);
+  const actual = Buffer.from(header ?? "");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Admin-only routes that must also work before the first admin exists.
+// Setting ADMIN_SETUP_TOKEN and sending it as X-Setup-Token bypasses the
+// session check; without the env var only a signed-in admin gets through.
+export function requireAdminOrSetupToken(): RequestHandler {
+  const requireAdmin = requireAuth("admin");
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const setupToken = process.env.ADMIN_SETUP_TOKEN;
+    if (setupToken && setupTokenMatches(setupToken, req.header("x-setup-token"))) {
+      return next();
+    }
+    return requireAdmin(req, res, next);
+  };
+}
@@ -0,0 +1,132 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PGlite } from "@electric-sql/pglite";
+import { createTestDatabase, createTestRider, createTestUser, type TestRider } from "./test-database";
+
+interface SettingsRow {
+  mandate_status: string;
+  auto_recharge_failures: number;
+  attempted: boolean;
+}
+
+describe("claim_auto_recharges", () => {
+  let db: PGlite;
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  // A signed-in rider with an active mandate that tops up 500 below 100
+  async function autoRecharging(balance: number, settings: Record<string, unknown> = {}): Promise<TestRider> {
+    const rider = await createTestRider(db, { balance });
+    const userId = await createTestUser(db, "student");
+    await db.query("UPDATE students SET user_id = $1 WHERE id = $2", [userId, rider.studentId]);
+
+    const values = {
+      auto_recharge_enabled: true,
+      auto_recharge_amount: 500,
+      auto_recharge_threshold: 100,
+      mandate_status: "active",
+      gateway_customer_id: "cust_1",
+      gateway_token_id: "token_1",
+      ...settings,
+    };
+    const columns = Object.keys(values);
+    await db.query(
+      `INSERT INTO wallet_settings (student_id, ${columns.join(", ")})
+       VALUES ($1, ${columns.map((_, i) => `$${i + 2}`).join(", ")})`,
+      [rider.studentId, ...Object.values(values)]
+    );
+    return rider;
+  }
+
+  async function claim(studentId: string | null, retryMinutes = 60): Promise<string[]> {
+    const { rows } = await db.query<{ student_id: string }>(
+      "SELECT student_id FROM claim_auto_recharges($1, $2)",
+      [studentId, retryMinutes]
+    );
+    return rows.map((row) => row.student_id);
+  }
+
+  async function settings(studentId: string): Promise<SettingsRow> {
+    const { rows: [row] } = await db.query<SettingsRow>(
+      `SELECT mandate_status, auto_recharge_failures, auto_recharge_attempted_at IS NOT NULL AS attempted
+       FROM wallet_settings WHERE student_id = $1`,
+      [studentId]
+    );
+    return row;
+  }
+
+  it("claims a wallet below its threshold once, with what is needed to charge it", async () => {
+    const rider = await autoRecharging(60);
+
+    const { rows } = await db.query(
+      "SELECT student_id, amount::float AS amount, customer_id, token_id FROM claim_auto_recharges($1, 60)",
+      [rider.studentId]
+    );
+
+    assert.deepEqual(rows, [{ student_id: rider.studentId, amount: 500, customer_id: "cust_1", token_id: "token_1" }]);
+    assert.deepEqual(await claim(rider.studentId), []);
+    assert.equal((await settings(rider.studentId)).attempted, true);
+  });
+
+  it("claims a failed wallet again after the retry window", async () => {
+    const rider = await autoRecharging(60);
+    await claim(rider.studentId);
+
+    await db.query(
+      "UPDATE wallet_settings SET auto_recharge_attempted_at = NOW() - INTERVAL '61 minutes' WHERE student_id = $1",
+      [rider.studentId]
+    );
+
+    assert.deepEqual(await claim(rider.studentId), [rider.studentId]);
+  });
+
+  it("skips wallets above the threshold, switched off, or without an active token", async () => {
+    const skipped = [
+      await autoRecharging(150),
+      await autoRecharging(60, { auto_recharge_enabled: false }),
+      await autoRecharging(60, { mandate_status: "paused" }),
+      await autoRecharging(60, { gateway_token_id: null }),
+    ];
+
+    const claimed = await claim(null);
+
+    for (const rider of skipped) {
+      assert.ok(!claimed.includes(rider.studentId));
+    }
+  });
+
+  it("pauses the mandate after three failed charges and clears it on success", async () => {
+    const failing = await autoRecharging(60);
+    for (let i = 0; i < 3; i++) {
+      await db.query("SELECT record_auto_recharge_result($1, FALSE)", [failing.studentId]);
+    }
+
+    const recovering = await autoRecharging(60);
+    await claim(recovering.studentId);
+    await db.query("SELECT record_auto_recharge_result($1, FALSE)", [recovering.studentId]);
+    await db.query("SELECT record_auto_recharge_result($1, TRUE)", [recovering.studentId]);
+
+    assert.deepEqual(await settings(failing.studentId), { mandate_status: "paused", auto_recharge_failures: 3, attempted: false });
+    assert.deepEqual(await settings(recovering.studentId), { mandate_status: "active", auto_recharge_failures: 0, attempted: false });
+    assert.deepEqual(await claim(failing.studentId), []);
+  });
+
+  it("records the result when settle_payment settles an auto-recharge", async () => {
+    const rider = await autoRecharging(60);
+    await db.query(
+      `INSERT INTO transactions (student_id, amount, transaction_type, status, order_id, balance_before, balance_after, auto_recharge)
+       VALUES ($1, 500, 'recharge', 'pending', 'order_auto', 60, 60, TRUE)`,
+      [rider.studentId]
+    );
+
+    await db.query("SELECT settle_payment('order_auto', 'pay_1', FALSE, NULL)");
+
+    assert.equal((await settings(rider.studentId)).auto_recharge_failures, 1);
+  });
+});
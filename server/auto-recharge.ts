@@ -0,0 +1,249 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PaymentOrder, VerifyPaymentRequest, WalletSettings, WalletSettingsData } from "@shared/schema";
+import {
+  PaymentError,
+  chargeSavedToken,
+  createGatewayCustomer,
+  createPaymentOrder,
+  deleteGatewayToken,
+  fetchPaymentToken,
+  verifyPayment,
+} from "./payments";
+import { getSupabaseAdmin } from "./supabase";
+import { startIntervalJob } from "./interval-job";
+
+const AUTO_RECHARGE_INTERVAL_MS = parseInt(process.env.AUTO_RECHARGE_INTERVAL_SECONDS || "60", 10) * 1000;
+const AUTO_RECHARGE_RETRY_MINUTES = parseInt(process.env.AUTO_RECHARGE_RETRY_MINUTES || "60", 10);
+
+const DEFAULT_SETTINGS: WalletSettings = {
+  low_balance_threshold: null,
+  low_balance_channels: ["push"],
+  auto_recharge_enabled: false,
+  auto_recharge_amount: null,
+  auto_recharge_threshold: null,
+  mandate_status: "none",
+  auto_recharge_failures: 0,
+};
+
+// Gateway ids stay on the server
+const SETTINGS_COLUMNS = Object.keys(DEFAULT_SETTINGS).join(", ");
+
+interface ClaimRow {
+  student_id: string;
+  amount: number;
+  customer_id: string;
+  token_id: string;
+  email: string;
+  phone: string;
+}
+
+function toSettings(row: Record<string, any> | null): WalletSettings {
+  if (!row) return DEFAULT_SETTINGS;
+
+  return {
+    ...(row as WalletSettings),
+    low_balance_threshold: row.low_balance_threshold === null ? null : Number(row.low_balance_threshold),
+    auto_recharge_amount: row.auto_recharge_amount === null ? null : Number(row.auto_recharge_amount),
+    auto_recharge_threshold: row.auto_recharge_threshold === null ? null : Number(row.auto_recharge_threshold),
+  };
+}
+
+export async function getWalletSettings(supabase: SupabaseClient, studentId: string): Promise<WalletSettings> {
+  const { data, error } = await supabase
+    .from("wallet_settings")
+    .select(SETTINGS_COLUMNS)
+    .eq("student_id", studentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return toSettings(data);
+}
+
+// Auto-recharge can only be switched on once the student has authorised a
+// token; until then the amount and threshold are saved for the setup payment
+export async function updateWalletSettings(
+  supabase: SupabaseClient,
+  studentId: string,
+  settings: WalletSettingsData
+): Promise<WalletSettings> {
+  const current = await getWalletSettings(supabase, studentId);
+  if (settings.auto_recharge_enabled && current.mandate_status !== "active") {
+    throw new PaymentError("Set up auto-recharge with a card before turning it on");
+  }
+
+  const { data, error } = await supabase
+    .from("wallet_settings")
+    .upsert({ student_id: studentId, ...settings, updated_at: new Date().toISOString() })
+    .select(SETTINGS_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toSettings(data);
+}
+
+// Starts mandate setup: a normal recharge of the auto-recharge amount that
+// also saves the card as a token for later charges
+export async function startMandateSetup(
+  supabase: SupabaseClient,
+  studentId: string,
+  email: string
+): Promise<PaymentOrder> {
+  const [{ data: settings, error: settingsError }, { data: student, error: studentError }] = await Promise.all([
+    supabase.from("wallet_settings").select("*").eq("student_id", studentId).maybeSingle(),
+    supabase.from("students").select("full_name, phone").eq("id", studentId).single(),
+  ]);
+
+  if (settingsError) throw settingsError;
+  if (studentError || !student) throw new PaymentError("Student not found", 404);
+  if (!settings?.auto_recharge_amount || settings.auto_recharge_threshold === null) {
+    throw new PaymentError("Save an auto-recharge amount and threshold first");
+  }
+
+  const customerId =
+    settings.gateway_customer_id || (await createGatewayCustomer(student.full_name, email, student.phone));
+
+  const order = await createPaymentOrder(
+    supabase,
+    studentId,
+    { amount: Number(settings.auto_recharge_amount) },
+    { customerId, saveToken: true }
+  );
+
+  const { error } = await supabase
+    .from("wallet_settings")
+    .update({
+      gateway_customer_id: customerId,
+      mandate_order_id: order.orderId,
+      mandate_status: "pending",
+      updated_at: new Date().toISOString(),
+    })
+    .eq("student_id", studentId);
+
+  if (error) throw error;
+  return order;
+}
+
+// Checkout callback for the setup payment: credits the recharge like any
+// other, then saves the token the payment created and turns auto-recharge on
+export async function confirmMandate(
+  supabase: SupabaseClient,
+  studentId: string,
+  callback: VerifyPaymentRequest
+): Promise<{ settings: WalletSettings; balanceAfter?: number }> {
+  const { data: pending, error: pendingError } = await supabase
+    .from("wallet_settings")
+    .select("mandate_order_id")
+    .eq("student_id", studentId)
+    .maybeSingle();
+
+  if (pendingError) throw pendingError;
+  if (!pending || pending.mandate_order_id !== callback.order_id) {
+    throw new PaymentError("Unknown auto-recharge setup", 404);
+  }
+
+  const settlement = await verifyPayment(supabase, callback);
+  if (settlement.status !== "success") {
+    throw new PaymentError("Payment could not be completed");
+  }
+
+  const tokenId = await fetchPaymentToken(callback.payment_id);
+  if (!tokenId) {
+    throw new PaymentError("The card could not be saved for auto-recharge", 502);
+  }
+
+  const { data, error } = await supabase
+    .from("wallet_settings")
+    .update({
+      gateway_token_id: tokenId,
+      mandate_status: "active",
+      mandate_order_id: null,
+      auto_recharge_enabled: true,
+      auto_recharge_failures: 0,
+      auto_recharge_attempted_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("student_id", studentId)
+    .select(SETTINGS_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return { settings: toSettings(data), balanceAfter: settlement.balance_after };
+}
+
+export async function revokeMandate(supabase: SupabaseClient, studentId: string): Promise<WalletSettings> {
+  const { data: settings, error: settingsError } = await supabase
+    .from("wallet_settings")
+    .select("gateway_customer_id, gateway_token_id")
+    .eq("student_id", studentId)
+    .maybeSingle();
+
+  if (settingsError) throw settingsError;
+
+  // The token is forgotten here either way; a gateway failure only leaves an
+  // unused token behind
+  if (settings?.gateway_customer_id && settings.gateway_token_id) {
+    try {
+      await deleteGatewayToken(settings.gateway_customer_id, settings.gateway_token_id);
+    } catch (error) {
+      console.error("Delete auto-recharge token error:", error);
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("wallet_settings")
+    .update({
+      gateway_token_id: null,
+      mandate_status: "revoked",
+      mandate_order_id: null,
+      auto_recharge_enabled: false,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("student_id", studentId)
+    .select(SETTINGS_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  return toSettings(data);
+}
+
+// Charges every student (or just one) whose balance has dropped below their
+// auto-recharge threshold. claim_auto_recharges() hands each student out once.
+export async function runAutoRecharges(supabase: SupabaseClient, studentId?: string): Promise<number> {
+  const { data, error } = await supabase.rpc("claim_auto_recharges", {
+    p_student_id: studentId ?? null,
+    p_retry_minutes: AUTO_RECHARGE_RETRY_MINUTES,
+  });
+
+  if (error) throw error;
+
+  const claims = (data || []) as ClaimRow[];
+
+  for (const claim of claims) {
+    try {
+      const order = await createPaymentOrder(
+        supabase,
+        claim.student_id,
+        { amount: Number(claim.amount) },
+        { customerId: claim.customer_id, autoRecharge: true }
+      );
+
+      await chargeSavedToken(supabase, order, {
+        customerId: claim.customer_id,
+        tokenId: claim.token_id,
+        email: claim.email,
+        contact: claim.phone,
+      });
+    } catch (error) {
+      console.error(`Auto-recharge for student ${claim.student_id} error:`, error);
+    }
+  }
+
+  return claims.length;
+}
+
+// Sweeps for due auto-recharges on a timer. Scans also trigger a check for
+// the scanned student straight away; this catches balances lowered any other
+// way and retries failed charges.
+export function startAutoRecharge(intervalMs = AUTO_RECHARGE_INTERVAL_MS): () => void {
+  return startIntervalJob("Auto-recharge", () => runAutoRecharges(getSupabaseAdmin()), intervalMs);
+}
@@ -0,0 +1,123 @@
+// Core tables created by POST /api/init-database. Everything built on them
+// is in supabase-tables.sql, which is run after these exist.
+export const BASE_TABLES_SQL = `
+CREATE TABLE IF NOT EXISTS users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT UNIQUE NOT NULL,
+  role TEXT NOT NULL DEFAULT 'student' CHECK (role IN ('student', 'driver', 'admin')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS bus_routes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  route_name TEXT NOT NULL,
+  route_number TEXT NOT NULL UNIQUE,
+  description TEXT,
+  daily_fare NUMERIC NOT NULL DEFAULT 60,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS buses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bus_number TEXT NOT NULL UNIQUE,
+  capacity INTEGER NOT NULL DEFAULT 50,
+  route_id UUID REFERENCES bus_routes(id) ON DELETE SET NULL,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS students (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  full_name TEXT NOT NULL,
+  enrollment_no TEXT NOT NULL UNIQUE,
+  course TEXT NOT NULL,
+  department TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  photo_url TEXT,
+  bus_route_id UUID REFERENCES bus_routes(id) ON DELETE SET NULL,
+  boarding_stop_id UUID,
+  notify_bus_approaching BOOLEAN DEFAULT TRUE,
+  wallet_balance NUMERIC DEFAULT 0,
+  is_blocked BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS drivers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  full_name TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  license_number TEXT NOT NULL UNIQUE,
+  photo_url TEXT,
+  bus_id UUID REFERENCES buses(id) ON DELETE SET NULL,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID REFERENCES students(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL,
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('recharge', 'deduction', 'admin_adjustment', 'pass_purchase', 'refund')),
+  currency TEXT DEFAULT 'INR',
+  payment_gateway TEXT,
+  payment_id TEXT,
+  order_id TEXT,
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'success', 'failed')),
+  balance_before NUMERIC NOT NULL,
+  balance_after NUMERIC NOT NULL,
+  description TEXT,
+  refund_of UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  reversed_at TIMESTAMPTZ,
+  reversed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reversal_reason TEXT,
+  auto_recharge BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS scan_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID REFERENCES students(id) ON DELETE CASCADE,
+  driver_id UUID REFERENCES drivers(id) ON DELETE CASCADE,
+  bus_id UUID REFERENCES buses(id) ON DELETE CASCADE,
+  scan_timestamp TIMESTAMPTZ DEFAULT NOW(),
+  scan_status TEXT DEFAULT 'success' CHECK (scan_status IN ('success', 'insufficient_balance', 'limit_exceeded', 'blocked', 'invalid_pass')),
+  fare_deducted NUMERIC DEFAULT 0,
+  balance_after_scan NUMERIC NOT NULL,
+  pass_nonce TEXT UNIQUE,
+  is_offline BOOLEAN DEFAULT FALSE,
+  sync_conflict TEXT CHECK (sync_conflict IN ('duplicate', 'negative_balance', 'rejected')),
+  pass_subscription_id UUID,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  reversed_at TIMESTAMPTZ,
+  trip_id UUID,
+  route_stop_id UUID
+);
+
+CREATE TABLE IF NOT EXISTS bus_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bus_id UUID REFERENCES buses(id) ON DELETE CASCADE,
+  driver_id UUID REFERENCES drivers(id) ON DELETE CASCADE,
+  trip_id UUID,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  speed DOUBLE PRECISION,
+  heading DOUBLE PRECISION,
+  timestamp TIMESTAMPTZ DEFAULT NOW(),
+  is_active BOOLEAN DEFAULT TRUE
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  type TEXT DEFAULT 'system' CHECK (type IN ('recharge', 'deduction', 'low_balance', 'scan', 'system', 'bus_approaching')),
+  is_read BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+`;
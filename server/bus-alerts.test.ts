@@ -0,0 +1,109 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PGlite } from "@electric-sql/pglite";
+import { createTestDatabase, createTestRider, createTestUser, type TestRider } from "./test-database";
+
+describe("notify_bus_approaching", () => {
+  let db: PGlite;
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  // A route with five stops and an active trip on it
+  async function routeWithTrip(): Promise<TestRider & { stops: string[]; tripId: string }> {
+    const rider = await createTestRider(db);
+    const stops: string[] = [];
+    for (const sequence of [1, 2, 3, 4, 5]) {
+      const { rows: [stop] } = await db.query<{ id: string }>(
+        "INSERT INTO route_stops (route_id, stop_name, sequence) VALUES ($1, $2, $3) RETURNING id",
+        [rider.routeId, `Stop ${sequence}`, sequence]
+      );
+      stops.push(stop.id);
+    }
+
+    const { rows: [trip] } = await db.query<{ id: string }>(
+      "INSERT INTO active_trips (bus_id, driver_id, route_id) VALUES ($1, $2, $3) RETURNING id",
+      [rider.busId, rider.driverId, rider.routeId]
+    );
+    return { ...rider, stops, tripId: trip.id };
+  }
+
+  // Signs the rider's student in as a new user boarding at `stop`
+  async function boardAt(rider: TestRider, stop: string, notify = true): Promise<string> {
+    const userId = await createTestUser(db, "student");
+    await db.query(
+      "UPDATE students SET user_id = $1, boarding_stop_id = $2, notify_bus_approaching = $3 WHERE id = $4",
+      [userId, stop, notify, rider.studentId]
+    );
+    return userId;
+  }
+
+  async function depart(tripId: string, stop: string) {
+    await db.query(
+      `INSERT INTO trip_stop_events (trip_id, route_stop_id, status, arrived_at, departed_at)
+       VALUES ($1, $2, 'departed', NOW(), NOW())`,
+      [tripId, stop]
+    );
+  }
+
+  async function notify(): Promise<number> {
+    const { rows } = await db.query<{ sent: number }>("SELECT notify_bus_approaching(2) AS sent");
+    return rows[0].sent;
+  }
+
+  async function alerts(userId: string): Promise<string[]> {
+    const { rows } = await db.query<{ message: string }>(
+      "SELECT message FROM notifications WHERE user_id = $1 AND type = 'bus_approaching'",
+      [userId]
+    );
+    return rows.map((row) => row.message);
+  }
+
+  it("alerts a student once the bus is within two stops of their stop", async () => {
+    const trip = await routeWithTrip();
+    const userId = await boardAt(trip, trip.stops[4]);
+    const { rows: [bus] } = await db.query<{ bus_number: string }>("SELECT bus_number FROM buses WHERE id = $1", [trip.busId]);
+
+    await depart(trip.tripId, trip.stops[1]);
+    await notify();
+    assert.deepEqual(await alerts(userId), []);
+
+    await depart(trip.tripId, trip.stops[2]);
+    await notify();
+
+    assert.deepEqual(await alerts(userId), [`Bus ${bus.bus_number} has left Stop 3 and is 2 stops from Stop 5.`]);
+  });
+
+  it("sends each alert once per trip", async () => {
+    const trip = await routeWithTrip();
+    const userId = await boardAt(trip, trip.stops[2]);
+
+    await depart(trip.tripId, trip.stops[0]);
+    const first = await notify();
+    await depart(trip.tripId, trip.stops[1]);
+    const second = await notify();
+
+    assert.deepEqual([first, second], [1, 0]);
+    assert.equal((await alerts(userId)).length, 1);
+  });
+
+  it("skips students who opted out or whose stop the bus has passed", async () => {
+    const optedOut = await routeWithTrip();
+    const optedOutUser = await boardAt(optedOut, optedOut.stops[3], false);
+    await depart(optedOut.tripId, optedOut.stops[2]);
+
+    const passed = await routeWithTrip();
+    const passedUser = await boardAt(passed, passed.stops[1]);
+    await depart(passed.tripId, passed.stops[2]);
+
+    await notify();
+
+    assert.deepEqual(await alerts(optedOutUser), []);
+    assert.deepEqual(await alerts(passedUser), []);
+  });
+});
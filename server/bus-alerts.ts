@@ -0,0 +1,36 @@
+import { getSupabaseAdmin } from "./supabase";
+import { startIntervalJob } from "./interval-job";
+
+// How many stops ahead of a student's boarding stop the bus must be (at most)
+// when it departs for them to be alerted
+const STOPS_BEFORE = parseInt(process.env.BUS_APPROACHING_STOPS_BEFORE || "2", 10);
+
+const POLL_INTERVAL_MS = 20000;
+
+// Departures older than this are not alerted on, e.g. after the server was down
+const LOOKBACK_MINUTES = 15;
+
+async function sendBusApproachingAlerts(): Promise<number> {
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase.rpc("notify_bus_approaching", {
+    p_stops_before: STOPS_BEFORE,
+    p_since: new Date(Date.now() - LOOKBACK_MINUTES * 60 * 1000).toISOString(),
+  });
+
+  if (error) throw error;
+  return Number(data ?? 0);
+}
+
+// Stop departures are written by the driver app straight to Supabase, so the
+// server polls for them rather than being called on each one.
+// notify_bus_approaching() records what it has sent, so polling is safe to
+// repeat and to run on more than one instance.
+export function startBusApproachingAlerts(intervalMs = POLL_INTERVAL_MS): () => void {
+  return startIntervalJob("Bus approaching alerts", async () => {
+    const sent = await sendBusApproachingAlerts();
+    if (sent > 0) {
+      console.log(`Sent ${sent} bus approaching alert(s)`);
+    }
+  }, intervalMs);
+}
@@ -0,0 +1,65 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PGlite } from "@electric-sql/pglite";
+import { asUser, createTestDatabase, createTestRider, createTestUser, type TestRider } from "./test-database";
+
+describe("bus_locations", () => {
+  let db: PGlite;
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  // A rider whose driver signs in as `userId`, on an active trip
+  async function driverOnTrip(): Promise<TestRider & { userId: string; tripId: string }> {
+    const rider = await createTestRider(db);
+    const userId = await createTestUser(db, "driver");
+    await db.query("UPDATE drivers SET user_id = $1 WHERE id = $2", [userId, rider.driverId]);
+
+    const { rows: [trip] } = await db.query<{ id: string }>(
+      "INSERT INTO active_trips (bus_id, driver_id, route_id) VALUES ($1, $2, $3) RETURNING id",
+      [rider.busId, rider.driverId, rider.routeId]
+    );
+    return { ...rider, userId, tripId: trip.id };
+  }
+
+  function insertFix(rider: TestRider & { tripId: string }, driverId = rider.driverId) {
+    return db.query(
+      `INSERT INTO bus_locations (bus_id, driver_id, trip_id, latitude, longitude)
+       VALUES ($1, $2, $3, 12.97, 77.59)`,
+      [rider.busId, driverId, rider.tripId]
+    );
+  }
+
+  it("lets a driver publish fixes for their own trip", async () => {
+    const driver = await driverOnTrip();
+
+    await asUser(db, driver.userId, () => insertFix(driver));
+
+    const { rows } = await db.query("SELECT * FROM bus_locations WHERE trip_id = $1", [driver.tripId]);
+    assert.equal(rows.length, 1);
+  });
+
+  it("refuses fixes published in another driver's name", async () => {
+    const driver = await driverOnTrip();
+    const other = await driverOnTrip();
+
+    await assert.rejects(asUser(db, driver.userId, () => insertFix(driver, other.driverId)), /row-level security/);
+  });
+
+  it("lets anyone signed in follow a bus", async () => {
+    const driver = await driverOnTrip();
+    const student = await createTestUser(db, "student");
+    await insertFix(driver);
+
+    const { rows } = await asUser(db, student, () =>
+      db.query("SELECT latitude, longitude FROM bus_locations WHERE bus_id = $1", [driver.busId])
+    );
+
+    assert.deepEqual(rows, [{ latitude: 12.97, longitude: 77.59 }]);
+  });
+});
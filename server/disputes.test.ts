@@ -0,0 +1,123 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PGlite } from "@electric-sql/pglite";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RequestAuth } from "./auth";
+import { DisputeError, resolveDispute } from "./disputes";
+import { reverseTransaction } from "./ledger";
+import {
+  asUser,
+  createRpcClient,
+  createTestDatabase,
+  createTestRider,
+  createTestUser,
+  getWalletBalance,
+} from "./test-database";
+
+interface DisputedFare {
+  disputeId: string;
+  transactionId: string;
+  studentId: string;
+  userId: string;
+}
+
+describe("resolve_fare_dispute", () => {
+  let db: PGlite;
+  let supabase: SupabaseClient;
+  let admin: RequestAuth;
+
+  before(async () => {
+    db = await createTestDatabase();
+    supabase = createRpcClient(db);
+    admin = { userId: await createTestUser(db, "admin"), email: "admin@example.com", role: "admin", studentId: null, driverId: null };
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  // A signed-in student with 100 in their wallet after a fare of 60, and an
+  // open dispute of that fare
+  async function disputedFare(): Promise<DisputedFare> {
+    const rider = await createTestRider(db, { balance: 160 });
+    const userId = await createTestUser(db, "student");
+    await db.query("UPDATE students SET user_id = $1 WHERE id = $2", [userId, rider.studentId]);
+
+    const { rows: [fare] } = await db.query<{ id: string }>(
+      `INSERT INTO transactions (student_id, amount, transaction_type, status, balance_before, balance_after, description)
+       VALUES ($1, 60, 'deduction', 'success', 160, 100, 'Bus fare') RETURNING id`,
+      [rider.studentId]
+    );
+    await db.query(
+      "SELECT post_wallet_journal($1, -60, 'fare_revenue', $2, 'Bus fare')",
+      [rider.studentId, fare.id]
+    );
+    const { rows: [dispute] } = await db.query<{ id: string }>(
+      "INSERT INTO fare_disputes (student_id, transaction_id, reason) VALUES ($1, $2, 'charged_twice') RETURNING id",
+      [rider.studentId, fare.id]
+    );
+
+    return { disputeId: dispute.id, transactionId: fare.id, studentId: rider.studentId, userId };
+  }
+
+  async function notifications(userId: string): Promise<string[]> {
+    const { rows } = await db.query<{ message: string }>(
+      "SELECT message FROM notifications WHERE user_id = $1 AND title LIKE 'Dispute%'",
+      [userId]
+    );
+    return rows.map((row) => row.message);
+  }
+
+  it("refunds the fare when a dispute is approved", async () => {
+    const fare = await disputedFare();
+
+    const dispute = await resolveDispute(supabase, fare.disputeId, admin, { decision: "approve", note: "Scanned twice" });
+
+    assert.equal(dispute.status, "approved");
+    assert.equal(dispute.resolved_by, admin.userId);
+    assert.ok(dispute.refund_transaction_id);
+    assert.equal(await getWalletBalance(db, fare.studentId), 160);
+    assert.deepEqual(await notifications(fare.userId), [
+      "Your fare dispute was approved and the fare refunded: Scanned twice",
+    ]);
+  });
+
+  it("leaves the wallet alone when a dispute is rejected, and resolves it only once", async () => {
+    const fare = await disputedFare();
+
+    const dispute = await resolveDispute(supabase, fare.disputeId, admin, { decision: "reject" });
+
+    assert.equal(dispute.status, "rejected");
+    assert.equal(await getWalletBalance(db, fare.studentId), 100);
+    assert.deepEqual(await notifications(fare.userId), ["Your fare dispute was rejected."]);
+
+    await assert.rejects(
+      resolveDispute(supabase, fare.disputeId, admin, { decision: "approve" }),
+      (error) => error instanceof DisputeError && error.status === 409
+    );
+    assert.equal(await getWalletBalance(db, fare.studentId), 100);
+  });
+
+  it("approves a dispute of a fare that was already refunded without refunding it again", async () => {
+    const fare = await disputedFare();
+    await reverseTransaction(supabase, fare.transactionId, {}, admin);
+
+    const dispute = await resolveDispute(supabase, fare.disputeId, admin, { decision: "approve" });
+
+    assert.equal(dispute.status, "approved");
+    assert.equal(dispute.refund_transaction_id, null);
+    assert.equal(await getWalletBalance(db, fare.studentId), 160);
+  });
+
+  it("shows students only their own disputes", async () => {
+    const mine = await disputedFare();
+    await disputedFare();
+
+    const visible = await asUser(db, mine.userId, async () => {
+      const { rows } = await db.query<{ id: string }>("SELECT id FROM fare_disputes");
+      return rows.map((row) => row.id);
+    });
+
+    assert.deepEqual(visible, [mine.disputeId]);
+  });
+});
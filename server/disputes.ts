@@ -0,0 +1,206 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  DisputeCommentData,
+  DisputeStatus,
+  FareDispute,
+  FareDisputeDetail,
+  FareDisputeWithDetails,
+  OpenDisputeData,
+  ResolveDisputeData,
+} from "@shared/schema";
+import type { RequestAuth } from "./auth";
+
+export class DisputeError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "DisputeError";
+  }
+}
+
+interface ResolveDisputeRow {
+  status: "success" | "not_found" | "already_resolved" | "not_reversible";
+  dispute?: FareDispute;
+}
+
+const DISPUTE_SELECT = "*, student:students(*), transaction:transactions!fare_disputes_transaction_id_fkey(*)";
+
+async function notifyStudent(supabase: SupabaseClient, studentId: string, title: string, message: string) {
+  const { data: student } = await supabase.from("students").select("user_id").eq("id", studentId).single();
+  if (!student) return;
+
+  const { error } = await supabase
+    .from("notifications")
+    .insert({ user_id: student.user_id, title, message, type: "system", is_read: false });
+
+  if (error) {
+    console.error("Dispute notification error:", error);
+  }
+}
+
+// Students only see their own disputes, and get the same 404 for other
+// students' disputes as for missing ones
+async function findDispute(
+  supabase: SupabaseClient,
+  disputeId: string,
+  auth: RequestAuth
+): Promise<FareDisputeWithDetails> {
+  const { data, error } = await supabase
+    .from("fare_disputes")
+    .select(DISPUTE_SELECT)
+    .eq("id", disputeId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || (auth.role === "student" && data.student_id !== auth.studentId)) {
+    throw new DisputeError("Dispute not found", 404);
+  }
+
+  return data as FareDisputeWithDetails;
+}
+
+export async function openDispute(
+  supabase: SupabaseClient,
+  auth: RequestAuth,
+  { transaction_id, reason, comment }: OpenDisputeData
+): Promise<FareDispute> {
+  const { data: tx, error: txError } = await supabase
+    .from("transactions")
+    .select("id, student_id, transaction_type, status, reversed_at")
+    .eq("id", transaction_id)
+    .maybeSingle();
+
+  if (txError) throw txError;
+  if (!tx || tx.student_id !== auth.studentId) {
+    throw new DisputeError("Transaction not found", 404);
+  }
+  if (tx.transaction_type !== "deduction" || tx.status !== "success") {
+    throw new DisputeError("Only fare deductions can be disputed");
+  }
+  if (tx.reversed_at) {
+    throw new DisputeError("This fare has already been refunded", 409);
+  }
+
+  const { data: dispute, error } = await supabase
+    .from("fare_disputes")
+    .insert({ student_id: tx.student_id, transaction_id, reason })
+    .select()
+    .single();
+
+  if (error?.code === "23505") {
+    throw new DisputeError("This fare has already been disputed", 409);
+  }
+  if (error) throw error;
+
+  const { error: commentError } = await supabase
+    .from("dispute_comments")
+    .insert({ dispute_id: dispute.id, author_id: auth.userId, author_role: "student", message: comment });
+
+  if (commentError) {
+    await supabase.from("fare_disputes").delete().eq("id", dispute.id);
+    throw commentError;
+  }
+
+  await notifyStudent(
+    supabase,
+    tx.student_id,
+    "Dispute Opened",
+    "We have received your fare dispute and will review it shortly."
+  );
+
+  return dispute as FareDispute;
+}
+
+export async function listDisputes(
+  supabase: SupabaseClient,
+  auth: RequestAuth,
+  status?: DisputeStatus
+): Promise<FareDisputeWithDetails[]> {
+  let query = supabase.from("fare_disputes").select(DISPUTE_SELECT).order("created_at", { ascending: false });
+
+  if (auth.role === "student") query = query.eq("student_id", auth.studentId);
+  if (status) query = query.eq("status", status);
+
+  const { data, error } = await query.limit(200);
+
+  if (error) throw error;
+  return (data || []) as FareDisputeWithDetails[];
+}
+
+export async function getDispute(
+  supabase: SupabaseClient,
+  disputeId: string,
+  auth: RequestAuth
+): Promise<FareDisputeDetail> {
+  const dispute = await findDispute(supabase, disputeId, auth);
+
+  const [{ data: scanLog, error: scanError }, { data: comments, error: commentsError }] = await Promise.all([
+    supabase
+      .from("scan_logs")
+      .select("*, driver:drivers(*), bus:buses(*)")
+      .eq("transaction_id", dispute.transaction_id)
+      .maybeSingle(),
+    supabase.from("dispute_comments").select("*").eq("dispute_id", disputeId).order("created_at"),
+  ]);
+
+  if (scanError) throw scanError;
+  if (commentsError) throw commentsError;
+
+  return { ...dispute, scan_log: scanLog ?? null, comments: comments || [] };
+}
+
+export async function addDisputeComment(
+  supabase: SupabaseClient,
+  disputeId: string,
+  auth: RequestAuth,
+  { message }: DisputeCommentData
+) {
+  const dispute = await findDispute(supabase, disputeId, auth);
+  if (dispute.status !== "open") {
+    throw new DisputeError("This dispute has been closed", 409);
+  }
+
+  const { data, error } = await supabase
+    .from("dispute_comments")
+    .insert({ dispute_id: disputeId, author_id: auth.userId, author_role: auth.role, message })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  if (auth.role === "admin") {
+    await notifyStudent(supabase, dispute.student_id, "Reply on Your Dispute", message);
+  }
+
+  return data;
+}
+
+// Approving refunds the fare; resolve_fare_dispute() notifies the student
+// either way
+export async function resolveDispute(
+  supabase: SupabaseClient,
+  disputeId: string,
+  auth: RequestAuth,
+  { decision, note }: ResolveDisputeData
+): Promise<FareDispute> {
+  const { data, error } = await supabase.rpc("resolve_fare_dispute", {
+    p_dispute_id: disputeId,
+    p_admin_id: auth.userId,
+    p_approve: decision === "approve",
+    p_note: note ?? null,
+  });
+
+  if (error) throw error;
+
+  const row = data as ResolveDisputeRow;
+
+  switch (row.status) {
+    case "success":
+      return row.dispute!;
+    case "not_found":
+      throw new DisputeError("Dispute not found", 404);
+    case "already_resolved":
+      throw new DisputeError("This dispute has already been resolved", 409);
+    case "not_reversible":
+      throw new DisputeError("The disputed fare can no longer be refunded");
+  }
+}
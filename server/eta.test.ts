@@ -0,0 +1,153 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PGlite } from "@electric-sql/pglite";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getTripEta } from "./eta";
+import { createTestDatabase, createTestRider, type TestRider } from "./test-database";
+
+interface SegmentRow {
+  from_stop_id: string;
+  to_stop_id: string;
+  hour_of_day: number;
+  day_of_week: number;
+  travel_seconds: string;
+  dwell_seconds: string | null;
+  samples: number;
+}
+
+// Times on Monday 2026-03-02 in Asia/Kolkata
+const at = (time: string) => `2026-03-02T${time}+05:30`;
+
+describe("route_segment_times", () => {
+  let db: PGlite;
+  let rider: TestRider;
+  let stops: string[];
+
+  before(async () => {
+    db = await createTestDatabase();
+    rider = await createTestRider(db);
+
+    stops = [];
+    for (const sequence of [1, 2, 3]) {
+      const { rows: [stop] } = await db.query<{ id: string }>(
+        "INSERT INTO route_stops (route_id, stop_name, sequence) VALUES ($1, $2, $3) RETURNING id",
+        [rider.routeId, `Stop ${sequence}`, sequence]
+      );
+      stops.push(stop.id);
+    }
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  // A finished trip with [arrived_at, departed_at] at each stop, null where
+  // the driver never marked it
+  async function recordTrip(startedAt: string, times: [string | null, string | null][]) {
+    const { rows: [trip] } = await db.query<{ id: string }>(
+      `INSERT INTO active_trips (bus_id, driver_id, route_id, started_at, is_active)
+       VALUES ($1, $2, $3, $4, FALSE) RETURNING id`,
+      [rider.busId, rider.driverId, rider.routeId, startedAt]
+    );
+
+    for (const [i, [arrivedAt, departedAt]] of times.entries()) {
+      await db.query(
+        `INSERT INTO trip_stop_events (trip_id, route_stop_id, status, arrived_at, departed_at)
+         VALUES ($1, $2, 'departed', $3, $4)`,
+        [trip.id, stops[i], arrivedAt, departedAt]
+      );
+    }
+  }
+
+  async function segmentTimes(since: string): Promise<SegmentRow[]> {
+    const { rows } = await db.query<SegmentRow>(
+      "SELECT * FROM route_segment_times($1, 'Asia/Kolkata', $2) ORDER BY from_stop_id = $3 DESC",
+      [rider.routeId, since, stops[0]]
+    );
+    return rows;
+  }
+
+  it("takes the median travel and dwell time of each segment by local hour and weekday", async () => {
+    await recordTrip(at("07:55:00"), [
+      [null, at("08:00:00")],
+      [at("08:10:00"), at("08:11:00")],
+      [at("08:20:00"), null],
+    ]);
+    await recordTrip(at("08:25:00"), [
+      [null, at("08:30:00")],
+      [at("08:36:00"), at("08:38:00")],
+      [at("08:45:00"), null],
+    ]);
+    await recordTrip(at("08:40:00"), [
+      [null, at("08:45:00")],
+      [at("09:45:00"), at("09:46:00")],
+      [null, null],
+    ]);
+
+    const rows = await segmentTimes(at("00:00:00"));
+
+    assert.deepEqual(
+      rows.map((row) => [
+        row.from_stop_id,
+        row.to_stop_id,
+        row.hour_of_day,
+        row.day_of_week,
+        Number(row.travel_seconds),
+        row.dwell_seconds === null ? null : Number(row.dwell_seconds),
+        row.samples,
+      ]),
+      [
+        [stops[0], stops[1], 8, 1, 600, 60, 3],
+        [stops[1], stops[2], 8, 1, 480, null, 2],
+      ]
+    );
+  });
+
+  it("leaves out trips started before p_since", async () => {
+    const rows = await segmentTimes(at("08:30:00"));
+
+    assert.deepEqual(rows.map((row) => [row.from_stop_id, row.samples]), [[stops[0], 1]]);
+  });
+});
+
+describe("getTripEta", () => {
+  // Every from() chain resolves to the table's rows; route_segment_times
+  // fails while `failing` is set
+  function fakeSupabase(tables: Record<string, unknown[]>) {
+    const state = { segmentLookups: 0, failing: false };
+    const from = (table: string) => {
+      const rows = tables[table] ?? [];
+      const chain = {
+        select: () => chain,
+        eq: () => chain,
+        order: () => chain,
+        limit: () => chain,
+        maybeSingle: async () => ({ data: rows[0] ?? null, error: null }),
+        then: (resolve: (result: unknown) => void) => resolve({ data: rows, error: null }),
+      };
+      return chain;
+    };
+    const rpc = async () => {
+      state.segmentLookups++;
+      return state.failing ? { data: null, error: new Error("timeout") } : { data: [], error: null };
+    };
+    return { supabase: { from, rpc } as unknown as SupabaseClient, state };
+  }
+
+  it("looks a route's segment times up once for repeated polls, but not a failed lookup", async () => {
+    const { supabase, state } = fakeSupabase({
+      active_trips: [{ id: "trip-1", route_id: "route-eta-cache", is_active: true }],
+      route_stops: [{ id: "stop-1", route_id: "route-eta-cache", sequence: 1, latitude: null, longitude: null }],
+    });
+
+    state.failing = true;
+    await assert.rejects(getTripEta(supabase, "trip-1"), /timeout/);
+
+    state.failing = false;
+    await getTripEta(supabase, "trip-1");
+    const trip = await getTripEta(supabase, "trip-1");
+
+    assert.equal(state.segmentLookups, 2);
+    assert.deepEqual(trip.stops?.map((stop) => stop.status), ["pending"]);
+  });
+});
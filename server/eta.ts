@@ -0,0 +1,327 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  ActiveTripWithDetails,
+  BusLocation,
+  EtaSource,
+  RouteStop,
+  RouteStopWithStatus,
+  TripStopEvent,
+  TripStopStatus,
+} from "@shared/schema";
+import { SCAN_TIMEZONE } from "./scans";
+
+const HISTORY_DAYS = 60;
+
+// Every rider on a trip polls its ETA, and the history only changes as trips
+// finish, so each route's segment times are reused for a few minutes
+const SEGMENT_CACHE_MS = 5 * 60 * 1000;
+
+// A (hour, weekday) bucket needs this many past trips before it is trusted
+// over the wider same-hour or all-day estimates
+const MIN_BUCKET_SAMPLES = 3;
+
+// Used when a segment has no history at all
+const DEFAULT_SPEED_MPS = 20 / 3.6;
+const DEFAULT_DWELL_SECONDS = 30;
+
+// Live fixes older than this are ignored; slower readings are treated as stopped
+const LOCATION_STALE_MS = 2 * 60 * 1000;
+const MIN_LIVE_SPEED_MPS = 2;
+
+export class EtaError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "EtaError";
+  }
+}
+
+interface SegmentTimeRow {
+  from_stop_id: string;
+  to_stop_id: string;
+  hour_of_day: number;
+  day_of_week: number;
+  travel_seconds: number;
+  dwell_seconds: number | null;
+  samples: number;
+}
+
+interface SegmentEstimate {
+  travelSeconds: number;
+  dwellSeconds: number | null;
+}
+
+interface Leg {
+  seconds: number;
+  source: EtaSource;
+}
+
+type SegmentHistory = Map<string, SegmentTimeRow[]>;
+
+const segmentCache = new Map<string, { expiresAt: number; history: Promise<SegmentHistory> }>();
+
+type Point = { latitude: number | null; longitude: number | null };
+
+function hasCoords(point: Point): point is { latitude: number; longitude: number } {
+  return point.latitude != null && point.longitude != null;
+}
+
+function distanceMeters(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }) {
+  const R = 6371e3;
+  const phi1 = Number(a.latitude) * Math.PI / 180;
+  const phi2 = Number(b.latitude) * Math.PI / 180;
+  const deltaPhi = (Number(b.latitude) - Number(a.latitude)) * Math.PI / 180;
+  const deltaLambda = (Number(b.longitude) - Number(a.longitude)) * Math.PI / 180;
+
+  const h = Math.sin(deltaPhi / 2) ** 2 +
+    Math.cos(phi1) * Math.cos(phi2) * Math.sin(deltaLambda / 2) ** 2;
+
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const localTimeFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: SCAN_TIMEZONE,
+  hour: "numeric",
+  hourCycle: "h23",
+  weekday: "short",
+});
+
+// Hour and weekday (0 = Sunday, as Postgres DOW) in the service timezone
+function localHourAndDay(timeMs: number): { hour: number; day: number } {
+  const parts = localTimeFormat.formatToParts(new Date(timeMs));
+  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? 0);
+  const day = WEEKDAYS.indexOf(parts.find((p) => p.type === "weekday")?.value ?? "Sun");
+  return { hour, day };
+}
+
+function weightedAverage(rows: SegmentTimeRow[], field: "travel_seconds" | "dwell_seconds"): number | null {
+  let total = 0;
+  let weight = 0;
+
+  for (const row of rows) {
+    if (row[field] == null) continue;
+    total += Number(row[field]) * row.samples;
+    weight += row.samples;
+  }
+
+  return weight > 0 ? total / weight : null;
+}
+
+function sampleCount(rows: SegmentTimeRow[]) {
+  return rows.reduce((sum, row) => sum + row.samples, 0);
+}
+
+// Narrowest bucket with enough samples wins: same hour and weekday, then same
+// hour on any day, then every past trip over the segment.
+function estimateSegment(
+  history: SegmentHistory,
+  fromStopId: string,
+  toStopId: string,
+  departAtMs: number
+): SegmentEstimate | null {
+  const rows = history.get(`${fromStopId}:${toStopId}`);
+  if (!rows || rows.length === 0) return null;
+
+  const { hour, day } = localHourAndDay(departAtMs);
+  const sameHour = rows.filter((row) => row.hour_of_day === hour);
+  const sameSlot = sameHour.filter((row) => row.day_of_week === day);
+
+  const bucket = sampleCount(sameSlot) >= MIN_BUCKET_SAMPLES
+    ? sameSlot
+    : sampleCount(sameHour) >= MIN_BUCKET_SAMPLES
+      ? sameHour
+      : rows;
+
+  return {
+    travelSeconds: weightedAverage(bucket, "travel_seconds") ?? 0,
+    dwellSeconds: weightedAverage(bucket, "dwell_seconds"),
+  };
+}
+
+// Fills in `eta` on every stop the bus has not reached yet. The first leg
+// uses the live position when there is a recent fix; later legs chain
+// historical travel and dwell times from the predicted arrival before them.
+function predictArrivals(
+  stops: RouteStopWithStatus[],
+  history: SegmentHistory,
+  location: BusLocation | null,
+  nowMs: number
+) {
+  const live = location && nowMs - new Date(location.timestamp).getTime() < LOCATION_STALE_MS
+    ? location
+    : null;
+  const liveSpeed = live?.speed && live.speed >= MIN_LIVE_SPEED_MPS ? live.speed : DEFAULT_SPEED_MPS;
+
+  const dwellAt = (index: number, atMs: number) => {
+    if (index === 0) return DEFAULT_DWELL_SECONDS;
+    const estimate = estimateSegment(history, stops[index - 1].id, stops[index].id, atMs);
+    return estimate?.dwellSeconds ?? DEFAULT_DWELL_SECONDS;
+  };
+
+  const travel = (from: RouteStopWithStatus, to: RouteStopWithStatus, departAtMs: number): Leg | null => {
+    const estimate = estimateSegment(history, from.id, to.id, departAtMs);
+    if (estimate) return { seconds: estimate.travelSeconds, source: "history" };
+    if (hasCoords(from) && hasCoords(to)) {
+      return { seconds: distanceMeters(from, to) / DEFAULT_SPEED_MPS, source: "distance" };
+    }
+    return null;
+  };
+
+  // Leg from wherever the bus is now to the next stop it has not reached
+  const firstLeg = (prev: RouteStopWithStatus | undefined, target: RouteStopWithStatus): Leg | null => {
+    const remaining = live && hasCoords(target) ? distanceMeters(live, target) : null;
+
+    if (!prev) {
+      return remaining != null
+        ? { seconds: remaining / liveSpeed, source: "distance" }
+        : { seconds: 0, source: "history" };
+    }
+
+    const departedAt = prev.departed_at ? new Date(prev.departed_at).getTime() : nowMs;
+    const elapsed = (nowMs - departedAt) / 1000;
+    const estimate = estimateSegment(history, prev.id, target.id, departedAt);
+
+    if (estimate) {
+      if (remaining != null && hasCoords(prev) && hasCoords(target)) {
+        const total = distanceMeters(prev, target);
+        const fraction = total > 0 ? Math.min(1, remaining / total) : 0;
+        return { seconds: estimate.travelSeconds * fraction, source: "history" };
+      }
+      return { seconds: Math.max(0, estimate.travelSeconds - elapsed), source: "history" };
+    }
+
+    if (remaining != null) {
+      return { seconds: remaining / liveSpeed, source: "distance" };
+    }
+
+    const leg = travel(prev, target, departedAt);
+    return leg ? { seconds: Math.max(0, leg.seconds - elapsed), source: leg.source } : null;
+  };
+
+  const arrivedIndex = stops.findIndex((stop) => stop.status === "arrived");
+  let clock = nowMs;
+  let source: EtaSource = "history";
+  let index: number;
+
+  if (arrivedIndex >= 0) {
+    // Standing at a stop: leave once its usual dwell time is up
+    const stop = stops[arrivedIndex];
+    const arrivedAt = stop.arrived_at ? new Date(stop.arrived_at).getTime() : nowMs;
+    clock = Math.max(nowMs, arrivedAt + dwellAt(arrivedIndex, arrivedAt) * 1000);
+    index = arrivedIndex + 1;
+  } else {
+    index = stops.map((stop) => stop.status).lastIndexOf("departed") + 1;
+    const target = stops[index];
+    if (!target) return;
+
+    const leg = firstLeg(stops[index - 1], target);
+    if (!leg) return;
+
+    clock += leg.seconds * 1000;
+    source = leg.source;
+    target.eta = { predicted_arrival: new Date(clock).toISOString(), source };
+    clock += dwellAt(index, clock) * 1000;
+    index += 1;
+  }
+
+  for (; index < stops.length; index++) {
+    const leg = travel(stops[index - 1], stops[index], clock);
+    if (!leg) return;
+
+    // Once one leg is a distance guess, everything after it is too
+    if (leg.source === "distance") source = "distance";
+
+    clock += leg.seconds * 1000;
+    stops[index].eta = { predicted_arrival: new Date(clock).toISOString(), source };
+    clock += dwellAt(index, clock) * 1000;
+  }
+}
+
+async function fetchSegmentHistory(supabase: SupabaseClient, routeId: string): Promise<SegmentHistory> {
+  const { data, error } = await supabase.rpc("route_segment_times", {
+    p_route_id: routeId,
+    p_timezone: SCAN_TIMEZONE,
+    p_since: new Date(Date.now() - HISTORY_DAYS * 86400 * 1000).toISOString(),
+  });
+
+  if (error) throw error;
+
+  const history: SegmentHistory = new Map();
+  for (const row of (data || []) as SegmentTimeRow[]) {
+    const key = `${row.from_stop_id}:${row.to_stop_id}`;
+    history.set(key, [...(history.get(key) || []), row]);
+  }
+  return history;
+}
+
+// Concurrent requests for a route share one lookup; a failed one is not kept
+function getSegmentHistory(supabase: SupabaseClient, routeId: string): Promise<SegmentHistory> {
+  const cached = segmentCache.get(routeId);
+  if (cached && cached.expiresAt > Date.now()) return cached.history;
+
+  const history = fetchSegmentHistory(supabase, routeId);
+  segmentCache.set(routeId, { expiresAt: Date.now() + SEGMENT_CACHE_MS, history });
+  history.catch(() => {
+    if (segmentCache.get(routeId)?.history === history) segmentCache.delete(routeId);
+  });
+  return history;
+}
+
+export async function getTripEta(
+  supabase: SupabaseClient,
+  tripId: string
+): Promise<ActiveTripWithDetails> {
+  const { data: trip, error: tripError } = await supabase
+    .from("active_trips")
+    .select("*")
+    .eq("id", tripId)
+    .maybeSingle();
+
+  if (tripError) throw tripError;
+  if (!trip) {
+    throw new EtaError("Trip not found", 404);
+  }
+
+  const [stopsResult, eventsResult, locationResult] = await Promise.all([
+    supabase
+      .from("route_stops")
+      .select("*")
+      .eq("route_id", trip.route_id)
+      .order("sequence", { ascending: true }),
+    supabase
+      .from("trip_stop_events")
+      .select("*")
+      .eq("trip_id", trip.id),
+    supabase
+      .from("bus_locations")
+      .select("*")
+      .eq("trip_id", trip.id)
+      .order("timestamp", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (stopsResult.error) throw stopsResult.error;
+  if (eventsResult.error) throw eventsResult.error;
+  if (locationResult.error) throw locationResult.error;
+
+  const events = (eventsResult.data || []) as TripStopEvent[];
+  const stops: RouteStopWithStatus[] = ((stopsResult.data || []) as RouteStop[]).map((stop) => {
+    const event = events.find((e) => e.route_stop_id === stop.id);
+    return {
+      ...stop,
+      status: (event?.status ?? "pending") as TripStopStatus,
+      arrived_at: event?.arrived_at ?? null,
+      departed_at: event?.departed_at ?? null,
+      eta: null,
+    };
+  });
+
+  if (trip.is_active && stops.length > 0) {
+    const history = await getSegmentHistory(supabase, trip.route_id);
+    predictArrivals(stops, history, locationResult.data as BusLocation | null, Date.now());
+  }
+
+  return { ...trip, stops };
+}
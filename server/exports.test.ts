@@ -0,0 +1,235 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Writable } from "stream";
+import type { Response } from "express";
+import type { PGlite } from "@electric-sql/pglite";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RequestAuth } from "./auth";
+import { csvValue, formatInr, streamExport } from "./exports";
+import { createRpcClient, createTestDatabase, createTestRider, type TestRider } from "./test-database";
+
+interface ExportTransactionRow {
+  id: string;
+  created_at: string;
+  enrollment_no: string;
+  transaction_type: string;
+  status: string;
+  amount: number;
+  reference: string | null;
+}
+
+interface ExportScanRow {
+  id: string;
+  driver_name: string;
+  scan_status: string;
+  fare_deducted: number;
+  is_offline: boolean;
+}
+
+describe("formatInr", () => {
+  it("writes INR with Indian digit grouping and two decimals", () => {
+    assert.equal(formatInr(1234567.5), "INR 12,34,567.50");
+    assert.equal(formatInr(0), "INR 0.00");
+  });
+});
+
+describe("csvValue", () => {
+  it("quotes separators and keeps text that looks like a formula as text", () => {
+    assert.equal(csvValue('Said "hi", then left'), '"Said ""hi"", then left"');
+    assert.equal(csvValue("=HYPERLINK(\"http://x\")"), "\"'=HYPERLINK(\"\"http://x\"\")\"");
+    assert.equal(csvValue("-40"), "'-40");
+    assert.equal(csvValue(-40), "-40");
+    assert.equal(csvValue(12.5, { header: "Amount", width: 1, amount: true }), "12.50");
+  });
+});
+
+describe("export functions", () => {
+  let db: PGlite;
+  let supabase: SupabaseClient;
+  let rider: TestRider;
+  let other: TestRider;
+
+  before(async () => {
+    db = await createTestDatabase();
+    supabase = createRpcClient(db);
+    rider = await createTestRider(db);
+    other = await createTestRider(db);
+
+    for (const [student, type, status, amount, orderId, at] of [
+      [rider.studentId, "recharge", "success", 200, "order_1", "2026-03-02T09:00:00+05:30"],
+      [rider.studentId, "deduction", "success", 60, null, "2026-03-02T08:00:00+05:30"],
+      [rider.studentId, "recharge", "failed", 500, "order_2", "2026-03-03T23:30:00+05:30"],
+      [rider.studentId, "recharge", "success", 100, "order_3", "2026-03-04T00:30:00+05:30"],
+      [other.studentId, "recharge", "success", 1000, "order_4", "2026-03-02T10:00:00+05:30"],
+    ] as const) {
+      await db.query(
+        `INSERT INTO transactions (student_id, amount, transaction_type, status, order_id, balance_before, balance_after, created_at)
+         VALUES ($1, $2, $3, $4, $5, 0, 0, $6)`,
+        [student, amount, type, status, orderId, at]
+      );
+    }
+
+    for (const [r, status, fare, offline, at] of [
+      [rider, "success", 60, false, "2026-03-02T08:00:00+05:30"],
+      [rider, "limit_exceeded", 0, true, "2026-03-02T18:00:00+05:30"],
+      [other, "success", 60, false, "2026-03-02T08:30:00+05:30"],
+    ] as const) {
+      await db.query(
+        `INSERT INTO scan_logs (student_id, driver_id, bus_id, scan_timestamp, scan_status, fare_deducted, balance_after_scan, is_offline)
+         VALUES ($1, $2, $3, $4, $5, $6, 0, $7)`,
+        [r.studentId, r.driverId, r.busId, at, status, fare, offline]
+      );
+    }
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  async function exportTransactions(params: Record<string, unknown>): Promise<ExportTransactionRow[]> {
+    const { data, error } = await supabase.rpc("export_transactions", { p_from: "2026-03-01", p_to: "2026-03-03", ...params });
+    if (error) throw error;
+    return data as ExportTransactionRow[];
+  }
+
+  it("exports a route's transactions for the local days in time order", async () => {
+    const rows = await exportTransactions({ p_route_id: rider.routeId });
+
+    assert.deepEqual(
+      rows.map((row) => [row.transaction_type, row.status, Number(row.amount), row.reference]),
+      [
+        ["deduction", "success", 60, null],
+        ["recharge", "success", 200, "order_1"],
+        ["recharge", "failed", 500, "order_2"],
+      ]
+    );
+  });
+
+  it("returns a page of rows after the given row", async () => {
+    const all = await exportTransactions({});
+    const first = await exportTransactions({ p_limit: 2 });
+    const rest = await exportTransactions({ p_after_at: first[1].created_at, p_after_id: first[1].id });
+
+    assert.equal(first.length, 2);
+    assert.deepEqual([...first, ...rest].map((row) => row.id), all.map((row) => row.id));
+  });
+
+  it("filters transactions by status and type", async () => {
+    const failed = await exportTransactions({ p_status: "failed" });
+    const recharges = await exportTransactions({ p_type: "recharge", p_status: "success" });
+
+    assert.deepEqual(failed.map((row) => Number(row.amount)), [500]);
+    assert.deepEqual(recharges.map((row) => Number(row.amount)), [200, 1000]);
+  });
+
+  it("totals exactly the rows the export contains", async () => {
+    const { data, error } = await supabase.rpc("export_transaction_totals", {
+      p_from: "2026-03-01",
+      p_to: "2026-03-03",
+      p_route_id: rider.routeId,
+    });
+    if (error) throw error;
+
+    const totals = (data as { transaction_type: string; status: string; transactions: number; amount: number }[])
+      .map((row) => [row.transaction_type, row.status, Number(row.transactions), Number(row.amount)])
+      .sort();
+
+    assert.deepEqual(totals, [
+      ["deduction", "success", 1, 60],
+      ["recharge", "failed", 1, 500],
+      ["recharge", "success", 1, 200],
+    ]);
+  });
+
+  it("exports scans by driver and status", async () => {
+    const { data, error } = await supabase.rpc("export_scans", {
+      p_from: "2026-03-02",
+      p_to: "2026-03-02",
+      p_driver_id: rider.driverId,
+    });
+    if (error) throw error;
+    const rows = data as ExportScanRow[];
+
+    assert.deepEqual(
+      rows.map((row) => [row.driver_name, row.scan_status, Number(row.fare_deducted), row.is_offline]),
+      [
+        ["Driver", "success", 60, false],
+        ["Driver", "limit_exceeded", 0, true],
+      ]
+    );
+
+    const { data: failed } = await supabase.rpc("export_scans", {
+      p_from: "2026-03-02",
+      p_to: "2026-03-02",
+      p_status: "limit_exceeded",
+    });
+    assert.equal((failed as ExportScanRow[]).length, 1);
+  });
+});
+
+// Collects what an export writes, as the Express response would send it
+class CapturedResponse extends Writable {
+  headers: Record<string, string> = {};
+  private chunks: Buffer[] = [];
+
+  setHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  get body(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+
+  _write(chunk: Buffer | string, _encoding: BufferEncoding, callback: () => void) {
+    this.chunks.push(Buffer.from(chunk));
+    callback();
+  }
+}
+
+describe("streamExport", () => {
+  let db: PGlite;
+  let supabase: SupabaseClient;
+  const admin: RequestAuth = { userId: "admin-1", email: "admin@example.com", role: "admin", studentId: null, driverId: null };
+
+  before(async () => {
+    db = await createTestDatabase();
+    supabase = createRpcClient(db);
+    const rider = await createTestRider(db);
+
+    // More than a page, all at the same moment, so paging has to go by id
+    await db.query(
+      `INSERT INTO transactions (student_id, amount, transaction_type, status, balance_before, balance_after, description, created_at)
+       SELECT $1, n, 'recharge', 'success', 0, 0, 'Top-up ' || n, '2026-03-02T09:00:00+05:30'
+       FROM generate_series(1, 1500) n`,
+      [rider.studentId]
+    );
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  async function exportFile(format: string): Promise<CapturedResponse> {
+    const res = new CapturedResponse();
+    await streamExport(supabase, res as unknown as Response, "transactions", format, { from: "2026-03-02", to: "2026-03-02" }, admin);
+    return res;
+  }
+
+  it("writes every row of a multi-page export to the CSV once", async () => {
+    const res = await exportFile("csv");
+
+    const lines = res.body.toString("utf8").split("\r\n");
+    const rows = lines.slice(lines.indexOf("Date,Enrollment No,Student,Route,Type,Status,Amount (INR),Balance After (INR),Reference,Description") + 1, -1);
+    const topUps = rows.map((line) => Number(line.split(",").pop()!.replace("Top-up ", ""))).sort((a, b) => a - b);
+
+    assert.equal(res.headers["Content-Disposition"], 'attachment; filename="transactions-2026-03-02-to-2026-03-02.csv"');
+    assert.deepEqual(topUps, Array.from({ length: 1500 }, (_, i) => i + 1));
+  });
+
+  it("streams the same rows as a PDF", async () => {
+    const res = await exportFile("pdf");
+
+    assert.equal(res.headers["Content-Type"], "application/pdf");
+    assert.equal(res.body.subarray(0, 5).toString(), "%PDF-");
+  });
+});
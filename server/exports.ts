@@ -0,0 +1,517 @@
+import { finished } from "stream/promises";
+import type { Response } from "express";
+import PDFDocument from "pdfkit";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ExportDataset, ExportFilters, ExportFormat, ReportRange, TransactionType } from "@shared/schema";
+import type { RequestAuth } from "./auth";
+import { getReportOverview, resolveReportRange } from "./reports";
+import { SCAN_TIMEZONE } from "./scans";
+
+// Rows are read from the database in pages of this size and written out as
+// they arrive, so large ranges never sit in memory
+const PAGE_SIZE = 1000;
+const MAX_EXPORT_DAYS = 3 * 366;
+
+export class ExportError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ExportError";
+  }
+}
+
+type Cell = string | number | boolean | null;
+
+interface ExportColumn {
+  header: string;
+  // Relative width of the column in the PDF
+  width: number;
+  amount?: boolean;
+}
+
+interface ExportSheet {
+  title: string;
+  filename: string;
+  summary: [string, string][];
+  columns: ExportColumn[];
+  rows: AsyncIterable<Cell[]>;
+}
+
+const inrFormat = new Intl.NumberFormat("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Every amount in an export's summary and PDF is written this way. "INR"
+// rather than ₹ because the standard PDF fonts have no rupee sign.
+export function formatInr(amount: number): string {
+  return `INR ${inrFormat.format(amount)}`;
+}
+
+const dateTimeFormat = new Intl.DateTimeFormat("en-IN", {
+  timeZone: SCAN_TIMEZONE,
+  day: "2-digit",
+  month: "short",
+  year: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+const dayFormat = new Intl.DateTimeFormat("en-IN", {
+  timeZone: "UTC",
+  day: "2-digit",
+  month: "short",
+  year: "numeric",
+});
+
+const formatDateTime = (value: string) => dateTimeFormat.format(new Date(value));
+const formatDay = (date: string) => dayFormat.format(new Date(`${date}T00:00:00Z`));
+
+const TRANSACTION_LABELS: Record<TransactionType, string> = {
+  recharge: "Recharges",
+  deduction: "Fare deductions",
+  pass_purchase: "Pass purchases",
+  admin_adjustment: "Admin adjustments",
+  refund: "Refunds",
+};
+
+// Pages through export_transactions() / export_scans(), which return rows in
+// (time, id) order: each page starts after the last row of the one before,
+// so the function never has to skip over rows it already returned
+async function* pagedRpc<T extends { id: string }>(
+  supabase: SupabaseClient,
+  fn: string,
+  args: Record<string, unknown>,
+  timeColumn: keyof T
+): AsyncGenerator<T> {
+  let after: T | null = null;
+
+  for (;;) {
+    const { data, error } = await supabase.rpc(fn, {
+      ...args,
+      p_after_at: after ? after[timeColumn] : null,
+      p_after_id: after ? after.id : null,
+      p_limit: PAGE_SIZE,
+    });
+    if (error) throw error;
+
+    const rows = (data || []) as T[];
+    yield* rows;
+    if (rows.length < PAGE_SIZE) return;
+    after = rows[rows.length - 1];
+  }
+}
+
+async function* mapRows<T>(rows: AsyncIterable<T>, toCells: (row: T) => Cell[]): AsyncGenerator<Cell[]> {
+  for await (const row of rows) {
+    yield toCells(row);
+  }
+}
+
+function periodSummary(range: ReportRange, routeNumber: string | null): [string, string][] {
+  const summary: [string, string][] = [["Period", `${formatDay(range.from)} to ${formatDay(range.to)}`]];
+  if (routeNumber) summary.push(["Route", routeNumber]);
+  return summary;
+}
+
+async function routeNumberFor(supabase: SupabaseClient, routeId: string | null): Promise<string | null> {
+  if (!routeId) return null;
+
+  const { data, error } = await supabase
+    .from("bus_routes")
+    .select("route_number, route_name")
+    .eq("id", routeId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new ExportError("Route not found", 404);
+  return `${data.route_number} - ${data.route_name}`;
+}
+
+interface TransactionExportRow {
+  id: string;
+  created_at: string;
+  enrollment_no: string | null;
+  student_name: string | null;
+  route_number: string | null;
+  transaction_type: TransactionType;
+  status: string;
+  amount: number;
+  balance_after: number;
+  reference: string | null;
+  description: string | null;
+}
+
+async function transactionsSheet(
+  supabase: SupabaseClient,
+  range: ReportRange,
+  filters: ExportFilters
+): Promise<ExportSheet> {
+  const args = {
+    p_from: range.from,
+    p_to: range.to,
+    p_route_id: range.routeId,
+    p_status: filters.status ?? null,
+    p_type: filters.type ?? null,
+    p_timezone: SCAN_TIMEZONE,
+  };
+
+  const [{ data: totals, error }, routeNumber] = await Promise.all([
+    supabase.rpc("export_transaction_totals", args),
+    routeNumberFor(supabase, range.routeId),
+  ]);
+
+  if (error) throw error;
+
+  const rows = (totals || []) as { transaction_type: TransactionType; status: string; transactions: number; amount: number }[];
+  const summary = periodSummary(range, routeNumber);
+  if (filters.type) summary.push(["Type", TRANSACTION_LABELS[filters.type]]);
+  if (filters.status) summary.push(["Status", filters.status]);
+  summary.push(["Transactions", String(rows.reduce((sum, row) => sum + Number(row.transactions), 0))]);
+
+  // Money totals only count transactions that went through
+  for (const type of Object.keys(TRANSACTION_LABELS) as TransactionType[]) {
+    const settled = rows.filter((row) => row.transaction_type === type && row.status === "success");
+    if (settled.length === 0) continue;
+
+    const count = settled.reduce((sum, row) => sum + Number(row.transactions), 0);
+    const amount = settled.reduce((sum, row) => sum + Number(row.amount), 0);
+    summary.push([TRANSACTION_LABELS[type], `${formatInr(amount)} (${count})`]);
+  }
+
+  return {
+    title: "Transactions",
+    filename: `transactions-${range.from}-to-${range.to}`,
+    summary,
+    columns: [
+      { header: "Date", width: 1.6 },
+      { header: "Enrollment No", width: 1.2 },
+      { header: "Student", width: 1.8 },
+      { header: "Route", width: 0.7 },
+      { header: "Type", width: 1.2 },
+      { header: "Status", width: 0.8 },
+      { header: "Amount", width: 1.2, amount: true },
+      { header: "Balance After", width: 1.2, amount: true },
+      { header: "Reference", width: 1.6 },
+      { header: "Description", width: 2 },
+    ],
+    rows: mapRows(pagedRpc<TransactionExportRow>(supabase, "export_transactions", args, "created_at"), (row) => [
+      formatDateTime(row.created_at),
+      row.enrollment_no,
+      row.student_name,
+      row.route_number,
+      row.transaction_type.replace(/_/g, " "),
+      row.status,
+      Number(row.amount),
+      Number(row.balance_after),
+      row.reference,
+      row.description,
+    ]),
+  };
+}
+
+interface ScanExportRow {
+  id: string;
+  scan_timestamp: string;
+  enrollment_no: string | null;
+  student_name: string | null;
+  route_number: string | null;
+  bus_number: string | null;
+  driver_name: string | null;
+  scan_status: string;
+  fare_deducted: number;
+  balance_after_scan: number;
+  is_offline: boolean;
+}
+
+async function scansSheet(
+  supabase: SupabaseClient,
+  range: ReportRange,
+  filters: ExportFilters,
+  driverId: string | null
+): Promise<ExportSheet> {
+  const args = {
+    p_from: range.from,
+    p_to: range.to,
+    p_route_id: range.routeId,
+    p_driver_id: driverId,
+    p_status: filters.status ?? null,
+    p_timezone: SCAN_TIMEZONE,
+  };
+
+  const [{ data: totals, error }, routeNumber] = await Promise.all([
+    supabase.rpc("export_scan_totals", args),
+    routeNumberFor(supabase, range.routeId),
+  ]);
+
+  if (error) throw error;
+
+  const rows = (totals || []) as { scan_status: string; scans: number; fares: number }[];
+  const scans = rows.reduce((sum, row) => sum + Number(row.scans), 0);
+  const successful = rows
+    .filter((row) => row.scan_status === "success")
+    .reduce((sum, row) => sum + Number(row.scans), 0);
+
+  const summary = periodSummary(range, routeNumber);
+  if (filters.status) summary.push(["Status", filters.status]);
+  summary.push(
+    ["Scans", String(scans)],
+    ["Successful", String(successful)],
+    ["Failed", String(scans - successful)],
+    ["Fares collected", formatInr(rows.reduce((sum, row) => sum + Number(row.fares), 0))]
+  );
+
+  return {
+    title: "Scan Logs",
+    filename: `scans-${range.from}-to-${range.to}`,
+    summary,
+    columns: [
+      { header: "Time", width: 1.6 },
+      { header: "Enrollment No", width: 1.2 },
+      { header: "Student", width: 1.8 },
+      { header: "Route", width: 0.7 },
+      { header: "Bus", width: 0.9 },
+      { header: "Driver", width: 1.5 },
+      { header: "Status", width: 1.4 },
+      { header: "Fare", width: 1.1, amount: true },
+      { header: "Balance After", width: 1.2, amount: true },
+      { header: "Offline", width: 0.6 },
+    ],
+    rows: mapRows(pagedRpc<ScanExportRow>(supabase, "export_scans", args, "scan_timestamp"), (row) => [
+      formatDateTime(row.scan_timestamp),
+      row.enrollment_no,
+      row.student_name,
+      row.route_number,
+      row.bus_number,
+      row.driver_name,
+      row.scan_status.replace(/_/g, " "),
+      Number(row.fare_deducted),
+      Number(row.balance_after_scan),
+      row.is_offline,
+    ]),
+  };
+}
+
+async function reportSheet(supabase: SupabaseClient, range: ReportRange): Promise<ExportSheet> {
+  const [report, routeNumber] = await Promise.all([
+    getReportOverview(supabase, range),
+    routeNumberFor(supabase, range.routeId),
+  ]);
+
+  const { summary: totals } = report;
+  const summary = periodSummary(range, routeNumber);
+  summary.push(
+    ["Recharges", formatInr(totals.totalRevenue)],
+    ["Fares and passes, less refunds", formatInr(totals.totalFares)],
+    ["Scans", `${totals.totalScans} (${totals.successfulScans} successful)`],
+    ["Students", `${totals.students} (${totals.activeStudents} active)`],
+    ["Average balance", formatInr(totals.avgBalance)]
+  );
+
+  async function* rows(): AsyncGenerator<Cell[]> {
+    for (let index = 0; index < report.dailyScans.length; index++) {
+      const scans = report.dailyScans[index];
+      const revenue = report.dailyRevenue[index];
+      yield [
+        formatDay(scans.date),
+        scans.success,
+        scans.failed,
+        scans.fares,
+        revenue.recharges,
+        revenue.passes,
+        revenue.adjustments,
+        revenue.refunds,
+      ];
+    }
+  }
+
+  return {
+    title: "Daily Report",
+    filename: `report-${range.from}-to-${range.to}`,
+    summary,
+    columns: [
+      { header: "Date", width: 1.2 },
+      { header: "Successful Scans", width: 1 },
+      { header: "Failed Scans", width: 1 },
+      { header: "Fares", width: 1.2, amount: true },
+      { header: "Recharges", width: 1.2, amount: true },
+      { header: "Pass Sales", width: 1.2, amount: true },
+      { header: "Adjustments", width: 1.2, amount: true },
+      { header: "Refunds", width: 1.2, amount: true },
+    ],
+    rows: rows(),
+  };
+}
+
+// Resolves once the client has taken the buffered output, or has gone away
+function waitForDrain(res: Response): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
+
+// Spreadsheets run text that starts with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function csvValue(cell: Cell, column?: ExportColumn): string {
+  if (cell === null || cell === undefined) return "";
+  if (column?.amount && typeof cell === "number") return cell.toFixed(2);
+  if (typeof cell === "boolean") return cell ? "Yes" : "No";
+
+  // Names, notes and reasons come from users, so a leading quote keeps them text
+  const text = typeof cell === "string" && FORMULA_PREFIX.test(cell) ? `'${cell}` : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Summary rows first, a blank line, then the table. Amount columns stay plain
+// numbers (INR is in the header) so spreadsheets can add them up.
+async function writeCsv(res: Response, sheet: ExportSheet) {
+  const write = async (cells: string[]) => {
+    if (!res.write(cells.join(",") + "\r\n")) {
+      await waitForDrain(res);
+    }
+  };
+
+  // Byte order mark so Excel reads the file as UTF-8
+  res.write("\uFEFF");
+  await write([csvValue(sheet.title)]);
+  for (const [label, value] of sheet.summary) {
+    await write([csvValue(label), csvValue(value)]);
+  }
+  await write([]);
+  await write(sheet.columns.map((column) =>
+    csvValue(column.amount ? `${column.header} (INR)` : column.header, column)
+  ));
+
+  for await (const cells of sheet.rows) {
+    if (res.destroyed) return;
+    await write(cells.map((cell, i) => csvValue(cell, sheet.columns[i])));
+  }
+
+  res.end();
+}
+
+const PDF_MARGIN = 36;
+const PDF_ROW_HEIGHT = 16;
+// PDFKit buffers whatever is drawn until the response takes it, so every
+// this many rows the export waits for a slow client to catch up
+const PDF_DRAIN_ROWS = 200;
+
+async function writePdf(res: Response, sheet: ExportSheet) {
+  const doc = new PDFDocument({ size: "A4", layout: "landscape", margin: PDF_MARGIN });
+  doc.pipe(res);
+
+  const tableWidth = doc.page.width - PDF_MARGIN * 2;
+  const totalWeight = sheet.columns.reduce((sum, column) => sum + column.width, 0);
+  const widths = sheet.columns.map((column) => (column.width / totalWeight) * tableWidth);
+
+  const pdfValue = (cell: Cell, column: ExportColumn) => {
+    if (cell === null || cell === undefined) return "";
+    if (column.amount && typeof cell === "number") return formatInr(cell);
+    if (typeof cell === "boolean") return cell ? "Yes" : "No";
+    return String(cell);
+  };
+
+  const drawRow = (values: string[], bold = false) => {
+    if (doc.y + PDF_ROW_HEIGHT > doc.page.height - PDF_MARGIN) {
+      doc.addPage();
+      drawHeader();
+    }
+
+    const y = doc.y;
+    let x = PDF_MARGIN;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+    values.forEach((value, i) => {
+      doc.text(value, x + 2, y + 4, {
+        width: widths[i] - 4,
+        height: PDF_ROW_HEIGHT - 4,
+        align: sheet.columns[i].amount ? "right" : "left",
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += widths[i];
+    });
+
+    doc
+      .moveTo(PDF_MARGIN, y + PDF_ROW_HEIGHT)
+      .lineTo(PDF_MARGIN + tableWidth, y + PDF_ROW_HEIGHT)
+      .strokeColor("#dddddd")
+      .lineWidth(0.5)
+      .stroke();
+    doc.x = PDF_MARGIN;
+    doc.y = y + PDF_ROW_HEIGHT;
+  };
+
+  const drawHeader = () => drawRow(sheet.columns.map((column) => column.header), true);
+
+  doc.font("Helvetica-Bold").fontSize(16).text(sheet.title);
+  doc.moveDown(0.5);
+  doc.fontSize(10);
+  for (const [label, value] of sheet.summary) {
+    doc.font("Helvetica-Bold").text(`${label}: `, { continued: true }).font("Helvetica").text(value);
+  }
+  doc.moveDown();
+
+  drawHeader();
+  let drawn = 0;
+  for await (const cells of sheet.rows) {
+    if (res.destroyed) break;
+    drawRow(cells.map((cell, i) => pdfValue(cell, sheet.columns[i])));
+
+    if (++drawn % PDF_DRAIN_ROWS === 0 && res.writableNeedDrain) {
+      await waitForDrain(res);
+    }
+  }
+
+  doc.end();
+  await finished(res);
+}
+
+// Streams an export as an attachment. Drivers may only export their own
+// scans. Anything that fails before the first byte is thrown as usual; once
+// streaming has started the caller can only abort the response.
+export async function streamExport(
+  supabase: SupabaseClient,
+  res: Response,
+  dataset: string,
+  format: string,
+  filters: ExportFilters,
+  auth: RequestAuth
+) {
+  if (format !== "csv" && format !== "pdf") {
+    throw new ExportError("Unknown export format", 404);
+  }
+  if (!["transactions", "scans", "report"].includes(dataset)) {
+    throw new ExportError("Unknown export", 404);
+  }
+  if (auth.role === "driver" && dataset !== "scans") {
+    throw new ExportError("Forbidden", 403);
+  }
+
+  const range = resolveReportRange(filters, MAX_EXPORT_DAYS);
+  const driverId = auth.role === "driver" ? auth.driverId : filters.driver_id ?? null;
+
+  if (auth.role === "driver" && !driverId) {
+    throw new ExportError("Driver profile not found", 404);
+  }
+
+  const sheets: Record<ExportDataset, () => Promise<ExportSheet>> = {
+    transactions: () => transactionsSheet(supabase, range, filters),
+    scans: () => scansSheet(supabase, range, filters, driverId),
+    report: () => reportSheet(supabase, range),
+  };
+  const sheet = await sheets[dataset as ExportDataset]();
+
+  const extension = format as ExportFormat;
+  res.setHeader("Content-Type", extension === "csv" ? "text/csv; charset=utf-8" : "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="${sheet.filename}.${extension}"`);
+
+  if (extension === "csv") {
+    await writeCsv(res, sheet);
+  } else {
+    await writePdf(res, sheet);
+  }
+}
@@ -0,0 +1,261 @@
+import express, { type Express } from "express";
+import { createHmac, randomBytes } from "crypto";
+import type { Server } from "http";
+import { pathToFileURL } from "url";
+
+// A local stand-in for the Razorpay endpoints SwiftPass uses. Point
+// RAZORPAY_API_BASE at it to exercise the full recharge flow (order creation,
+// signed checkout callback and signed webhook) and auto-recharge (customers,
+// saved tokens and recurring charges) without a real gateway.
+//
+//   npm run fake-gateway
+//   RAZORPAY_API_BASE=http://localhost:5055 npm run dev
+
+export interface FakeGatewayOptions {
+  keyId: string;
+  keySecret: string;
+  webhookSecret: string;
+  webhookUrl?: string;
+}
+
+interface FakeOrder {
+  id: string;
+  entity: "order";
+  amount: number;
+  currency: string;
+  receipt: string | null;
+  notes: Record<string, string>;
+  status: "created" | "attempted" | "paid";
+  created_at: number;
+  customer_id?: string;
+  // Paying this order saves the card as a token for recurring charges
+  token?: Record<string, unknown>;
+}
+
+interface FakePayment {
+  id: string;
+  entity: "payment";
+  amount: number;
+  currency: string;
+  order_id: string;
+  status: "captured" | "failed";
+  customer_id: string | null;
+  token_id: string | null;
+  recurring: boolean;
+}
+
+function randomId(prefix: string) {
+  return `${prefix}_${randomBytes(7).toString("hex")}`;
+}
+
+function sign(secret: string, data: string) {
+  return createHmac("sha256", secret).update(data).digest("hex");
+}
+
+export function createFakeGateway(options: FakeGatewayOptions): Express {
+  const app = express();
+  const orders = new Map<string, FakeOrder>();
+  const payments = new Map<string, FakePayment>();
+  // token id -> customer id
+  const tokens = new Map<string, string>();
+  const expectedAuth = `Basic ${Buffer.from(`${options.keyId}:${options.keySecret}`).toString("base64")}`;
+
+  app.use(express.json());
+
+  // The browser pays through the fake gateway directly in "fake" checkout mode
+  app.use((req, res, next) => {
+    res.header("Access-Control-Allow-Origin", "*");
+    res.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    res.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    if (req.method === "OPTIONS") return res.sendStatus(204);
+    next();
+  });
+
+  const sendWebhook = async (event: string, order: FakeOrder, payment: FakePayment) => {
+    if (!options.webhookUrl) return;
+
+    const body = JSON.stringify({
+      entity: "event",
+      event,
+      payload: { payment: { entity: payment }, order: { entity: order } },
+      created_at: Math.floor(Date.now() / 1000),
+    });
+
+    try {
+      await fetch(options.webhookUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Razorpay-Signature": sign(options.webhookSecret, body),
+        },
+        body,
+      });
+    } catch (error) {
+      console.error("Fake gateway webhook delivery failed:", error);
+    }
+  };
+
+  // Server-to-server endpoints authenticate with the key pair; checkout does not
+  const requireKey: express.RequestHandler = (req, res, next) => {
+    if (req.header("authorization") !== expectedAuth) {
+      return res.status(401).json({ error: { code: "BAD_REQUEST_ERROR", description: "Authentication failed" } });
+    }
+    next();
+  };
+
+  app.post("/v1/customers", requireKey, (_req, res) => {
+    res.json({ id: randomId("cust"), entity: "customer" });
+  });
+
+  app.delete("/v1/customers/:customerId/tokens/:tokenId", requireKey, (req, res) => {
+    if (tokens.get(req.params.tokenId) !== req.params.customerId) {
+      return res.status(404).json({ error: { code: "BAD_REQUEST_ERROR", description: "Token not found" } });
+    }
+    tokens.delete(req.params.tokenId);
+    res.json({ deleted: true });
+  });
+
+  app.post("/v1/orders", requireKey, (req, res) => {
+    const { amount, currency, receipt, notes, customer_id, token } = req.body;
+    if (!Number.isInteger(amount) || amount < 100) {
+      return res.status(400).json({ error: { code: "BAD_REQUEST_ERROR", description: "Invalid amount" } });
+    }
+
+    const order: FakeOrder = {
+      id: randomId("order"),
+      entity: "order",
+      amount,
+      currency: currency || "INR",
+      receipt: receipt ?? null,
+      notes: notes || {},
+      status: "created",
+      created_at: Math.floor(Date.now() / 1000),
+      customer_id,
+      token,
+    };
+    orders.set(order.id, order);
+
+    res.json(order);
+  });
+
+  app.get("/v1/payments/:paymentId", requireKey, (req, res) => {
+    const payment = payments.get(req.params.paymentId);
+    if (!payment) {
+      return res.status(404).json({ error: { code: "BAD_REQUEST_ERROR", description: "Payment not found" } });
+    }
+    res.json(payment);
+  });
+
+  // Charges a saved token without the customer present. Set
+  // FAKE_GATEWAY_DECLINE_RECURRING=true to simulate declined charges.
+  app.post("/v1/payments/create/recurring", requireKey, (req, res) => {
+    const { order_id, customer_id, token } = req.body;
+    const order = orders.get(order_id);
+    if (!order) {
+      return res.status(404).json({ error: { code: "BAD_REQUEST_ERROR", description: "Order not found" } });
+    }
+    if (tokens.get(token) !== customer_id) {
+      return res.status(400).json({ error: { code: "BAD_REQUEST_ERROR", description: "Invalid token" } });
+    }
+
+    const declined = process.env.FAKE_GATEWAY_DECLINE_RECURRING === "true";
+    const payment = createPayment(order, declined ? "failed" : "success", token);
+
+    res.on("finish", () => {
+      void sendWebhook(declined ? "payment.failed" : "payment.captured", order, payment);
+    });
+
+    res.json({
+      razorpay_payment_id: payment.id,
+      razorpay_order_id: order.id,
+      razorpay_signature: sign(options.keySecret, `${order.id}|${payment.id}`),
+    });
+  });
+
+  app.get("/v1/orders/:orderId", (req, res) => {
+    const order = orders.get(req.params.orderId);
+    if (!order) {
+      return res.status(404).json({ error: { code: "BAD_REQUEST_ERROR", description: "Order not found" } });
+    }
+    res.json(order);
+  });
+
+  // Simulates the customer completing (or failing) checkout for an order
+  app.post("/v1/checkout/:orderId/pay", (req, res) => {
+    const order = orders.get(req.params.orderId);
+    if (!order) {
+      return res.status(404).json({ error: { code: "BAD_REQUEST_ERROR", description: "Order not found" } });
+    }
+
+    const outcome = req.body?.outcome === "failed" ? "failed" : "success";
+    const payment = createPayment(order, outcome);
+    const paymentId = payment.id;
+
+    // Deliver the webhook after responding, like the real gateway does
+    res.on("finish", () => {
+      void sendWebhook(outcome === "success" ? "payment.captured" : "payment.failed", order, payment);
+    });
+
+    if (outcome === "failed") {
+      return res.status(402).json({
+        error: { code: "BAD_REQUEST_ERROR", description: "Payment failed", metadata: { order_id: order.id, payment_id: paymentId } },
+      });
+    }
+
+    res.json({
+      razorpay_order_id: order.id,
+      razorpay_payment_id: paymentId,
+      razorpay_signature: sign(options.keySecret, `${order.id}|${paymentId}`),
+    });
+  });
+
+  // usedToken is set for recurring charges; otherwise a successful payment on
+  // a token-saving order saves a new one
+  function createPayment(order: FakeOrder, outcome: "success" | "failed", usedToken: string | null = null): FakePayment {
+    let tokenId = usedToken;
+    if (!usedToken && outcome === "success" && order.token && order.customer_id) {
+      tokenId = randomId("token");
+      tokens.set(tokenId, order.customer_id);
+    }
+
+    const payment: FakePayment = {
+      id: randomId("pay"),
+      entity: "payment",
+      amount: order.amount,
+      currency: order.currency,
+      order_id: order.id,
+      status: outcome === "success" ? "captured" : "failed",
+      customer_id: order.customer_id ?? null,
+      token_id: tokenId,
+      recurring: usedToken !== null,
+    };
+    payments.set(payment.id, payment);
+    order.status = outcome === "success" ? "paid" : "attempted";
+
+    return payment;
+  }
+
+  return app;
+}
+
+export function startFakeGateway(options: FakeGatewayOptions, port = 5055): Promise<Server> {
+  return new Promise((resolve) => {
+    const server = createFakeGateway(options).listen(port, () => resolve(server));
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.FAKE_GATEWAY_PORT || "5055", 10);
+
+  startFakeGateway(
+    {
+      keyId: process.env.RAZORPAY_KEY_ID || "rzp_test_fake",
+      keySecret: process.env.RAZORPAY_KEY_SECRET || "fake_key_secret",
+      webhookSecret: process.env.RAZORPAY_WEBHOOK_SECRET || "fake_webhook_secret",
+      webhookUrl: process.env.FAKE_GATEWAY_WEBHOOK_URL || "http://localhost:5000/api/payments/webhook",
+    },
+    port
+  ).then(() => {
+    console.log(`Fake payment gateway listening on port ${port}`);
+  });
+}
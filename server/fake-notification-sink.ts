@@ -0,0 +1,222 @@
+import express, { type Express } from "express";
+import { randomBytes } from "crypto";
+import { createServer as createTcpServer, type Server as TcpServer, type Socket } from "net";
+import type { Server } from "http";
+import { pathToFileURL } from "url";
+
+// A local stand-in for the SMTP server and SMS API that notification delivery
+// uses. It accepts every message and keeps it in memory so emails and texts
+// can be inspected without sending anything.
+//
+//   npm run fake-sink
+//   SMTP_HOST=localhost SMTP_PORT=2525 SMS_API_BASE=http://localhost:5056 npm run dev
+//   curl http://localhost:5056/messages
+//
+// FAKE_SINK_FAILURE_RATE (0 to 1) rejects that share of messages with a
+// temporary error to exercise retries.
+
+export interface FakeNotificationSinkOptions {
+  smsApiKey?: string;
+  failureRate?: number;
+}
+
+export interface SinkMessage {
+  id: string;
+  channel: "email" | "sms";
+  from: string;
+  to: string[];
+  subject: string | null;
+  body: string;
+  received_at: string;
+}
+
+function randomId(prefix: string) {
+  return `${prefix}_${randomBytes(7).toString("hex")}`;
+}
+
+// Splits a raw RFC 5322 message into its Subject header and body. Folded
+// headers and MIME parts are left as they are; this is only for reading.
+function parseEmail(raw: string) {
+  const split = raw.indexOf("\r\n\r\n");
+  const headers = split === -1 ? raw : raw.slice(0, split);
+  const subject = headers.match(/^Subject: (.*)$/im)?.[1] ?? null;
+
+  return { subject, body: split === -1 ? "" : raw.slice(split + 4) };
+}
+
+export class FakeNotificationSink {
+  readonly messages: SinkMessage[] = [];
+
+  constructor(private options: FakeNotificationSinkOptions = {}) {}
+
+  private shouldFail() {
+    return Math.random() < (this.options.failureRate ?? 0);
+  }
+
+  // Just enough SMTP for nodemailer: EHLO, AUTH PLAIN (any credentials),
+  // MAIL, RCPT, DATA, RSET, NOOP and QUIT. No STARTTLS.
+  private handleSmtp(socket: Socket) {
+    let from = "";
+    let to: string[] = [];
+    let data: string[] | null = null;
+    let buffer = "";
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    const reset = () => {
+      from = "";
+      to = [];
+      data = null;
+    };
+
+    reply("220 fake-sink ESMTP ready");
+
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+
+      let end: number;
+      while ((end = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+
+        if (data) {
+          if (line !== ".") {
+            data.push(line.startsWith("..") ? line.slice(1) : line);
+            continue;
+          }
+
+          if (this.shouldFail()) {
+            reply("451 4.3.0 Temporary failure, try again later");
+          } else {
+            const { subject, body } = parseEmail(data.join("\r\n"));
+            const id = randomId("mail");
+            this.messages.push({
+              id,
+              channel: "email",
+              from,
+              to,
+              subject,
+              body,
+              received_at: new Date().toISOString(),
+            });
+            reply(`250 2.0.0 Ok: queued as ${id}`);
+          }
+          reset();
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === "EHLO") {
+          socket.write("250-fake-sink\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n");
+        } else if (command === "HELO") {
+          reply("250 fake-sink");
+        } else if (command === "AUTH") {
+          reply("235 2.7.0 Authentication successful");
+        } else if (command === "MAIL") {
+          reset();
+          from = line.match(/<([^>]*)>/)?.[1] ?? "";
+          reply("250 2.1.0 Ok");
+        } else if (command === "RCPT") {
+          to.push(line.match(/<([^>]*)>/)?.[1] ?? "");
+          reply("250 2.1.5 Ok");
+        } else if (command === "DATA") {
+          data = [];
+          reply("354 End data with <CR><LF>.<CR><LF>");
+        } else if (command === "RSET") {
+          reset();
+          reply("250 2.0.0 Ok");
+        } else if (command === "NOOP") {
+          reply("250 2.0.0 Ok");
+        } else if (command === "QUIT") {
+          reply("221 2.0.0 Bye");
+          socket.end();
+        } else {
+          reply("502 5.5.2 Command not recognized");
+        }
+      }
+    });
+
+    socket.on("error", () => socket.destroy());
+  }
+
+  createSmtpServer(): TcpServer {
+    return createTcpServer((socket) => this.handleSmtp(socket));
+  }
+
+  createHttpApp(): Express {
+    const app = express();
+    app.use(express.json());
+
+    // The SMS API the server's HTTP SMS provider calls
+    app.post("/v1/messages", (req, res) => {
+      if (this.options.smsApiKey && req.header("authorization") !== `Bearer ${this.options.smsApiKey}`) {
+        return res.status(401).json({ error: { message: "Invalid API key" } });
+      }
+
+      const { to, from, body } = req.body ?? {};
+      if (typeof to !== "string" || !to || typeof body !== "string" || !body) {
+        return res.status(400).json({ error: { message: "to and body are required" } });
+      }
+
+      if (this.shouldFail()) {
+        return res.status(503).json({ error: { message: "Temporary failure, try again later" } });
+      }
+
+      const message: SinkMessage = {
+        id: randomId("sms"),
+        channel: "sms",
+        from: typeof from === "string" ? from : "",
+        to: [to],
+        subject: null,
+        body,
+        received_at: new Date().toISOString(),
+      };
+      this.messages.push(message);
+
+      res.json({ id: message.id, status: "queued" });
+    });
+
+    // Inspection endpoints for development and scripts
+    app.get("/messages", (req, res) => {
+      const channel = req.query.channel;
+      res.json({ messages: channel ? this.messages.filter((m) => m.channel === channel) : this.messages });
+    });
+
+    app.delete("/messages", (_req, res) => {
+      this.messages.length = 0;
+      res.json({ deleted: true });
+    });
+
+    return app;
+  }
+}
+
+export async function startFakeNotificationSink(
+  options: FakeNotificationSinkOptions = {},
+  { smtpPort = 2525, httpPort = 5056 } = {}
+): Promise<{ sink: FakeNotificationSink; smtp: TcpServer; http: Server }> {
+  const sink = new FakeNotificationSink(options);
+
+  const smtp = await new Promise<TcpServer>((resolve) => {
+    const server = sink.createSmtpServer().listen(smtpPort, () => resolve(server));
+  });
+  const http = await new Promise<Server>((resolve) => {
+    const server = sink.createHttpApp().listen(httpPort, () => resolve(server));
+  });
+
+  return { sink, smtp, http };
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const smtpPort = parseInt(process.env.FAKE_SINK_SMTP_PORT || "2525", 10);
+  const httpPort = parseInt(process.env.FAKE_SINK_HTTP_PORT || "5056", 10);
+
+  startFakeNotificationSink(
+    {
+      smsApiKey: process.env.SMS_API_KEY,
+      failureRate: parseFloat(process.env.FAKE_SINK_FAILURE_RATE || "0"),
+    },
+    { smtpPort, httpPort }
+  ).then(() => {
+    console.log(`Fake notification sink: SMTP on port ${smtpPort}, SMS API and inbox on port ${httpPort}`);
+  });
+}
@@ -0,0 +1,231 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import type { PGlite } from "@electric-sql/pglite";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createRpcClient, createTestDatabase, createTestRider, getWalletBalance, type TestRider } from "./test-database";
+
+interface ScanRow {
+  status: string;
+  reason?: string | null;
+  conflict?: string | null;
+  fare_rule?: string | null;
+  fare_deducted: number;
+  balance_after: number;
+}
+
+interface FarePolicy {
+  ride_fare: number;
+  peak_fare?: number;
+  peak_periods?: { days?: number[]; start: string; end: string }[];
+  max_rides_per_day?: number;
+  daily_cap?: number;
+  weekly_cap?: number;
+  monthly_cap?: number;
+  free_return_window_minutes?: number;
+}
+
+// Local times in Asia/Kolkata; 2026-03-02 is a Monday
+const at = (day: number, time: string) => `2026-03-${String(day).padStart(2, "0")}T${time}:00+05:30`;
+
+describe("process_scan fares", () => {
+  let db: PGlite;
+  let supabase: SupabaseClient;
+
+  before(async () => {
+    db = await createTestDatabase();
+    supabase = createRpcClient(db);
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  async function riderWithPolicy(policy: FarePolicy | null, balance = 1000): Promise<TestRider> {
+    const rider = await createTestRider(db, { balance });
+    if (policy) {
+      await db.query(
+        `INSERT INTO fare_policies (route_id, ride_fare, peak_fare, peak_periods, max_rides_per_day, daily_cap,
+                                    weekly_cap, monthly_cap, free_return_window_minutes)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+        [
+          rider.routeId,
+          policy.ride_fare,
+          policy.peak_fare ?? null,
+          JSON.stringify(policy.peak_periods ?? []),
+          policy.max_rides_per_day ?? null,
+          policy.daily_cap ?? null,
+          policy.weekly_cap ?? null,
+          policy.monthly_cap ?? null,
+          policy.free_return_window_minutes ?? null,
+        ]
+      );
+    }
+    return rider;
+  }
+
+  // A scan of a freshly issued pass, as processScan() sends it once the
+  // token's signature has been checked
+  async function scan(
+    rider: TestRider,
+    scannedAt: string,
+    { scanId = randomUUID(), nonce = randomUUID(), routeId = rider.routeId, expiresInSeconds = 60, offline = false } = {}
+  ): Promise<ScanRow> {
+    const { data, error } = await supabase.rpc("process_scan", {
+      p_scan_id: scanId,
+      p_student_id: rider.studentId,
+      p_driver_id: rider.driverId,
+      p_pass_nonce: nonce,
+      p_pass_expires_at: new Date(new Date(scannedAt).getTime() + expiresInSeconds * 1000).toISOString(),
+      p_timezone: "Asia/Kolkata",
+      p_scanned_at: scannedAt,
+      p_offline: offline,
+      p_pass_route_id: routeId,
+    });
+
+    if (error) throw error;
+    const row = data as ScanRow;
+    return { ...row, fare_deducted: Number(row.fare_deducted), balance_after: Number(row.balance_after) };
+  }
+
+  const charged = (rows: ScanRow[]) => rows.map((row) => [row.status, row.fare_deducted, row.fare_rule ?? null]);
+
+  it("charges the daily fare once and allows two rides a day without a policy", async () => {
+    const rider = await riderWithPolicy(null);
+
+    const rides = [
+      await scan(rider, at(2, "08:00")),
+      await scan(rider, at(2, "17:00")),
+      await scan(rider, at(2, "18:00")),
+    ];
+
+    assert.deepEqual(charged(rides), [
+      ["success", 60, "standard"],
+      ["success", 0, "daily_cap"],
+      ["limit_exceeded", 0, null],
+    ]);
+    assert.equal(await getWalletBalance(db, rider.studentId), 940);
+  });
+
+  it("lowers the fare to what is left under the daily cap", async () => {
+    const rider = await riderWithPolicy({ ride_fare: 30, daily_cap: 50 });
+
+    const rides = [
+      await scan(rider, at(2, "08:00")),
+      await scan(rider, at(2, "12:00")),
+      await scan(rider, at(2, "17:00")),
+      await scan(rider, at(3, "08:00")),
+    ];
+
+    assert.deepEqual(charged(rides), [
+      ["success", 30, "standard"],
+      ["success", 20, "daily_cap"],
+      ["success", 0, "daily_cap"],
+      ["success", 30, "standard"],
+    ]);
+  });
+
+  it("caps the fares of a week and starts again on Monday", async () => {
+    const rider = await riderWithPolicy({ ride_fare: 40, weekly_cap: 100 });
+
+    const rides = [
+      await scan(rider, at(2, "08:00")),
+      await scan(rider, at(3, "08:00")),
+      await scan(rider, at(4, "08:00")),
+      await scan(rider, at(5, "08:00")),
+      await scan(rider, at(9, "08:00")),
+    ];
+
+    assert.deepEqual(charged(rides), [
+      ["success", 40, "standard"],
+      ["success", 40, "standard"],
+      ["success", 20, "weekly_cap"],
+      ["success", 0, "weekly_cap"],
+      ["success", 40, "standard"],
+    ]);
+  });
+
+  it("caps the fares of a calendar month", async () => {
+    const rider = await riderWithPolicy({ ride_fare: 40, monthly_cap: 60 });
+
+    const rides = [
+      await scan(rider, at(30, "08:00")),
+      await scan(rider, at(31, "08:00")),
+      await scan(rider, "2026-04-01T08:00:00+05:30"),
+    ];
+
+    assert.deepEqual(charged(rides), [
+      ["success", 40, "standard"],
+      ["success", 20, "monthly_cap"],
+      ["success", 40, "standard"],
+    ]);
+  });
+
+  it("charges the peak fare inside a peak window, in local time", async () => {
+    const rider = await riderWithPolicy({
+      ride_fare: 20,
+      peak_fare: 35,
+      peak_periods: [{ days: [1, 2, 3, 4, 5], start: "08:00", end: "10:00" }],
+    });
+
+    const rides = [
+      await scan(rider, at(2, "09:30")),
+      await scan(rider, at(2, "10:00")),
+      await scan(rider, at(7, "09:30")),
+    ];
+
+    assert.deepEqual(charged(rides), [
+      ["success", 35, "peak"],
+      ["success", 20, "standard"],
+      ["success", 20, "standard"],
+    ]);
+  });
+
+  it("makes only the ride right after a charged one free within the return window", async () => {
+    const rider = await riderWithPolicy({ ride_fare: 25, free_return_window_minutes: 90 });
+
+    const rides = [
+      await scan(rider, at(2, "08:00")),
+      await scan(rider, at(2, "09:00")),
+      await scan(rider, at(2, "09:30")),
+      await scan(rider, at(2, "12:00")),
+    ];
+
+    assert.deepEqual(charged(rides), [
+      ["success", 25, "standard"],
+      ["success", 0, "free_return"],
+      ["success", 25, "standard"],
+      ["success", 25, "standard"],
+    ]);
+  });
+
+  it("refuses rides over the daily limit until the next local day", async () => {
+    const rider = await riderWithPolicy({ ride_fare: 10, max_rides_per_day: 1 });
+
+    const rides = [
+      await scan(rider, at(2, "08:00")),
+      await scan(rider, at(2, "23:59")),
+      await scan(rider, at(3, "00:01")),
+    ];
+
+    assert.deepEqual(charged(rides), [
+      ["success", 10, "standard"],
+      ["limit_exceeded", 0, null],
+      ["success", 10, "standard"],
+    ]);
+  });
+
+  it("refuses a fare the balance cannot cover, but charges it on an offline scan", async () => {
+    const online = await riderWithPolicy({ ride_fare: 50 }, 30);
+    const offline = await riderWithPolicy({ ride_fare: 50 }, 30);
+
+    const refused = await scan(online, at(2, "08:00"));
+    const boarded = await scan(offline, at(2, "08:00"), { offline: true });
+
+    assert.equal(refused.status, "insufficient_balance");
+    assert.equal(await getWalletBalance(db, online.studentId), 30);
+    assert.equal(boarded.status, "success");
+    assert.equal(boarded.conflict, "negative_balance");
+    assert.equal(await getWalletBalance(db, offline.studentId), -20);
+  });
+});
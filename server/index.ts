@@ -1,6 +1,14 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { startBusApproachingAlerts } from "./bus-alerts";
+import { startWalletReconciliation } from "./ledger";
+import { startAutoRecharge } from "./auto-recharge";
+import { startPaymentExpiry } from "./payments";
+import { startNotificationDelivery } from "./notification-delivery";
+import { startBreadcrumbRetention } from "./trip-replay";
+import { syncServiceTimezone } from "./timetable";
+import { getSupabaseAdmin } from "./supabase";
 import { createServer } from "http";
 
 const app = express();
@@ -95,4 +103,17 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
+
+  if (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    syncServiceTimezone(getSupabaseAdmin()).catch((error) => console.error("Service timezone sync error:", error));
+    startBusApproachingAlerts();
+    startWalletReconciliation();
+    startNotificationDelivery();
+    startBreadcrumbRetention();
+
+    if (process.env.RAZORPAY_KEY_ID) {
+      startPaymentExpiry();
+      startAutoRecharge();
+    }
+  }
 })();
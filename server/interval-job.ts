@@ -0,0 +1,22 @@
+// Runs a background job straight away and then every intervalMs. A tick is
+// skipped while the previous run is still going, and errors are logged under
+// the job's name without stopping the timer. Returns a function that stops it.
+export function startIntervalJob(name: string, run: () => Promise<unknown>, intervalMs: number): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await run();
+    } catch (error) {
+      console.error(`${name} error:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, intervalMs);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,223 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import type { PGlite } from "@electric-sql/pglite";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RequestAuth } from "./auth";
+import { LedgerError, adjustStudentBalance, reconcileWallets, reverseTransaction } from "./ledger";
+import { getReportOverview } from "./reports";
+import {
+  createRpcClient,
+  createTestDatabase,
+  createTestRider,
+  createTestUser,
+  getWalletBalance,
+  type TestRider,
+} from "./test-database";
+
+describe("wallet ledger", () => {
+  let db: PGlite;
+  let supabase: SupabaseClient;
+
+  before(async () => {
+    db = await createTestDatabase();
+    supabase = createRpcClient(db);
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  async function ledgerBalance(studentId: string): Promise<number> {
+    const { rows } = await db.query<{ balance: string }>(
+      "SELECT COALESCE(SUM(amount), 0) AS balance FROM ledger_entries WHERE student_id = $1 AND account = 'student_wallet'",
+      [studentId]
+    );
+    return Number(rows[0].balance);
+  }
+
+  it("posts an adjustment as a balanced journal and records the transaction", async () => {
+    const rider = await createTestRider(db, { balance: 100 });
+
+    const result = await adjustStudentBalance(supabase, rider.studentId, { amount: -40, reason: "Refund reversed" });
+
+    assert.deepEqual([result.balanceBefore, result.balanceAfter], [100, 60]);
+    assert.equal(await getWalletBalance(db, rider.studentId), 60);
+    assert.equal(await ledgerBalance(rider.studentId), 60);
+
+    const { rows: entries } = await db.query<{ account: string; amount: string }>(
+      "SELECT account, amount FROM ledger_entries WHERE transaction_id = $1 ORDER BY account",
+      [result.transactionId]
+    );
+    assert.deepEqual(entries.map((entry) => [entry.account, Number(entry.amount)]), [
+      ["adjustments", 40],
+      ["student_wallet", -40],
+    ]);
+
+    const { rows: [transaction] } = await db.query<{ transaction_type: string; description: string }>(
+      "SELECT transaction_type, description FROM transactions WHERE id = $1",
+      [result.transactionId]
+    );
+    assert.deepEqual(transaction, {
+      transaction_type: "admin_adjustment",
+      description: "Admin adjustment: -40.00 - Refund reversed",
+    });
+  });
+
+  it("refuses an adjustment below zero and an unknown student", async () => {
+    const rider = await createTestRider(db, { balance: 30 });
+
+    await assert.rejects(
+      adjustStudentBalance(supabase, rider.studentId, { amount: -50 }),
+      (error) => error instanceof LedgerError && error.status === 400 && /Current balance is ₹30.00/.test(error.message)
+    );
+    await assert.rejects(
+      adjustStudentBalance(supabase, randomUUID(), { amount: 10 }),
+      (error) => error instanceof LedgerError && error.status === 404
+    );
+    assert.equal(await getWalletBalance(db, rider.studentId), 30);
+  });
+
+  it("rejects balance changes outside the ledger and edits to posted entries", async () => {
+    const rider = await createTestRider(db, { balance: 100 });
+
+    await assert.rejects(
+      db.query("UPDATE students SET wallet_balance = 1000 WHERE id = $1", [rider.studentId]),
+      /can only change through the ledger/
+    );
+    await assert.rejects(
+      db.query(
+        `INSERT INTO students (full_name, enrollment_no, course, department, phone, wallet_balance)
+         VALUES ('Student', $1, 'BSc', 'CS', '9999999999', 50)`,
+        [`EN-${randomUUID()}`]
+      ),
+      /start at zero/
+    );
+    await assert.rejects(
+      db.query("UPDATE ledger_entries SET amount = 0 WHERE student_id = $1", [rider.studentId]),
+      /cannot be changed/
+    );
+    await assert.rejects(
+      db.query(
+        `INSERT INTO ledger_entries (journal_id, account, student_id, amount, description)
+         VALUES (gen_random_uuid(), 'student_wallet', $1, 10, 'One-sided')`,
+        [rider.studentId]
+      ),
+      /does not balance/
+    );
+  });
+
+  it("reports wallets whose stored balance differs from the ledger", async () => {
+    const rider = await createTestRider(db, { balance: 100 });
+    await db.exec("ALTER TABLE students DISABLE TRIGGER guard_wallet_balance");
+    await db.query("UPDATE students SET wallet_balance = 125 WHERE id = $1", [rider.studentId]);
+    await db.exec("ALTER TABLE students ENABLE TRIGGER guard_wallet_balance");
+
+    const run = await reconcileWallets(supabase, "admin");
+
+    assert.equal(run.mismatches, 1);
+    assert.equal(Number(run.total_difference), 25);
+    const { rows: issues } = await db.query<{ student_id: string; difference: string }>(
+      "SELECT student_id, difference FROM wallet_reconciliation_issues WHERE run_id = $1",
+      [run.id]
+    );
+    assert.deepEqual(issues.map((issue) => [issue.student_id, Number(issue.difference)]), [[rider.studentId, 25]]);
+  });
+});
+
+describe("reverseTransaction", () => {
+  let db: PGlite;
+  let supabase: SupabaseClient;
+  let admin: RequestAuth;
+
+  before(async () => {
+    db = await createTestDatabase();
+    supabase = createRpcClient(db);
+    admin = { userId: await createTestUser(db, "admin"), email: "admin@example.com", role: "admin", studentId: null, driverId: null };
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  // Boards the rider's bus and returns the fare's transaction id
+  async function ride(rider: TestRider): Promise<string> {
+    const scanId = randomUUID();
+    const { error } = await supabase.rpc("process_scan", {
+      p_scan_id: scanId,
+      p_student_id: rider.studentId,
+      p_driver_id: rider.driverId,
+      p_pass_nonce: randomUUID(),
+      p_pass_expires_at: new Date(Date.now() + 60 * 1000).toISOString(),
+      p_timezone: "Asia/Kolkata",
+      p_pass_route_id: rider.routeId,
+    });
+    if (error) throw error;
+
+    const { rows: [scan] } = await db.query<{ transaction_id: string }>(
+      "SELECT transaction_id FROM scan_logs WHERE id = $1",
+      [scanId]
+    );
+    return scan.transaction_id;
+  }
+
+  it("refunds a fare, links the refund and marks the fare and its scan reversed", async () => {
+    const rider = await createTestRider(db, { balance: 100 });
+    const fareId = await ride(rider);
+
+    const { refund, balanceAfter } = await reverseTransaction(supabase, fareId, { reason: "Charged twice" }, admin);
+
+    assert.equal(balanceAfter, 100);
+    assert.equal(await getWalletBalance(db, rider.studentId), 100);
+    assert.deepEqual(
+      [refund.transaction_type, Number(refund.amount), refund.refund_of, refund.description],
+      ["refund", 60, fareId, "Refund - Charged twice"]
+    );
+
+    const { rows: [fare] } = await db.query<{ reversed_by: string; reversal_reason: string }>(
+      "SELECT reversed_by, reversal_reason FROM transactions WHERE id = $1",
+      [fareId]
+    );
+    assert.deepEqual(fare, { reversed_by: admin.userId, reversal_reason: "Charged twice" });
+    const { rows: [scan] } = await db.query<{ reversed: boolean }>(
+      "SELECT reversed_at IS NOT NULL AS reversed FROM scan_logs WHERE transaction_id = $1",
+      [fareId]
+    );
+    assert.equal(scan.reversed, true);
+
+    await assert.rejects(
+      reverseTransaction(supabase, fareId, {}, admin),
+      (error) => error instanceof LedgerError && error.status === 409
+    );
+    assert.equal(await getWalletBalance(db, rider.studentId), 100);
+  });
+
+  it("only refunds successful fare deductions", async () => {
+    const rider = await createTestRider(db, { balance: 100 });
+    const { rows: [recharge] } = await db.query<{ id: string }>(
+      `INSERT INTO transactions (student_id, amount, transaction_type, status, balance_before, balance_after)
+       VALUES ($1, 100, 'recharge', 'success', 0, 100) RETURNING id`,
+      [rider.studentId]
+    );
+
+    await assert.rejects(
+      reverseTransaction(supabase, recharge.id, {}, admin),
+      (error) => error instanceof LedgerError && error.message === "Only successful fare deductions can be refunded"
+    );
+    await assert.rejects(
+      reverseTransaction(supabase, randomUUID(), {}, admin),
+      (error) => error instanceof LedgerError && error.status === 404
+    );
+  });
+
+  it("leaves a refunded fare out of the report totals", async () => {
+    const rider = await createTestRider(db, { balance: 100 });
+    await reverseTransaction(supabase, await ride(rider), {}, admin);
+
+    const today = new Intl.DateTimeFormat("en-CA", { timeZone: "Asia/Kolkata" }).format(new Date());
+    const overview = await getReportOverview(supabase, { from: today, to: today, routeId: rider.routeId });
+
+    assert.deepEqual(overview.dailyScans, [{ date: today, success: 1, failed: 0, fares: 0 }]);
+    assert.deepEqual(overview.routes.map((route) => [route.successfulScans, route.fares]), [[1, 0]]);
+  });
+});
@@ -0,0 +1,147 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  BalanceAdjustmentData,
+  ReverseTransactionData,
+  Transaction,
+  WalletReconciliation,
+  WalletReconciliationRun,
+} from "@shared/schema";
+import type { RequestAuth } from "./auth";
+import { getSupabaseAdmin } from "./supabase";
+import { startIntervalJob } from "./interval-job";
+
+const RECONCILE_INTERVAL_MS = parseInt(process.env.WALLET_RECONCILE_INTERVAL_MINUTES || "60", 10) * 60 * 1000;
+
+export class LedgerError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+interface AdjustBalanceRow {
+  status: "success" | "not_found" | "negative_balance";
+  transaction_id?: string;
+  balance_before?: number;
+  balance_after?: number;
+}
+
+// Posts an admin correction to the student's wallet through the ledger via
+// admin_adjust_balance(), which also records the transaction and notifies
+// the student
+export async function adjustStudentBalance(
+  supabase: SupabaseClient,
+  studentId: string,
+  { amount, reason }: BalanceAdjustmentData
+): Promise<{ transactionId: string; balanceBefore: number; balanceAfter: number }> {
+  const { data, error } = await supabase.rpc("admin_adjust_balance", {
+    p_student_id: studentId,
+    p_amount: amount,
+    p_reason: reason ?? null,
+  });
+
+  if (error) throw error;
+
+  const row = data as AdjustBalanceRow;
+
+  switch (row.status) {
+    case "success":
+      return {
+        transactionId: row.transaction_id!,
+        balanceBefore: Number(row.balance_before),
+        balanceAfter: Number(row.balance_after),
+      };
+    case "not_found":
+      throw new LedgerError("Student not found", 404);
+    case "negative_balance":
+      throw new LedgerError(
+        `Balance cannot be negative. Current balance is ₹${Number(row.balance_before).toFixed(2)}`
+      );
+  }
+}
+
+interface ReverseFareRow {
+  status: "success" | "not_found" | "already_reversed" | "not_reversible";
+  refund?: Transaction;
+  balance_after?: number;
+}
+
+// Refunds a fare deduction through reverse_fare_deduction(), which links the
+// refund to it, marks it and its scan reversed and notifies the student.
+// Admins only: students ask for a refund by disputing the fare.
+export async function reverseTransaction(
+  supabase: SupabaseClient,
+  transactionId: string,
+  { reason }: ReverseTransactionData,
+  auth: RequestAuth
+): Promise<{ refund: Transaction; balanceAfter: number }> {
+  const { data, error } = await supabase.rpc("reverse_fare_deduction", {
+    p_transaction_id: transactionId,
+    p_actor_id: auth.userId,
+    p_reason: reason ?? null,
+  });
+
+  if (error) throw error;
+
+  const row = data as ReverseFareRow;
+
+  switch (row.status) {
+    case "success":
+      return { refund: row.refund!, balanceAfter: Number(row.balance_after) };
+    case "not_found":
+      throw new LedgerError("Transaction not found", 404);
+    case "already_reversed":
+      throw new LedgerError("This fare has already been refunded", 409);
+    case "not_reversible":
+      throw new LedgerError("Only successful fare deductions can be refunded");
+  }
+}
+
+export async function reconcileWallets(
+  supabase: SupabaseClient,
+  triggeredBy: WalletReconciliationRun["triggered_by"]
+): Promise<WalletReconciliationRun> {
+  const { data, error } = await supabase.rpc("reconcile_wallets", { p_triggered_by: triggeredBy });
+
+  if (error) throw error;
+  return data as WalletReconciliationRun;
+}
+
+// The latest run with its mismatched students, and the runs before it
+export async function getWalletReconciliation(supabase: SupabaseClient): Promise<WalletReconciliation> {
+  const { data: runs, error: runsError } = await supabase
+    .from("wallet_reconciliation_runs")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(20);
+
+  if (runsError) throw runsError;
+
+  const latest = (runs || [])[0] as WalletReconciliationRun | undefined;
+  if (!latest) {
+    return { latest: null, issues: [], history: [] };
+  }
+
+  const { data: issues, error: issuesError } = await supabase
+    .from("wallet_reconciliation_issues")
+    .select("*, student:students(id, full_name, enrollment_no, wallet_balance)")
+    .eq("run_id", latest.id)
+    .order("difference", { ascending: false });
+
+  if (issuesError) throw issuesError;
+
+  return { latest, issues: issues || [], history: runs || [] };
+}
+
+// Runs reconcile_wallets() on a timer. A mismatch means something changed a
+// balance outside the ledger, so it is logged loudly as well as recorded.
+export function startWalletReconciliation(intervalMs = RECONCILE_INTERVAL_MS): () => void {
+  return startIntervalJob("Wallet reconciliation", async () => {
+    const run = await reconcileWallets(getSupabaseAdmin(), "schedule");
+    if (run.mismatches > 0) {
+      console.error(
+        `Wallet reconciliation: ${run.mismatches} of ${run.students_checked} wallet(s) disagree with the ledger`
+      );
+    }
+  }, intervalMs);
+}
@@ -0,0 +1,225 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PGlite } from "@electric-sql/pglite";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isAllowedPushEndpoint, pushSubscriptionSchema, type NotificationDelivery } from "@shared/schema";
+import {
+  PermanentDeliveryError,
+  deliverDueNotifications,
+  setDeliveryProvider,
+  type OutgoingMessage,
+} from "./notification-delivery";
+import { renderEmail, renderPush, renderSms } from "./notification-templates";
+import { createRpcClient, createTestDatabase, createTestRider } from "./test-database";
+
+describe("notification templates", () => {
+  const notification = { type: "recharge" as const, title: "Wallet Recharged", message: "₹200 has been added <today>." };
+
+  it("renders an email with an escaped body and a link to the page the notification is about", () => {
+    const email = renderEmail(notification);
+
+    assert.equal(email.subject, "SwiftPass: Wallet Recharged");
+    assert.match(email.text, /View your wallet: http:\/\/localhost:5000\/student\/wallet/);
+    assert.match(email.html, /added &lt;today&gt;\./);
+  });
+
+  it("keeps an SMS to one segment, ending with the link", () => {
+    const sms = renderSms({ ...notification, message: "x".repeat(300) });
+
+    assert.equal(sms.length, 160);
+    assert.ok(sms.endsWith("… http://localhost:5000/student/wallet"));
+  });
+
+  it("gives a push the page to open when it is clicked", () => {
+    assert.deepEqual(renderPush({ ...notification, type: "bus_approaching" }), {
+      title: "Wallet Recharged",
+      body: "₹200 has been added <today>.",
+      url: "/student/track-bus",
+      type: "bus_approaching",
+    });
+  });
+});
+
+describe("push endpoints", () => {
+  it("accepts only the major browsers' push services over https", () => {
+    for (const endpoint of [
+      "https://fcm.googleapis.com/fcm/send/abc",
+      "https://updates.push.services.mozilla.com/wpush/v2/abc",
+      "https://web.push.apple.com/abc",
+      "https://wns2-bn3p.notify.windows.com/w/?token=abc",
+    ]) {
+      assert.equal(isAllowedPushEndpoint(endpoint), true, endpoint);
+    }
+
+    for (const endpoint of [
+      "http://fcm.googleapis.com/fcm/send/abc",
+      "https://fcm.googleapis.com:8443/fcm/send/abc",
+      "https://fcm.googleapis.com.example.com/abc",
+      "https://169.254.169.254/latest/meta-data",
+      "not a url",
+    ]) {
+      assert.equal(isAllowedPushEndpoint(endpoint), false, endpoint);
+    }
+
+    const result = pushSubscriptionSchema.safeParse({
+      endpoint: "https://localhost/push",
+      keys: { p256dh: "key", auth: "secret" },
+    });
+    assert.equal(result.success ? null : result.error.issues[0].message, "Unsupported push service");
+  });
+});
+
+describe("notification deliveries", () => {
+  let db: PGlite;
+  let supabase: SupabaseClient;
+  const sent: OutgoingMessage[] = [];
+  let failSends = false;
+
+  before(async () => {
+    db = await createTestDatabase();
+
+    // The delivery loop claims rows through rpc and writes each outcome back
+    // with from().update().eq()
+    const rpcClient = createRpcClient(db);
+    supabase = {
+      rpc: rpcClient.rpc.bind(rpcClient),
+      from: () => ({
+        update: (values: Record<string, unknown>) => ({
+          eq: async (_column: string, id: string) => {
+            const columns = Object.keys(values);
+            await db.query(
+              `UPDATE notification_deliveries SET ${columns.map((column, i) => `${column} = $${i + 2}`).join(", ")} WHERE id = $1`,
+              [id, ...Object.values(values)]
+            );
+            return { error: null };
+          },
+        }),
+      }),
+    } as unknown as SupabaseClient;
+
+    setDeliveryProvider("email", {
+      async send(message) {
+        if (failSends) throw new Error("SMTP unavailable");
+        sent.push(message);
+        return `msg-${sent.length}`;
+      },
+    });
+    setDeliveryProvider("push", {
+      async send({ to }) {
+        if (to.endsWith("/gone")) throw new PermanentDeliveryError("The push subscription has expired");
+        return undefined;
+      },
+    });
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  // A student account with a phone number, optionally with channels chosen
+  // for recharge notifications
+  async function student(rechargeChannels?: string[]): Promise<{ userId: string; email: string }> {
+    const rider = await createTestRider(db);
+    const email = `${rider.studentId}@example.com`;
+    const { rows: [user] } = await db.query<{ id: string }>(
+      "INSERT INTO users (email, role) VALUES ($1, 'student') RETURNING id",
+      [email]
+    );
+    await db.query("UPDATE students SET user_id = $1 WHERE id = $2", [user.id, rider.studentId]);
+    if (rechargeChannels) {
+      await db.query(
+        "INSERT INTO notification_preferences (user_id, type, channels) VALUES ($1, 'recharge', $2)",
+        [user.id, rechargeChannels]
+      );
+    }
+    return { userId: user.id, email };
+  }
+
+  async function notify(userId: string, type: string) {
+    await db.query(
+      "INSERT INTO notifications (user_id, title, message, type) VALUES ($1, 'Wallet Recharged', '₹200 added.', $2)",
+      [userId, type]
+    );
+  }
+
+  async function deliveries(userId: string): Promise<NotificationDelivery[]> {
+    const { rows } = await db.query<NotificationDelivery>(
+      "SELECT * FROM notification_deliveries WHERE user_id = $1 ORDER BY channel",
+      [userId]
+    );
+    return rows;
+  }
+
+  it("queues recharges by email by default and follows the user's chosen channels", async () => {
+    const byDefault = await student();
+    const both = await student(["email", "sms"]);
+    const none = await student([]);
+
+    for (const { userId } of [byDefault, both, none]) {
+      await notify(userId, "recharge");
+    }
+    await notify(byDefault.userId, "scan");
+
+    // No push deliveries: none of these students has subscribed a browser
+    assert.deepEqual((await deliveries(byDefault.userId)).map((d) => [d.channel, d.recipient, d.type]), [
+      ["email", byDefault.email, "recharge"],
+    ]);
+    assert.deepEqual((await deliveries(both.userId)).map((d) => [d.channel, d.recipient]), [
+      ["email", both.email],
+      ["sms", "9999999999"],
+    ]);
+    assert.deepEqual(await deliveries(none.userId), []);
+  });
+
+  it("sends due deliveries once and records the provider's message id", async () => {
+    const { userId } = await student();
+    await notify(userId, "recharge");
+
+    await deliverDueNotifications(supabase);
+    await deliverDueNotifications(supabase);
+
+    const [delivery] = await deliveries(userId);
+    assert.equal(delivery.status, "sent");
+    assert.equal(delivery.attempts, 1);
+    assert.ok(delivery.provider_message_id?.startsWith("msg-"));
+    assert.equal(sent.filter((message) => message.to === delivery.recipient).length, 1);
+  });
+
+  it("retries a failed send later and marks a delivery without a provider failed", async () => {
+    const { userId } = await student(["email", "sms"]);
+    await notify(userId, "recharge");
+
+    failSends = true;
+    try {
+      await deliverDueNotifications(supabase);
+    } finally {
+      failSends = false;
+    }
+
+    const [email, sms] = await deliveries(userId);
+    assert.equal(email.status, "pending");
+    assert.equal(email.last_error, "SMTP unavailable");
+    assert.ok(new Date(email.next_attempt_at).getTime() > Date.now());
+    assert.equal(sms.status, "failed");
+    assert.equal(sms.last_error, "No sms provider is configured");
+  });
+
+  it("pushes to every subscribed browser and drops a subscription the push service rejects", async () => {
+    const { userId } = await student(["push"]);
+    for (const endpoint of ["https://push.example/live", "https://push.example/gone"]) {
+      await db.query(
+        "INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth) VALUES ($1, $2, 'key', 'secret')",
+        [userId, endpoint]
+      );
+    }
+    await notify(userId, "recharge");
+
+    await deliverDueNotifications(supabase);
+
+    const pushes = (await deliveries(userId)).sort((a, b) => a.recipient.localeCompare(b.recipient));
+    assert.deepEqual(pushes.map((d) => [d.channel, d.recipient, d.status, d.attempts]), [
+      ["push", "https://push.example/gone", "failed", 1],
+      ["push", "https://push.example/live", "sent", 1],
+    ]);
+  });
+});
@@ -0,0 +1,334 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import nodemailer from "nodemailer";
+import webpush from "web-push";
+import type {
+  ConfigurableNotificationType,
+  DeliveryFilters,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationPreferences,
+  NotificationPreferencesData,
+} from "@shared/schema";
+import { isAllowedPushEndpoint } from "@shared/schema";
+import { renderEmail, renderPush, renderSms } from "./notification-templates";
+import { getSupabaseAdmin } from "./supabase";
+import { startIntervalJob } from "./interval-job";
+
+const DELIVERY_INTERVAL_MS = parseInt(process.env.NOTIFICATION_DELIVERY_INTERVAL_SECONDS || "15", 10) * 1000;
+const MAX_ATTEMPTS = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || "5", 10);
+const RETRY_BASE_SECONDS = parseInt(process.env.NOTIFICATION_RETRY_BASE_SECONDS || "60", 10);
+
+// Used when a user has not chosen; keep in step with the defaults in
+// queue_notification_deliveries()
+export const DEFAULT_NOTIFICATION_CHANNELS: NotificationPreferences = {
+  recharge: ["email", "push"],
+  deduction: [],
+  scan: [],
+  system: ["email", "push"],
+  bus_approaching: ["push"],
+};
+
+export class NotificationDeliveryError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "NotificationDeliveryError";
+  }
+}
+
+// Thrown by a provider when trying again cannot help, such as a push
+// subscription the browser has dropped
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentDeliveryError";
+  }
+}
+
+export interface OutgoingMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  // Push only: the JSON payload handed to the service worker
+  payload?: string;
+}
+
+// Sends one message and returns the provider's id for it, if any. Throwing
+// marks the attempt failed; it is retried with backoff unless the error is a
+// PermanentDeliveryError.
+export interface DeliveryProvider {
+  send(message: OutgoingMessage): Promise<string | undefined>;
+}
+
+function createSmtpProvider(): DeliveryProvider {
+  const port = parseInt(process.env.SMTP_PORT || "587", 10);
+  const transport = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+  const from = process.env.SMTP_FROM || "SwiftPass <no-reply@swiftpass.local>";
+
+  return {
+    async send({ to, subject, text, html }) {
+      const info = await transport.sendMail({ from, to, subject, text, html });
+      return info.messageId;
+    },
+  };
+}
+
+// A plain JSON SMS API: POST {to, from, body} to /v1/messages with a bearer
+// key, answered with {id}. The fake sink speaks the same API.
+function createHttpSmsProvider(): DeliveryProvider {
+  const apiBase = process.env.SMS_API_BASE!.replace(/\/$/, "");
+
+  return {
+    async send({ to, text }) {
+      const response = await fetch(`${apiBase}/v1/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${process.env.SMS_API_KEY || ""}`,
+        },
+        body: JSON.stringify({ to, from: process.env.SMS_SENDER_ID || "SWIFTP", body: text }),
+      });
+
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(result?.error?.message || `SMS provider returned ${response.status}`);
+      }
+
+      return result?.id;
+    },
+  };
+}
+
+// Web push to one browser; the recipient is its subscription endpoint
+function createWebPushProvider(): DeliveryProvider {
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT || "mailto:admin@swiftpass.local",
+    process.env.VAPID_PUBLIC_KEY!,
+    process.env.VAPID_PRIVATE_KEY!
+  );
+
+  return {
+    async send({ to, payload }) {
+      const supabase = getSupabaseAdmin();
+      const { data: subscription, error } = await supabase
+        .from("push_subscriptions")
+        .select("endpoint, p256dh, auth")
+        .eq("endpoint", to)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!subscription) {
+        throw new PermanentDeliveryError("The browser is no longer subscribed");
+      }
+
+      // Rows saved before endpoints were checked on subscribe are never posted to
+      if (!isAllowedPushEndpoint(subscription.endpoint)) {
+        throw new PermanentDeliveryError("Unsupported push service");
+      }
+
+      try {
+        const result = await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          payload,
+          { TTL: 60 * 60 }
+        );
+
+        await supabase
+          .from("push_subscriptions")
+          .update({ last_used_at: new Date().toISOString() })
+          .eq("endpoint", to);
+
+        return result.headers?.location;
+      } catch (error: any) {
+        // The push service answers 404 or 410 once a subscription has expired
+        // or been revoked; it will never work again
+        if (error.statusCode === 404 || error.statusCode === 410) {
+          await supabase.from("push_subscriptions").delete().eq("endpoint", to);
+          throw new PermanentDeliveryError("The push subscription has expired");
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+const providers: Partial<Record<NotificationChannel, DeliveryProvider | null>> = {};
+
+// Providers are built from the environment on first use; setDeliveryProvider
+// swaps one in for another service
+function getProvider(channel: NotificationChannel): DeliveryProvider | null {
+  if (providers[channel] === undefined) {
+    if (channel === "email") {
+      providers.email = process.env.SMTP_HOST ? createSmtpProvider() : null;
+    } else if (channel === "sms") {
+      providers.sms = process.env.SMS_API_BASE ? createHttpSmsProvider() : null;
+    } else {
+      providers.push =
+        process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY ? createWebPushProvider() : null;
+    }
+  }
+
+  return providers[channel] ?? null;
+}
+
+export function setDeliveryProvider(channel: NotificationChannel, provider: DeliveryProvider) {
+  providers[channel] = provider;
+}
+
+function renderMessage(delivery: NotificationDelivery): OutgoingMessage {
+  if (delivery.channel === "email") {
+    return { to: delivery.recipient, ...renderEmail(delivery) };
+  }
+  if (delivery.channel === "push") {
+    return {
+      to: delivery.recipient,
+      subject: delivery.title,
+      text: delivery.message,
+      payload: JSON.stringify(renderPush(delivery)),
+    };
+  }
+
+  return { to: delivery.recipient, subject: delivery.title, text: renderSms(delivery) };
+}
+
+async function sendDelivery(supabase: SupabaseClient, delivery: NotificationDelivery) {
+  const provider = getProvider(delivery.channel);
+  let update: Partial<NotificationDelivery>;
+
+  if (!provider) {
+    // Retrying will not help until the server is configured
+    update = { status: "failed", last_error: `No ${delivery.channel} provider is configured` };
+  } else {
+    try {
+      const messageId = await provider.send(renderMessage(delivery));
+      update = {
+        status: "sent",
+        provider_message_id: messageId ?? null,
+        sent_at: new Date().toISOString(),
+        last_error: null,
+      };
+    } catch (error: any) {
+      const retryInSeconds = RETRY_BASE_SECONDS * 2 ** (delivery.attempts - 1);
+      update =
+        error instanceof PermanentDeliveryError || delivery.attempts >= MAX_ATTEMPTS
+          ? { status: "failed", last_error: error.message }
+          : {
+              status: "pending",
+              last_error: error.message,
+              next_attempt_at: new Date(Date.now() + retryInSeconds * 1000).toISOString(),
+            };
+    }
+  }
+
+  const { error } = await supabase
+    .from("notification_deliveries")
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq("id", delivery.id);
+
+  if (error) throw error;
+}
+
+// Sends every due delivery once. claim_notification_deliveries() counts the
+// attempt and keeps other server instances off the same rows.
+export async function deliverDueNotifications(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc("claim_notification_deliveries", { p_limit: 50 });
+
+  if (error) throw error;
+
+  const deliveries = (data || []) as NotificationDelivery[];
+
+  for (const delivery of deliveries) {
+    try {
+      await sendDelivery(supabase, delivery);
+    } catch (error) {
+      console.error(`Notification delivery ${delivery.id} error:`, error);
+    }
+  }
+
+  return deliveries.length;
+}
+
+export function startNotificationDelivery(intervalMs = DELIVERY_INTERVAL_MS): () => void {
+  return startIntervalJob("Notification delivery", () => deliverDueNotifications(getSupabaseAdmin()), intervalMs);
+}
+
+export async function getNotificationPreferences(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("type, channels")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+
+  const preferences = { ...DEFAULT_NOTIFICATION_CHANNELS };
+  for (const row of data || []) {
+    preferences[row.type as ConfigurableNotificationType] = row.channels;
+  }
+
+  return preferences;
+}
+
+export async function updateNotificationPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+  data: NotificationPreferencesData
+): Promise<NotificationPreferences> {
+  const updatedAt = new Date().toISOString();
+  const rows = Object.entries(data).map(([type, channels]) => ({
+    user_id: userId,
+    type,
+    channels,
+    updated_at: updatedAt,
+  }));
+
+  if (rows.length > 0) {
+    const { error } = await supabase.from("notification_preferences").upsert(rows);
+    if (error) throw error;
+  }
+
+  return getNotificationPreferences(supabase, userId);
+}
+
+export async function listDeliveries(
+  supabase: SupabaseClient,
+  { status, channel }: DeliveryFilters
+): Promise<NotificationDelivery[]> {
+  let query = supabase.from("notification_deliveries").select("*").order("created_at", { ascending: false });
+
+  if (status) query = query.eq("status", status);
+  if (channel) query = query.eq("channel", channel);
+
+  const { data, error } = await query.limit(200);
+
+  if (error) throw error;
+  return (data || []) as NotificationDelivery[];
+}
+
+// Puts a failed delivery back in the queue with a fresh set of attempts
+export async function retryDelivery(supabase: SupabaseClient, deliveryId: string): Promise<NotificationDelivery> {
+  const { data, error } = await supabase
+    .from("notification_deliveries")
+    .update({ status: "pending", attempts: 0, next_attempt_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq("id", deliveryId)
+    .eq("status", "failed")
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return data as NotificationDelivery;
+
+  const { data: existing } = await supabase.from("notification_deliveries").select("id").eq("id", deliveryId).maybeSingle();
+  if (!existing) {
+    throw new NotificationDeliveryError("Delivery not found", 404);
+  }
+
+  throw new NotificationDeliveryError("Only failed deliveries can be retried", 409);
+}
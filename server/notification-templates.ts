@@ -0,0 +1,80 @@
+import type { NotificationDelivery, NotificationType } from "@shared/schema";
+
+const APP_NAME = "SwiftPass";
+
+// One SMS segment; longer messages are shortened rather than split
+const SMS_MAX_LENGTH = 160;
+
+interface Template {
+  // Where the email's button, the SMS link and a clicked push point
+  path: string;
+  action: string;
+}
+
+const TEMPLATES: Record<NotificationType, Template> = {
+  recharge: { path: "/student/wallet", action: "View your wallet" },
+  deduction: { path: "/student/transactions", action: "View your transactions" },
+  low_balance: { path: "/student/wallet", action: "Recharge your wallet" },
+  scan: { path: "/student/transactions", action: "View your rides" },
+  system: { path: "/student/notifications", action: "View your notifications" },
+  bus_approaching: { path: "/student/track-bus", action: "Track your bus" },
+};
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+type TemplateInput = Pick<NotificationDelivery, "type" | "title" | "message">;
+
+// Absolute link to a page of the app, for emails and auth invites
+export function appUrl(path: string) {
+  return `${(process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "")}${path}`;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function renderEmail({ type, title, message }: TemplateInput): RenderedEmail {
+  const template = TEMPLATES[type] ?? TEMPLATES.system;
+  const link = appUrl(template.path);
+
+  return {
+    subject: `${APP_NAME}: ${title}`,
+    text: `${title}\n\n${message}\n\n${template.action}: ${link}\n\n- ${APP_NAME}`,
+    html: `<div style="font-family: sans-serif; max-width: 480px;">
+  <h2 style="margin-bottom: 8px;">${escapeHtml(title)}</h2>
+  <p>${escapeHtml(message)}</p>
+  <p><a href="${escapeHtml(link)}">${escapeHtml(template.action)}</a></p>
+  <p style="color: #888; font-size: 12px;">You can change which alerts ${APP_NAME} sends by email on your Notifications page.</p>
+</div>`,
+  };
+}
+
+export function renderSms({ type, title, message }: TemplateInput): string {
+  const link = appUrl(TEMPLATES[type]?.path ?? TEMPLATES.system.path);
+  const suffix = ` ${link}`;
+  const text = `${APP_NAME}: ${title}. ${message}`;
+  const room = SMS_MAX_LENGTH - suffix.length;
+
+  return (text.length > room ? `${text.slice(0, room - 1)}…` : text) + suffix;
+}
+
+// The service worker (client/public/sw.js) shows this and opens url when the
+// notification is clicked
+export interface RenderedPush {
+  title: string;
+  body: string;
+  url: string;
+  type: NotificationType;
+}
+
+export function renderPush({ type, title, message }: TemplateInput): RenderedPush {
+  return { title, body: message, url: (TEMPLATES[type] ?? TEMPLATES.system).path, type };
+}
@@ -0,0 +1,255 @@
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { generateKeyPairSync, randomUUID } from "crypto";
+import type { PGlite } from "@electric-sql/pglite";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { processExitScan } from "./occupancy";
+import { PASS_TOKEN_TTL_SECONDS, issuePassToken } from "./pass-tokens";
+import { createTestDatabase, createTestRider, type TestRider } from "./test-database";
+
+const { privateKey } = generateKeyPairSync("ed25519");
+process.env.PASS_TOKEN_PRIVATE_KEY = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+
+interface BoardingRow {
+  student_id: string;
+  alighted: boolean;
+  alight_method: string | null;
+  alighted_stop_id: string | null;
+}
+
+describe("trip occupancy", () => {
+  let db: PGlite;
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  // A bus of `capacity` on a two-stop route with a trip running since an
+  // hour ago, and the ids of `riders` students on that route
+  async function runningTrip(riders: number, capacity = 40) {
+    const rider = await createTestRider(db);
+    await db.query("UPDATE buses SET capacity = $1 WHERE id = $2", [capacity, rider.busId]);
+
+    const stops: string[] = [];
+    for (const sequence of [1, 2]) {
+      const { rows: [stop] } = await db.query<{ id: string }>(
+        "INSERT INTO route_stops (route_id, stop_name, sequence) VALUES ($1, $2, $3) RETURNING id",
+        [rider.routeId, `Stop ${sequence}`, sequence]
+      );
+      stops.push(stop.id);
+    }
+
+    const { rows: [trip] } = await db.query<{ id: string }>(
+      `INSERT INTO active_trips (bus_id, driver_id, route_id, started_at)
+       VALUES ($1, $2, $3, NOW() - INTERVAL '1 hour') RETURNING id`,
+      [rider.busId, rider.driverId, rider.routeId]
+    );
+
+    const students = [rider.studentId];
+    for (let i = 1; i < riders; i++) {
+      const { rows: [student] } = await db.query<{ id: string }>(
+        `INSERT INTO students (full_name, enrollment_no, course, department, phone, bus_route_id)
+         VALUES ('Student', $1, 'BSc', 'CS', '9999999999', $2) RETURNING id`,
+        [`EN-${trip.id}-${i}`, rider.routeId]
+      );
+      students.push(student.id);
+    }
+
+    return { ...rider, tripId: trip.id, stops, students };
+  }
+
+  async function board(rider: TestRider, studentId: string, status = "success") {
+    await db.query(
+      `INSERT INTO scan_logs (student_id, driver_id, bus_id, scan_status, fare_deducted, balance_after_scan)
+       VALUES ($1, $2, $3, $4, 0, 0)`,
+      [studentId, rider.driverId, rider.busId, status]
+    );
+  }
+
+  async function occupancy(tripId: string): Promise<number> {
+    const { rows } = await db.query<{ occupancy: number }>("SELECT occupancy FROM active_trips WHERE id = $1", [tripId]);
+    return rows[0].occupancy;
+  }
+
+  async function boardings(tripId: string): Promise<BoardingRow[]> {
+    const { rows } = await db.query<BoardingRow>(
+      `SELECT student_id, alighted_at IS NOT NULL AS alighted, alight_method, alighted_stop_id
+       FROM trip_boardings WHERE trip_id = $1 ORDER BY boarded_at`,
+      [tripId]
+    );
+    return rows;
+  }
+
+  it("boards students on successful scans only, once each", async () => {
+    const trip = await runningTrip(2);
+
+    await board(trip, trip.students[0]);
+    await board(trip, trip.students[0]);
+    await board(trip, trip.students[1], "insufficient_balance");
+
+    assert.equal(await occupancy(trip.tripId), 1);
+  });
+
+  it("lets a student off with an exit scan at the trip's current stop", async () => {
+    const trip = await runningTrip(1, 30);
+    await board(trip, trip.studentId);
+    await db.query(
+      "INSERT INTO trip_stop_events (trip_id, route_stop_id, status, arrived_at) VALUES ($1, $2, 'arrived', NOW())",
+      [trip.tripId, trip.stops[1]]
+    );
+
+    const { rows: [exit] } = await db.query<{ result: unknown }>(
+      "SELECT record_exit_scan($1, $2) AS result",
+      [trip.studentId, trip.driverId]
+    );
+    const { rows: [again] } = await db.query<{ result: { status: string } }>(
+      "SELECT record_exit_scan($1, $2) AS result",
+      [trip.studentId, trip.driverId]
+    );
+
+    assert.deepEqual(exit.result, { status: "alighted", on_board: 0, capacity: 30 });
+    assert.equal(again.result.status, "not_on_board");
+    assert.deepEqual(await boardings(trip.tripId), [
+      { student_id: trip.studentId, alighted: true, alight_method: "exit_scan", alighted_stop_id: trip.stops[1] },
+    ]);
+  });
+
+  it("drops students off when the bus leaves their stop, and everyone when the trip ends", async () => {
+    const trip = await runningTrip(2);
+    await db.query("UPDATE students SET boarding_stop_id = $1 WHERE id = $2", [trip.stops[1], trip.students[0]]);
+    await board(trip, trip.students[0]);
+    await board(trip, trip.students[1]);
+
+    const { rows: [event] } = await db.query<{ id: string }>(
+      "INSERT INTO trip_stop_events (trip_id, route_stop_id, status, arrived_at) VALUES ($1, $2, 'arrived', NOW()) RETURNING id",
+      [trip.tripId, trip.stops[1]]
+    );
+    await db.query("UPDATE trip_stop_events SET status = 'departed', departed_at = NOW() WHERE id = $1", [event.id]);
+
+    assert.equal(await occupancy(trip.tripId), 1);
+
+    await db.query("UPDATE active_trips SET is_active = FALSE, ended_at = NOW() WHERE id = $1", [trip.tripId]);
+
+    assert.equal(await occupancy(trip.tripId), 0);
+    assert.deepEqual((await boardings(trip.tripId)).map((b) => [b.student_id, b.alight_method]), [
+      [trip.students[0], "stop"],
+      [trip.students[1], "trip_end"],
+    ]);
+  });
+
+  it("turns an exit scan away when the driver has no trip running", async () => {
+    const rider = await createTestRider(db);
+
+    const { rows: [exit] } = await db.query<{ result: unknown }>(
+      "SELECT record_exit_scan($1, $2) AS result",
+      [rider.studentId, rider.driverId]
+    );
+
+    assert.deepEqual(exit.result, { status: "no_trip" });
+  });
+
+  it("reports each trip's peak load against its capacity", async () => {
+    const trip = await runningTrip(3, 2);
+    for (const studentId of trip.students) {
+      await board(trip, studentId);
+    }
+    await db.query("SELECT record_exit_scan($1, $2)", [trip.students[0], trip.driverId]);
+
+    const { rows } = await db.query<{ capacity: number; peak_load: string }>(
+      "SELECT capacity, peak_load FROM trip_peak_loads(CURRENT_DATE - 1, CURRENT_DATE + 1) WHERE trip_id = $1",
+      [trip.tripId]
+    );
+
+    assert.deepEqual(rows.map((row) => [row.capacity, Number(row.peak_load)]), [[2, 3]]);
+  });
+});
+
+// The driver's bus route, the student row cut down to the columns selected
+// from it, and an exit recorded on a running trip
+function fakeSupabase(routeId: string, student: Record<string, unknown> | null) {
+  const selected: string[] = [];
+
+  const client = {
+    from(table: string) {
+      const query = {
+        select(columns: string) {
+          if (table === "students") selected.push(columns);
+          return query;
+        },
+        eq: () => query,
+        single: async () => ({ data: { buses: { route_id: routeId } }, error: null }),
+        maybeSingle: async () => {
+          if (!student) return { data: null, error: null };
+          const columns = selected[selected.length - 1].split(",").map((column) => column.trim());
+          return { data: Object.fromEntries(columns.map((column) => [column, student[column]])), error: null };
+        },
+      };
+      return query;
+    },
+    rpc: async () => ({ data: { status: "alighted", on_board: 4, capacity: 40 }, error: null }),
+  };
+
+  return client as unknown as SupabaseClient;
+}
+
+describe("processExitScan", () => {
+  const routeId = randomUUID();
+  const driverId = randomUUID();
+  const student = {
+    id: randomUUID(),
+    full_name: "Asha Rao",
+    enrollment_no: "EN001",
+    course: "B.Tech",
+    photo_url: null,
+    is_blocked: false,
+    bus_route_id: routeId,
+    phone: "9876543210",
+    wallet_balance: 500,
+  };
+
+  it("records the exit and returns only the roster columns of the student", async () => {
+    const supabase = fakeSupabase(routeId, student);
+    const { token } = issuePassToken(student.id, routeId);
+
+    const result = await processExitScan(supabase, driverId, { pass_token: token });
+
+    assert.equal(result.status, "alighted");
+    assert.deepEqual(result.student, {
+      id: student.id,
+      full_name: "Asha Rao",
+      enrollment_no: "EN001",
+      course: "B.Tech",
+      photo_url: null,
+      is_blocked: false,
+    });
+    assert.deepEqual(result.occupancy, { onBoard: 4, capacity: 40 });
+  });
+
+  it("tells an expired pass code from one for another route", async () => {
+    const supabase = fakeSupabase(routeId, student);
+    const issuedAt = Date.now() - (PASS_TOKEN_TTL_SECONDS + 5) * 1000;
+    mock.method(Date, "now", () => issuedAt);
+    const expired = issuePassToken(student.id, routeId);
+    mock.restoreAll();
+
+    const otherRoute = issuePassToken(student.id, randomUUID());
+
+    assert.equal((await processExitScan(supabase, driverId, { pass_token: expired.token })).status, "expired");
+    assert.equal((await processExitScan(supabase, driverId, { pass_token: otherRoute.token })).status, "wrong_route");
+    assert.equal((await processExitScan(supabase, driverId, { pass_token: "not-a-pass" })).status, "not_found");
+  });
+
+  it("turns away a student who has since moved to another route", async () => {
+    const supabase = fakeSupabase(routeId, { ...student, bus_route_id: randomUUID() });
+    const { token } = issuePassToken(student.id, routeId);
+
+    const result = await processExitScan(supabase, driverId, { pass_token: token });
+
+    assert.equal(result.status, "wrong_route");
+    assert.equal(result.student, undefined);
+  });
+});
@@ -0,0 +1,119 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ExitScanRequest, ExitScanResult, RosterStudent, TripOccupancy } from "@shared/schema";
+import { verifyPassToken } from "./pass-tokens";
+import { ROSTER_COLUMNS, WRONG_ROUTE_MESSAGE } from "./scans";
+
+interface ExitScanRow {
+  status: "alighted" | "not_on_board" | "no_trip";
+  on_board?: number;
+  capacity?: number;
+}
+
+const EXIT_SCAN_MESSAGES: Record<ExitScanRow["status"], string> = {
+  alighted: "Exit recorded",
+  not_on_board: "Student is not on board this trip.",
+  no_trip: "Start a trip before scanning exits.",
+};
+
+// Students on board the driver's running trip against their bus's capacity;
+// null when the driver has no bus or no trip running
+export async function getDriverOccupancy(
+  supabase: SupabaseClient,
+  driverId: string
+): Promise<TripOccupancy | null> {
+  const { data: driver, error: driverError } = await supabase
+    .from("drivers")
+    .select("bus_id, buses(capacity)")
+    .eq("id", driverId)
+    .single<{ bus_id: string | null; buses: { capacity: number | null } | null }>();
+
+  if (driverError) throw driverError;
+
+  const capacity = driver.buses?.capacity;
+  if (!driver.bus_id || capacity == null) return null;
+
+  const { data: trip, error: tripError } = await supabase
+    .from("active_trips")
+    .select("occupancy")
+    .eq("bus_id", driver.bus_id)
+    .eq("is_active", true)
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (tripError) throw tripError;
+  if (!trip) return null;
+
+  return { onBoard: trip.occupancy, capacity };
+}
+
+// Exit scans only need the pass to be genuine and current: nothing is
+// charged, so the nonce is not spent and nothing goes to scan_logs.
+export async function processExitScan(
+  supabase: SupabaseClient,
+  driverId: string,
+  { pass_token }: ExitScanRequest
+): Promise<ExitScanResult> {
+  const { data: driver, error: driverError } = await supabase
+    .from("drivers")
+    .select("buses(route_id)")
+    .eq("id", driverId)
+    .single<{ buses: { route_id: string | null } | null }>();
+
+  if (driverError) throw driverError;
+
+  const verification = verifyPassToken(pass_token, driver.buses?.route_id ?? null);
+
+  if (!verification.valid) {
+    return verification.reason === "wrong_route"
+      ? { status: "wrong_route", message: WRONG_ROUTE_MESSAGE }
+      : { status: "not_found", message: "Invalid pass QR code." };
+  }
+
+  const { payload } = verification;
+
+  if (payload.exp * 1000 < Date.now()) {
+    return {
+      status: "expired",
+      message: "This pass code has expired. Ask the student to refresh their pass.",
+    };
+  }
+
+  // The driver sees no more of the student than the offline roster holds
+  const { data, error: studentError } = await supabase
+    .from("students")
+    .select(`${ROSTER_COLUMNS}, bus_route_id`)
+    .eq("id", payload.sid)
+    .maybeSingle<RosterStudent & { bus_route_id: string | null }>();
+
+  if (studentError) throw studentError;
+  if (!data) {
+    return { status: "not_found", message: "Student not found in the system." };
+  }
+
+  const { bus_route_id: studentRouteId, ...student } = data;
+  if (studentRouteId !== payload.rid) {
+    return { status: "wrong_route", message: WRONG_ROUTE_MESSAGE };
+  }
+
+  const { data: exit, error } = await supabase.rpc("record_exit_scan", {
+    p_student_id: payload.sid,
+    p_driver_id: driverId,
+    p_scanned_at: new Date().toISOString(),
+  });
+
+  if (error) throw error;
+
+  const row = exit as ExitScanRow;
+  const result: ExitScanResult = {
+    status: row.status,
+    student,
+    message: EXIT_SCAN_MESSAGES[row.status],
+  };
+
+  if (row.on_board != null && row.capacity != null) {
+    result.occupancy = { onBoard: Number(row.on_board), capacity: Number(row.capacity) };
+  }
+
+  return result;
+}
@@ -0,0 +1,87 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateKeyPairSync, randomUUID } from "crypto";
+import { PASS_TOKEN_TTL_SECONDS, issuePassToken, verifyPassToken } from "./pass-tokens";
+
+const { privateKey } = generateKeyPairSync("ed25519");
+process.env.PASS_TOKEN_PRIVATE_KEY = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+
+const studentId = randomUUID();
+const routeId = randomUUID();
+
+// Re-encodes the payload of a token, keeping its original signature
+function withPayload(token: string, change: (payload: Record<string, unknown>) => void): string {
+  const [prefix, encoded, signature] = token.split(".");
+  const payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  change(payload);
+  return `${prefix}.${Buffer.from(JSON.stringify(payload)).toString("base64url")}.${signature}`;
+}
+
+describe("pass tokens", () => {
+  it("verifies a token for the route it was issued for", () => {
+    const { token, expiresAt } = issuePassToken(studentId, routeId);
+    const result = verifyPassToken(token, routeId);
+
+    assert.equal(result.valid, true);
+    assert.ok(result.valid);
+    assert.equal(result.payload.sid, studentId);
+    assert.equal(result.payload.rid, routeId);
+    assert.equal(new Date(expiresAt).getTime(), result.payload.exp * 1000);
+  });
+
+  it("expires PASS_TOKEN_TTL_SECONDS after it is issued", () => {
+    const before = Math.floor(Date.now() / 1000);
+    const result = verifyPassToken(issuePassToken(studentId, routeId).token, routeId);
+
+    assert.ok(result.valid);
+    assert.ok(result.payload.exp >= before + PASS_TOKEN_TTL_SECONDS);
+    assert.ok(result.payload.exp <= Math.floor(Date.now() / 1000) + PASS_TOKEN_TTL_SECONDS);
+  });
+
+  it("gives every token its own nonce", () => {
+    const first = verifyPassToken(issuePassToken(studentId, routeId).token, routeId);
+    const second = verifyPassToken(issuePassToken(studentId, routeId).token, routeId);
+
+    assert.ok(first.valid && second.valid);
+    assert.notEqual(first.payload.n, second.payload.n);
+  });
+
+  it("rejects a token scanned on another route", () => {
+    const { token } = issuePassToken(studentId, routeId);
+
+    assert.deepEqual(verifyPassToken(token, randomUUID()), { valid: false, reason: "wrong_route" });
+    assert.deepEqual(verifyPassToken(token, null), { valid: false, reason: "wrong_route" });
+  });
+
+  it("rejects a token issued to a student without a route", () => {
+    const { token } = issuePassToken(studentId, null);
+
+    assert.deepEqual(verifyPassToken(token, routeId), { valid: false, reason: "wrong_route" });
+  });
+
+  it("rejects a token whose payload was changed", () => {
+    const { token } = issuePassToken(studentId, routeId);
+
+    const otherStudent = withPayload(token, (payload) => { payload.sid = randomUUID(); });
+    const extended = withPayload(token, (payload) => { payload.exp = Number(payload.exp) + 3600; });
+
+    assert.deepEqual(verifyPassToken(otherStudent, routeId), { valid: false, reason: "bad_signature" });
+    assert.deepEqual(verifyPassToken(extended, routeId), { valid: false, reason: "bad_signature" });
+  });
+
+  it("rejects a token signed with another key", () => {
+    const { token } = issuePassToken(studentId, routeId);
+    const [prefix, encoded] = token.split(".");
+    const forged = `${prefix}.${encoded}.${Buffer.alloc(64, 1).toString("base64url")}`;
+
+    assert.deepEqual(verifyPassToken(forged, routeId), { valid: false, reason: "bad_signature" });
+  });
+
+  it("rejects malformed codes", () => {
+    const { token } = issuePassToken(studentId, routeId);
+
+    for (const code of ["", "not-a-pass", token.replace(/^SP2\./, "SP1."), `${token}.extra`]) {
+      assert.deepEqual(verifyPassToken(code, routeId), { valid: false, reason: "malformed" });
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { createPrivateKey, createPublicKey, randomBytes, sign, verify, type KeyObject } from "crypto";
+import type { PassToken } from "@shared/schema";
+
+const TOKEN_PREFIX = "SP2";
+
+// How long an issued pass QR stays valid; the pass page refreshes well before this
+export const PASS_TOKEN_TTL_SECONDS = 60;
+
+export interface PassTokenPayload {
+  sid: string;
+  rid: string | null;
+  exp: number;
+  n: string;
+}
+
+export type PassTokenVerification =
+  | { valid: true; payload: PassTokenPayload }
+  | { valid: false; reason: "malformed" | "bad_signature" | "wrong_route" };
+
+let signingKey: KeyObject | null = null;
+let verificationKey: KeyObject | null = null;
+
+// Tokens are signed with an Ed25519 key that only the server holds. Driver
+// devices are given the public half to verify passes offline, which lets
+// them check a pass but never issue one.
+function getSigningKey(): KeyObject {
+  if (signingKey) return signingKey;
+
+  const pem = process.env.PASS_TOKEN_PRIVATE_KEY;
+  if (!pem) {
+    throw new Error("Missing PASS_TOKEN_PRIVATE_KEY");
+  }
+
+  const key = createPrivateKey(pem.replace(/\\n/g, "\n"));
+  if (key.asymmetricKeyType !== "ed25519") {
+    throw new Error("PASS_TOKEN_PRIVATE_KEY must be an Ed25519 private key");
+  }
+
+  signingKey = key;
+  return key;
+}
+
+function getVerificationKey(): KeyObject {
+  if (!verificationKey) {
+    verificationKey = createPublicKey(getSigningKey());
+  }
+  return verificationKey;
+}
+
+// SPKI DER, base64url encoded, as imported by crypto.subtle on the driver device
+export function getPassTokenPublicKey(): string {
+  return getVerificationKey().export({ type: "spki", format: "der" }).toString("base64url");
+}
+
+function signingInput(encodedPayload: string): Buffer {
+  return Buffer.from(`${TOKEN_PREFIX}.${encodedPayload}`);
+}
+
+export function issuePassToken(studentId: string, routeId: string | null): PassToken {
+  const payload: PassTokenPayload = {
+    sid: studentId,
+    rid: routeId,
+    exp: Math.floor(Date.now() / 1000) + PASS_TOKEN_TTL_SECONDS,
+    n: randomBytes(12).toString("base64url"),
+  };
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = sign(null, signingInput(encodedPayload), getSigningKey()).toString("base64url");
+
+  return {
+    token: `${TOKEN_PREFIX}.${encodedPayload}.${signature}`,
+    expiresAt: new Date(payload.exp * 1000).toISOString(),
+  };
+}
+
+// Checks the token's shape, its signature and that it was issued for the
+// route being scanned on. Expiry and replay are decided by process_scan() so
+// that rejected scans are logged in the same transaction.
+export function verifyPassToken(token: string, routeId: string | null): PassTokenVerification {
+  const parts = token.trim().split(".");
+  if (parts.length !== 3 || parts[0] !== TOKEN_PREFIX) {
+    return { valid: false, reason: "malformed" };
+  }
+
+  const [, encodedPayload, signature] = parts;
+
+  if (!verify(null, signingInput(encodedPayload), getVerificationKey(), Buffer.from(signature, "base64url"))) {
+    return { valid: false, reason: "bad_signature" };
+  }
+
+  let payload: PassTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+  } catch {
+    return { valid: false, reason: "malformed" };
+  }
+
+  if (
+    !payload ||
+    typeof payload.sid !== "string" ||
+    typeof payload.exp !== "number" ||
+    typeof payload.n !== "string" ||
+    (payload.rid !== null && typeof payload.rid !== "string")
+  ) {
+    return { valid: false, reason: "malformed" };
+  }
+
+  if (routeId === null || payload.rid !== routeId) {
+    return { valid: false, reason: "wrong_route" };
+  }
+
+  return { valid: true, payload };
+}
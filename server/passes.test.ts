@@ -0,0 +1,131 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import type { PGlite } from "@electric-sql/pglite";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PassError, purchasePass } from "./passes";
+import { createRpcClient, createTestDatabase, createTestRider, getWalletBalance, type TestRider } from "./test-database";
+
+// Today and a date `days` later in Asia/Kolkata, as YYYY-MM-DD
+function localDate(days = 0): string {
+  const date = new Date(Date.now() + days * 24 * 3600 * 1000);
+  return date.toLocaleDateString("en-CA", { timeZone: "Asia/Kolkata" });
+}
+
+describe("purchase_pass", () => {
+  let db: PGlite;
+  let supabase: SupabaseClient;
+
+  before(async () => {
+    db = await createTestDatabase();
+    supabase = createRpcClient(db);
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  async function createProduct(routeId: string, price = 900, durationDays = 30, isActive = true): Promise<string> {
+    const { rows: [product] } = await db.query<{ id: string }>(
+      `INSERT INTO pass_products (route_id, name, period, duration_days, price, is_active)
+       VALUES ($1, 'Monthly pass', 'monthly', $2, $3, $4) RETURNING id`,
+      [routeId, durationDays, price, isActive]
+    );
+    return product.id;
+  }
+
+  async function rejection(rider: TestRider, productId: string): Promise<PassError> {
+    try {
+      await purchasePass(supabase, rider.studentId, { product_id: productId });
+    } catch (error) {
+      assert.ok(error instanceof PassError);
+      return error;
+    }
+    assert.fail("purchase was not rejected");
+  }
+
+  it("charges the wallet and starts the pass today", async () => {
+    const rider = await createTestRider(db, { balance: 1000 });
+    const productId = await createProduct(rider.routeId);
+
+    const { subscription, balanceAfter } = await purchasePass(supabase, rider.studentId, { product_id: productId });
+
+    assert.equal(balanceAfter, 100);
+    assert.equal(await getWalletBalance(db, rider.studentId), 100);
+    assert.equal(subscription.valid_from, localDate());
+    assert.equal(subscription.valid_until, localDate(29));
+
+    const { rows } = await db.query<{ transaction_type: string; amount: string }>(
+      "SELECT transaction_type, amount FROM transactions WHERE student_id = $1",
+      [rider.studentId]
+    );
+    assert.deepEqual(rows.map((row) => [row.transaction_type, Number(row.amount)]), [["pass_purchase", 900]]);
+  });
+
+  it("starts a renewal the day after the current pass ends", async () => {
+    const rider = await createTestRider(db, { balance: 1000 });
+    const productId = await createProduct(rider.routeId, 400, 10);
+
+    await purchasePass(supabase, rider.studentId, { product_id: productId });
+    const { subscription } = await purchasePass(supabase, rider.studentId, { product_id: productId });
+
+    assert.equal(subscription.valid_from, localDate(10));
+    assert.equal(subscription.valid_until, localDate(19));
+  });
+
+  it("refuses a pass the balance cannot cover", async () => {
+    const rider = await createTestRider(db, { balance: 500 });
+    const productId = await createProduct(rider.routeId);
+
+    const error = await rejection(rider, productId);
+
+    assert.equal(error.status, 400);
+    assert.match(error.message, /Insufficient balance/);
+    assert.equal(await getWalletBalance(db, rider.studentId), 500);
+  });
+
+  it("refuses a pass for another route, an inactive one and one that does not exist", async () => {
+    const rider = await createTestRider(db, { balance: 1000 });
+    const other = await createTestRider(db);
+
+    assert.equal((await rejection(rider, await createProduct(other.routeId))).message, "This pass is for a different route");
+    assert.equal((await rejection(rider, await createProduct(rider.routeId, 900, 30, false))).status, 404);
+    assert.equal((await rejection(rider, randomUUID())).status, 404);
+    assert.equal(await getWalletBalance(db, rider.studentId), 1000);
+  });
+
+  it("refuses a blocked student", async () => {
+    const rider = await createTestRider(db, { balance: 1000 });
+    await db.query("UPDATE students SET is_blocked = TRUE WHERE id = $1", [rider.studentId]);
+
+    const error = await rejection(rider, await createProduct(rider.routeId));
+
+    assert.equal(error.status, 403);
+  });
+
+  it("lets a pass holder ride without a fare, within the ride limit", async () => {
+    const rider = await createTestRider(db, { balance: 1000 });
+    await purchasePass(supabase, rider.studentId, { product_id: await createProduct(rider.routeId) });
+
+    const rides = [];
+    for (let i = 0; i < 3; i++) {
+      const { data, error } = await supabase.rpc("process_scan", {
+        p_scan_id: randomUUID(),
+        p_student_id: rider.studentId,
+        p_driver_id: rider.driverId,
+        p_pass_nonce: randomUUID(),
+        p_pass_expires_at: new Date(Date.now() + 60 * 1000).toISOString(),
+        p_timezone: "Asia/Kolkata",
+        p_pass_route_id: rider.routeId,
+      });
+      if (error) throw error;
+      rides.push(data as { status: string; fare_deducted: number; fare_rule: string | null });
+    }
+
+    assert.deepEqual(
+      rides.map((ride) => [ride.status, Number(ride.fare_deducted), ride.fare_rule]),
+      [["success", 0, "pass"], ["success", 0, "pass"], ["limit_exceeded", 0, null]]
+    );
+    assert.equal(await getWalletBalance(db, rider.studentId), 100);
+  });
+});
@@ -0,0 +1,53 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PassSubscription, PurchasePassData } from "@shared/schema";
+import { SCAN_TIMEZONE } from "./scans";
+
+export class PassError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "PassError";
+  }
+}
+
+interface PurchasePassRow {
+  status: "success" | "not_found" | "unavailable" | "blocked" | "wrong_route" | "insufficient_balance";
+  subscription?: PassSubscription;
+  price?: number;
+  balance_after?: number;
+}
+
+// Debits the wallet and creates the subscription in one database transaction
+// via the purchase_pass() function. Days are counted in the scan timezone so
+// the pass covers the same days process_scan() checks it against.
+export async function purchasePass(
+  supabase: SupabaseClient,
+  studentId: string,
+  { product_id }: PurchasePassData
+): Promise<{ subscription: PassSubscription; balanceAfter: number }> {
+  const { data, error } = await supabase.rpc("purchase_pass", {
+    p_student_id: studentId,
+    p_product_id: product_id,
+    p_timezone: SCAN_TIMEZONE,
+  });
+
+  if (error) throw error;
+
+  const row = data as PurchasePassRow;
+
+  switch (row.status) {
+    case "success":
+      return { subscription: row.subscription!, balanceAfter: Number(row.balance_after) };
+    case "not_found":
+      throw new PassError("Student not found", 404);
+    case "unavailable":
+      throw new PassError("This pass is no longer available", 404);
+    case "blocked":
+      throw new PassError("Your pass is blocked. Contact administrator.", 403);
+    case "wrong_route":
+      throw new PassError("This pass is for a different route");
+    case "insufficient_balance":
+      throw new PassError(
+        `Insufficient balance. Need ₹${Number(row.price)}, have ₹${Number(row.balance_after).toFixed(2)}`
+      );
+  }
+}
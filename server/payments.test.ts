@@ -0,0 +1,191 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac, randomUUID } from "crypto";
+import type { PGlite } from "@electric-sql/pglite";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PaymentError, handlePaymentWebhook, verifyPayment } from "./payments";
+import { createRpcClient, createTestDatabase, createTestRider, getWalletBalance } from "./test-database";
+
+process.env.RAZORPAY_KEY_ID = "rzp_test_key";
+process.env.RAZORPAY_KEY_SECRET = "key-secret";
+process.env.RAZORPAY_WEBHOOK_SECRET = "webhook-secret";
+
+const sign = (secret: string, data: string) => createHmac("sha256", secret).update(data).digest("hex");
+
+// Fails the test if a rejected request reaches the database
+const unreachable = {
+  rpc: () => {
+    throw new Error("rpc called for a request with a bad signature");
+  },
+} as unknown as SupabaseClient;
+
+function webhook(event: string, orderId: string, amountPaise: number) {
+  const body = Buffer.from(JSON.stringify({
+    event,
+    payload: { payment: { entity: { id: `pay_${randomUUID()}`, order_id: orderId, amount: amountPaise } } },
+  }));
+  return { body, signature: sign("webhook-secret", body.toString("utf8")) };
+}
+
+describe("payment signatures", () => {
+  it("rejects a checkout callback signed with the wrong secret", async () => {
+    const request = { order_id: "order_1", payment_id: "pay_1", signature: sign("other-secret", "order_1|pay_1") };
+
+    await assert.rejects(verifyPayment(unreachable, request), (error: unknown) => {
+      assert.ok(error instanceof PaymentError);
+      assert.equal(error.message, "Invalid payment signature");
+      return true;
+    });
+  });
+
+  it("rejects a checkout callback whose signature is for another payment", async () => {
+    const request = { order_id: "order_1", payment_id: "pay_2", signature: sign("key-secret", "order_1|pay_1") };
+
+    await assert.rejects(verifyPayment(unreachable, request), PaymentError);
+  });
+
+  it("rejects webhooks that are unsigned, badly signed or altered", async () => {
+    const { body, signature } = webhook("payment.captured", "order_1", 10000);
+    const altered = Buffer.from(body.toString("utf8").replace("10000", "99999"));
+
+    for (const [rawBody, header] of [
+      [body, undefined],
+      [body, sign("key-secret", body.toString("utf8"))],
+      [body, signature.slice(0, -2)],
+      [altered, signature],
+      [undefined, signature],
+    ] as const) {
+      await assert.rejects(handlePaymentWebhook(unreachable, rawBody, header), (error: unknown) => {
+        assert.ok(error instanceof PaymentError);
+        assert.equal(error.status, 401);
+        return true;
+      });
+    }
+  });
+});
+
+describe("payment settlement", () => {
+  let db: PGlite;
+  let supabase: SupabaseClient;
+
+  before(async () => {
+    db = await createTestDatabase();
+    supabase = createRpcClient(db);
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  // A pending ₹amount recharge, as createPaymentOrder() records it
+  async function createOrder(amount: number, createdAt = new Date()) {
+    const { studentId } = await createTestRider(db);
+    const orderId = `order_${randomUUID()}`;
+
+    await db.query(
+      `INSERT INTO transactions (student_id, amount, transaction_type, status, order_id, balance_before, balance_after, created_at)
+       VALUES ($1, $2, 'recharge', 'pending', $3, 0, 0, $4)`,
+      [studentId, amount, orderId, createdAt.toISOString()]
+    );
+    return { studentId, orderId };
+  }
+
+  async function orderStatus(orderId: string) {
+    const { rows } = await db.query<{ status: string }>("SELECT status FROM transactions WHERE order_id = $1", [orderId]);
+    return rows[0].status;
+  }
+
+  it("credits a capture once however often it is delivered", async () => {
+    const { studentId, orderId } = await createOrder(250);
+    const { body, signature } = webhook("payment.captured", orderId, 25000);
+
+    const first = await handlePaymentWebhook(supabase, body, signature);
+    const repeat = await handlePaymentWebhook(supabase, body, signature);
+    const paid = webhook("order.paid", orderId, 25000);
+    const orderPaid = await handlePaymentWebhook(supabase, paid.body, paid.signature);
+
+    assert.equal(first.already_settled, false);
+    assert.equal(repeat.already_settled, true);
+    assert.equal(orderPaid.already_settled, true);
+    assert.equal(await getWalletBalance(db, studentId), 250);
+    assert.equal(await orderStatus(orderId), "success");
+  });
+
+  it("credits a checkout callback and a webhook for the same order once", async () => {
+    const { studentId, orderId } = await createOrder(100);
+    const paymentId = `pay_${randomUUID()}`;
+
+    await verifyPayment(supabase, { order_id: orderId, payment_id: paymentId, signature: sign("key-secret", `${orderId}|${paymentId}`) });
+    const { body, signature } = webhook("payment.captured", orderId, 10000);
+    const late = await handlePaymentWebhook(supabase, body, signature);
+
+    assert.equal(late.already_settled, true);
+    assert.equal(await getWalletBalance(db, studentId), 100);
+  });
+
+  it("still credits a capture after a failed attempt on the same order", async () => {
+    const { studentId, orderId } = await createOrder(150);
+
+    const failed = webhook("payment.failed", orderId, 15000);
+    await handlePaymentWebhook(supabase, failed.body, failed.signature);
+    assert.equal(await orderStatus(orderId), "failed");
+
+    const captured = webhook("payment.captured", orderId, 15000);
+    const result = await handlePaymentWebhook(supabase, captured.body, captured.signature);
+
+    assert.equal(result.already_settled, false);
+    assert.equal(await orderStatus(orderId), "success");
+    assert.equal(await getWalletBalance(db, studentId), 150);
+  });
+
+  it("does not let a failure undo a capture", async () => {
+    const { studentId, orderId } = await createOrder(80);
+
+    const captured = webhook("payment.captured", orderId, 8000);
+    await handlePaymentWebhook(supabase, captured.body, captured.signature);
+    const failed = webhook("payment.failed", orderId, 8000);
+    const result = await handlePaymentWebhook(supabase, failed.body, failed.signature);
+
+    assert.equal(result.already_settled, true);
+    assert.equal(await orderStatus(orderId), "success");
+    assert.equal(await getWalletBalance(db, studentId), 80);
+  });
+
+  it("fails a capture for a different amount than the order", async () => {
+    const { studentId, orderId } = await createOrder(200);
+    const { body, signature } = webhook("payment.captured", orderId, 100);
+
+    const result = await handlePaymentWebhook(supabase, body, signature);
+
+    assert.equal(result.status, "failed");
+    assert.equal(await getWalletBalance(db, studentId), 0);
+  });
+
+  it("reports an unknown order from the checkout callback", async () => {
+    const orderId = `order_${randomUUID()}`;
+    const request = { order_id: orderId, payment_id: "pay_1", signature: sign("key-secret", `${orderId}|pay_1`) };
+
+    await assert.rejects(verifyPayment(supabase, request), (error: unknown) => {
+      assert.ok(error instanceof PaymentError);
+      assert.equal(error.status, 404);
+      return true;
+    });
+  });
+
+  it("expires stale pending orders, which a late capture still credits", async () => {
+    const stale = await createOrder(120, new Date(Date.now() - 2 * 3600 * 1000));
+    const fresh = await createOrder(120);
+
+    const { data: expired } = await supabase.rpc("expire_pending_payments", { p_older_than: "1 hour" });
+
+    assert.ok(Number(expired) >= 1);
+    assert.equal(await orderStatus(stale.orderId), "failed");
+    assert.equal(await orderStatus(fresh.orderId), "pending");
+
+    const { body, signature } = webhook("payment.captured", stale.orderId, 12000);
+    await handlePaymentWebhook(supabase, body, signature);
+
+    assert.equal(await orderStatus(stale.orderId), "success");
+    assert.equal(await getWalletBalance(db, stale.studentId), 120);
+  });
+});
@@ -0,0 +1,300 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  PaymentCheckoutMode,
+  PaymentOrder,
+  RechargeData,
+  VerifyPaymentRequest,
+} from "@shared/schema";
+import { getSupabaseAdmin } from "./supabase";
+import { startIntervalJob } from "./interval-job";
+
+const RAZORPAY_API_BASE = "https://api.razorpay.com";
+// Most a saved auto-recharge token may be charged at once: the recharge limit, in paise
+const MANDATE_MAX_AMOUNT = 10000 * 100;
+const PAYMENT_EXPIRY_MINUTES = parseInt(process.env.PAYMENT_EXPIRY_MINUTES || "60", 10);
+const PAYMENT_EXPIRY_INTERVAL_MS = 10 * 60 * 1000;
+
+export class PaymentError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+interface GatewayConfig {
+  apiBase: string;
+  keyId: string;
+  keySecret: string;
+  webhookSecret: string;
+  mode: PaymentCheckoutMode;
+}
+
+// RAZORPAY_API_BASE can point at the local fake gateway (server/fake-gateway.ts)
+// for development and tests; the client then pays through it instead of checkout.js.
+function getGatewayConfig(): GatewayConfig {
+  const keyId = process.env.RAZORPAY_KEY_ID;
+  const keySecret = process.env.RAZORPAY_KEY_SECRET;
+  const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
+
+  if (!keyId || !keySecret || !webhookSecret) {
+    throw new Error("Missing payment gateway credentials");
+  }
+
+  const apiBase = (process.env.RAZORPAY_API_BASE || RAZORPAY_API_BASE).replace(/\/$/, "");
+
+  return {
+    apiBase,
+    keyId,
+    keySecret,
+    webhookSecret,
+    mode: apiBase === RAZORPAY_API_BASE ? "razorpay" : "fake",
+  };
+}
+
+async function gatewayRequest<T = any>(
+  config: GatewayConfig,
+  path: string,
+  { method = "POST", body }: { method?: string; body?: unknown } = {}
+): Promise<T> {
+  const response = await fetch(`${config.apiBase}${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Basic ${Buffer.from(`${config.keyId}:${config.keySecret}`).toString("base64")}`,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new PaymentError(result?.error?.description || "Payment gateway request failed", 502);
+  }
+
+  return result as T;
+}
+
+function hmacMatches(secret: string, data: string | Buffer, signature: string): boolean {
+  const expected = Buffer.from(createHmac("sha256", secret).update(data).digest("hex"));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+interface SettlementRow {
+  found: boolean;
+  already_settled?: boolean;
+  status?: "success" | "failed";
+  transaction_id?: string;
+  balance_after?: number;
+}
+
+async function settlePayment(
+  supabase: SupabaseClient,
+  orderId: string,
+  paymentId: string | null,
+  success: boolean,
+  amountPaise?: number
+): Promise<SettlementRow> {
+  const { data, error } = await supabase.rpc("settle_payment", {
+    p_order_id: orderId,
+    p_payment_id: paymentId,
+    p_success: success,
+    p_amount_paise: amountPaise ?? null,
+  });
+
+  if (error) throw error;
+  return data as SettlementRow;
+}
+
+interface OrderOptions {
+  // Gateway customer to save a recurring token for (mandate setup) or to
+  // charge through it (auto-recharge)
+  customerId?: string;
+  saveToken?: boolean;
+  autoRecharge?: boolean;
+}
+
+export async function createPaymentOrder(
+  supabase: SupabaseClient,
+  studentId: string,
+  { amount }: RechargeData,
+  { customerId, saveToken = false, autoRecharge = false }: OrderOptions = {}
+): Promise<PaymentOrder> {
+  const config = getGatewayConfig();
+
+  const { data: student, error: studentError } = await supabase
+    .from("students")
+    .select("id, wallet_balance")
+    .eq("id", studentId)
+    .single();
+
+  if (studentError || !student) {
+    throw new PaymentError("Student not found", 404);
+  }
+
+  const order = await gatewayRequest<{ id: string }>(config, "/v1/orders", {
+    body: {
+      amount: Math.round(amount * 100),
+      currency: "INR",
+      receipt: `wallet_${student.id.slice(0, 8)}_${Date.now()}`,
+      notes: { student_id: student.id },
+      ...(customerId ? { customer_id: customerId } : {}),
+      ...(saveToken ? { method: "card", token: { max_amount: MANDATE_MAX_AMOUNT, frequency: "as_presented" } } : {}),
+    },
+  });
+
+  const { data: tx, error: txError } = await supabase
+    .from("transactions")
+    .insert({
+      student_id: student.id,
+      amount,
+      transaction_type: "recharge",
+      currency: "INR",
+      payment_gateway: "razorpay",
+      order_id: order.id,
+      status: "pending",
+      balance_before: student.wallet_balance,
+      balance_after: student.wallet_balance,
+      description: autoRecharge ? "Auto-recharge" : "Wallet recharge",
+      auto_recharge: autoRecharge,
+    })
+    .select("id")
+    .single();
+
+  if (txError) throw txError;
+
+  return {
+    transactionId: tx.id,
+    orderId: order.id,
+    amount,
+    currency: "INR",
+    checkout: {
+      mode: config.mode,
+      keyId: config.keyId,
+      gatewayUrl: config.apiBase,
+      ...(saveToken ? { customerId, recurring: true } : {}),
+    },
+  };
+}
+
+export async function createGatewayCustomer(name: string, email: string, contact: string): Promise<string> {
+  const customer = await gatewayRequest<{ id: string }>(getGatewayConfig(), "/v1/customers", {
+    body: { name, email, contact, fail_existing: "0" },
+  });
+  return customer.id;
+}
+
+// The token a mandate-setup payment saved, once the payment has gone through
+export async function fetchPaymentToken(paymentId: string): Promise<string | null> {
+  const payment = await gatewayRequest<{ token_id?: string | null }>(
+    getGatewayConfig(),
+    `/v1/payments/${encodeURIComponent(paymentId)}`,
+    { method: "GET" }
+  );
+  return payment.token_id ?? null;
+}
+
+export interface SavedToken {
+  customerId: string;
+  tokenId: string;
+  email: string;
+  contact: string;
+}
+
+// Charges an auto-recharge order to the student's saved token. The gateway
+// settles it through the webhook like any other payment; if the charge can't
+// even be started the order is failed here.
+export async function chargeSavedToken(supabase: SupabaseClient, order: PaymentOrder, token: SavedToken) {
+  try {
+    await gatewayRequest(getGatewayConfig(), "/v1/payments/create/recurring", {
+      body: {
+        email: token.email,
+        contact: token.contact,
+        amount: Math.round(order.amount * 100),
+        currency: order.currency,
+        order_id: order.orderId,
+        customer_id: token.customerId,
+        token: token.tokenId,
+        recurring: "1",
+        description: "SwiftPass wallet auto-recharge",
+      },
+    });
+  } catch (error) {
+    await settlePayment(supabase, order.orderId, null, false);
+    throw error;
+  }
+}
+
+export async function deleteGatewayToken(customerId: string, tokenId: string) {
+  await gatewayRequest(
+    getGatewayConfig(),
+    `/v1/customers/${encodeURIComponent(customerId)}/tokens/${encodeURIComponent(tokenId)}`,
+    { method: "DELETE" }
+  );
+}
+
+// Checkout callback: the gateway signs "order_id|payment_id" with the key secret
+export async function verifyPayment(
+  supabase: SupabaseClient,
+  { order_id, payment_id, signature }: VerifyPaymentRequest
+) {
+  const config = getGatewayConfig();
+
+  if (!hmacMatches(config.keySecret, `${order_id}|${payment_id}`, signature)) {
+    throw new PaymentError("Invalid payment signature");
+  }
+
+  const settlement = await settlePayment(supabase, order_id, payment_id, true);
+  if (!settlement.found) {
+    throw new PaymentError("Unknown payment order", 404);
+  }
+
+  return settlement;
+}
+
+// Webhooks are signed over the raw request body with the webhook secret.
+// Duplicate deliveries are harmless: settle_payment() credits an order once,
+// and a payment.failed only marks the order failed until a retry captures.
+export async function handlePaymentWebhook(
+  supabase: SupabaseClient,
+  rawBody: Buffer | undefined,
+  signature: string | undefined
+) {
+  const config = getGatewayConfig();
+
+  if (!rawBody || !signature || !hmacMatches(config.webhookSecret, rawBody, signature)) {
+    throw new PaymentError("Invalid webhook signature", 401);
+  }
+
+  const event = JSON.parse(rawBody.toString("utf8"));
+  const payment = event?.payload?.payment?.entity;
+
+  if (!payment?.order_id) {
+    return { handled: false };
+  }
+
+  switch (event.event) {
+    case "payment.captured":
+    case "order.paid":
+      return { handled: true, ...(await settlePayment(supabase, payment.order_id, payment.id, true, payment.amount)) };
+    case "payment.failed":
+      return { handled: true, ...(await settlePayment(supabase, payment.order_id, payment.id, false)) };
+    default:
+      return { handled: false };
+  }
+}
+
+// Fails recharges left pending for PAYMENT_EXPIRY_MINUTES so the student sees
+// they did not go through; a late capture still credits them
+export function startPaymentExpiry(intervalMs = PAYMENT_EXPIRY_INTERVAL_MS): () => void {
+  return startIntervalJob("Payment expiry", async () => {
+    const { data, error } = await getSupabaseAdmin().rpc("expire_pending_payments", {
+      p_older_than: `${PAYMENT_EXPIRY_MINUTES} minutes`,
+    });
+
+    if (error) throw error;
+    if (Number(data) > 0) {
+      console.log(`Expired ${data} pending payment order(s)`);
+    }
+  }, intervalMs);
+}
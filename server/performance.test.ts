@@ -0,0 +1,145 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PGlite } from "@electric-sql/pglite";
+import { createTestDatabase, createTestRider, type TestRider } from "./test-database";
+
+interface PerformanceRow {
+  trips: string;
+  scheduled_trips: string;
+  timed_stops: string;
+  on_time_stops: string;
+  avg_delay_seconds: string | null;
+  median_duration_seconds: string | null;
+}
+
+// Times on Friday 2026-03-06 in Asia/Kolkata
+const at = (time: string) => `2026-03-06T${time}+05:30`;
+
+describe("performance functions", () => {
+  let db: PGlite;
+  let rider: TestRider;
+  let stops: string[];
+
+  before(async () => {
+    db = await createTestDatabase();
+    rider = await createTestRider(db);
+
+    stops = [];
+    for (const [sequence, offset] of [[1, 0], [2, 10], [3, 20]]) {
+      const { rows: [stop] } = await db.query<{ id: string }>(
+        `INSERT INTO route_stops (route_id, stop_name, sequence, scheduled_offset_minutes)
+         VALUES ($1, $2, $3, $4) RETURNING id`,
+        [rider.routeId, `Stop ${sequence}`, sequence, offset]
+      );
+      stops.push(stop.id);
+    }
+
+    await db.query(
+      "INSERT INTO timetable_slots (route_id, direction, departure_time) VALUES ($1, 'morning', '07:30')",
+      [rider.routeId]
+    );
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  // A finished trip with [arrived_at, departed_at] at each stop it has an
+  // event for; one without either time was never reached
+  async function recordTrip(startedAt: string, endedAt: string, visits: [number, string | null, string | null][]) {
+    const { rows: [trip] } = await db.query<{ id: string }>(
+      `INSERT INTO active_trips (bus_id, driver_id, route_id, started_at, ended_at, is_active)
+       VALUES ($1, $2, $3, $4, $5, FALSE) RETURNING id`,
+      [rider.busId, rider.driverId, rider.routeId, startedAt, endedAt]
+    );
+
+    for (const [stop, arrivedAt, departedAt] of visits) {
+      await db.query(
+        `INSERT INTO trip_stop_events (trip_id, route_stop_id, status, arrived_at, departed_at)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [trip.id, stops[stop], arrivedAt || departedAt ? "departed" : "pending", arrivedAt, departedAt]
+      );
+    }
+  }
+
+  it("times each stop against the timetable and counts those in the on-time window", async () => {
+    // Scheduled 07:30: a minute late away, six minutes late at stop 2, on time at stop 3
+    await recordTrip(at("07:28:00"), at("07:55:00"), [
+      [0, null, at("07:31:00")],
+      [1, at("07:46:00"), at("07:47:00")],
+      [2, at("07:50:00"), null],
+    ]);
+    // Not in the timetable: counted, but its stops are not timed
+    await recordTrip(at("12:00:00"), at("12:30:00"), [
+      [0, null, at("12:00:00")],
+      [2, at("12:20:00"), null],
+    ]);
+
+    const { rows: [all] } = await db.query<PerformanceRow>(
+      "SELECT * FROM report_performance('2026-03-06', '2026-03-06', 'all')"
+    );
+
+    assert.deepEqual(
+      [all.trips, all.scheduled_trips, all.timed_stops, all.on_time_stops].map(Number),
+      [2, 1, 3, 2]
+    );
+    assert.equal(Number(all.avg_delay_seconds), 140);
+    // 07:31 to 07:50 and 12:00 to 12:20
+    assert.equal(Number(all.median_duration_seconds), (1140 + 1200) / 2);
+  });
+
+  it("reports delay and dwell per stop of a route", async () => {
+    const { rows } = await db.query<{ sequence: number; visits: string; timed_visits: string; avg_delay_seconds: string | null }>(
+      "SELECT * FROM report_performance_stops('2026-03-06', '2026-03-06', $1)",
+      [rider.routeId]
+    );
+
+    assert.deepEqual(
+      rows.map((row) => [row.sequence, Number(row.visits), Number(row.timed_visits), Number(row.avg_delay_seconds)]),
+      [
+        [1, 2, 1, 60],
+        [2, 1, 1, 360],
+        [3, 2, 1, 0],
+      ]
+    );
+  });
+
+  it("leaves out trips outside the local days of the range", async () => {
+    const { rows } = await db.query("SELECT * FROM report_performance('2026-03-07', '2026-03-08', 'all')");
+
+    assert.deepEqual(rows, []);
+  });
+
+  it("does not count a stop the bus never reached as a visit", async () => {
+    await recordTrip("2026-03-09T07:30:00+05:30", "2026-03-09T08:00:00+05:30", [
+      [0, null, "2026-03-09T07:30:00+05:30"],
+      [1, null, null],
+      [2, "2026-03-09T07:50:00+05:30", null],
+    ]);
+
+    const { rows } = await db.query<{ sequence: number; visits: string }>(
+      "SELECT * FROM report_performance_stops('2026-03-09', '2026-03-09', $1)",
+      [rider.routeId]
+    );
+
+    assert.deepEqual(rows.map((row) => [row.sequence, Number(row.visits)]), [[1, 1], [2, 0], [3, 1]]);
+  });
+
+  it("times a trip that skipped the first stop by its arrival at the next", async () => {
+    // Due at stop 2 at 07:40; it arrives a minute late and leaves at 07:42
+    await recordTrip("2026-03-10T07:30:00+05:30", "2026-03-10T08:00:00+05:30", [
+      [1, "2026-03-10T07:41:00+05:30", "2026-03-10T07:42:00+05:30"],
+      [2, "2026-03-10T07:50:00+05:30", null],
+    ]);
+
+    const { rows } = await db.query<{ sequence: number; visits: string; avg_delay_seconds: string | null }>(
+      "SELECT * FROM report_performance_stops('2026-03-10', '2026-03-10', $1)",
+      [rider.routeId]
+    );
+
+    assert.deepEqual(
+      rows.map((row) => [row.sequence, Number(row.visits), row.avg_delay_seconds === null ? null : Number(row.avg_delay_seconds)]),
+      [[1, 0, null], [2, 1, 60], [3, 1, 0]]
+    );
+  });
+});
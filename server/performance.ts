@@ -0,0 +1,231 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  DailyPerformance,
+  DriverPerformance,
+  DwellBucket,
+  PerformanceReport,
+  PerformanceTotals,
+  ReportRange,
+  RoutePerformance,
+  StopPerformance,
+} from "@shared/schema";
+import { SCAN_TIMEZONE } from "./scans";
+import { eachDay } from "./reports";
+
+// A stop is on time from one minute early to five minutes late
+const ON_TIME_EARLY_SECONDS = 60;
+const ON_TIME_LATE_SECONDS = 5 * 60;
+
+// Dwell histogram edges in seconds: <30s, 30s-1m, 1-2m, 2-5m, 5m+
+const DWELL_BOUNDS = [30, 60, 120, 300];
+
+type PerformanceGroup = "all" | "route" | "driver" | "day";
+
+interface PerformanceRow {
+  group_key: string;
+  trips: number;
+  scheduled_trips: number;
+  timed_stops: number;
+  on_time_stops: number;
+  avg_delay_seconds: number | null;
+  avg_duration_seconds: number | null;
+  median_duration_seconds: number | null;
+}
+
+interface StopRow {
+  route_stop_id: string;
+  stop_name: string;
+  sequence: number;
+  visits: number;
+  timed_visits: number;
+  on_time_visits: number;
+  avg_delay_seconds: number | null;
+  median_dwell_seconds: number | null;
+  p90_dwell_seconds: number | null;
+}
+
+interface DwellRow {
+  bucket: number;
+  visits: number;
+}
+
+const EMPTY_TOTALS: PerformanceTotals = {
+  trips: 0,
+  scheduledTrips: 0,
+  timedStops: 0,
+  onTimeRate: null,
+  avgDelaySeconds: null,
+  avgDurationSeconds: null,
+  medianDurationSeconds: null,
+};
+
+function numberOrNull(value: number | null): number | null {
+  return value == null ? null : Number(value);
+}
+
+function toTotals(row: PerformanceRow): PerformanceTotals {
+  const timedStops = Number(row.timed_stops);
+  return {
+    trips: Number(row.trips),
+    scheduledTrips: Number(row.scheduled_trips),
+    timedStops,
+    onTimeRate: timedStops > 0 ? Number(row.on_time_stops) / timedStops : null,
+    avgDelaySeconds: numberOrNull(row.avg_delay_seconds),
+    avgDurationSeconds: numberOrNull(row.avg_duration_seconds),
+    medianDurationSeconds: numberOrNull(row.median_duration_seconds),
+  };
+}
+
+async function fetchGroups(
+  supabase: SupabaseClient,
+  range: ReportRange,
+  driverId: string | null,
+  group: PerformanceGroup
+): Promise<PerformanceRow[]> {
+  const { data, error } = await supabase.rpc("report_performance", {
+    p_from: range.from,
+    p_to: range.to,
+    p_group: group,
+    p_route_id: range.routeId,
+    p_driver_id: driverId,
+    p_early_seconds: ON_TIME_EARLY_SECONDS,
+    p_late_seconds: ON_TIME_LATE_SECONDS,
+    p_timezone: SCAN_TIMEZONE,
+  });
+
+  if (error) throw error;
+  return (data || []) as PerformanceRow[];
+}
+
+async function fetchStops(
+  supabase: SupabaseClient,
+  range: ReportRange,
+  driverId: string | null
+): Promise<StopPerformance[]> {
+  if (!range.routeId) return [];
+
+  const { data, error } = await supabase.rpc("report_performance_stops", {
+    p_from: range.from,
+    p_to: range.to,
+    p_route_id: range.routeId,
+    p_driver_id: driverId,
+    p_early_seconds: ON_TIME_EARLY_SECONDS,
+    p_late_seconds: ON_TIME_LATE_SECONDS,
+    p_timezone: SCAN_TIMEZONE,
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as StopRow[]).map((row) => {
+    const timedVisits = Number(row.timed_visits);
+    return {
+      stopId: row.route_stop_id,
+      stopName: row.stop_name,
+      sequence: row.sequence,
+      visits: Number(row.visits),
+      timedVisits,
+      onTimeRate: timedVisits > 0 ? Number(row.on_time_visits) / timedVisits : null,
+      avgDelaySeconds: numberOrNull(row.avg_delay_seconds),
+      medianDwellSeconds: numberOrNull(row.median_dwell_seconds),
+      p90DwellSeconds: numberOrNull(row.p90_dwell_seconds),
+    };
+  });
+}
+
+async function fetchDwell(
+  supabase: SupabaseClient,
+  range: ReportRange,
+  driverId: string | null
+): Promise<DwellBucket[]> {
+  const { data, error } = await supabase.rpc("report_performance_dwell", {
+    p_from: range.from,
+    p_to: range.to,
+    p_bounds: DWELL_BOUNDS,
+    p_route_id: range.routeId,
+    p_driver_id: driverId,
+    p_timezone: SCAN_TIMEZONE,
+  });
+
+  if (error) throw error;
+
+  const counts = new Map(((data || []) as DwellRow[]).map((row) => [row.bucket, Number(row.visits)]));
+
+  return [0, ...DWELL_BOUNDS].map((minSeconds, bucket) => ({
+    minSeconds,
+    maxSeconds: DWELL_BOUNDS[bucket] ?? null,
+    visits: counts.get(bucket) ?? 0,
+  }));
+}
+
+// Route and driver names for the grouped rows; rows for deleted routes or
+// drivers keep their id as the name
+async function fetchNames(supabase: SupabaseClient) {
+  const [routesResult, driversResult] = await Promise.all([
+    supabase.from("bus_routes").select("id, route_number, route_name"),
+    supabase.from("drivers").select("id, full_name"),
+  ]);
+
+  if (routesResult.error) throw routesResult.error;
+  if (driversResult.error) throw driversResult.error;
+
+  return {
+    routes: new Map((routesResult.data || []).map((route) => [route.id, route])),
+    drivers: new Map((driversResult.data || []).map((driver) => [driver.id, driver.full_name as string])),
+  };
+}
+
+// On-time performance of finished trips over the range, by route, driver,
+// day and (for a single route) stop
+export async function getPerformanceReport(
+  supabase: SupabaseClient,
+  range: ReportRange,
+  driverId: string | null
+): Promise<PerformanceReport> {
+  const [all, byRoute, byDriver, byDay, stops, dwell, names] = await Promise.all([
+    fetchGroups(supabase, range, driverId, "all"),
+    fetchGroups(supabase, range, driverId, "route"),
+    fetchGroups(supabase, range, driverId, "driver"),
+    fetchGroups(supabase, range, driverId, "day"),
+    fetchStops(supabase, range, driverId),
+    fetchDwell(supabase, range, driverId),
+    fetchNames(supabase),
+  ]);
+
+  const routes: RoutePerformance[] = byRoute
+    .map((row) => {
+      const route = names.routes.get(row.group_key);
+      return {
+        ...toTotals(row),
+        routeId: row.group_key,
+        routeNumber: route?.route_number ?? row.group_key,
+        routeName: route?.route_name ?? "",
+      };
+    })
+    .sort((a, b) => a.routeNumber.localeCompare(b.routeNumber));
+
+  const drivers: DriverPerformance[] = byDriver
+    .map((row) => ({
+      ...toTotals(row),
+      driverId: row.group_key,
+      driverName: names.drivers.get(row.group_key) ?? row.group_key,
+    }))
+    .sort((a, b) => a.driverName.localeCompare(b.driverName));
+
+  const days = new Map(byDay.map((row) => [row.group_key, toTotals(row)]));
+  const daily: DailyPerformance[] = eachDay(range).map((date) => ({
+    ...(days.get(date) ?? EMPTY_TOTALS),
+    date,
+  }));
+
+  return {
+    range,
+    driverId,
+    onTimeWindow: { earlySeconds: ON_TIME_EARLY_SECONDS, lateSeconds: ON_TIME_LATE_SECONDS },
+    summary: all[0] ? toTotals(all[0]) : EMPTY_TOTALS,
+    routes,
+    drivers,
+    daily,
+    stops,
+    dwell,
+  };
+}
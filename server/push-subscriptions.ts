@@ -0,0 +1,51 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PushSubscriptionData } from "@shared/schema";
+
+export class PushError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "PushError";
+  }
+}
+
+// The browser needs the server's VAPID public key to subscribe
+export function getVapidPublicKey(): string {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  if (!publicKey || !process.env.VAPID_PRIVATE_KEY) {
+    throw new PushError("Push notifications are not configured", 503);
+  }
+
+  return publicKey;
+}
+
+// A browser has one endpoint; subscribing again, even as another user on a
+// shared device, moves it to the current user
+export async function savePushSubscription(
+  supabase: SupabaseClient,
+  userId: string,
+  { endpoint, keys }: PushSubscriptionData,
+  userAgent?: string
+) {
+  const { error } = await supabase.from("push_subscriptions").upsert(
+    {
+      user_id: userId,
+      endpoint,
+      p256dh: keys.p256dh,
+      auth: keys.auth,
+      user_agent: userAgent?.slice(0, 500) ?? null,
+    },
+    { onConflict: "endpoint" }
+  );
+
+  if (error) throw error;
+}
+
+export async function removePushSubscription(supabase: SupabaseClient, userId: string, endpoint: string) {
+  const { error } = await supabase
+    .from("push_subscriptions")
+    .delete()
+    .eq("user_id", userId)
+    .eq("endpoint", endpoint);
+
+  if (error) throw error;
+}
@@ -0,0 +1,174 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PGlite } from "@electric-sql/pglite";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ReportError, getReportOverview, resolveReportRange } from "./reports";
+import { createRpcClient, createTestDatabase, createTestRider, type TestRider } from "./test-database";
+
+describe("resolveReportRange", () => {
+  it("defaults to the 30 days ending on the given end date", () => {
+    assert.deepEqual(resolveReportRange({ to: "2026-03-31" }), { from: "2026-03-02", to: "2026-03-31", routeId: null });
+  });
+
+  it("rejects a backwards range and one longer than a year", () => {
+    assert.throws(() => resolveReportRange({ from: "2026-03-02", to: "2026-03-01" }), ReportError);
+    assert.throws(() => resolveReportRange({ from: "2025-03-01", to: "2026-03-02" }), /at most 366 days/);
+    assert.doesNotThrow(() => resolveReportRange({ from: "2025-03-02", to: "2026-03-02" }));
+  });
+});
+
+describe("report functions", () => {
+  let db: PGlite;
+  let supabase: SupabaseClient;
+  let rider: TestRider;
+
+  before(async () => {
+    db = await createTestDatabase();
+    supabase = createRpcClient(db);
+
+    rider = await createTestRider(db, { balance: 500 });
+    const other = await createTestRider(db, { balance: 500 });
+
+    // 2026-03-03 00:30 in Asia/Kolkata is still 2 March in UTC
+    for (const [student, bus, at, status, fare] of [
+      [rider.studentId, rider.busId, "2026-03-02T08:00:00+05:30", "success", 60],
+      [rider.studentId, rider.busId, "2026-03-03T00:30:00+05:30", "insufficient_balance", 0],
+      [other.studentId, other.busId, "2026-03-02T08:00:00+05:30", "success", 60],
+    ] as const) {
+      await db.query(
+        `INSERT INTO scan_logs (student_id, bus_id, scan_timestamp, scan_status, fare_deducted, balance_after_scan)
+         VALUES ($1, $2, $3, $4, $5, 0)`,
+        [student, bus, at, status, fare]
+      );
+    }
+
+    for (const [student, type, status, amount, at] of [
+      [rider.studentId, "deduction", "success", 60, "2026-03-02T08:00:00+05:30"],
+      [rider.studentId, "recharge", "success", 200, "2026-03-03T01:00:00+05:30"],
+      [rider.studentId, "recharge", "pending", 300, "2026-03-03T01:00:00+05:30"],
+      [rider.studentId, "refund", "success", 20, "2026-03-03T02:00:00+05:30"],
+      [other.studentId, "recharge", "success", 1000, "2026-03-02T09:00:00+05:30"],
+    ] as const) {
+      await db.query(
+        `INSERT INTO transactions (student_id, amount, transaction_type, status, balance_before, balance_after, created_at)
+         VALUES ($1, $2, $3, $4, 0, 0, $5)`,
+        [student, amount, type, status, at]
+      );
+    }
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  it("buckets a route's scans and money by local day", async () => {
+    const overview = await getReportOverview(supabase, { from: "2026-03-01", to: "2026-03-03", routeId: rider.routeId });
+
+    assert.deepEqual(overview.dailyScans, [
+      { date: "2026-03-01", success: 0, failed: 0, fares: 0 },
+      { date: "2026-03-02", success: 1, failed: 0, fares: 60 },
+      { date: "2026-03-03", success: 0, failed: 1, fares: 0 },
+    ]);
+    assert.deepEqual(overview.dailyRevenue, [
+      { date: "2026-03-01", recharges: 0, fares: 0, passes: 0, adjustments: 0, refunds: 0 },
+      { date: "2026-03-02", recharges: 0, fares: 60, passes: 0, adjustments: 0, refunds: 0 },
+      { date: "2026-03-03", recharges: 200, fares: 0, passes: 0, adjustments: 0, refunds: 20 },
+    ]);
+    assert.deepEqual(overview.routes.map((route) => [route.routeId, route.students, route.scans, route.successfulScans, route.fares]), [
+      [rider.routeId, 1, 2, 1, 60],
+    ]);
+    assert.deepEqual(overview.summary, {
+      totalRevenue: 200,
+      totalFares: 40,
+      totalScans: 2,
+      successfulScans: 1,
+      students: 1,
+      avgBalance: 500,
+      activeStudents: 1,
+    });
+  });
+
+  it("covers every route without a route filter", async () => {
+    const overview = await getReportOverview(supabase, { from: "2026-03-02", to: "2026-03-02", routeId: null });
+
+    assert.deepEqual(overview.dailyScans, [{ date: "2026-03-02", success: 2, failed: 0, fares: 120 }]);
+    assert.equal(overview.summary.totalRevenue, 1000);
+    assert.equal(overview.routes.length, 2);
+  });
+});
+
+describe("stop boardings", () => {
+  let db: PGlite;
+  let supabase: SupabaseClient;
+  let rider: TestRider;
+  let tripId: string;
+  let stops: string[];
+
+  // Stops about 1.1 km apart along a meridian
+  const stopCoordinates = [[12.97, 77.59], [12.98, 77.59]];
+
+  before(async () => {
+    db = await createTestDatabase();
+    supabase = createRpcClient(db);
+    rider = await createTestRider(db);
+
+    stops = [];
+    for (const [index, [latitude, longitude]] of stopCoordinates.entries()) {
+      const { rows: [stop] } = await db.query<{ id: string }>(
+        "INSERT INTO route_stops (route_id, stop_name, sequence, latitude, longitude) VALUES ($1, $2, $3, $4, $5) RETURNING id",
+        [rider.routeId, `Stop ${index + 1}`, index + 1, latitude, longitude]
+      );
+      stops.push(stop.id);
+    }
+
+    const { rows: [trip] } = await db.query<{ id: string }>(
+      `INSERT INTO active_trips (bus_id, driver_id, route_id, started_at, ended_at, is_active)
+       VALUES ($1, $2, $3, '2026-03-02T07:00:00+05:30', '2026-03-02T08:00:00+05:30', FALSE) RETURNING id`,
+      [rider.busId, rider.driverId, rider.routeId]
+    );
+    tripId = trip.id;
+
+    await db.query(
+      `INSERT INTO trip_stop_events (trip_id, route_stop_id, status, arrived_at, departed_at)
+       VALUES ($1, $2, 'departed', '2026-03-02T07:00:00+05:30', '2026-03-02T07:05:00+05:30')`,
+      [tripId, stops[0]]
+    );
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  async function scan(at: string, status = "success"): Promise<{ trip_id: string | null; route_stop_id: string | null }> {
+    const { rows: [row] } = await db.query<{ trip_id: string | null; route_stop_id: string | null }>(
+      `INSERT INTO scan_logs (student_id, driver_id, bus_id, scan_timestamp, scan_status, fare_deducted, balance_after_scan)
+       VALUES ($1, $2, $3, $4, $5, 0, 0) RETURNING trip_id, route_stop_id`,
+      [rider.studentId, rider.driverId, rider.busId, at, status]
+    );
+    return row;
+  }
+
+  it("links a scan to the stop nearest a recent GPS fix, else the last stop reached", async () => {
+    await db.query(
+      `INSERT INTO bus_locations (bus_id, driver_id, trip_id, latitude, longitude, timestamp)
+       VALUES ($1, $2, $3, 12.9795, 77.5901, '2026-03-02T07:20:00+05:30')`,
+      [rider.busId, rider.driverId, tripId]
+    );
+
+    assert.deepEqual(await scan("2026-03-02T07:21:00+05:30"), { trip_id: tripId, route_stop_id: stops[1] });
+    // The fix is too old by now
+    assert.deepEqual(await scan("2026-03-02T07:30:00+05:30"), { trip_id: tripId, route_stop_id: stops[0] });
+    assert.deepEqual(await scan("2026-03-02T09:00:00+05:30"), { trip_id: null, route_stop_id: null });
+  });
+
+  it("counts each stop's successful boardings over the range", async () => {
+    await scan("2026-03-02T07:40:00+05:30", "insufficient_balance");
+
+    const overview = await getReportOverview(supabase, { from: "2026-03-02", to: "2026-03-02", routeId: rider.routeId });
+
+    assert.deepEqual(overview.stops.map((stop) => [stop.sequence, stop.boardings, stop.students]), [
+      [1, 1, 1],
+      [2, 1, 1],
+    ]);
+  });
+});
@@ -0,0 +1,298 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  DailyRevenueReport,
+  DailyScanReport,
+  ReportFilters,
+  ReportOverview,
+  ReportRange,
+  ReportSummary,
+  RouteReport,
+  StopBoardingReport,
+  TransactionType,
+} from "@shared/schema";
+import { SCAN_TIMEZONE } from "./scans";
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 86400 * 1000;
+
+export class ReportError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ReportError";
+  }
+}
+
+interface ScanDayRow {
+  day: string;
+  scan_status: string;
+  scans: number;
+  fares: number;
+}
+
+interface TransactionDayRow {
+  day: string;
+  transaction_type: TransactionType;
+  amount: number;
+  transactions: number;
+}
+
+interface RouteRow {
+  route_id: string;
+  route_number: string;
+  route_name: string;
+  students: number;
+  scans: number;
+  successful_scans: number;
+  fares: number;
+}
+
+interface RouteLoadRow {
+  route_id: string;
+  trips: number;
+  peak_load: number;
+  avg_peak_load: number | null;
+  peak_load_ratio: number | null;
+}
+
+interface StopBoardingRow {
+  route_stop_id: string;
+  stop_name: string;
+  sequence: number;
+  boardings: number;
+  students: number;
+}
+
+interface WalletSummaryRow {
+  students: number;
+  avg_balance: number;
+  active_students: number;
+}
+
+const REVENUE_COLUMNS: Record<TransactionType, keyof Omit<DailyRevenueReport, "date">> = {
+  recharge: "recharges",
+  deduction: "fares",
+  pass_purchase: "passes",
+  admin_adjustment: "adjustments",
+  refund: "refunds",
+};
+
+const localDateFormat = new Intl.DateTimeFormat("en-CA", { timeZone: SCAN_TIMEZONE });
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+export function eachDay({ from, to }: ReportRange): string[] {
+  const days: string[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+// Fills in the defaults (the last 30 days, ending today) and rejects ranges
+// that are backwards or longer than maxDays
+export function resolveReportRange(
+  { from, to, route_id }: ReportFilters,
+  maxDays = MAX_RANGE_DAYS
+): ReportRange {
+  const end = to ?? localDateFormat.format(new Date());
+  const start = from ?? addDays(end, -(DEFAULT_RANGE_DAYS - 1));
+
+  if (start > end) {
+    throw new ReportError("Start date must be on or before the end date");
+  }
+  if (daysBetween(start, end) >= maxDays) {
+    throw new ReportError(`Reports cover at most ${maxDays} days`);
+  }
+
+  return { from: start, to: end, routeId: route_id ?? null };
+}
+
+async function fetchScanDays(supabase: SupabaseClient, range: ReportRange): Promise<DailyScanReport[]> {
+  const { data, error } = await supabase.rpc("report_scans_by_day", {
+    p_from: range.from,
+    p_to: range.to,
+    p_route_id: range.routeId,
+    p_timezone: SCAN_TIMEZONE,
+  });
+
+  if (error) throw error;
+
+  const days = new Map<string, DailyScanReport>(
+    eachDay(range).map((date) => [date, { date, success: 0, failed: 0, fares: 0 }])
+  );
+
+  for (const row of (data || []) as ScanDayRow[]) {
+    const day = days.get(row.day);
+    if (!day) continue;
+
+    if (row.scan_status === "success") {
+      day.success += Number(row.scans);
+    } else {
+      day.failed += Number(row.scans);
+    }
+    day.fares += Number(row.fares);
+  }
+
+  return Array.from(days.values());
+}
+
+async function fetchRevenueDays(supabase: SupabaseClient, range: ReportRange): Promise<DailyRevenueReport[]> {
+  const { data, error } = await supabase.rpc("report_transactions_by_day", {
+    p_from: range.from,
+    p_to: range.to,
+    p_route_id: range.routeId,
+    p_timezone: SCAN_TIMEZONE,
+  });
+
+  if (error) throw error;
+
+  const days = new Map<string, DailyRevenueReport>(
+    eachDay(range).map((date) => [date, { date, recharges: 0, fares: 0, passes: 0, adjustments: 0, refunds: 0 }])
+  );
+
+  for (const row of (data || []) as TransactionDayRow[]) {
+    const day = days.get(row.day);
+    const column = REVENUE_COLUMNS[row.transaction_type];
+    if (!day || !column) continue;
+
+    day[column] += Number(row.amount);
+  }
+
+  return Array.from(days.values());
+}
+
+async function fetchRoutes(supabase: SupabaseClient, range: ReportRange): Promise<RouteReport[]> {
+  const params = { p_from: range.from, p_to: range.to, p_timezone: SCAN_TIMEZONE };
+  const [routesResult, loadsResult] = await Promise.all([
+    supabase.rpc("report_routes", params),
+    supabase.rpc("report_route_loads", params),
+  ]);
+
+  if (routesResult.error) throw routesResult.error;
+  if (loadsResult.error) throw loadsResult.error;
+
+  const loads = new Map(((loadsResult.data || []) as RouteLoadRow[]).map((row) => [row.route_id, row]));
+
+  return ((routesResult.data || []) as RouteRow[])
+    .filter((row) => !range.routeId || row.route_id === range.routeId)
+    .map((row) => {
+      const load = loads.get(row.route_id);
+      return {
+        routeId: row.route_id,
+        routeNumber: row.route_number,
+        routeName: row.route_name,
+        students: Number(row.students),
+        scans: Number(row.scans),
+        successfulScans: Number(row.successful_scans),
+        fares: Number(row.fares),
+        trips: Number(load?.trips ?? 0),
+        peakLoad: Number(load?.peak_load ?? 0),
+        avgPeakLoad: load?.avg_peak_load != null ? Number(load.avg_peak_load) : null,
+        peakLoadRate: load?.peak_load_ratio != null ? Number(load.peak_load_ratio) : null,
+      };
+    });
+}
+
+async function fetchStops(supabase: SupabaseClient, range: ReportRange): Promise<StopBoardingReport[]> {
+  if (!range.routeId) return [];
+
+  const { data, error } = await supabase.rpc("report_stop_boardings", {
+    p_from: range.from,
+    p_to: range.to,
+    p_route_id: range.routeId,
+    p_timezone: SCAN_TIMEZONE,
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as StopBoardingRow[]).map((row) => ({
+    stopId: row.route_stop_id,
+    stopName: row.stop_name,
+    sequence: row.sequence,
+    boardings: Number(row.boardings),
+    students: Number(row.students),
+  }));
+}
+
+async function fetchWalletSummary(supabase: SupabaseClient, range: ReportRange): Promise<WalletSummaryRow> {
+  const { data, error } = await supabase.rpc("report_wallet_summary", {
+    p_route_id: range.routeId,
+    p_timezone: SCAN_TIMEZONE,
+  });
+
+  if (error) throw error;
+
+  const row = ((data || []) as WalletSummaryRow[])[0];
+  return row ?? { students: 0, avg_balance: 0, active_students: 0 };
+}
+
+// Revenue is money recharged into wallets over the range; fares include
+// pass purchases, which are paid from those wallets, less refunded fares
+function summarize(
+  dailyScans: DailyScanReport[],
+  dailyRevenue: DailyRevenueReport[],
+  wallet: WalletSummaryRow
+): ReportSummary {
+  return {
+    totalRevenue: dailyRevenue.reduce((sum, day) => sum + day.recharges, 0),
+    totalFares: dailyRevenue.reduce((sum, day) => sum + day.fares + day.passes - day.refunds, 0),
+    totalScans: dailyScans.reduce((sum, day) => sum + day.success + day.failed, 0),
+    successfulScans: dailyScans.reduce((sum, day) => sum + day.success, 0),
+    students: Number(wallet.students),
+    avgBalance: Number(wallet.avg_balance),
+    activeStudents: Number(wallet.active_students),
+  };
+}
+
+export async function getScanReport(supabase: SupabaseClient, range: ReportRange) {
+  return { range, dailyScans: await fetchScanDays(supabase, range) };
+}
+
+export async function getRevenueReport(supabase: SupabaseClient, range: ReportRange) {
+  return { range, dailyRevenue: await fetchRevenueDays(supabase, range) };
+}
+
+export async function getRouteReport(supabase: SupabaseClient, range: ReportRange) {
+  return { range, routes: await fetchRoutes(supabase, range) };
+}
+
+export async function getStopReport(supabase: SupabaseClient, range: ReportRange) {
+  return { range, stops: await fetchStops(supabase, range) };
+}
+
+export async function getReportSummary(supabase: SupabaseClient, range: ReportRange) {
+  const [dailyScans, dailyRevenue, wallet] = await Promise.all([
+    fetchScanDays(supabase, range),
+    fetchRevenueDays(supabase, range),
+    fetchWalletSummary(supabase, range),
+  ]);
+
+  return { range, summary: summarize(dailyScans, dailyRevenue, wallet) };
+}
+
+// Everything the admin Reports page shows, in one round-trip
+export async function getReportOverview(supabase: SupabaseClient, range: ReportRange): Promise<ReportOverview> {
+  const [dailyScans, dailyRevenue, routes, stops, wallet] = await Promise.all([
+    fetchScanDays(supabase, range),
+    fetchRevenueDays(supabase, range),
+    fetchRoutes(supabase, range),
+    fetchStops(supabase, range),
+    fetchWalletSummary(supabase, range),
+  ]);
+
+  return {
+    range,
+    summary: summarize(dailyScans, dailyRevenue, wallet),
+    dailyScans,
+    dailyRevenue,
+    routes,
+    stops,
+  };
+}
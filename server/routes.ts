@@ -1,135 +1,89 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { createClient } from "@supabase/supabase-js";
+import {
+  balanceAdjustmentSchema,
+  deliveryFiltersSchema,
+  departureFiltersSchema,
+  disputeCommentSchema,
+  disputeFiltersSchema,
+  exitScanRequestSchema,
+  exportFiltersSchema,
+  notificationPreferencesSchema,
+  openDisputeSchema,
+  performanceFiltersSchema,
+  purchasePassSchema,
+  pushSubscriptionSchema,
+  rechargeSchema,
+  removePushSubscriptionSchema,
+  reportFiltersSchema,
+  resolveDisputeSchema,
+  reverseTransactionSchema,
+  scanRequestSchema,
+  scanSyncSchema,
+  tripIdSchema,
+  verifyPaymentSchema,
+  walletSettingsSchema,
+} from "@shared/schema";
+import { getSupabaseAdmin } from "./supabase";
+import { requireAuth, requireAdminOrSetupToken } from "./auth";
+import { recordAuditEvent } from "./audit";
+import { getOfflineRoster, processScan, syncOfflineScans } from "./scans";
+import { processExitScan } from "./occupancy";
+import { issuePassToken } from "./pass-tokens";
+import { getTripEta } from "./eta";
+import { getTripReplay } from "./trip-replay";
+import { getUpcomingDepartures } from "./timetable";
+import { getPerformanceReport } from "./performance";
+import { createPaymentOrder, handlePaymentWebhook, verifyPayment } from "./payments";
+import { purchasePass } from "./passes";
+import {
+  confirmMandate,
+  getWalletSettings,
+  revokeMandate,
+  startMandateSetup,
+  updateWalletSettings,
+} from "./auto-recharge";
+import { streamExport } from "./exports";
+import { importStudents, receiveImportFile } from "./student-import";
+import { adjustStudentBalance, getWalletReconciliation, reconcileWallets, reverseTransaction } from "./ledger";
+import { addDisputeComment, getDispute, listDisputes, openDispute, resolveDispute } from "./disputes";
+import {
+  getNotificationPreferences,
+  listDeliveries,
+  retryDelivery,
+  updateNotificationPreferences,
+} from "./notification-delivery";
+import { getVapidPublicKey, removePushSubscription, savePushSubscription } from "./push-subscriptions";
+import {
+  getReportOverview,
+  getReportSummary,
+  getRevenueReport,
+  getRouteReport,
+  getScanReport,
+  getStopReport,
+  resolveReportRange,
+} from "./reports";
+import { BASE_TABLES_SQL } from "./base-tables";
 
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-function getSupabaseAdmin() {
-  if (!supabaseUrl || !supabaseServiceKey) {
-    throw new Error("Missing Supabase credentials");
-  }
-  return createClient(supabaseUrl, supabaseServiceKey, {
-    auth: { autoRefreshToken: false, persistSession: false }
-  });
-}
+const REPORTS = {
+  overview: getReportOverview,
+  summary: getReportSummary,
+  scans: getScanReport,
+  revenue: getRevenueReport,
+  routes: getRouteReport,
+  stops: getStopReport,
+};
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
   
-  app.post("/api/init-database", async (req, res) => {
+  app.post("/api/init-database", requireAdminOrSetupToken(), async (req, res) => {
     try {
       const supabase = getSupabaseAdmin();
       
-      const createTableSQL = `
-        CREATE TABLE IF NOT EXISTS users (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          email TEXT UNIQUE NOT NULL,
-          role TEXT NOT NULL DEFAULT 'student' CHECK (role IN ('student', 'driver', 'admin')),
-          created_at TIMESTAMPTZ DEFAULT NOW()
-        );
-
-        CREATE TABLE IF NOT EXISTS bus_routes (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          route_name TEXT NOT NULL,
-          route_number TEXT NOT NULL UNIQUE,
-          description TEXT,
-          daily_fare NUMERIC NOT NULL DEFAULT 60,
-          created_at TIMESTAMPTZ DEFAULT NOW()
-        );
-
-        CREATE TABLE IF NOT EXISTS buses (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          bus_number TEXT NOT NULL UNIQUE,
-          capacity INTEGER NOT NULL DEFAULT 50,
-          route_id UUID REFERENCES bus_routes(id) ON DELETE SET NULL,
-          is_active BOOLEAN DEFAULT TRUE,
-          created_at TIMESTAMPTZ DEFAULT NOW()
-        );
-
-        CREATE TABLE IF NOT EXISTS students (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-          full_name TEXT NOT NULL,
-          enrollment_no TEXT NOT NULL UNIQUE,
-          course TEXT NOT NULL,
-          department TEXT NOT NULL,
-          phone TEXT NOT NULL,
-          photo_url TEXT,
-          bus_route_id UUID REFERENCES bus_routes(id) ON DELETE SET NULL,
-          wallet_balance NUMERIC DEFAULT 0,
-          is_blocked BOOLEAN DEFAULT FALSE,
-          created_at TIMESTAMPTZ DEFAULT NOW(),
-          updated_at TIMESTAMPTZ DEFAULT NOW()
-        );
-
-        CREATE TABLE IF NOT EXISTS drivers (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-          full_name TEXT NOT NULL,
-          phone TEXT NOT NULL,
-          license_number TEXT NOT NULL UNIQUE,
-          photo_url TEXT,
-          bus_id UUID REFERENCES buses(id) ON DELETE SET NULL,
-          is_active BOOLEAN DEFAULT TRUE,
-          created_at TIMESTAMPTZ DEFAULT NOW(),
-          updated_at TIMESTAMPTZ DEFAULT NOW()
-        );
-
-        CREATE TABLE IF NOT EXISTS transactions (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          student_id UUID REFERENCES students(id) ON DELETE CASCADE,
-          amount NUMERIC NOT NULL,
-          transaction_type TEXT NOT NULL CHECK (transaction_type IN ('recharge', 'deduction', 'admin_adjustment')),
-          currency TEXT DEFAULT 'INR',
-          payment_gateway TEXT,
-          payment_id TEXT,
-          order_id TEXT,
-          status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'success', 'failed')),
-          balance_before NUMERIC NOT NULL,
-          balance_after NUMERIC NOT NULL,
-          description TEXT,
-          created_at TIMESTAMPTZ DEFAULT NOW(),
-          updated_at TIMESTAMPTZ DEFAULT NOW()
-        );
-
-        CREATE TABLE IF NOT EXISTS scan_logs (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          student_id UUID REFERENCES students(id) ON DELETE CASCADE,
-          driver_id UUID REFERENCES drivers(id) ON DELETE CASCADE,
-          bus_id UUID REFERENCES buses(id) ON DELETE CASCADE,
-          scan_timestamp TIMESTAMPTZ DEFAULT NOW(),
-          scan_status TEXT DEFAULT 'success' CHECK (scan_status IN ('success', 'insufficient_balance', 'limit_exceeded', 'blocked')),
-          fare_deducted NUMERIC DEFAULT 0,
-          balance_after_scan NUMERIC NOT NULL
-        );
-
-        CREATE TABLE IF NOT EXISTS bus_locations (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          bus_id UUID REFERENCES buses(id) ON DELETE CASCADE,
-          driver_id UUID REFERENCES drivers(id) ON DELETE CASCADE,
-          latitude DOUBLE PRECISION NOT NULL,
-          longitude DOUBLE PRECISION NOT NULL,
-          speed DOUBLE PRECISION,
-          heading DOUBLE PRECISION,
-          timestamp TIMESTAMPTZ DEFAULT NOW(),
-          is_active BOOLEAN DEFAULT TRUE
-        );
-
-        CREATE TABLE IF NOT EXISTS notifications (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-          title TEXT NOT NULL,
-          message TEXT NOT NULL,
-          type TEXT DEFAULT 'system' CHECK (type IN ('recharge', 'deduction', 'low_balance', 'scan', 'system')),
-          is_read BOOLEAN DEFAULT FALSE,
-          created_at TIMESTAMPTZ DEFAULT NOW()
-        );
-      `;
-
-      const { error: tableError } = await supabase.rpc('exec_sql', { sql: createTableSQL });
+      const { error: tableError } = await supabase.rpc('exec_sql', { sql: BASE_TABLES_SQL });
       
       if (tableError) {
         console.log("Note: Tables may already exist or RPC not available, checking directly...");
@@ -177,7 +131,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/create-admin", async (req, res) => {
+  app.post("/api/create-admin", requireAdminOrSetupToken(), async (req, res) => {
     try {
       const { email, password } = req.body;
       
@@ -229,6 +183,13 @@ export async function registerRoutes(
 
       if (userError) throw userError;
 
+      await recordAuditEvent(supabase, req.auth, {
+        action: "create",
+        entityType: "users",
+        entityId: userId,
+        after: { id: userId, email, role: "admin" },
+      });
+
       res.json({ success: true, message: "Admin account created" });
     } catch (error: any) {
       console.error("Create admin error:", error);
@@ -236,7 +197,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/create-driver", async (req, res) => {
+  app.post("/api/create-driver", requireAuth("admin"), async (req, res) => {
     try {
       const { email, password, full_name, phone, license_number, bus_id, is_active } = req.body;
       
@@ -283,6 +244,13 @@ export async function registerRoutes(
 
       if (driverError) throw driverError;
 
+      await recordAuditEvent(supabase, req.auth, {
+        action: "create",
+        entityType: "drivers",
+        entityId: driverData.id,
+        after: { ...driverData, email },
+      });
+
       res.json({ success: true, driver: driverData });
     } catch (error: any) {
       console.error("Create driver error:", error);
@@ -290,8 +258,195 @@ export async function registerRoutes(
     }
   });
 
+  // Bulk student onboarding from a CSV / XLSX upload (multipart field "file").
+  // With ?dry_run=true every row is validated but nothing is created.
+  app.post("/api/students/import", requireAuth("admin"), async (req, res) => {
+    try {
+      const dryRun = req.query.dry_run === "true";
+      const file = await receiveImportFile(req, res);
+
+      const supabase = getSupabaseAdmin();
+      const report = await importStudents(supabase, file, dryRun, req.auth!);
+
+      res.json({ success: true, report });
+    } catch (error: any) {
+      console.error("Student import error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/admin/students/:id/adjust-balance", requireAuth("admin"), async (req, res) => {
+    try {
+      const parsed = balanceAdjustmentSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid adjustment" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const result = await adjustStudentBalance(supabase, req.params.id, parsed.data);
+
+      await recordAuditEvent(supabase, req.auth, {
+        action: "balance_adjustment",
+        entityType: "students",
+        entityId: req.params.id,
+        before: { wallet_balance: result.balanceBefore },
+        after: {
+          wallet_balance: result.balanceAfter,
+          amount: parsed.data.amount,
+          reason: parsed.data.reason ?? null,
+          transaction_id: result.transactionId,
+        },
+      });
+
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      console.error("Balance adjustment error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/transactions/:id/reverse", requireAuth("admin"), async (req, res) => {
+    try {
+      const parsed = reverseTransactionSchema.safeParse(req.body ?? {});
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid refund" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const result = await reverseTransaction(supabase, req.params.id, parsed.data, req.auth!);
+
+      await recordAuditEvent(supabase, req.auth, {
+        action: "reverse",
+        entityType: "transactions",
+        entityId: req.params.id,
+        after: {
+          refund_transaction_id: result.refund.id,
+          amount: result.refund.amount,
+          reason: parsed.data.reason ?? null,
+        },
+      });
+
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      console.error("Transaction reversal error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/disputes", requireAuth("student"), async (req, res) => {
+    try {
+      const parsed = openDisputeSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid dispute" });
+      }
+
+      const dispute = await openDispute(getSupabaseAdmin(), req.auth!, parsed.data);
+      res.json({ success: true, dispute });
+    } catch (error: any) {
+      console.error("Open dispute error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.get("/api/disputes", requireAuth("admin", "student"), async (req, res) => {
+    try {
+      const parsed = disputeFiltersSchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid filters" });
+      }
+
+      const disputes = await listDisputes(getSupabaseAdmin(), req.auth!, parsed.data.status);
+      res.json({ success: true, disputes });
+    } catch (error: any) {
+      console.error("List disputes error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.get("/api/disputes/:id", requireAuth("admin", "student"), async (req, res) => {
+    try {
+      const dispute = await getDispute(getSupabaseAdmin(), req.params.id, req.auth!);
+      res.json({ success: true, dispute });
+    } catch (error: any) {
+      console.error("Get dispute error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/disputes/:id/comments", requireAuth("admin", "student"), async (req, res) => {
+    try {
+      const parsed = disputeCommentSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid comment" });
+      }
+
+      const comment = await addDisputeComment(getSupabaseAdmin(), req.params.id, req.auth!, parsed.data);
+      res.json({ success: true, comment });
+    } catch (error: any) {
+      console.error("Dispute comment error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/disputes/:id/resolve", requireAuth("admin"), async (req, res) => {
+    try {
+      const parsed = resolveDisputeSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid decision" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const dispute = await resolveDispute(supabase, req.params.id, req.auth!, parsed.data);
+
+      await recordAuditEvent(supabase, req.auth, {
+        action: parsed.data.decision === "approve" ? "approve" : "reject",
+        entityType: "fare_disputes",
+        entityId: dispute.id,
+        before: { status: "open" },
+        after: {
+          status: dispute.status,
+          resolution_note: dispute.resolution_note,
+          refund_transaction_id: dispute.refund_transaction_id,
+        },
+      });
+
+      res.json({ success: true, dispute });
+    } catch (error: any) {
+      console.error("Resolve dispute error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.get("/api/admin/reconciliation", requireAuth("admin"), async (req, res) => {
+    try {
+      const reconciliation = await getWalletReconciliation(getSupabaseAdmin());
+      res.json({ success: true, reconciliation });
+    } catch (error: any) {
+      console.error("Reconciliation error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/admin/reconciliation/run", requireAuth("admin"), async (req, res) => {
+    try {
+      const supabase = getSupabaseAdmin();
+      await reconcileWallets(supabase, "admin");
+      const reconciliation = await getWalletReconciliation(supabase);
+      res.json({ success: true, reconciliation });
+    } catch (error: any) {
+      console.error("Reconciliation error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
   // Cleanup endpoint to remove orphaned users
-  app.post("/api/cleanup-user", async (req, res) => {
+  app.post("/api/cleanup-user", requireAuth("admin"), async (req, res) => {
     try {
       const { email } = req.body;
       
@@ -309,6 +464,13 @@ export async function registerRoutes(
         .single();
 
       if (userData) {
+        await recordAuditEvent(supabase, req.auth, {
+          action: "delete",
+          entityType: "users",
+          entityId: userData.id,
+          before: { id: userData.id, email },
+        });
+
         // Delete related records first (students, drivers)
         await supabase.from('students').delete().eq('user_id', userData.id);
         await supabase.from('drivers').delete().eq('user_id', userData.id);
@@ -367,5 +529,523 @@ export async function registerRoutes(
     }
   });
 
+  app.post("/api/pass-token", requireAuth("student"), async (req, res) => {
+    try {
+      const studentId = req.auth!.studentId;
+
+      if (!studentId) {
+        return res.status(404).json({ success: false, error: "Student profile not found" });
+      }
+
+      const supabase = getSupabaseAdmin();
+
+      const { data: student, error: studentError } = await supabase
+        .from('students')
+        .select('id, bus_route_id')
+        .eq('id', studentId)
+        .single();
+
+      if (studentError || !student) {
+        return res.status(404).json({ error: "Student not found" });
+      }
+
+      const passToken = issuePassToken(student.id, student.bus_route_id);
+
+      res.json({ success: true, ...passToken });
+    } catch (error: any) {
+      console.error("Pass token error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/scans", requireAuth("driver"), async (req, res) => {
+    try {
+      const driverId = req.auth!.driverId;
+
+      if (!driverId) {
+        return res.status(404).json({ success: false, error: "Driver profile not found" });
+      }
+
+      const parsed = scanRequestSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid scan request" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const result = await processScan(supabase, driverId, parsed.data);
+
+      res.json({ success: true, result });
+    } catch (error: any) {
+      console.error("Scan processing error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/scans/exit", requireAuth("driver"), async (req, res) => {
+    try {
+      const driverId = req.auth!.driverId;
+
+      if (!driverId) {
+        return res.status(404).json({ success: false, error: "Driver profile not found" });
+      }
+
+      const parsed = exitScanRequestSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid exit scan" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const result = await processExitScan(supabase, driverId, parsed.data);
+
+      res.json({ success: true, result });
+    } catch (error: any) {
+      console.error("Exit scan error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/scans/sync", requireAuth("driver"), async (req, res) => {
+    try {
+      const driverId = req.auth!.driverId;
+
+      if (!driverId) {
+        return res.status(404).json({ success: false, error: "Driver profile not found" });
+      }
+
+      const parsed = scanSyncSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid sync request" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const results = await syncOfflineScans(supabase, driverId, parsed.data);
+
+      res.json({ success: true, results });
+    } catch (error: any) {
+      console.error("Scan sync error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.get("/api/driver/offline-roster", requireAuth("driver"), async (req, res) => {
+    try {
+      const driverId = req.auth!.driverId;
+
+      if (!driverId) {
+        return res.status(404).json({ success: false, error: "Driver profile not found" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const roster = await getOfflineRoster(supabase, driverId);
+
+      if (!roster) {
+        return res.status(404).json({ error: "Driver has no route assigned" });
+      }
+
+      res.json({ success: true, roster });
+    } catch (error: any) {
+      console.error("Offline roster error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.get("/api/trips/:tripId/eta", requireAuth(), async (req, res) => {
+    try {
+      const parsed = tripIdSchema.safeParse(req.params.tripId);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid trip" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const trip = await getTripEta(supabase, parsed.data);
+
+      res.json({ success: true, trip });
+    } catch (error: any) {
+      console.error("Trip ETA error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.get("/api/trips/:tripId/replay", requireAuth("admin"), async (req, res) => {
+    try {
+      const parsed = tripIdSchema.safeParse(req.params.tripId);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid trip" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const trip = await getTripReplay(supabase, parsed.data);
+
+      res.json({ success: true, trip });
+    } catch (error: any) {
+      console.error("Trip replay error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.get("/api/routes/:routeId/departures", requireAuth(), async (req, res) => {
+    try {
+      const parsed = departureFiltersSchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid departure filters" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const departures = await getUpcomingDepartures(supabase, req.params.routeId, parsed.data);
+
+      res.json({ success: true, departures });
+    } catch (error: any) {
+      console.error("Upcoming departures error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/payments/orders", requireAuth("student"), async (req, res) => {
+    try {
+      const studentId = req.auth!.studentId;
+
+      if (!studentId) {
+        return res.status(404).json({ success: false, error: "Student profile not found" });
+      }
+
+      const parsed = rechargeSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid recharge request" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const order = await createPaymentOrder(supabase, studentId, parsed.data);
+
+      res.json({ success: true, order });
+    } catch (error: any) {
+      console.error("Create payment order error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/payments/verify", requireAuth("student"), async (req, res) => {
+    try {
+      const parsed = verifyPaymentSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid payment callback" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const settlement = await verifyPayment(supabase, parsed.data);
+
+      res.json({
+        success: settlement.status === "success",
+        status: settlement.status,
+        balanceAfter: settlement.balance_after,
+        error: settlement.status === "success" ? undefined : "Payment could not be completed",
+      });
+    } catch (error: any) {
+      console.error("Verify payment error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.get("/api/wallet/settings", requireAuth("student"), async (req, res) => {
+    try {
+      const studentId = req.auth!.studentId;
+
+      if (!studentId) {
+        return res.status(404).json({ success: false, error: "Student profile not found" });
+      }
+
+      const settings = await getWalletSettings(getSupabaseAdmin(), studentId);
+      res.json({ success: true, settings });
+    } catch (error: any) {
+      console.error("Get wallet settings error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.put("/api/wallet/settings", requireAuth("student"), async (req, res) => {
+    try {
+      const studentId = req.auth!.studentId;
+
+      if (!studentId) {
+        return res.status(404).json({ success: false, error: "Student profile not found" });
+      }
+
+      const parsed = walletSettingsSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid wallet settings" });
+      }
+
+      const settings = await updateWalletSettings(getSupabaseAdmin(), studentId, parsed.data);
+      res.json({ success: true, settings });
+    } catch (error: any) {
+      console.error("Update wallet settings error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/wallet/auto-recharge/mandate", requireAuth("student"), async (req, res) => {
+    try {
+      const studentId = req.auth!.studentId;
+
+      if (!studentId) {
+        return res.status(404).json({ success: false, error: "Student profile not found" });
+      }
+
+      const order = await startMandateSetup(getSupabaseAdmin(), studentId, req.auth!.email);
+      res.json({ success: true, order });
+    } catch (error: any) {
+      console.error("Auto-recharge setup error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/wallet/auto-recharge/mandate/confirm", requireAuth("student"), async (req, res) => {
+    try {
+      const studentId = req.auth!.studentId;
+
+      if (!studentId) {
+        return res.status(404).json({ success: false, error: "Student profile not found" });
+      }
+
+      const parsed = verifyPaymentSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid payment callback" });
+      }
+
+      const result = await confirmMandate(getSupabaseAdmin(), studentId, parsed.data);
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      console.error("Auto-recharge confirm error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.delete("/api/wallet/auto-recharge/mandate", requireAuth("student"), async (req, res) => {
+    try {
+      const studentId = req.auth!.studentId;
+
+      if (!studentId) {
+        return res.status(404).json({ success: false, error: "Student profile not found" });
+      }
+
+      const settings = await revokeMandate(getSupabaseAdmin(), studentId);
+      res.json({ success: true, settings });
+    } catch (error: any) {
+      console.error("Auto-recharge revoke error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.get("/api/notifications/preferences", requireAuth(), async (req, res) => {
+    try {
+      const preferences = await getNotificationPreferences(getSupabaseAdmin(), req.auth!.userId);
+      res.json({ success: true, preferences });
+    } catch (error: any) {
+      console.error("Get notification preferences error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.put("/api/notifications/preferences", requireAuth(), async (req, res) => {
+    try {
+      const parsed = notificationPreferencesSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid notification preferences" });
+      }
+
+      const preferences = await updateNotificationPreferences(getSupabaseAdmin(), req.auth!.userId, parsed.data);
+      res.json({ success: true, preferences });
+    } catch (error: any) {
+      console.error("Update notification preferences error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.get("/api/push/public-key", requireAuth(), async (_req, res) => {
+    try {
+      res.json({ success: true, publicKey: getVapidPublicKey() });
+    } catch (error: any) {
+      console.error("Push public key error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/push/subscriptions", requireAuth(), async (req, res) => {
+    try {
+      const parsed = pushSubscriptionSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid push subscription" });
+      }
+
+      await savePushSubscription(getSupabaseAdmin(), req.auth!.userId, parsed.data, req.header("user-agent"));
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Save push subscription error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.delete("/api/push/subscriptions", requireAuth(), async (req, res) => {
+    try {
+      const parsed = removePushSubscriptionSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid push subscription" });
+      }
+
+      await removePushSubscription(getSupabaseAdmin(), req.auth!.userId, parsed.data.endpoint);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Remove push subscription error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.get("/api/notification-deliveries", requireAuth("admin"), async (req, res) => {
+    try {
+      const parsed = deliveryFiltersSchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid filters" });
+      }
+
+      const deliveries = await listDeliveries(getSupabaseAdmin(), parsed.data);
+      res.json({ success: true, deliveries });
+    } catch (error: any) {
+      console.error("List notification deliveries error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/notification-deliveries/:id/retry", requireAuth("admin"), async (req, res) => {
+    try {
+      const delivery = await retryDelivery(getSupabaseAdmin(), req.params.id);
+      res.json({ success: true, delivery });
+    } catch (error: any) {
+      console.error("Retry notification delivery error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/payments/webhook", async (req, res) => {
+    try {
+      const supabase = getSupabaseAdmin();
+      const result = await handlePaymentWebhook(
+        supabase,
+        req.rawBody as Buffer | undefined,
+        req.header("x-razorpay-signature")
+      );
+
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      console.error("Payment webhook error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Registered before /api/reports/:report, which would otherwise match it
+  app.get("/api/reports/performance", requireAuth("admin"), async (req, res) => {
+    try {
+      const parsed = performanceFiltersSchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid report filters" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const report = await getPerformanceReport(
+        supabase,
+        resolveReportRange(parsed.data),
+        parsed.data.driver_id ?? null
+      );
+
+      res.json({ success: true, report });
+    } catch (error: any) {
+      console.error("Performance report error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.get("/api/reports/:report", requireAuth("admin"), async (req, res) => {
+    try {
+      const build = REPORTS[req.params.report as keyof typeof REPORTS];
+
+      if (!build) {
+        return res.status(404).json({ success: false, error: "Unknown report" });
+      }
+
+      const parsed = reportFiltersSchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid report filters" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const report = await build(supabase, resolveReportRange(parsed.data));
+
+      res.json({ success: true, report });
+    } catch (error: any) {
+      console.error("Report error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  // CSV / PDF downloads, e.g. /api/exports/transactions.csv?from=...&to=...
+  app.get("/api/exports/:dataset.:format", requireAuth("admin", "driver"), async (req, res) => {
+    try {
+      const parsed = exportFiltersSchema.safeParse(req.query);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid export filters" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      await streamExport(supabase, res, req.params.dataset, req.params.format, parsed.data, req.auth!);
+    } catch (error: any) {
+      console.error("Export error:", error);
+      // Part of the file has already gone out; cut it off so it isn't saved as complete
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/passes/purchase", requireAuth("student"), async (req, res) => {
+    try {
+      const studentId = req.auth!.studentId;
+
+      if (!studentId) {
+        return res.status(404).json({ success: false, error: "Student profile not found" });
+      }
+
+      const parsed = purchasePassSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid pass purchase" });
+      }
+
+      const supabase = getSupabaseAdmin();
+      const purchase = await purchasePass(supabase, studentId, parsed.data);
+
+      res.json({ success: true, ...purchase });
+    } catch (error: any) {
+      console.error("Pass purchase error:", error);
+      res.status(error.status || 500).json({ success: false, error: error.message });
+    }
+  });
+
   return httpServer;
 }
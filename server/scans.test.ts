@@ -0,0 +1,305 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateKeyPairSync, randomUUID } from "crypto";
+import type { PGlite } from "@electric-sql/pglite";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { OFFLINE_SCAN_MAX_AGE_HOURS, SCAN_CLOCK_SKEW_SECONDS, isAcceptableScanTime } from "@shared/schema";
+import { issuePassToken } from "./pass-tokens";
+import { ScanError, processScan } from "./scans";
+import { createRpcClient, createTestDatabase, createTestRider, getWalletBalance, type TestRider } from "./test-database";
+
+const { privateKey } = generateKeyPairSync("ed25519");
+process.env.PASS_TOKEN_PRIVATE_KEY = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+
+interface ScanRow {
+  status: string;
+  reason?: string | null;
+  conflict?: string | null;
+  fare_deducted: number;
+  balance_after: number;
+}
+
+// Fails the test if a rejected scan reaches the database
+const unreachable = {
+  rpc: () => {
+    throw new Error("rpc called for a rejected scan");
+  },
+} as unknown as SupabaseClient;
+
+// Adds the lookup of the driver's route that processScan() makes before
+// verifying a pass
+function withDriverRoute(supabase: SupabaseClient, routeId: string | null): SupabaseClient {
+  const single = async () => ({
+    data: { buses: routeId ? { bus_routes: { id: routeId, daily_fare: 60 } } : null },
+    error: null,
+  });
+  return {
+    rpc: supabase.rpc,
+    from: () => ({ select: () => ({ eq: () => ({ single }) }) }),
+  } as unknown as SupabaseClient;
+}
+
+describe("process_scan", () => {
+  let db: PGlite;
+  let supabase: SupabaseClient;
+
+  before(async () => {
+    db = await createTestDatabase();
+    supabase = createRpcClient(db);
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  // A scan of a freshly issued pass, as processScan() sends it once the
+  // token's signature has been checked
+  async function scan(rider: TestRider, params: Record<string, unknown> = {}): Promise<ScanRow> {
+    const scannedAt = new Date((params.p_scanned_at as string | undefined) ?? Date.now());
+    const { data, error } = await supabase.rpc("process_scan", {
+      p_scan_id: randomUUID(),
+      p_student_id: rider.studentId,
+      p_driver_id: rider.driverId,
+      p_pass_nonce: randomUUID(),
+      p_pass_expires_at: new Date(scannedAt.getTime() + 60 * 1000).toISOString(),
+      p_timezone: "Asia/Kolkata",
+      p_scanned_at: scannedAt.toISOString(),
+      p_offline: false,
+      p_pass_route_id: rider.routeId,
+      ...params,
+    });
+
+    if (error) throw error;
+    const row = data as ScanRow;
+    return { ...row, fare_deducted: Number(row.fare_deducted), balance_after: Number(row.balance_after) };
+  }
+
+  async function scanCount(studentId: string): Promise<number> {
+    const { rows } = await db.query<{ count: number }>(
+      "SELECT COUNT(*)::INT AS count FROM scan_logs WHERE student_id = $1",
+      [studentId]
+    );
+    return rows[0].count;
+  }
+
+  it("charges the daily fare on the first ride and none on the return", async () => {
+    const rider = await createTestRider(db, { balance: 500 });
+
+    const first = await scan(rider);
+    const back = await scan(rider);
+    const third = await scan(rider);
+
+    assert.deepEqual([first.status, first.fare_deducted, first.balance_after], ["success", 60, 440]);
+    assert.deepEqual([back.status, back.fare_deducted, back.balance_after], ["success", 0, 440]);
+    assert.equal(third.status, "limit_exceeded");
+    assert.equal(await getWalletBalance(db, rider.studentId), 440);
+  });
+
+  it("returns the original outcome when a scan is retried", async () => {
+    const rider = await createTestRider(db, { balance: 500 });
+    const scanId = randomUUID();
+
+    const first = await scan(rider, { p_scan_id: scanId });
+    const retry = await scan(rider, { p_scan_id: scanId });
+
+    assert.deepEqual([retry.status, retry.fare_deducted, retry.balance_after], [first.status, 60, 440]);
+    assert.equal(await getWalletBalance(db, rider.studentId), 440);
+    assert.equal(await scanCount(rider.studentId), 1);
+  });
+
+  it("does not return another student's outcome for a reused scan id", async () => {
+    const rider = await createTestRider(db, { balance: 500 });
+    const other = await createTestRider(db, { balance: 500 });
+    const scanId = randomUUID();
+
+    await scan(rider, { p_scan_id: scanId });
+    const reused = await scan(other, { p_scan_id: scanId });
+
+    assert.equal(reused.status, "scan_id_conflict");
+    assert.equal(await getWalletBalance(db, other.studentId), 500);
+    assert.equal(await scanCount(other.studentId), 0);
+  });
+
+  it("refuses a fare the balance cannot cover", async () => {
+    const rider = await createTestRider(db, { balance: 50 });
+
+    const result = await scan(rider);
+
+    assert.equal(result.status, "insufficient_balance");
+    assert.equal(await getWalletBalance(db, rider.studentId), 50);
+  });
+
+  it("turns away a blocked student", async () => {
+    const rider = await createTestRider(db, { balance: 500 });
+    await db.query("UPDATE students SET is_blocked = TRUE WHERE id = $1", [rider.studentId]);
+
+    const result = await scan(rider);
+
+    assert.equal(result.status, "blocked");
+    assert.equal(await getWalletBalance(db, rider.studentId), 500);
+  });
+
+  it("reports a student that does not exist", async () => {
+    const rider = await createTestRider(db);
+
+    const result = await scan({ ...rider, studentId: randomUUID() });
+
+    assert.equal(result.status, "not_found");
+  });
+
+  it("rejects an expired pass code", async () => {
+    const rider = await createTestRider(db, { balance: 500 });
+
+    const result = await scan(rider, { p_pass_expires_at: new Date(Date.now() - 1000).toISOString() });
+
+    assert.equal(result.status, "invalid_pass");
+    assert.equal(result.reason, "expired");
+    assert.equal(await getWalletBalance(db, rider.studentId), 500);
+  });
+
+  it("rejects a pass code that was already used", async () => {
+    const rider = await createTestRider(db, { balance: 500 });
+    const nonce = randomUUID();
+
+    const first = await scan(rider, { p_pass_nonce: nonce });
+    const replay = await scan(rider, { p_pass_nonce: nonce });
+
+    assert.equal(first.status, "success");
+    assert.equal(replay.status, "invalid_pass");
+    assert.equal(replay.reason, "replayed");
+    assert.equal(await getWalletBalance(db, rider.studentId), 440);
+  });
+
+  it("rejects a pass issued for another route or none", async () => {
+    const rider = await createTestRider(db, { balance: 500 });
+    const other = await createTestRider(db);
+
+    const otherRoute = await scan(rider, { p_pass_route_id: other.routeId });
+    const noRoute = await scan(rider, { p_pass_route_id: null });
+
+    assert.equal(otherRoute.reason, "wrong_route");
+    assert.equal(noRoute.reason, "wrong_route");
+    assert.equal(await getWalletBalance(db, rider.studentId), 500);
+  });
+
+  it("rejects a student's pass on a bus of another route", async () => {
+    const rider = await createTestRider(db, { balance: 500 });
+    const other = await createTestRider(db);
+
+    const result = await scan({ ...rider, driverId: other.driverId });
+
+    assert.equal(result.status, "invalid_pass");
+    assert.equal(result.reason, "wrong_route");
+  });
+
+  it("settles an offline scan as of the time it was recorded", async () => {
+    const rider = await createTestRider(db, { balance: 500 });
+    const scannedAt = new Date(Date.now() - 3 * 3600 * 1000).toISOString();
+
+    const result = await scan(rider, { p_scanned_at: scannedAt, p_offline: true });
+    const { rows } = await db.query<{ scan_timestamp: Date; is_offline: boolean }>(
+      "SELECT scan_timestamp, is_offline FROM scan_logs WHERE student_id = $1",
+      [rider.studentId]
+    );
+
+    assert.equal(result.status, "success");
+    assert.equal(result.conflict, null);
+    assert.equal(rows[0].scan_timestamp.toISOString(), scannedAt);
+    assert.equal(rows[0].is_offline, true);
+  });
+
+  it("charges an offline scan the balance cannot cover and flags it", async () => {
+    const rider = await createTestRider(db, { balance: 30 });
+
+    const result = await scan(rider, { p_offline: true });
+
+    assert.equal(result.status, "success");
+    assert.equal(result.conflict, "negative_balance");
+    assert.equal(await getWalletBalance(db, rider.studentId), -30);
+  });
+
+  it("flags an offline replay of a pass code as a duplicate", async () => {
+    const rider = await createTestRider(db, { balance: 500 });
+    const nonce = randomUUID();
+
+    await scan(rider, { p_pass_nonce: nonce });
+    const replay = await scan(rider, { p_pass_nonce: nonce, p_offline: true });
+
+    assert.equal(replay.status, "invalid_pass");
+    assert.equal(replay.conflict, "duplicate");
+  });
+
+  it("charges a scan of a signed pass through processScan(), and refuses its id for another pass", async () => {
+    const rider = await createTestRider(db, { balance: 500 });
+    const { token } = issuePassToken(rider.studentId, rider.routeId);
+
+    const scanId = randomUUID();
+
+    const result = await processScan(
+      withDriverRoute(supabase, rider.routeId),
+      rider.driverId,
+      { scan_id: scanId, pass_token: token }
+    );
+
+    assert.equal(result.status, "success");
+    assert.equal(result.fareDeducted, 60);
+    assert.equal(result.balanceAfter, 440);
+
+    const other = await createTestRider(db, { balance: 500 });
+    await db.query("UPDATE students SET bus_route_id = $1 WHERE id = $2", [rider.routeId, other.studentId]);
+    const reused = issuePassToken(other.studentId, rider.routeId);
+
+    await assert.rejects(
+      processScan(withDriverRoute(supabase, rider.routeId), rider.driverId, { scan_id: scanId, pass_token: reused.token }),
+      (error) => error instanceof ScanError && error.status === 409
+    );
+  });
+});
+
+describe("processScan", () => {
+  const routeId = randomUUID();
+  const driverId = randomUUID();
+  const request = (passToken: string) => ({ scan_id: randomUUID(), pass_token: passToken });
+
+  it("does not query the database for an unsigned code", async () => {
+    for (const code of ["not-a-pass", randomUUID()]) {
+      const result = await processScan(withDriverRoute(unreachable, routeId), driverId, request(code));
+      assert.equal(result.status, "not_found");
+    }
+  });
+
+  it("turns away a pass for another route without logging it", async () => {
+    const { token } = issuePassToken(randomUUID(), randomUUID());
+
+    const result = await processScan(withDriverRoute(unreachable, routeId), driverId, request(token));
+
+    assert.equal(result.status, "invalid_pass");
+    assert.equal(result.message, "This pass is not valid for this route.");
+  });
+
+  it("refuses an offline scan recorded outside the accepted window", async () => {
+    const { token } = issuePassToken(randomUUID(), routeId);
+    const scannedAt = new Date(Date.now() - (OFFLINE_SCAN_MAX_AGE_HOURS + 1) * 3600 * 1000).toISOString();
+
+    const result = await processScan(unreachable, driverId, request(token), { scannedAt, offline: true });
+
+    assert.equal(result.status, "invalid_pass");
+    assert.equal(result.conflict, "rejected");
+  });
+});
+
+describe("isAcceptableScanTime", () => {
+  const now = Date.parse("2026-03-02T12:00:00Z");
+  const offset = (seconds: number) => new Date(now + seconds * 1000).toISOString();
+
+  it("accepts times from the last OFFLINE_SCAN_MAX_AGE_HOURS up to the clock skew ahead", () => {
+    assert.equal(isAcceptableScanTime(offset(0), now), true);
+    assert.equal(isAcceptableScanTime(offset(SCAN_CLOCK_SKEW_SECONDS), now), true);
+    assert.equal(isAcceptableScanTime(offset(-OFFLINE_SCAN_MAX_AGE_HOURS * 3600), now), true);
+  });
+
+  it("rejects times further ahead or older", () => {
+    assert.equal(isAcceptableScanTime(offset(SCAN_CLOCK_SKEW_SECONDS + 1), now), false);
+    assert.equal(isAcceptableScanTime(offset(-OFFLINE_SCAN_MAX_AGE_HOURS * 3600 - 1), now), false);
+  });
+});
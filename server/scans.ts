@@ -0,0 +1,244 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  FareRule,
+  OfflineRoster,
+  ScanRequest,
+  ScanResult,
+  ScanStatus,
+  ScanSyncConflict,
+  ScanSyncRequest,
+  ScanSyncResult,
+  Student,
+} from "@shared/schema";
+import { isAcceptableScanTime } from "@shared/schema";
+import { getPassTokenPublicKey, verifyPassToken } from "./pass-tokens";
+import { runAutoRecharges } from "./auto-recharge";
+import { getDriverOccupancy } from "./occupancy";
+
+// Timezone used to decide which scans belong to "today" for the daily limit,
+// and for the local hour/weekday buckets of trip history
+export const SCAN_TIMEZONE = process.env.SCAN_TIMEZONE || "Asia/Kolkata";
+
+export class ScanError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ScanError";
+  }
+}
+
+interface ProcessScanRow {
+  status: ScanStatus | "not_found";
+  reason?: "expired" | "replayed" | "wrong_route" | null;
+  conflict?: ScanSyncConflict | null;
+  student?: Student;
+  fare?: number;
+  fare_rule?: FareRule | null;
+  max_rides_per_day?: number | null;
+  fare_deducted?: number;
+  balance_after?: number;
+}
+
+const FREE_RIDE_MESSAGES: Record<FareRule, string> = {
+  standard: "No fare for this ride",
+  peak: "No fare for this ride",
+  free_return: "Return trip - no charge",
+  daily_cap: "Daily fare cap reached - no charge",
+  weekly_cap: "Weekly fare cap reached - no charge",
+  monthly_cap: "Monthly fare cap reached - no charge",
+  pass: "Travel pass - no charge",
+};
+
+export const WRONG_ROUTE_MESSAGE = "This pass is not valid for this route.";
+
+// Only what the driver needs to recognise a pass holder; the roster is kept
+// on the device, so balances and contact details stay off it
+export const ROSTER_COLUMNS = "id, full_name, enrollment_no, course, photo_url, is_blocked";
+
+interface DriverRouteRow {
+  buses: { bus_routes: { id: string; daily_fare: number } | null } | null;
+}
+
+// The route of the bus the driver is assigned to, if any
+async function getDriverRoute(
+  supabase: SupabaseClient,
+  driverId: string
+): Promise<{ id: string; daily_fare: number } | null> {
+  const { data, error } = await supabase
+    .from("drivers")
+    .select("buses(bus_routes(id, daily_fare))")
+    .eq("id", driverId)
+    .single<DriverRouteRow>();
+
+  if (error) throw error;
+  return data.buses?.bus_routes ?? null;
+}
+
+function describeScan(row: ProcessScanRow): string {
+  const fare = Number(row.fare ?? 0);
+  const balance = Number(row.balance_after ?? 0);
+
+  switch (row.status) {
+    case "not_found":
+      return "Student not found in the system.";
+    case "invalid_pass":
+      if (row.reason === "wrong_route") return WRONG_ROUTE_MESSAGE;
+      return row.reason === "replayed"
+        ? "This pass code has already been used. Ask the student to refresh their pass."
+        : "This pass code has expired. Ask the student to refresh their pass.";
+    case "blocked":
+      return "This student pass is blocked. Contact administrator.";
+    case "limit_exceeded":
+      return row.max_rides_per_day
+        ? `Daily ride limit (${row.max_rides_per_day}) exceeded.`
+        : "Daily ride limit exceeded.";
+    case "insufficient_balance":
+      return `Insufficient balance. Need ₹${fare}, have ₹${balance.toFixed(2)}`;
+    case "success":
+      if (Number(row.fare_deducted) > 0) {
+        return row.fare_rule === "peak"
+          ? "Peak fare deducted successfully"
+          : "Fare deducted successfully";
+      }
+      return FREE_RIDE_MESSAGES[row.fare_rule ?? "standard"];
+  }
+}
+
+interface ProcessScanOptions {
+  scannedAt?: string;
+  offline?: boolean;
+}
+
+// Runs the blocked/fare-policy/balance checks and the fare debit in a single
+// database transaction via the process_scan() function.
+export async function processScan(
+  supabase: SupabaseClient,
+  driverId: string,
+  { scan_id, pass_token }: ScanRequest,
+  { scannedAt, offline = false }: ProcessScanOptions = {}
+): Promise<ScanResult> {
+  // The fare and the pass expiry are judged as of the scan time, so a
+  // back-dated or future time could replay an old pass code
+  if (scannedAt && !isAcceptableScanTime(scannedAt)) {
+    return {
+      status: "invalid_pass",
+      message: "This scan was recorded too long ago to be settled.",
+      ...(offline ? { offline, conflict: "rejected" as const } : {}),
+    };
+  }
+
+  const route = await getDriverRoute(supabase, driverId);
+  const verification = verifyPassToken(pass_token, route?.id ?? null);
+
+  // Unsigned or tampered codes cannot be attributed to a student, and passes
+  // for another route are turned away at the door, so neither is logged
+  if (!verification.valid) {
+    return {
+      status: verification.reason === "wrong_route" ? "invalid_pass" : "not_found",
+      message: verification.reason === "wrong_route" ? WRONG_ROUTE_MESSAGE : "Invalid pass QR code.",
+      ...(offline ? { offline, conflict: "rejected" as const } : {}),
+    };
+  }
+
+  const { payload } = verification;
+
+  const { data, error } = await supabase.rpc("process_scan", {
+    p_scan_id: scan_id,
+    p_student_id: payload.sid,
+    p_driver_id: driverId,
+    p_pass_nonce: payload.n,
+    p_pass_expires_at: new Date(payload.exp * 1000).toISOString(),
+    p_timezone: SCAN_TIMEZONE,
+    p_scanned_at: scannedAt ?? new Date().toISOString(),
+    p_offline: offline,
+    p_pass_route_id: payload.rid,
+  });
+
+  if (error) throw error;
+
+  // The id belongs to another student's scan, whose outcome is not ours to return
+  if ((data as { status: string }).status === "scan_id_conflict") {
+    throw new ScanError("This scan id was already used for another student", 409);
+  }
+
+  const row = data as ProcessScanRow;
+  const result: ScanResult = {
+    status: row.status,
+    student: row.student,
+    message: describeScan(row),
+  };
+
+  if (row.status === "success") {
+    result.fareDeducted = Number(row.fare_deducted);
+    result.fareRule = row.fare_rule ?? null;
+    result.balanceAfter = Number(row.balance_after);
+  }
+
+  // Top up straight away if the fare took the student below their
+  // auto-recharge threshold, without holding up the driver
+  if (result.fareDeducted) {
+    runAutoRecharges(supabase, payload.sid).catch((error) => console.error("Auto-recharge error:", error));
+  }
+
+  if (offline) {
+    result.offline = true;
+    result.conflict = row.conflict ?? null;
+  } else if (row.status === "success") {
+    // The boarding was recorded by the database with the scan
+    result.occupancy = (await getDriverOccupancy(supabase, driverId)) ?? undefined;
+  }
+
+  return result;
+}
+
+// Replays a driver's offline queue in scan order. Each scan is settled in its
+// own transaction; a scan that errors is reported without a result so the
+// device keeps it queued and retries it on the next sync.
+export async function syncOfflineScans(
+  supabase: SupabaseClient,
+  driverId: string,
+  { scans }: ScanSyncRequest
+): Promise<ScanSyncResult[]> {
+  const ordered = [...scans].sort((a, b) => a.scanned_at.localeCompare(b.scanned_at));
+  const results: ScanSyncResult[] = [];
+
+  for (const scan of ordered) {
+    try {
+      const result = await processScan(
+        supabase,
+        driverId,
+        { scan_id: scan.scan_id, pass_token: scan.pass_token },
+        { scannedAt: scan.scanned_at, offline: true }
+      );
+      results.push({ scan_id: scan.scan_id, result });
+    } catch (error: any) {
+      console.error("Offline scan sync error:", error);
+      results.push({ scan_id: scan.scan_id, error: error.message });
+    }
+  }
+
+  return results;
+}
+
+export async function getOfflineRoster(
+  supabase: SupabaseClient,
+  driverId: string
+): Promise<OfflineRoster | null> {
+  const route = await getDriverRoute(supabase, driverId);
+  if (!route) return null;
+
+  const { data: students, error: studentsError } = await supabase
+    .from("students")
+    .select(ROSTER_COLUMNS)
+    .eq("bus_route_id", route.id);
+
+  if (studentsError) throw studentsError;
+
+  return {
+    driver_id: driverId,
+    route_id: route.id,
+    daily_fare: Number(route.daily_fare),
+    public_key: getPassTokenPublicKey(),
+    students: students || [],
+    generated_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,200 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import ExcelJS from "exceljs";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RequestAuth } from "./auth";
+import { appUrl } from "./notification-templates";
+import { StudentImportError, importStudents } from "./student-import";
+
+type Row = Record<string, string>;
+
+// Just enough of the Supabase client for importStudents: reads with an
+// optional .in() filter, inserts, and invited auth users that get sequential ids
+function fakeSupabase(tables: Record<string, Row[]>) {
+  const inserted: Record<string, Record<string, unknown>[]> = {};
+  const invites: [string, unknown][] = [];
+
+  const client = {
+    from(table: string) {
+      const rows = tables[table] || [];
+      return {
+        select() {
+          return Object.assign(Promise.resolve({ data: rows, error: null }), {
+            in: (column: string, values: string[]) =>
+              Promise.resolve({ data: rows.filter((row) => values.includes(row[column])), error: null }),
+          });
+        },
+        insert(row: Record<string, unknown>) {
+          const rows = (inserted[table] ||= []);
+          rows.push(row);
+          const saved = { id: `${table}-${rows.length}`, ...row };
+          return Object.assign(Promise.resolve({ error: null }), {
+            select: () => ({ single: () => Promise.resolve({ data: saved, error: null }) }),
+          });
+        },
+      };
+    },
+    auth: {
+      admin: {
+        inviteUserByEmail: async (email: string, options: unknown) => {
+          invites.push([email, options]);
+          return { data: { user: { id: `user-${invites.length}` } }, error: null };
+        },
+      },
+    },
+  };
+
+  return { supabase: client as unknown as SupabaseClient, inserted, invites };
+}
+
+const admin: RequestAuth = {
+  userId: "admin-1",
+  email: "admin@example.com",
+  role: "admin",
+  studentId: null,
+  driverId: null,
+};
+
+const HEADER = "Enrollment No,Name,Course,Dept,Mobile,Email,Route No";
+const csv = (...lines: string[]) => Buffer.from([HEADER, ...lines].join("\r\n"));
+
+describe("importStudents", () => {
+  const tables = {
+    bus_routes: [{ id: "route-1", route_number: "R1" }],
+    students: [{ enrollment_no: "EN000" }],
+    users: [{ email: "taken@example.com" }],
+  };
+
+  it("checks every row on a dry run without creating anyone", async () => {
+    const { supabase, inserted } = fakeSupabase(tables);
+
+    const report = await importStudents(supabase, csv(
+      "EN001,Asha Rao,B.Tech,CSE,09876543210,asha@example.com,r1",
+      "EN002,Ravi Kumar,B.Tech,ECE,9876543211,ravi@example.com,R9",
+      "EN000,Old Student,B.Tech,ECE,9876543212,old@example.com,",
+      "EN003,Meera,BBA,MGMT,9876543213,TAKEN@example.com,",
+      "",
+      "EN004,X,BBA,MGMT,123,not-an-email,"
+    ), true, admin);
+
+    assert.deepEqual(
+      report.rows.map((row) => [row.row, row.enrollmentNo, row.status, row.errors]),
+      [
+        [2, "EN001", "valid", []],
+        [3, "EN002", "error", ["Unknown route R9"]],
+        [4, "EN000", "error", ["A student with this enrollment number already exists"]],
+        [5, "EN003", "error", ["An account with this email already exists"]],
+        [7, "EN004", "error", [
+          "Name must be at least 2 characters",
+          "Phone must be at least 10 digits",
+          "Invalid email address",
+        ]],
+      ]
+    );
+    assert.deepEqual([report.total, report.valid, report.created, report.failed], [5, 1, 0, 4]);
+    assert.deepEqual(inserted, {});
+  });
+
+  it("flags enrollment numbers and emails repeated within the file", async () => {
+    const { supabase } = fakeSupabase(tables);
+
+    const report = await importStudents(supabase, csv(
+      "EN010,Asha Rao,B.Tech,CSE,9876543210,same@example.com,",
+      "EN010,Ravi Kumar,B.Tech,ECE,9876543211,Same@example.com,"
+    ), true, admin);
+
+    assert.deepEqual(report.rows[0].errors, [
+      "Enrollment number appears more than once in the file",
+      "Email appears more than once in the file",
+    ]);
+    assert.equal(report.failed, 2);
+  });
+
+  it("invites the account and creates the users row and profile of each valid row", async () => {
+    const { supabase, inserted, invites } = fakeSupabase(tables);
+
+    const report = await importStudents(supabase, csv(
+      "EN020,Asha Rao,B.Tech,CSE,09876543210,asha@example.com,R1"
+    ), false, admin);
+
+    assert.equal(report.created, 1);
+    assert.deepEqual(invites, [["asha@example.com", { redirectTo: appUrl("/student/set-password") }]]);
+    assert.deepEqual(inserted.users, [{ id: "user-1", email: "asha@example.com", role: "student" }]);
+    assert.deepEqual(inserted.students, [{
+      full_name: "Asha Rao",
+      enrollment_no: "EN020",
+      course: "B.Tech",
+      department: "CSE",
+      phone: "09876543210",
+      user_id: "user-1",
+      bus_route_id: "route-1",
+    }]);
+    assert.deepEqual(
+      inserted.audit_events.map((event) => [event.actor_id, event.action, event.entity_type, event.entity_id]),
+      [["admin-1", "import", "students", "students-1"]]
+    );
+  });
+
+  it("rejects a file without the required columns", async () => {
+    const { supabase } = fakeSupabase(tables);
+
+    await assert.rejects(
+      importStudents(supabase, Buffer.from("Name,Email\nAsha,asha@example.com"), true, admin),
+      (error) => error instanceof StudentImportError && error.message === "Missing columns: enrollment_no, course, department, phone"
+    );
+  });
+
+  it("reads quoted CSV fields with commas, quotes and line breaks", async () => {
+    const { supabase } = fakeSupabase(tables);
+
+    const report = await importStudents(supabase, Buffer.from("\uFEFF" + [
+      HEADER,
+      'EN030,"Rao, Asha ""AR""",B.Tech,CSE,09876543210,asha@example.com,',
+      'EN031,"Ravi\r\nKumar",B.Tech,ECE,9876543211,ravi@example.com,',
+    ].join("\r\n")), true, admin);
+
+    assert.deepEqual(report.rows.map((row) => [row.row, row.fullName, row.email]), [
+      [2, 'Rao, Asha "AR"', "asha@example.com"],
+      [3, "Ravi\r\nKumar", "ravi@example.com"],
+    ]);
+  });
+
+  it("rejects a quoted field that is never closed", async () => {
+    const { supabase } = fakeSupabase(tables);
+
+    await assert.rejects(
+      importStudents(supabase, csv('EN040,"Asha,B.Tech,CSE,9876543210,asha@example.com,'), true, admin),
+      /a quoted field is never closed/
+    );
+  });
+
+  it("reads the first sheet of an XLSX workbook as text", async () => {
+    const { supabase } = fakeSupabase(tables);
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet("Students");
+    sheet.addRow(HEADER.split(","));
+    sheet.addRow(["EN050", "Asha Rao", "B.Tech", "CSE", "09876543210", null, "R1"]);
+    sheet.getCell("F2").value = { text: "asha@example.com", hyperlink: "mailto:asha@example.com" };
+    sheet.addRow([]);
+    sheet.addRow([51, "Ravi Kumar", "B.Tech", "ECE", 9876543211, "ravi@example.com", null]);
+    workbook.addWorksheet("Notes").addRow(["Ignored"]);
+
+    const file = Buffer.from(await workbook.xlsx.writeBuffer());
+    const report = await importStudents(supabase, file, true, admin);
+
+    assert.deepEqual(report.rows.map((row) => [row.row, row.enrollmentNo, row.email, row.status]), [
+      [2, "EN050", "asha@example.com", "valid"],
+      [4, "51", "ravi@example.com", "valid"],
+    ]);
+  });
+
+  it("rejects a workbook that cannot be read", async () => {
+    const { supabase } = fakeSupabase(tables);
+    const broken = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from("not a zip")]);
+
+    await assert.rejects(
+      importStudents(supabase, broken, true, admin),
+      (error) => error instanceof StudentImportError && /Upload a CSV or XLSX spreadsheet/.test(error.message)
+    );
+  });
+});
@@ -0,0 +1,377 @@
+import type { Request, Response } from "express";
+import multer from "multer";
+import ExcelJS from "exceljs";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { RequestAuth } from "./auth";
+import { recordAuditEvent } from "./audit";
+import { appUrl } from "./notification-templates";
+import {
+  STUDENT_IMPORT_MAX_ROWS,
+  studentImportRowSchema,
+  type StudentImportReport,
+  type StudentImportRow,
+  type StudentImportRowResult,
+} from "@shared/schema";
+
+const MAX_FILE_BYTES = 1024 * 1024;
+// Keeps .in() filters well under PostgREST's URL length limit
+const LOOKUP_CHUNK = 200;
+
+export class StudentImportError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "StudentImportError";
+  }
+}
+
+type ImportField = "enrollment_no" | "full_name" | "course" | "department" | "phone" | "email" | "route_number";
+
+// Header spellings accepted for each column, compared lowercase with spaces,
+// dots and dashes folded to underscores
+const HEADER_ALIASES: Record<string, ImportField> = {
+  enrollment_no: "enrollment_no",
+  enrollment_number: "enrollment_no",
+  enrollment: "enrollment_no",
+  full_name: "full_name",
+  name: "full_name",
+  student_name: "full_name",
+  course: "course",
+  department: "department",
+  dept: "department",
+  phone: "phone",
+  phone_number: "phone",
+  mobile: "phone",
+  email: "email",
+  email_address: "email",
+  route_number: "route_number",
+  route_no: "route_number",
+  route: "route_number",
+};
+
+const REQUIRED_FIELDS: ImportField[] = ["enrollment_no", "full_name", "course", "department", "phone", "email"];
+
+interface SheetRow {
+  row: number;
+  values: Record<ImportField, string>;
+}
+
+interface CheckedRow extends SheetRow {
+  student: StudentImportRow | null;
+  errors: string[];
+}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_BYTES, files: 1 },
+}).single("file");
+
+// Reads the multipart "file" field into memory
+export function receiveImportFile(req: Request, res: Response): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    upload(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        return reject(new StudentImportError(
+          err.code === "LIMIT_FILE_SIZE" ? "File is larger than 1 MB" : err.message
+        ));
+      }
+      if (err) return reject(err);
+      if (!req.file) return reject(new StudentImportError("Choose a CSV or XLSX file to import"));
+      resolve(req.file.buffer);
+    });
+  });
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s.\-]+/g, "_");
+
+// RFC 4180 CSV: comma separated, fields optionally double-quoted with ""
+// for a literal quote, and quoted fields may span lines. Every cell stays
+// text so phone and enrollment numbers keep their leading zeros.
+function parseCsv(text: string): string[][] {
+  const lines: string[][] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      cells.push(cell);
+      lines.push(cells);
+      cells = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new StudentImportError("Could not read the file: a quoted field is never closed");
+  }
+  if (cell !== "" || cells.length > 0) {
+    cells.push(cell);
+    lines.push(cells);
+  }
+
+  return lines;
+}
+
+// An XLSX workbook is a zip archive, so it starts with a zip file header
+const isXlsx = (file: Buffer) => file.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+
+// First worksheet only. Cells are read as their displayed text, so a phone
+// number stored as text keeps its leading zero and a linked email its address.
+async function parseXlsx(file: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(file);
+  } catch {
+    throw new StudentImportError("Could not read the file. Upload a CSV or XLSX spreadsheet.");
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) throw new StudentImportError("The file has no sheets");
+  // Header plus the most students a file may hold; checked before reading
+  // every cell of an oversized sheet
+  if (sheet.actualRowCount > STUDENT_IMPORT_MAX_ROWS + 1) {
+    throw new StudentImportError(`Import at most ${STUDENT_IMPORT_MAX_ROWS} students at a time; split the file`);
+  }
+
+  const lines: string[][] = [];
+  for (let r = 1; r <= sheet.rowCount; r++) {
+    const row = sheet.getRow(r);
+    const cells: string[] = [];
+    for (let c = 1; c <= sheet.columnCount; c++) {
+      cells.push(row.getCell(c).text);
+    }
+    lines.push(cells);
+  }
+  return lines;
+}
+
+async function readSheet(file: Buffer): Promise<SheetRow[]> {
+  // CSV files saved by spreadsheet apps often start with a byte order mark
+  const [headers = [], ...lines] = isXlsx(file)
+    ? await parseXlsx(file)
+    : parseCsv(file.toString("utf8").replace(/^\uFEFF/, ""));
+
+  const columns = headers.map((header) => HEADER_ALIASES[normalizeHeader(header)]);
+  const missing = REQUIRED_FIELDS.filter((field) => !columns.includes(field));
+  if (missing.length > 0) {
+    throw new StudentImportError(`Missing column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`);
+  }
+
+  const rows: SheetRow[] = [];
+  lines.forEach((cells, index) => {
+    if (cells.every((cell) => cell.trim() === "")) return;
+
+    const values = {} as Record<ImportField, string>;
+    columns.forEach((field, i) => {
+      if (field) values[field] = (cells[i] ?? "").trim();
+    });
+    rows.push({ row: index + 2, values });
+  });
+
+  if (rows.length === 0) throw new StudentImportError("The file has no student rows");
+  if (rows.length > STUDENT_IMPORT_MAX_ROWS) {
+    throw new StudentImportError(`Import at most ${STUDENT_IMPORT_MAX_ROWS} students at a time; split the file`);
+  }
+
+  return rows;
+}
+
+async function findExisting(
+  supabase: SupabaseClient,
+  table: "students" | "users",
+  column: "enrollment_no" | "email",
+  values: string[]
+): Promise<Set<string>> {
+  const found = new Set<string>();
+
+  for (let i = 0; i < values.length; i += LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(column)
+      .in(column, values.slice(i, i + LOOKUP_CHUNK));
+
+    if (error) throw error;
+    for (const row of (data || []) as Record<string, string>[]) {
+      found.add(column === "email" ? row[column].toLowerCase() : row[column]);
+    }
+  }
+
+  return found;
+}
+
+function countBy(values: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return counts;
+}
+
+// Validates every row against insertStudentSchema (plus email), resolves
+// route numbers and reports duplicates within the file and against existing
+// students and accounts, so one pass lists every problem
+async function checkRows(supabase: SupabaseClient, rows: SheetRow[]): Promise<CheckedRow[]> {
+  const enrollments = rows.map((r) => r.values.enrollment_no);
+  const emails = rows.map((r) => r.values.email.toLowerCase());
+
+  const [{ data: routes, error: routesError }, existingEnrollments, existingEmails] = await Promise.all([
+    supabase.from("bus_routes").select("id, route_number"),
+    findExisting(supabase, "students", "enrollment_no", Array.from(new Set(enrollments.filter(Boolean)))),
+    findExisting(supabase, "users", "email", Array.from(new Set(emails.filter(Boolean)))),
+  ]);
+
+  if (routesError) throw routesError;
+
+  const routeIds = new Map(
+    ((routes || []) as { id: string; route_number: string }[]).map((r) => [r.route_number.toLowerCase(), r.id])
+  );
+  const enrollmentCounts = countBy(enrollments);
+  const emailCounts = countBy(emails);
+
+  return rows.map(({ row, values }) => {
+    const errors: string[] = [];
+    const email = values.email.toLowerCase();
+    const routeNumber = values.route_number || "";
+
+    const routeId = routeNumber ? routeIds.get(routeNumber.toLowerCase()) : undefined;
+    if (routeNumber && !routeId) errors.push(`Unknown route ${routeNumber}`);
+
+    const parsed = studentImportRowSchema.safeParse({
+      full_name: values.full_name,
+      enrollment_no: values.enrollment_no,
+      course: values.course,
+      department: values.department,
+      phone: values.phone,
+      email,
+      bus_route_id: routeId,
+    });
+    if (!parsed.success) errors.push(...parsed.error.errors.map((issue) => issue.message));
+
+    if ((enrollmentCounts.get(values.enrollment_no) || 0) > 1) {
+      errors.push("Enrollment number appears more than once in the file");
+    } else if (existingEnrollments.has(values.enrollment_no)) {
+      errors.push("A student with this enrollment number already exists");
+    }
+    if ((emailCounts.get(email) || 0) > 1) {
+      errors.push("Email appears more than once in the file");
+    } else if (existingEmails.has(email)) {
+      errors.push("An account with this email already exists");
+    }
+
+    return { row, values, student: parsed.success && errors.length === 0 ? parsed.data : null, errors };
+  });
+}
+
+// Same steps as /api/create-driver, except the auth user is invited: Supabase
+// emails the student a link to pick their own password. Then the users row
+// with its role and the profile; earlier steps are undone if a later one fails.
+async function createStudent(
+  supabase: SupabaseClient,
+  student: StudentImportRow,
+  actor: RequestAuth
+): Promise<void> {
+  const { email, ...profile } = student;
+
+  const { data: authData, error: authError } = await supabase.auth.admin.inviteUserByEmail(email, {
+    redirectTo: appUrl("/student/set-password"),
+  });
+
+  if (authError) throw authError;
+  if (!authData.user) throw new Error("Failed to create user");
+
+  const userId = authData.user.id;
+  let created: Record<string, unknown>;
+
+  try {
+    const { error: userError } = await supabase
+      .from("users")
+      .insert({ id: userId, email, role: "student" });
+
+    if (userError) throw userError;
+
+    const { data: studentData, error: studentError } = await supabase
+      .from("students")
+      .insert({ ...profile, user_id: userId, bus_route_id: profile.bus_route_id ?? null })
+      .select()
+      .single();
+
+    if (studentError) throw studentError;
+    created = studentData;
+  } catch (error) {
+    await supabase.from("users").delete().eq("id", userId);
+    await supabase.auth.admin.deleteUser(userId);
+    throw error;
+  }
+
+  await recordAuditEvent(supabase, actor, {
+    action: "import",
+    entityType: "students",
+    entityId: String(created.id),
+    after: { ...created, email },
+  });
+}
+
+export async function importStudents(
+  supabase: SupabaseClient,
+  file: Buffer,
+  dryRun: boolean,
+  actor: RequestAuth
+): Promise<StudentImportReport> {
+  const checked = await checkRows(supabase, await readSheet(file));
+  const results: StudentImportRowResult[] = [];
+
+  // One at a time: each student is three dependent writes and the auth API
+  // rate-limits bursts
+  for (const { row, values, student, errors } of checked) {
+    const result: StudentImportRowResult = {
+      row,
+      enrollmentNo: values.enrollment_no,
+      fullName: values.full_name,
+      email: values.email,
+      status: "error",
+      errors,
+    };
+
+    if (student && dryRun) {
+      result.status = "valid";
+    } else if (student) {
+      try {
+        await createStudent(supabase, student, actor);
+        result.status = "created";
+      } catch (error: any) {
+        console.error(`Student import row ${row} error:`, error);
+        result.errors = [error.message || "Failed to create student"];
+      }
+    }
+
+    results.push(result);
+  }
+
+  return {
+    dryRun,
+    total: results.length,
+    created: results.filter((r) => r.status === "created").length,
+    valid: results.filter((r) => r.status === "valid").length,
+    failed: results.filter((r) => r.status === "error").length,
+    rows: results,
+  };
+}
@@ -0,0 +1,119 @@
+import { readFileSync } from "fs";
+import { PGlite } from "@electric-sql/pglite";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { BASE_TABLES_SQL } from "./base-tables";
+
+// What a Supabase project already has before any of our SQL runs
+const SUPABASE_PRELUDE = `
+CREATE ROLE anon;
+CREATE ROLE authenticated;
+CREATE SCHEMA auth;
+CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql STABLE
+  AS $$ SELECT NULLIF(current_setting('request.jwt.claim.sub', TRUE), '')::UUID $$;
+GRANT USAGE ON SCHEMA auth TO anon, authenticated;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated;
+CREATE PUBLICATION supabase_realtime;
+`;
+
+// An in-memory Postgres (PGlite) with the base tables and all of
+// supabase-tables.sql, so tests run the real SQL functions
+export async function createTestDatabase(): Promise<PGlite> {
+  const db = new PGlite();
+  await db.exec(SUPABASE_PRELUDE);
+  await db.exec(BASE_TABLES_SQL);
+  await db.exec(readFileSync(new URL("../supabase-tables.sql", import.meta.url), "utf8"));
+  return db;
+}
+
+// Enough of a Supabase client for code that only calls rpc(): each call runs
+// the function with named arguments and returns its result as JSON, as
+// PostgREST does (an array of rows for set-returning functions)
+export function createRpcClient(db: PGlite): SupabaseClient {
+  const rpc = async (name: string, params: Record<string, unknown> = {}) => {
+    const names = Object.keys(params);
+    const args = names.map((param, i) => `${param} => $${i + 1}`).join(", ");
+
+    try {
+      const { rows: [fn] } = await db.query<{ retset: boolean }>(
+        "SELECT proretset AS retset FROM pg_proc WHERE proname = $1 LIMIT 1",
+        [name]
+      );
+      const sql = fn?.retset
+        ? `SELECT COALESCE(jsonb_agg(r), '[]') AS data FROM ${name}(${args}) r`
+        : `SELECT to_jsonb(${name}(${args})) AS data`;
+
+      const result = await db.query<{ data: unknown }>(sql, names.map((param) => params[param]));
+      return { data: result.rows[0]?.data ?? null, error: null };
+    } catch (error) {
+      return { data: null, error };
+    }
+  };
+
+  return { rpc } as unknown as SupabaseClient;
+}
+
+// Runs `run` as a signed-in user, so row level security applies as it does
+// for requests made with the anon key and that user's session
+export async function asUser<T>(db: PGlite, userId: string, run: () => Promise<T>): Promise<T> {
+  await db.query("SELECT set_config('request.jwt.claim.sub', $1, FALSE)", [userId]);
+  await db.exec("SET ROLE authenticated");
+  try {
+    return await run();
+  } finally {
+    await db.exec("RESET ROLE");
+    await db.query("SELECT set_config('request.jwt.claim.sub', '', FALSE)");
+  }
+}
+
+export async function createTestUser(db: PGlite, role: "student" | "driver" | "admin"): Promise<string> {
+  const { rows: [user] } = await db.query<{ id: string }>(
+    "INSERT INTO users (email, role) VALUES ($1, $2) RETURNING id",
+    [`${role}-${Math.random().toString(36).slice(2, 10)}@example.com`, role]
+  );
+  return user.id;
+}
+
+export interface TestRider {
+  routeId: string;
+  busId: string;
+  driverId: string;
+  studentId: string;
+}
+
+// A route with a bus and its driver, and a student on that route with
+// `balance` in their wallet
+export async function createTestRider(db: PGlite, { dailyFare = 60, balance = 0 } = {}): Promise<TestRider> {
+  const suffix = Math.random().toString(36).slice(2, 10);
+
+  const { rows: [route] } = await db.query<{ id: string }>(
+    "INSERT INTO bus_routes (route_name, route_number, daily_fare) VALUES ($1, $2, $3) RETURNING id",
+    [`Route ${suffix}`, `R-${suffix}`, dailyFare]
+  );
+  const { rows: [bus] } = await db.query<{ id: string }>(
+    "INSERT INTO buses (bus_number, route_id) VALUES ($1, $2) RETURNING id",
+    [`BUS-${suffix}`, route.id]
+  );
+  const { rows: [driver] } = await db.query<{ id: string }>(
+    "INSERT INTO drivers (full_name, phone, license_number, bus_id) VALUES ('Driver', '9999999999', $1, $2) RETURNING id",
+    [`DL-${suffix}`, bus.id]
+  );
+  const { rows: [student] } = await db.query<{ id: string }>(
+    `INSERT INTO students (full_name, enrollment_no, course, department, phone, bus_route_id)
+     VALUES ('Student', $1, 'BSc', 'CS', '9999999999', $2) RETURNING id`,
+    [`EN-${suffix}`, route.id]
+  );
+
+  if (balance > 0) {
+    await db.query("SELECT post_wallet_journal($1, $2, 'opening_balance', NULL, 'Opening balance')", [student.id, balance]);
+  }
+
+  return { routeId: route.id, busId: bus.id, driverId: driver.id, studentId: student.id };
+}
+
+export async function getWalletBalance(db: PGlite, studentId: string): Promise<number> {
+  const { rows } = await db.query<{ wallet_balance: string }>(
+    "SELECT wallet_balance FROM students WHERE id = $1",
+    [studentId]
+  );
+  return Number(rows[0].wallet_balance);
+}
@@ -0,0 +1,129 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PGlite } from "@electric-sql/pglite";
+import { createTestDatabase, createTestRider, type TestRider } from "./test-database";
+
+interface DepartureRow {
+  slot_id: string;
+  scheduled_departure: Date;
+  trip_id: string | null;
+}
+
+// Times in Asia/Kolkata; 2026-03-06 is a Friday
+const at = (date: string, time: string) => new Date(`${date}T${time}+05:30`);
+
+describe("timetable functions", () => {
+  let db: PGlite;
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  async function addSlot(
+    routeId: string,
+    time: string,
+    { direction = "morning", days = [1, 2, 3, 4, 5], busId = null as string | null } = {}
+  ): Promise<string> {
+    const { rows: [slot] } = await db.query<{ id: string }>(
+      "INSERT INTO timetable_slots (route_id, direction, departure_time, days, bus_id) VALUES ($1, $2, $3, $4, $5) RETURNING id",
+      [routeId, direction, time, days, busId]
+    );
+    return slot.id;
+  }
+
+  async function departures(routeId: string, from: Date, days = 4): Promise<DepartureRow[]> {
+    const { rows } = await db.query<DepartureRow>(
+      "SELECT slot_id, scheduled_departure, trip_id FROM upcoming_departures($1, $2, $3, 20, 'Asia/Kolkata')",
+      [routeId, from, days]
+    );
+    return rows;
+  }
+
+  async function startTrip(rider: TestRider, startedAt: Date) {
+    const { rows: [trip] } = await db.query<{ id: string; timetable_slot_id: string | null; scheduled_departure: Date | null }>(
+      `INSERT INTO active_trips (bus_id, driver_id, route_id, started_at) VALUES ($1, $2, $3, $4)
+       RETURNING id, timetable_slot_id, scheduled_departure`,
+      [rider.busId, rider.driverId, rider.routeId, startedAt]
+    );
+    return trip;
+  }
+
+  it("lists departures on the slot's weekdays in local time, skipping holidays", async () => {
+    const rider = await createTestRider(db);
+    const morning = await addSlot(rider.routeId, "07:30");
+    const saturday = await addSlot(rider.routeId, "09:00", { direction: "evening", days: [6] });
+    await db.query(
+      "INSERT INTO timetable_holidays (holiday_date, name, route_id) VALUES ('2026-03-09', 'Route closed', $1)",
+      [rider.routeId]
+    );
+
+    const rows = await departures(rider.routeId, at("2026-03-06", "08:00"));
+
+    assert.deepEqual(rows.map((row) => [row.slot_id, row.scheduled_departure.toISOString()]), [
+      [saturday, at("2026-03-07", "09:00").toISOString()],
+    ]);
+
+    const next = await departures(rider.routeId, at("2026-03-06", "08:00"), 5);
+    assert.deepEqual(next.map((row) => [row.slot_id, row.scheduled_departure.toISOString()]), [
+      [saturday, at("2026-03-07", "09:00").toISOString()],
+      [morning, at("2026-03-10", "07:30").toISOString()],
+    ]);
+  });
+
+  it("links a new trip to the nearest untaken departure within an hour", async () => {
+    const rider = await createTestRider(db);
+    const early = await addSlot(rider.routeId, "07:30");
+    const late = await addSlot(rider.routeId, "08:00");
+
+    const first = await startTrip(rider, at("2026-03-06", "07:40"));
+    const second = await startTrip(rider, at("2026-03-06", "07:41"));
+    const third = await startTrip(rider, at("2026-03-06", "07:42"));
+
+    assert.deepEqual(
+      [first, second, third].map((trip) => [trip.timetable_slot_id, trip.scheduled_departure?.toISOString() ?? null]),
+      [
+        [early, at("2026-03-06", "07:30").toISOString()],
+        [late, at("2026-03-06", "08:00").toISOString()],
+        [null, null],
+      ]
+    );
+
+    const rows = await departures(rider.routeId, at("2026-03-06", "07:00"), 1);
+    assert.deepEqual(rows.map((row) => row.trip_id), [first.id, second.id]);
+  });
+
+  it("links trips in the service timezone from service_settings", async () => {
+    const rider = await createTestRider(db);
+    const slot = await addSlot(rider.routeId, "07:30");
+
+    await db.query("UPDATE service_settings SET timezone = 'UTC'");
+    try {
+      // 07:40 in Kolkata is 02:10 UTC, nowhere near 07:30 UTC
+      const kolkataMorning = await startTrip(rider, at("2026-03-06", "07:40"));
+      const utcMorning = await startTrip(rider, new Date("2026-03-06T07:40:00Z"));
+
+      assert.equal(kolkataMorning.timetable_slot_id, null);
+      assert.deepEqual(
+        [utcMorning.timetable_slot_id, utcMorning.scheduled_departure?.toISOString()],
+        [slot, "2026-03-06T07:30:00.000Z"]
+      );
+    } finally {
+      await db.query("UPDATE service_settings SET timezone = 'Asia/Kolkata'");
+    }
+  });
+
+  it("matches a slot with a bus only to that bus's trips, and none outside the hour", async () => {
+    const rider = await createTestRider(db);
+    const other = await createTestRider(db);
+    await addSlot(rider.routeId, "07:30", { busId: other.busId });
+    await addSlot(rider.routeId, "12:00");
+
+    const trip = await startTrip(rider, at("2026-03-06", "07:30"));
+
+    assert.equal(trip.timetable_slot_id, null);
+  });
+});
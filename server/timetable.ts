@@ -0,0 +1,95 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { DepartureFilters, TimetableDirection, UpcomingDeparture } from "@shared/schema";
+import { SCAN_TIMEZONE } from "./scans";
+
+// Far enough ahead to get past a weekend and a few holidays
+const LOOKAHEAD_DAYS = 7;
+
+// A departure that has not started is still listed this long after it was due
+const LATE_GRACE_MINUTES = 15;
+
+export class TimetableError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "TimetableError";
+  }
+}
+
+// The trip trigger links trips to the timetable in the timezone stored in
+// service_settings, so keep it the one the server reads the timetable in
+export async function syncServiceTimezone(supabase: SupabaseClient): Promise<void> {
+  const { error } = await supabase
+    .from("service_settings")
+    .upsert({ id: true, timezone: SCAN_TIMEZONE, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+}
+
+interface DepartureRow {
+  slot_id: string;
+  direction: TimetableDirection;
+  scheduled_departure: string;
+  bus_id: string | null;
+  trip_id: string | null;
+  trip_started_at: string | null;
+  trip_active: boolean | null;
+}
+
+// Next departures of a route from upcoming_departures(). With a stop, each
+// departure also gets the bus's scheduled time there. Departures whose trip
+// has ended are left out; running ones stay until the trip ends.
+export async function getUpcomingDepartures(
+  supabase: SupabaseClient,
+  routeId: string,
+  { stop_id, limit }: DepartureFilters
+): Promise<UpcomingDeparture[]> {
+  let offsetMinutes: number | null = null;
+
+  if (stop_id) {
+    const { data: stop, error } = await supabase
+      .from("route_stops")
+      .select("scheduled_offset_minutes")
+      .eq("id", stop_id)
+      .eq("route_id", routeId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!stop) {
+      throw new TimetableError("Stop not found on this route", 404);
+    }
+    offsetMinutes = stop.scheduled_offset_minutes;
+  }
+
+  // Look back far enough to catch buses still on their way to the stop
+  const lookbackMinutes = (offsetMinutes ?? 0) + LATE_GRACE_MINUTES;
+  const nowMs = Date.now();
+
+  const { data, error } = await supabase.rpc("upcoming_departures", {
+    p_route_id: routeId,
+    p_from: new Date(nowMs - lookbackMinutes * 60000).toISOString(),
+    p_days: LOOKAHEAD_DAYS,
+    p_limit: limit + 10,
+    p_timezone: SCAN_TIMEZONE,
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as DepartureRow[])
+    .map((row) => ({
+      row,
+      dueMs: new Date(row.scheduled_departure).getTime() + (offsetMinutes ?? 0) * 60000,
+    }))
+    .filter(({ row, dueMs }) =>
+      row.trip_id ? row.trip_active === true : dueMs >= nowMs - LATE_GRACE_MINUTES * 60000
+    )
+    .slice(0, limit)
+    .map(({ row, dueMs }) => ({
+      slot_id: row.slot_id,
+      direction: row.direction,
+      scheduled_departure: row.scheduled_departure,
+      stop_arrival: offsetMinutes != null ? new Date(dueMs).toISOString() : null,
+      bus_id: row.bus_id,
+      trip_id: row.trip_id,
+      trip_started_at: row.trip_started_at,
+    }));
+}
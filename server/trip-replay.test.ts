@@ -0,0 +1,67 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PGlite } from "@electric-sql/pglite";
+import { downsampleBreadcrumbs } from "./trip-replay";
+import { createRpcClient, createTestDatabase, createTestRider, type TestRider } from "./test-database";
+
+describe("downsampleBreadcrumbs", () => {
+  let db: PGlite;
+  let rider: TestRider;
+
+  before(async () => {
+    db = await createTestDatabase();
+    rider = await createTestRider(db);
+  });
+
+  after(async () => {
+    await db.close();
+  });
+
+  // A finished trip of `minutes` minutes that ended `endedDaysAgo` days ago,
+  // 15 seconds before the hour, with a GPS fix every `everySeconds`
+  async function recordTrip(endedDaysAgo: number, minutes: number, everySeconds: number): Promise<string> {
+    const { rows: [trip] } = await db.query<{ id: string }>(
+      `INSERT INTO active_trips (bus_id, driver_id, route_id, started_at, ended_at, is_active)
+       VALUES ($1, $2, $3,
+               date_trunc('hour', NOW()) - make_interval(days => $4, mins => $5, secs => 15),
+               date_trunc('hour', NOW()) - make_interval(days => $4, secs => 15),
+               FALSE)
+       RETURNING id`,
+      [rider.busId, rider.driverId, rider.routeId, endedDaysAgo, minutes]
+    );
+
+    await db.query(
+      `INSERT INTO bus_locations (bus_id, driver_id, trip_id, latitude, longitude, timestamp)
+       SELECT $1, $2, t.id, 12.97, 77.59, t.started_at + make_interval(secs => n * $4)
+       FROM active_trips t, generate_series(0, ($5 * 60) / $4) n
+       WHERE t.id = $3`,
+      [rider.busId, rider.driverId, trip.id, everySeconds, minutes]
+    );
+
+    return trip.id;
+  }
+
+  async function fixes(tripId: string): Promise<number> {
+    const { rows: [row] } = await db.query<{ count: number }>(
+      "SELECT COUNT(*)::INTEGER AS count FROM bus_locations WHERE trip_id = $1",
+      [tripId]
+    );
+    return row.count;
+  }
+
+  it("thins old trips to one fix a minute plus the last, once", async () => {
+    // 31 fixes from :54:45 to :59:45 over six clock minutes
+    const old = await recordTrip(40, 5, 10);
+    const recent = await recordTrip(2, 5, 10);
+
+    const supabase = createRpcClient(db);
+    const first = await downsampleBreadcrumbs(supabase);
+    const second = await downsampleBreadcrumbs(supabase);
+
+    assert.deepEqual(first, { trips: 1, deleted: 24 });
+    assert.deepEqual(second, { trips: 0, deleted: 0 });
+    // The first fix of each minute, and the last
+    assert.equal(await fixes(old), 7);
+    assert.equal(await fixes(recent), 31);
+  });
+});
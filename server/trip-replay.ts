@@ -0,0 +1,138 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  ReplayBreadcrumb,
+  RouteStop,
+  RouteStopWithStatus,
+  ScanLogWithDetails,
+  TripReplay,
+  TripStopEvent,
+  TripStopStatus,
+} from "@shared/schema";
+import { getSupabaseAdmin } from "./supabase";
+import { startIntervalJob } from "./interval-job";
+
+const RETENTION_INTERVAL_MS = parseInt(process.env.BREADCRUMB_RETENTION_INTERVAL_MINUTES || "360", 10) * 60 * 1000;
+const BREADCRUMB_RETENTION_DAYS = parseInt(process.env.BREADCRUMB_RETENTION_DAYS || "30", 10);
+const BREADCRUMB_DOWNSAMPLE_SECONDS = parseInt(process.env.BREADCRUMB_DOWNSAMPLE_SECONDS || "60", 10);
+
+// PostgREST caps each response, so long trips are read in pages
+const BREADCRUMB_PAGE_SIZE = 1000;
+
+export class TripReplayError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "TripReplayError";
+  }
+}
+
+interface DownsampleRow {
+  trips: number;
+  deleted: number;
+}
+
+async function fetchBreadcrumbs(supabase: SupabaseClient, tripId: string): Promise<ReplayBreadcrumb[]> {
+  const breadcrumbs: ReplayBreadcrumb[] = [];
+
+  for (let offset = 0; ; offset += BREADCRUMB_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("bus_locations")
+      .select("latitude, longitude, speed, heading, timestamp")
+      .eq("trip_id", tripId)
+      .order("timestamp", { ascending: true })
+      .range(offset, offset + BREADCRUMB_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      breadcrumbs.push({
+        latitude: Number(row.latitude),
+        longitude: Number(row.longitude),
+        speed: row.speed == null ? null : Number(row.speed),
+        heading: row.heading == null ? null : Number(row.heading),
+        timestamp: row.timestamp,
+      });
+    }
+
+    if (!data || data.length < BREADCRUMB_PAGE_SIZE) return breadcrumbs;
+  }
+}
+
+// A finished trip with its route, bus and driver, every stop with the times
+// the bus arrived and left, its GPS fixes and the scans taken on board
+export async function getTripReplay(supabase: SupabaseClient, tripId: string): Promise<TripReplay> {
+  const { data: trip, error: tripError } = await supabase
+    .from("active_trips")
+    .select("*, route:bus_routes(*), bus:buses(*), driver:drivers(*)")
+    .eq("id", tripId)
+    .maybeSingle();
+
+  if (tripError) throw tripError;
+  if (!trip) {
+    throw new TripReplayError("Trip not found", 404);
+  }
+  if (trip.is_active) {
+    throw new TripReplayError("Trip is still running; follow it live instead", 409);
+  }
+
+  const [stopsResult, eventsResult, scansResult, breadcrumbs] = await Promise.all([
+    supabase
+      .from("route_stops")
+      .select("*")
+      .eq("route_id", trip.route_id)
+      .order("sequence", { ascending: true }),
+    supabase
+      .from("trip_stop_events")
+      .select("*")
+      .eq("trip_id", trip.id),
+    supabase
+      .from("scan_logs")
+      .select("*, student:students(*), route_stop:route_stops(*)")
+      .eq("trip_id", trip.id)
+      .order("scan_timestamp", { ascending: true }),
+    fetchBreadcrumbs(supabase, trip.id),
+  ]);
+
+  if (stopsResult.error) throw stopsResult.error;
+  if (eventsResult.error) throw eventsResult.error;
+  if (scansResult.error) throw scansResult.error;
+
+  const events = (eventsResult.data || []) as TripStopEvent[];
+  const stops: RouteStopWithStatus[] = ((stopsResult.data || []) as RouteStop[]).map((stop) => {
+    const event = events.find((e) => e.route_stop_id === stop.id);
+    return {
+      ...stop,
+      status: (event?.status ?? "pending") as TripStopStatus,
+      arrived_at: event?.arrived_at ?? null,
+      departed_at: event?.departed_at ?? null,
+    };
+  });
+
+  return {
+    ...trip,
+    stops,
+    breadcrumbs,
+    scans: (scansResult.data || []) as ScanLogWithDetails[],
+  };
+}
+
+export async function downsampleBreadcrumbs(supabase: SupabaseClient): Promise<DownsampleRow> {
+  const { data, error } = await supabase.rpc("downsample_bus_locations", {
+    p_older_than: `${BREADCRUMB_RETENTION_DAYS} days`,
+    p_keep_every_seconds: BREADCRUMB_DOWNSAMPLE_SECONDS,
+  });
+
+  if (error) throw error;
+  return data as DownsampleRow;
+}
+
+// Thins the GPS fixes of trips that finished more than
+// BREADCRUMB_RETENTION_DAYS ago. Each call handles one batch of trips, so a
+// backlog is worked through over several ticks.
+export function startBreadcrumbRetention(intervalMs = RETENTION_INTERVAL_MS): () => void {
+  return startIntervalJob("Breadcrumb retention", async () => {
+    const result = await downsampleBreadcrumbs(getSupabaseAdmin());
+    if (result.trips > 0) {
+      console.log(`Breadcrumb retention: thinned ${result.trips} trip(s), removed ${result.deleted} fix(es)`);
+    }
+  }, intervalMs);
+}
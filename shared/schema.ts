@@ -22,6 +22,8 @@ export interface Student {
   phone: string;
   photo_url: string | null;
   bus_route_id: string | null;
+  boarding_stop_id: string | null;
+  notify_bus_approaching: boolean;
   wallet_balance: number;
   is_blocked: boolean;
   created_at: string;
@@ -52,6 +54,66 @@ export interface BusRoute {
   created_at: string;
 }
 
+// Peak pricing window in local time; days are 0 (Sunday) - 6, empty means every day
+export interface FarePeakPeriod {
+  days: number[];
+  start: string;
+  end: string;
+}
+
+// Per-route pricing rules, evaluated on every scan by evaluate_fare().
+// Routes without one are charged daily_fare once a day, up to two rides.
+export interface FarePolicy {
+  id: string;
+  route_id: string;
+  ride_fare: number;
+  peak_fare: number | null;
+  peak_periods: FarePeakPeriod[];
+  max_rides_per_day: number | null;
+  daily_cap: number | null;
+  weekly_cap: number | null;
+  monthly_cap: number | null;
+  free_return_window_minutes: number | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Which policy rule set the fare of a successful scan
+export type FareRule = "standard" | "peak" | "free_return" | "daily_cap" | "weekly_cap" | "monthly_cap" | "pass";
+
+// Travel passes: a fixed-price pass for a route, bought from the wallet
+export type PassPeriod = "monthly" | "semester";
+
+export interface PassProduct {
+  id: string;
+  route_id: string;
+  name: string;
+  period: PassPeriod;
+  duration_days: number;
+  price: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PassSubscriptionStatus = "active" | "cancelled";
+
+// One purchase of a pass product; valid_from and valid_until are local
+// dates (YYYY-MM-DD), both included
+export interface PassSubscription {
+  id: string;
+  student_id: string;
+  product_id: string;
+  route_id: string;
+  transaction_id: string | null;
+  price: number;
+  valid_from: string;
+  valid_until: string;
+  status: PassSubscriptionStatus;
+  created_at: string;
+}
+
 // Bus interface
 export interface Bus {
   id: string;
@@ -67,6 +129,7 @@ export interface BusLocation {
   id: string;
   bus_id: string;
   driver_id: string;
+  trip_id: string | null;
   latitude: number;
   longitude: number;
   speed: number | null;
@@ -83,6 +146,8 @@ export interface RouteStop {
   sequence: number;
   latitude: number | null;
   longitude: number | null;
+  // Minutes after a timetable departure that the bus is due here
+  scheduled_offset_minutes: number | null;
   created_at: string;
 }
 
@@ -110,6 +175,13 @@ export interface ActiveTrip {
   ended_at: string | null;
   is_active: boolean;
   current_stop_sequence: number;
+  // Timetable slot the trip was linked to when it started, if any
+  timetable_slot_id: string | null;
+  scheduled_departure: string | null;
+  // Students on board right now, maintained from trip_boardings
+  occupancy: number;
+  // Set once retention has thinned the trip's GPS fixes
+  breadcrumbs_downsampled_at: string | null;
 }
 
 // Extended types for stop tracking
@@ -117,6 +189,16 @@ export interface RouteStopWithStatus extends RouteStop {
   status: TripStopStatus;
   arrived_at: string | null;
   departed_at: string | null;
+  eta?: StopEta | null;
+}
+
+// How a stop ETA was estimated: from past trips on the route, or (without
+// enough history) from distance at the bus's speed
+export type EtaSource = "history" | "distance";
+
+export interface StopEta {
+  predicted_arrival: string;
+  source: EtaSource;
 }
 
 export interface ActiveTripWithDetails extends ActiveTrip {
@@ -126,8 +208,46 @@ export interface ActiveTripWithDetails extends ActiveTrip {
   stops?: RouteStopWithStatus[];
 }
 
+// Timetable: scheduled departures from a route's first stop. days are
+// weekdays, 0 (Sunday) - 6; departure_time is local HH:MM:SS.
+export type TimetableDirection = "morning" | "evening";
+
+export interface TimetableSlot {
+  id: string;
+  route_id: string;
+  direction: TimetableDirection;
+  departure_time: string;
+  days: number[];
+  bus_id: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// A day without service, for one route or (route_id null) every route
+export interface TimetableHoliday {
+  id: string;
+  holiday_date: string;
+  name: string;
+  route_id: string | null;
+  created_at: string;
+}
+
+// One departure from GET /api/routes/:routeId/departures. stop_arrival is the
+// scheduled time at the requested stop, when the stop has one; trip_id is set
+// once a trip has been linked to the departure.
+export interface UpcomingDeparture {
+  slot_id: string;
+  direction: TimetableDirection;
+  scheduled_departure: string;
+  stop_arrival: string | null;
+  bus_id: string | null;
+  trip_id: string | null;
+  trip_started_at: string | null;
+}
+
 // Transaction types
-export type TransactionType = "recharge" | "deduction" | "admin_adjustment";
+export type TransactionType = "recharge" | "deduction" | "admin_adjustment" | "pass_purchase" | "refund";
 export type TransactionStatus = "pending" | "success" | "failed";
 
 // Transaction interface
@@ -144,12 +264,102 @@ export interface Transaction {
   balance_before: number;
   balance_after: number;
   description: string | null;
+  // Set on a refund: the fare deduction it reverses
+  refund_of: string | null;
+  // Set on a fare deduction once it has been refunded
+  reversed_at: string | null;
+  reversed_by: string | null;
+  reversal_reason: string | null;
+  // A recharge charged to the student's saved auto-recharge token
+  auto_recharge: boolean;
   created_at: string;
   updated_at: string;
 }
 
+// Wallet ledger: each wallet change is a journal of two entries that sum to
+// zero, the student's wallet and a house account. A student's balance is the
+// sum of their student_wallet entries.
+export type LedgerAccount =
+  | "student_wallet"
+  | "gateway_clearing"
+  | "fare_revenue"
+  | "pass_revenue"
+  | "adjustments"
+  | "opening_balance";
+
+export interface LedgerEntry {
+  id: string;
+  journal_id: string;
+  account: LedgerAccount;
+  student_id: string;
+  transaction_id: string | null;
+  amount: number;
+  description: string | null;
+  created_at: string;
+}
+
+// One run of reconcile_wallets(); total_difference is stored minus ledger
+export interface WalletReconciliationRun {
+  id: string;
+  triggered_by: "schedule" | "admin";
+  students_checked: number;
+  mismatches: number;
+  total_difference: number;
+  created_at: string;
+}
+
+export interface WalletReconciliationIssue {
+  id: string;
+  run_id: string;
+  student_id: string;
+  stored_balance: number;
+  ledger_balance: number;
+  difference: number;
+  student?: Pick<Student, "id" | "full_name" | "enrollment_no" | "wallet_balance">;
+}
+
+// GET /api/admin/reconciliation
+export interface WalletReconciliation {
+  latest: WalletReconciliationRun | null;
+  issues: WalletReconciliationIssue[];
+  history: WalletReconciliationRun[];
+}
+
+// Payment gateway checkout, created by POST /api/payments/orders
+export type PaymentCheckoutMode = "razorpay" | "fake";
+
+export interface PaymentOrder {
+  transactionId: string;
+  orderId: string;
+  amount: number;
+  currency: string;
+  checkout: {
+    mode: PaymentCheckoutMode;
+    keyId: string;
+    gatewayUrl: string;
+    // Set when the payment also saves a token for auto-recharge
+    customerId?: string;
+    recurring?: boolean;
+  };
+}
+
+export type LowBalanceChannel = NotificationChannel;
+export type MandateStatus = "none" | "pending" | "active" | "paused" | "revoked";
+
+// A student's wallet preferences as returned by GET /api/wallet/settings. A
+// null low_balance_threshold means three rides at the route's fare.
+export interface WalletSettings {
+  low_balance_threshold: number | null;
+  low_balance_channels: LowBalanceChannel[];
+  auto_recharge_enabled: boolean;
+  auto_recharge_amount: number | null;
+  auto_recharge_threshold: number | null;
+  mandate_status: MandateStatus;
+  auto_recharge_failures: number;
+}
+
 // Scan status types
-export type ScanStatus = "success" | "insufficient_balance" | "limit_exceeded" | "blocked";
+export type ScanStatus = "success" | "insufficient_balance" | "limit_exceeded" | "blocked" | "invalid_pass";
 
 // Scan Log interface
 export interface ScanLog {
@@ -161,10 +371,104 @@ export interface ScanLog {
   scan_status: ScanStatus;
   fare_deducted: number;
   balance_after_scan: number;
+  pass_nonce: string | null;
+  is_offline: boolean;
+  sync_conflict: ScanSyncConflict | null;
+  pass_subscription_id: string | null;
+  transaction_id: string | null;
+  reversed_at: string | null;
+  // The trip the bus was running and the stop it was at, set by the database
+  trip_id: string | null;
+  route_stop_id: string | null;
+}
+
+// Why a scan accepted offline by the driver was settled differently on sync
+export type ScanSyncConflict = "duplicate" | "negative_balance" | "rejected";
+
+// Signed, short-lived QR payload issued by POST /api/pass-token
+export interface PassToken {
+  token: string;
+  expiresAt: string;
+}
+
+// Outcome of POST /api/scans ("not_found" is never written to scan_logs)
+export type ScanOutcome = ScanStatus | "not_found";
+
+export interface ScanResult {
+  status: ScanOutcome;
+  // Offline results only carry the roster's fields
+  student?: Student | RosterStudent;
+  message: string;
+  fareDeducted?: number;
+  fareRule?: FareRule | null;
+  balanceAfter?: number;
+  offline?: boolean;
+  conflict?: ScanSyncConflict | null;
+  // The driver's running trip after the scan, when there is one
+  occupancy?: TripOccupancy;
+}
+
+// Occupancy: students on board a trip. A successful scan boards the student;
+// they alight with an exit scan, when the bus leaves their own stop (if they
+// boarded elsewhere), or when the trip ends.
+export type AlightMethod = "exit_scan" | "stop" | "trip_end";
+
+export interface TripBoarding {
+  id: string;
+  trip_id: string;
+  student_id: string;
+  scan_log_id: string | null;
+  boarded_at: string;
+  boarded_stop_id: string | null;
+  alighted_at: string | null;
+  alighted_stop_id: string | null;
+  alight_method: AlightMethod | null;
+}
+
+export interface TripOccupancy {
+  onBoard: number;
+  capacity: number;
+}
+
+// Outcome of POST /api/scans/exit
+export type ExitScanStatus = "alighted" | "not_on_board" | "no_trip" | "expired" | "wrong_route" | "not_found";
+
+export interface ExitScanResult {
+  status: ExitScanStatus;
+  student?: RosterStudent;
+  message: string;
+  occupancy?: TripOccupancy;
+}
+
+// A scan recorded while the driver was offline, waiting to be replayed
+export interface QueuedScan {
+  scan_id: string;
+  pass_token: string;
+  scanned_at: string;
+}
+
+export interface ScanSyncResult {
+  scan_id: string;
+  result?: ScanResult;
+  error?: string;
+}
+
+// What a driver device is given to recognise a pass holder offline
+export type RosterStudent = Pick<Student, "id" | "full_name" | "enrollment_no" | "course" | "photo_url" | "is_blocked">;
+
+// Everything a driver device needs to verify passes for its route offline
+export interface OfflineRoster {
+  driver_id: string;
+  route_id: string;
+  daily_fare: number;
+  // Ed25519 public key the pass tokens are signed with (SPKI DER, base64url)
+  public_key: string;
+  students: RosterStudent[];
+  generated_at: string;
 }
 
 // Notification types
-export type NotificationType = "recharge" | "deduction" | "low_balance" | "scan" | "system";
+export type NotificationType = "recharge" | "deduction" | "low_balance" | "scan" | "system" | "bus_approaching";
 
 // Notification interface
 export interface Notification {
@@ -177,6 +481,78 @@ export interface Notification {
   created_at: string;
 }
 
+// External channels a notification can also be sent on, besides in-app
+export type NotificationChannel = "email" | "sms" | "push";
+
+// Low-balance warnings take their channels from wallet settings instead
+export type ConfigurableNotificationType = Exclude<NotificationType, "low_balance">;
+export type NotificationPreferences = Record<ConfigurableNotificationType, NotificationChannel[]>;
+
+export type DeliveryStatus = "pending" | "sending" | "sent" | "failed";
+
+// One email, SMS or push for a notification. A push's recipient is the
+// browser's subscription endpoint. title and message are copied from the
+// notification, which may since have been deleted.
+export interface NotificationDelivery {
+  id: string;
+  notification_id: string | null;
+  user_id: string;
+  channel: NotificationChannel;
+  recipient: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  provider_message_id: string | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Audit log entry for one admin change. entity_type is the table name;
+// before is null for inserts and after is null for deletes.
+export interface AuditEvent {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
+// A student's ticket against a fare deduction, resolved by an admin
+export type DisputeReason = "not_on_bus" | "charged_twice" | "wrong_fare" | "had_pass" | "other";
+export type DisputeStatus = "open" | "approved" | "rejected";
+
+export interface FareDispute {
+  id: string;
+  student_id: string;
+  transaction_id: string;
+  reason: DisputeReason;
+  status: DisputeStatus;
+  resolution_note: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  refund_transaction_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DisputeComment {
+  id: string;
+  dispute_id: string;
+  author_id: string | null;
+  author_role: "student" | "admin";
+  message: string;
+  created_at: string;
+}
+
 // Insert schemas for forms
 export const insertStudentSchema = z.object({
   full_name: z.string().min(2, "Name must be at least 2 characters"),
@@ -187,6 +563,16 @@ export const insertStudentSchema = z.object({
   bus_route_id: z.string().optional(),
 });
 
+// Accounts are created one by one within the upload request, so a file is
+// kept to a batch that finishes well inside the request timeout
+export const STUDENT_IMPORT_MAX_ROWS = 200;
+
+// One row of the admin bulk import, once its route number has been resolved
+// to bus_route_id
+export const studentImportRowSchema = insertStudentSchema.extend({
+  email: z.string().email("Invalid email address"),
+});
+
 export const insertDriverSchema = z.object({
   full_name: z.string().min(2, "Name must be at least 2 characters"),
   phone: z.string().min(10, "Phone must be at least 10 digits"),
@@ -203,6 +589,57 @@ export const insertBusRouteSchema = z.object({
   daily_fare: z.number().min(1, "Daily fare must be at least 1"),
 });
 
+const optionalAmount = z.number().min(0, "Amounts cannot be negative").nullable();
+
+export const farePolicySchema = z.object({
+  ride_fare: z.number().min(0, "Ride fare cannot be negative"),
+  peak_fare: optionalAmount,
+  peak_periods: z.array(z.object({
+    days: z.array(z.number().int().min(0).max(6)),
+    start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM for peak start"),
+    end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM for peak end"),
+  }).refine((period) => period.start < period.end, {
+    message: "Peak period must end after it starts",
+  })),
+  max_rides_per_day: z.number().int().min(1, "Ride limit must be at least 1").nullable(),
+  daily_cap: optionalAmount,
+  weekly_cap: optionalAmount,
+  monthly_cap: optionalAmount,
+  free_return_window_minutes: z.number().int().min(1, "Return window must be at least 1 minute").nullable(),
+  is_active: z.boolean().default(true),
+}).refine((policy) => policy.peak_fare === null || policy.peak_periods.length > 0, {
+  message: "Add at least one peak period for the peak fare",
+  path: ["peak_periods"],
+});
+
+export const passProductSchema = z.object({
+  name: z.string().min(1, "Pass name is required"),
+  period: z.enum(["monthly", "semester"]),
+  duration_days: z.number().int().min(1, "Duration must be at least 1 day").max(366, "Duration cannot exceed a year"),
+  price: z.number().min(0, "Price cannot be negative"),
+  is_active: z.boolean().default(true),
+});
+
+export const timetableSlotSchema = z.object({
+  direction: z.enum(["morning", "evening"]),
+  departure_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM for the departure time"),
+  days: z.array(z.number().int().min(0).max(6)).min(1, "Pick at least one day"),
+  bus_id: z.string().uuid().nullable(),
+  is_active: z.boolean().default(true),
+});
+
+export const timetableHolidaySchema = z.object({
+  holiday_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick a date"),
+  name: z.string().trim().min(1, "Holiday name is required").max(255),
+  route_id: z.string().uuid().nullable(),
+});
+
+// Query string of GET /api/routes/:routeId/departures
+export const departureFiltersSchema = z.object({
+  stop_id: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
 export const insertBusSchema = z.object({
   bus_number: z.string().min(1, "Bus number is required"),
   capacity: z.number().min(1, "Capacity must be at least 1"),
@@ -224,17 +661,216 @@ export const signupSchema = z.object({
   path: ["confirmPassword"],
 });
 
+export const setPasswordSchema = z.object({
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
 export const rechargeSchema = z.object({
   amount: z.number().min(50, "Minimum recharge is ₹50").max(10000, "Maximum recharge is ₹10,000"),
 });
 
+export const walletSettingsSchema = z
+  .object({
+    low_balance_threshold: z.number().min(0, "Threshold cannot be negative").max(10000).nullable(),
+    low_balance_channels: z.array(z.enum(["email", "sms", "push"])).max(3),
+    auto_recharge_enabled: z.boolean(),
+    auto_recharge_amount: rechargeSchema.shape.amount.nullable(),
+    auto_recharge_threshold: z.number().min(0, "Threshold cannot be negative").max(10000).nullable(),
+  })
+  .refine(
+    (settings) =>
+      !settings.auto_recharge_enabled ||
+      (settings.auto_recharge_amount !== null && settings.auto_recharge_threshold !== null),
+    { message: "Set an amount and a threshold for auto-recharge", path: ["auto_recharge_amount"] }
+  );
+
+export const verifyPaymentSchema = z.object({
+  order_id: z.string().min(1, "Order id is required"),
+  payment_id: z.string().min(1, "Payment id is required"),
+  signature: z.string().min(1, "Signature is required"),
+});
+
+export const purchasePassSchema = z.object({
+  product_id: z.string().uuid("Invalid pass"),
+});
+
+export const balanceAdjustmentSchema = z.object({
+  amount: z.number().refine((amount) => amount !== 0, "Amount cannot be zero"),
+  reason: z.string().trim().max(200, "Reason is too long").optional(),
+});
+
+export const reverseTransactionSchema = z.object({
+  reason: z.string().trim().max(200, "Reason is too long").optional(),
+});
+
+export const openDisputeSchema = z.object({
+  transaction_id: z.string().uuid("Invalid transaction"),
+  reason: z.enum(["not_on_bus", "charged_twice", "wrong_fare", "had_pass", "other"]),
+  comment: z.string().trim().min(1, "Tell us what happened").max(1000, "Comment is too long"),
+});
+
+export const disputeCommentSchema = z.object({
+  message: z.string().trim().min(1, "Message is required").max(1000, "Message is too long"),
+});
+
+// Query string of GET /api/disputes
+export const disputeFiltersSchema = z.object({
+  status: z.enum(["open", "approved", "rejected"]).optional(),
+});
+
+export const resolveDisputeSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  note: z.string().trim().max(500, "Note is too long").optional(),
+});
+
+const notificationChannelsSchema = z.array(z.enum(["email", "sms", "push"])).max(3);
+
+// Types left out keep their current channels
+export const notificationPreferencesSchema = z
+  .object({
+    recharge: notificationChannelsSchema,
+    deduction: notificationChannelsSchema,
+    scan: notificationChannelsSchema,
+    system: notificationChannelsSchema,
+    bus_approaching: notificationChannelsSchema,
+  })
+  .partial();
+
+// Query string of GET /api/notification-deliveries
+export const deliveryFiltersSchema = z.object({
+  status: z.enum(["pending", "sending", "sent", "failed"]).optional(),
+  channel: z.enum(["email", "sms", "push"]).optional(),
+});
+
+// The server posts to whatever endpoint a browser registers, so only the
+// push services of the major browsers are accepted: FCM (Chrome, Edge on
+// Android), Mozilla autopush, Apple and Windows Push Notification Services
+const PUSH_SERVICE_HOSTS = ["fcm.googleapis.com", "updates.push.services.mozilla.com"];
+const PUSH_SERVICE_DOMAINS = [".push.services.mozilla.com", ".push.apple.com", ".notify.windows.com"];
+
+export function isAllowedPushEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  const host = url.hostname.toLowerCase();
+  return (
+    url.protocol === "https:" &&
+    (url.port === "" || url.port === "443") &&
+    (PUSH_SERVICE_HOSTS.includes(host) || PUSH_SERVICE_DOMAINS.some((domain) => host.endsWith(domain)))
+  );
+}
+
+const pushEndpoint = z.string()
+  .url("Invalid push endpoint")
+  .refine(isAllowedPushEndpoint, "Unsupported push service");
+
+// A browser PushSubscription as serialised by toJSON()
+export const pushSubscriptionSchema = z.object({
+  endpoint: pushEndpoint,
+  keys: z.object({
+    p256dh: z.string().min(1, "Missing subscription key"),
+    auth: z.string().min(1, "Missing subscription secret"),
+  }),
+});
+
+export const removePushSubscriptionSchema = z.object({
+  endpoint: pushEndpoint,
+});
+
+export const scanRequestSchema = z.object({
+  scan_id: z.string().uuid("Invalid scan id"),
+  pass_token: z.string().min(1, "Pass token is required"),
+});
+
+export const exitScanRequestSchema = z.object({
+  pass_token: z.string().min(1, "Pass token is required"),
+});
+
+// Offline scans are charged as of the time the device recorded them, so that
+// time must be recent: no later than a small clock skew ahead of the server,
+// and no older than a driver is expected to stay offline
+export const SCAN_CLOCK_SKEW_SECONDS = 5 * 60;
+export const OFFLINE_SCAN_MAX_AGE_HOURS = 24;
+
+export function isAcceptableScanTime(scannedAt: string, now = Date.now()): boolean {
+  const at = new Date(scannedAt).getTime();
+  return at <= now + SCAN_CLOCK_SKEW_SECONDS * 1000 && at >= now - OFFLINE_SCAN_MAX_AGE_HOURS * 3600 * 1000;
+}
+
+export const scanSyncSchema = z.object({
+  scans: z.array(z.object({
+    scan_id: z.string().uuid("Invalid scan id"),
+    pass_token: z.string().min(1, "Pass token is required"),
+    scanned_at: z.string().datetime("Invalid scan time").refine(
+      (value) => isAcceptableScanTime(value),
+      `Scan time must be within the last ${OFFLINE_SCAN_MAX_AGE_HOURS} hours`
+    ),
+  })).min(1, "No scans to sync").max(500, "Too many scans in one batch"),
+});
+
+const reportDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD dates");
+
+// :tripId of GET /api/trips/:tripId/eta and /replay
+export const tripIdSchema = z.string().uuid("Invalid trip");
+
+// Query string of GET /api/reports/*; the range defaults to the last 30 days
+export const reportFiltersSchema = z.object({
+  from: reportDate.optional(),
+  to: reportDate.optional(),
+  route_id: z.string().uuid("Invalid route").optional(),
+});
+
+// Query string of GET /api/reports/performance
+export const performanceFiltersSchema = reportFiltersSchema.extend({
+  driver_id: z.string().uuid("Invalid driver").optional(),
+});
+
+// Query string of GET /api/exports/:dataset.:format
+export const exportFiltersSchema = reportFiltersSchema.extend({
+  driver_id: z.string().uuid("Invalid driver").optional(),
+  status: z.string().regex(/^[a-z_]+$/, "Invalid status").optional(),
+  type: z.enum(["recharge", "deduction", "admin_adjustment", "pass_purchase", "refund"]).optional(),
+});
+
 export type InsertStudent = z.infer<typeof insertStudentSchema>;
 export type InsertDriver = z.infer<typeof insertDriverSchema>;
+export type StudentImportRow = z.infer<typeof studentImportRowSchema>;
 export type InsertBusRoute = z.infer<typeof insertBusRouteSchema>;
 export type InsertBus = z.infer<typeof insertBusSchema>;
+export type FarePolicyData = z.infer<typeof farePolicySchema>;
+export type PassProductData = z.infer<typeof passProductSchema>;
+export type TimetableSlotData = z.infer<typeof timetableSlotSchema>;
+export type TimetableHolidayData = z.infer<typeof timetableHolidaySchema>;
+export type DepartureFilters = z.infer<typeof departureFiltersSchema>;
 export type LoginData = z.infer<typeof loginSchema>;
 export type SignupData = z.infer<typeof signupSchema>;
+export type SetPasswordData = z.infer<typeof setPasswordSchema>;
 export type RechargeData = z.infer<typeof rechargeSchema>;
+export type VerifyPaymentRequest = z.infer<typeof verifyPaymentSchema>;
+export type WalletSettingsData = z.infer<typeof walletSettingsSchema>;
+export type PurchasePassData = z.infer<typeof purchasePassSchema>;
+export type BalanceAdjustmentData = z.infer<typeof balanceAdjustmentSchema>;
+export type ReverseTransactionData = z.infer<typeof reverseTransactionSchema>;
+export type OpenDisputeData = z.infer<typeof openDisputeSchema>;
+export type DisputeCommentData = z.infer<typeof disputeCommentSchema>;
+export type ResolveDisputeData = z.infer<typeof resolveDisputeSchema>;
+export type NotificationPreferencesData = z.infer<typeof notificationPreferencesSchema>;
+export type DeliveryFilters = z.infer<typeof deliveryFiltersSchema>;
+export type PushSubscriptionData = z.infer<typeof pushSubscriptionSchema>;
+export type ScanRequest = z.infer<typeof scanRequestSchema>;
+export type ScanSyncRequest = z.infer<typeof scanSyncSchema>;
+export type ExitScanRequest = z.infer<typeof exitScanRequestSchema>;
+export type ReportFilters = z.infer<typeof reportFiltersSchema>;
+export type PerformanceFilters = z.infer<typeof performanceFiltersSchema>;
+export type ExportFilters = z.infer<typeof exportFiltersSchema>;
 
 // Extended types with relations
 export interface StudentWithRoute extends Student {
@@ -253,12 +889,30 @@ export interface ScanLogWithDetails extends ScanLog {
   student?: Student;
   driver?: Driver;
   bus?: Bus;
+  route_stop?: RouteStop | null;
+  trip?: ActiveTrip | null;
+}
+
+export interface PassSubscriptionWithProduct extends PassSubscription {
+  product?: PassProduct;
 }
 
 export interface TransactionWithStudent extends Transaction {
   student?: Student;
 }
 
+export interface FareDisputeWithDetails extends FareDispute {
+  student?: Student;
+  transaction?: Transaction;
+}
+
+// One dispute as reviewed: the scan that charged the fare (when the fare came
+// from a scan) and the comment thread
+export interface FareDisputeDetail extends FareDisputeWithDetails {
+  scan_log: ScanLogWithDetails | null;
+  comments: DisputeComment[];
+}
+
 // Dashboard stats
 export interface AdminStats {
   totalBuses: number;
@@ -277,3 +931,169 @@ export interface DriverStats {
   successfulScans: number;
   failedScans: number;
 }
+
+// Admin reports (GET /api/reports/*). Days are local dates (YYYY-MM-DD) in
+// the service timezone; the range includes both ends.
+export interface ReportRange {
+  from: string;
+  to: string;
+  routeId: string | null;
+}
+
+export interface ReportSummary {
+  totalRevenue: number;
+  totalFares: number;
+  totalScans: number;
+  successfulScans: number;
+  students: number;
+  avgBalance: number;
+  activeStudents: number;
+}
+
+export interface DailyScanReport {
+  date: string;
+  success: number;
+  failed: number;
+  fares: number;
+}
+
+// Successful wallet movements per day, by transaction type
+export interface DailyRevenueReport {
+  date: string;
+  recharges: number;
+  fares: number;
+  passes: number;
+  adjustments: number;
+  refunds: number;
+}
+
+export interface RouteReport {
+  routeId: string;
+  routeNumber: string;
+  routeName: string;
+  students: number;
+  scans: number;
+  successfulScans: number;
+  fares: number;
+  // Trips started in the range and the most students on board at once;
+  // peakLoadRate is the fullest trip against its bus's capacity
+  trips: number;
+  peakLoad: number;
+  avgPeakLoad: number | null;
+  peakLoadRate: number | null;
+}
+
+// On-time performance (GET /api/reports/performance), over finished trips.
+// Delays are seconds against the timetable (negative when early) and only
+// exist for scheduled trips and stops with a scheduled time; onTimeRate is
+// the share of those timed stops inside the on-time window.
+export interface PerformanceTotals {
+  trips: number;
+  scheduledTrips: number;
+  timedStops: number;
+  onTimeRate: number | null;
+  avgDelaySeconds: number | null;
+  avgDurationSeconds: number | null;
+  medianDurationSeconds: number | null;
+}
+
+export interface RoutePerformance extends PerformanceTotals {
+  routeId: string;
+  routeNumber: string;
+  routeName: string;
+}
+
+export interface DriverPerformance extends PerformanceTotals {
+  driverId: string;
+  driverName: string;
+}
+
+export interface DailyPerformance extends PerformanceTotals {
+  date: string;
+}
+
+export interface StopPerformance {
+  stopId: string;
+  stopName: string;
+  sequence: number;
+  visits: number;
+  timedVisits: number;
+  onTimeRate: number | null;
+  avgDelaySeconds: number | null;
+  medianDwellSeconds: number | null;
+  p90DwellSeconds: number | null;
+}
+
+// Stop visits whose dwell time is at least minSeconds and below maxSeconds
+export interface DwellBucket {
+  minSeconds: number;
+  maxSeconds: number | null;
+  visits: number;
+}
+
+export interface PerformanceReport {
+  range: ReportRange;
+  driverId: string | null;
+  onTimeWindow: { earlySeconds: number; lateSeconds: number };
+  summary: PerformanceTotals;
+  routes: RoutePerformance[];
+  drivers: DriverPerformance[];
+  daily: DailyPerformance[];
+  // Only for a single route
+  stops: StopPerformance[];
+  dwell: DwellBucket[];
+}
+
+export type ExportDataset = "transactions" | "scans" | "report";
+export type ExportFormat = "csv" | "pdf";
+
+// Successful scans per stop; only reported when the range is for one route
+export interface StopBoardingReport {
+  stopId: string;
+  stopName: string;
+  sequence: number;
+  boardings: number;
+  students: number;
+}
+
+export interface ReportOverview {
+  range: ReportRange;
+  summary: ReportSummary;
+  dailyScans: DailyScanReport[];
+  dailyRevenue: DailyRevenueReport[];
+  routes: RouteReport[];
+  stops: StopBoardingReport[];
+}
+
+// Trip replay (GET /api/trips/:tripId/replay) of a finished trip: its GPS
+// fixes in time order, stop events and scans, for playback on a map
+export type ReplayBreadcrumb = Pick<BusLocation, "latitude" | "longitude" | "speed" | "heading" | "timestamp">;
+
+export interface TripReplay extends ActiveTripWithDetails {
+  stops: RouteStopWithStatus[];
+  breadcrumbs: ReplayBreadcrumb[];
+  scans: ScanLogWithDetails[];
+}
+
+// Admin bulk student import (POST /api/students/import). A dry run validates
+// every row and reports "valid" instead of creating anything.
+export type StudentImportRowStatus = "created" | "valid" | "error";
+
+export interface StudentImportRowResult {
+  // Line number in the uploaded sheet, counting the header as line 1
+  row: number;
+  enrollmentNo: string;
+  fullName: string;
+  email: string;
+  status: StudentImportRowStatus;
+  errors: string[];
+}
+
+export interface StudentImportReport {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  valid: number;
+  failed: number;
+  rows: StudentImportRowResult[];
+}
@@ -91,3 +91,2840 @@ ALTER PUBLICATION supabase_realtime ADD TABLE active_trips;
 -- ('your-route-id', 'Sports Complex', 4),
 -- ('your-route-id', 'Engineering Block', 5),
 -- ('your-route-id', 'Admin Building', 6);
+
+-- Signed pass tokens: each token's nonce may be consumed by one scan only
+ALTER TABLE scan_logs ADD COLUMN IF NOT EXISTS pass_nonce TEXT UNIQUE;
+ALTER TABLE scan_logs DROP CONSTRAINT IF EXISTS scan_logs_scan_status_check;
+ALTER TABLE scan_logs ADD CONSTRAINT scan_logs_scan_status_check
+  CHECK (scan_status IN ('success', 'insufficient_balance', 'limit_exceeded', 'blocked', 'invalid_pass'));
+
+-- Offline scans: replayed later by the driver device, with any settlement conflict recorded
+ALTER TABLE scan_logs ADD COLUMN IF NOT EXISTS is_offline BOOLEAN DEFAULT FALSE;
+ALTER TABLE scan_logs ADD COLUMN IF NOT EXISTS sync_conflict TEXT
+  CHECK (sync_conflict IN ('duplicate', 'negative_balance', 'rejected'));
+CREATE INDEX IF NOT EXISTS idx_scan_logs_sync_conflict ON scan_logs(sync_conflict) WHERE sync_conflict IS NOT NULL;
+
+-- Fare policies: per-route pricing rules evaluated on every scan by
+-- evaluate_fare(). A route without an active policy keeps the original rule
+-- (see effective_fare_policy): the daily fare on the first ride, a free
+-- return ride, and at most two rides a day.
+--   ride_fare                  charged per ride (off-peak)
+--   peak_fare / peak_periods   fare inside any [{days, start, end}] window, local time;
+--                              days are 0 (Sunday) - 6, empty or missing means every day
+--   max_rides_per_day          further scans that day are refused (limit_exceeded)
+--   daily/weekly/monthly_cap   most a student is charged per calendar day, ISO week, month
+--   free_return_window_minutes a ride within this long of a charged ride is free
+CREATE TABLE IF NOT EXISTS fare_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  route_id UUID NOT NULL UNIQUE REFERENCES bus_routes(id) ON DELETE CASCADE,
+  ride_fare NUMERIC NOT NULL CHECK (ride_fare >= 0),
+  peak_fare NUMERIC CHECK (peak_fare >= 0),
+  peak_periods JSONB NOT NULL DEFAULT '[]'::jsonb,
+  max_rides_per_day INTEGER CHECK (max_rides_per_day > 0),
+  daily_cap NUMERIC CHECK (daily_cap >= 0),
+  weekly_cap NUMERIC CHECK (weekly_cap >= 0),
+  monthly_cap NUMERIC CHECK (monthly_cap >= 0),
+  free_return_window_minutes INTEGER CHECK (free_return_window_minutes > 0),
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE fare_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to fare_policies" ON fare_policies
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow admins to manage fare_policies" ON fare_policies
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+CREATE OR REPLACE FUNCTION effective_fare_policy(p_route_id UUID)
+RETURNS fare_policies
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_policy fare_policies%ROWTYPE;
+  v_daily_fare NUMERIC;
+BEGIN
+  SELECT * INTO v_policy FROM fare_policies WHERE route_id = p_route_id AND is_active = TRUE;
+  IF FOUND THEN
+    RETURN v_policy;
+  END IF;
+
+  SELECT daily_fare INTO v_daily_fare FROM bus_routes WHERE id = p_route_id;
+
+  v_policy.route_id := p_route_id;
+  v_policy.ride_fare := COALESCE(v_daily_fare, 0);
+  v_policy.peak_periods := '[]'::jsonb;
+  v_policy.max_rides_per_day := 2;
+  v_policy.daily_cap := COALESCE(v_daily_fare, 0);
+  v_policy.is_active := TRUE;
+  RETURN v_policy;
+END;
+$$;
+
+-- Decides the fare for one ride at p_at from the student's successful scans.
+-- Rules apply in order: ride limit, peak pricing, free return, then the
+-- daily, weekly and monthly caps (each may lower the fare, down to zero).
+-- `rule` names whichever rule set the final fare.
+CREATE OR REPLACE FUNCTION evaluate_fare(
+  p_policy fare_policies,
+  p_student_id UUID,
+  p_at TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (status TEXT, fare NUMERIC, rule TEXT)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_local TIMESTAMP := p_at AT TIME ZONE p_timezone;
+  v_day_start TIMESTAMPTZ := date_trunc('day', v_local) AT TIME ZONE p_timezone;
+  v_week_start TIMESTAMPTZ := date_trunc('week', v_local) AT TIME ZONE p_timezone;
+  v_month_start TIMESTAMPTZ := date_trunc('month', v_local) AT TIME ZONE p_timezone;
+  -- Period ends are found in local time too: a month added to a TIMESTAMPTZ
+  -- is a session (UTC) month, which ends days early when the local month
+  -- starts on the previous UTC day
+  v_day_end TIMESTAMPTZ := (date_trunc('day', v_local) + INTERVAL '1 day') AT TIME ZONE p_timezone;
+  v_week_end TIMESTAMPTZ := (date_trunc('week', v_local) + INTERVAL '1 week') AT TIME ZONE p_timezone;
+  v_month_end TIMESTAMPTZ := (date_trunc('month', v_local) + INTERVAL '1 month') AT TIME ZONE p_timezone;
+  v_rides_today INTEGER;
+  v_charged_today NUMERIC;
+  v_charged_week NUMERIC;
+  v_charged_month NUMERIC;
+  v_last_fare NUMERIC;
+  v_period JSONB;
+  v_fare NUMERIC := p_policy.ride_fare;
+  v_rule TEXT := 'standard';
+BEGIN
+  SELECT
+    COUNT(*) FILTER (WHERE l.scan_timestamp >= v_day_start AND l.scan_timestamp < v_day_end),
+    COALESCE(SUM(l.fare_deducted) FILTER (WHERE l.scan_timestamp >= v_day_start AND l.scan_timestamp < v_day_end), 0),
+    COALESCE(SUM(l.fare_deducted) FILTER (WHERE l.scan_timestamp >= v_week_start AND l.scan_timestamp < v_week_end), 0),
+    COALESCE(SUM(l.fare_deducted) FILTER (WHERE l.scan_timestamp >= v_month_start AND l.scan_timestamp < v_month_end), 0)
+  INTO v_rides_today, v_charged_today, v_charged_week, v_charged_month
+  FROM scan_logs l
+  WHERE l.student_id = p_student_id
+    AND l.scan_status = 'success'
+    AND l.reversed_at IS NULL
+    AND l.scan_timestamp >= LEAST(v_week_start, v_month_start)
+    AND l.scan_timestamp < GREATEST(v_week_end, v_month_end);
+
+  IF p_policy.max_rides_per_day IS NOT NULL AND v_rides_today >= p_policy.max_rides_per_day THEN
+    RETURN QUERY SELECT 'limit_exceeded'::TEXT, 0::NUMERIC, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  IF p_policy.peak_fare IS NOT NULL THEN
+    FOR v_period IN SELECT * FROM jsonb_array_elements(COALESCE(p_policy.peak_periods, '[]'::jsonb)) LOOP
+      IF (COALESCE(jsonb_array_length(v_period->'days'), 0) = 0
+          OR (v_period->'days') @> to_jsonb(EXTRACT(DOW FROM v_local)::INTEGER))
+         AND v_local::TIME >= (v_period->>'start')::TIME
+         AND v_local::TIME < (v_period->>'end')::TIME THEN
+        v_fare := p_policy.peak_fare;
+        v_rule := 'peak';
+        EXIT;
+      END IF;
+    END LOOP;
+  END IF;
+
+  IF p_policy.free_return_window_minutes IS NOT NULL THEN
+    SELECT l.fare_deducted INTO v_last_fare
+    FROM scan_logs l
+    WHERE l.student_id = p_student_id
+      AND l.scan_status = 'success'
+      AND l.reversed_at IS NULL
+      AND l.scan_timestamp <= p_at
+      AND l.scan_timestamp > p_at - make_interval(mins => p_policy.free_return_window_minutes)
+    ORDER BY l.scan_timestamp DESC
+    LIMIT 1;
+
+    -- Only the ride right after a charged one is free, not a chain of them
+    IF v_last_fare > 0 THEN
+      RETURN QUERY SELECT 'success'::TEXT, 0::NUMERIC, 'free_return'::TEXT;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF p_policy.daily_cap IS NOT NULL AND v_charged_today + v_fare > p_policy.daily_cap THEN
+    v_fare := GREATEST(0, p_policy.daily_cap - v_charged_today);
+    v_rule := 'daily_cap';
+  END IF;
+
+  IF p_policy.weekly_cap IS NOT NULL AND v_charged_week + v_fare > p_policy.weekly_cap THEN
+    v_fare := GREATEST(0, p_policy.weekly_cap - v_charged_week);
+    v_rule := 'weekly_cap';
+  END IF;
+
+  IF p_policy.monthly_cap IS NOT NULL AND v_charged_month + v_fare > p_policy.monthly_cap THEN
+    v_fare := GREATEST(0, p_policy.monthly_cap - v_charged_month);
+    v_rule := 'monthly_cap';
+  END IF;
+
+  RETURN QUERY SELECT 'success'::TEXT, v_fare, v_rule;
+END;
+$$;
+
+-- Travel passes: fixed-price monthly or semester passes for a route, bought
+-- from the wallet instead of paying per ride. Each purchase is a
+-- pass_subscription covering whole local days, valid_from to valid_until
+-- inclusive; scans on the route inside those days are logged but not charged
+-- (see process_scan).
+CREATE TABLE IF NOT EXISTS pass_products (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  route_id UUID NOT NULL REFERENCES bus_routes(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  period VARCHAR(20) NOT NULL CHECK (period IN ('monthly', 'semester')),
+  duration_days INTEGER NOT NULL CHECK (duration_days > 0),
+  price NUMERIC NOT NULL CHECK (price >= 0),
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS pass_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES pass_products(id) ON DELETE RESTRICT,
+  route_id UUID NOT NULL REFERENCES bus_routes(id) ON DELETE CASCADE,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  price NUMERIC NOT NULL,
+  valid_from DATE NOT NULL,
+  valid_until DATE NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (valid_until >= valid_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pass_products_route_id ON pass_products(route_id);
+CREATE INDEX IF NOT EXISTS idx_pass_subscriptions_student ON pass_subscriptions(student_id, route_id, valid_until);
+
+ALTER TABLE pass_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pass_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to pass_products" ON pass_products
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow admins to manage pass_products" ON pass_products
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+-- Subscriptions are only created by purchase_pass(), through the server
+CREATE POLICY "Allow students to read their pass_subscriptions" ON pass_subscriptions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM students WHERE students.id = pass_subscriptions.student_id AND students.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_transaction_type_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN ('recharge', 'deduction', 'admin_adjustment', 'pass_purchase'));
+
+-- The subscription that covered a scan, if any
+ALTER TABLE scan_logs ADD COLUMN IF NOT EXISTS pass_subscription_id UUID REFERENCES pass_subscriptions(id) ON DELETE SET NULL;
+
+-- Buys a pass from the wallet (called by POST /api/passes/purchase). The
+-- student row is locked like in process_scan, so a purchase and a scan
+-- cannot both spend the same balance. A pass bought while another for the
+-- route is still valid starts the day after that one ends.
+CREATE OR REPLACE FUNCTION purchase_pass(
+  p_student_id UUID,
+  p_product_id UUID,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_student students%ROWTYPE;
+  v_product pass_products%ROWTYPE;
+  v_subscription pass_subscriptions%ROWTYPE;
+  v_today DATE := (NOW() AT TIME ZONE p_timezone)::DATE;
+  v_valid_from DATE;
+  v_new_balance NUMERIC;
+  v_transaction_id UUID;
+BEGIN
+  SELECT * INTO v_student FROM students WHERE id = p_student_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO v_product FROM pass_products WHERE id = p_product_id AND is_active;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'unavailable');
+  END IF;
+
+  IF v_student.is_blocked THEN
+    RETURN jsonb_build_object('status', 'blocked');
+  END IF;
+
+  IF v_student.bus_route_id IS DISTINCT FROM v_product.route_id THEN
+    RETURN jsonb_build_object('status', 'wrong_route');
+  END IF;
+
+  IF v_student.wallet_balance < v_product.price THEN
+    RETURN jsonb_build_object(
+      'status', 'insufficient_balance',
+      'price', v_product.price,
+      'balance_after', v_student.wallet_balance
+    );
+  END IF;
+
+  SELECT GREATEST(v_today, MAX(s.valid_until) + 1) INTO v_valid_from
+  FROM pass_subscriptions s
+  WHERE s.student_id = v_student.id
+    AND s.route_id = v_product.route_id
+    AND s.status = 'active'
+    AND s.valid_until >= v_today;
+
+  INSERT INTO transactions (student_id, amount, transaction_type, currency, status, balance_before, balance_after, description)
+  VALUES (v_student.id, v_product.price, 'pass_purchase', 'INR', 'success', v_student.wallet_balance,
+          v_student.wallet_balance - v_product.price, 'Pass purchase - ' || v_product.name)
+  RETURNING id INTO v_transaction_id;
+
+  v_new_balance := post_wallet_journal(v_student.id, -v_product.price, 'pass_revenue', v_transaction_id,
+                                       'Pass purchase - ' || v_product.name);
+
+  INSERT INTO pass_subscriptions (student_id, product_id, route_id, transaction_id, price, valid_from, valid_until)
+  VALUES (v_student.id, v_product.id, v_product.route_id, v_transaction_id, v_product.price,
+          v_valid_from, v_valid_from + v_product.duration_days - 1)
+  RETURNING * INTO v_subscription;
+
+  INSERT INTO notifications (user_id, title, message, type, is_read)
+  VALUES (v_student.user_id, 'Pass Purchased',
+          v_product.name || ' is valid from ' || to_char(v_subscription.valid_from, 'FMDD Mon YYYY') ||
+          ' to ' || to_char(v_subscription.valid_until, 'FMDD Mon YYYY') || '.',
+          'deduction', FALSE);
+
+  RETURN jsonb_build_object(
+    'status', 'success',
+    'subscription', to_jsonb(v_subscription),
+    'price', v_product.price,
+    'balance_after', v_new_balance
+  );
+END;
+$$;
+
+-- Atomic fare deduction for a single QR scan (called by POST /api/scans).
+-- The student row is locked for the duration of the call so concurrent scans
+-- of the same pass are serialized, and p_scan_id makes client retries
+-- idempotent: a repeated id returns the outcome of the original scan. An id
+-- already used for another student returns 'scan_id_conflict' instead.
+-- The pass token's signature is checked by the server before this is called;
+-- expiry, nonce reuse and the token's route (p_pass_route_id, which must be
+-- both the student's route and the route of the driver's bus) are checked
+-- here so the rejection is logged.
+-- The fare comes from the route's fare policy via evaluate_fare(), unless a
+-- pass subscription covers the day; the ride limit applies either way.
+-- Offline scans are evaluated as of p_scanned_at; the driver has already let
+-- the student board, so the fare is charged even if it takes the balance
+-- below zero and the outcome is flagged in sync_conflict.
+DROP FUNCTION IF EXISTS process_scan(UUID, UUID, UUID, TEXT);
+DROP FUNCTION IF EXISTS process_scan(UUID, UUID, UUID, TEXT, TIMESTAMPTZ, TEXT);
+CREATE OR REPLACE FUNCTION process_scan(
+  p_scan_id UUID,
+  p_student_id UUID,
+  p_driver_id UUID,
+  p_pass_nonce TEXT,
+  p_pass_expires_at TIMESTAMPTZ,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata',
+  p_scanned_at TIMESTAMPTZ DEFAULT NOW(),
+  p_offline BOOLEAN DEFAULT FALSE,
+  p_pass_route_id UUID DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_student students%ROWTYPE;
+  v_bus_id UUID;
+  v_route bus_routes%ROWTYPE;
+  v_existing scan_logs%ROWTYPE;
+  v_policy fare_policies%ROWTYPE;
+  v_fare_status TEXT;
+  v_fare NUMERIC;
+  v_fare_rule TEXT;
+  v_subscription_id UUID;
+  v_status TEXT;
+  v_reason TEXT;
+  v_conflict TEXT;
+  v_fare_deducted NUMERIC := 0;
+  v_new_balance NUMERIC;
+  v_transaction_id UUID;
+  v_low_balance_threshold NUMERIC;
+BEGIN
+  SELECT d.bus_id INTO v_bus_id FROM drivers d WHERE d.id = p_driver_id;
+  IF v_bus_id IS NULL THEN
+    RAISE EXCEPTION 'Driver % has no bus assigned', p_driver_id;
+  END IF;
+
+  SELECT r.* INTO v_route
+  FROM buses b JOIN bus_routes r ON r.id = b.route_id
+  WHERE b.id = v_bus_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bus % has no route assigned', v_bus_id;
+  END IF;
+
+  SELECT * INTO v_student FROM students WHERE id = p_student_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  v_policy := effective_fare_policy(v_route.id);
+
+  SELECT * INTO v_existing FROM scan_logs WHERE id = p_scan_id;
+  IF FOUND AND v_existing.student_id IS DISTINCT FROM p_student_id THEN
+    RETURN jsonb_build_object('status', 'scan_id_conflict');
+  ELSIF FOUND THEN
+    RETURN jsonb_build_object(
+      'status', v_existing.scan_status,
+      'student', to_jsonb(v_student),
+      'fare', v_existing.fare_deducted,
+      'max_rides_per_day', v_policy.max_rides_per_day,
+      'fare_deducted', v_existing.fare_deducted,
+      'balance_after', v_existing.balance_after_scan,
+      'conflict', v_existing.sync_conflict
+    );
+  END IF;
+
+  v_new_balance := v_student.wallet_balance;
+
+  IF p_pass_expires_at < p_scanned_at THEN
+    v_status := 'invalid_pass';
+    v_reason := 'expired';
+  ELSIF p_pass_route_id IS NULL
+     OR p_pass_route_id IS DISTINCT FROM v_route.id
+     OR p_pass_route_id IS DISTINCT FROM v_student.bus_route_id THEN
+    v_status := 'invalid_pass';
+    v_reason := 'wrong_route';
+  ELSIF EXISTS (SELECT 1 FROM scan_logs WHERE pass_nonce = p_pass_nonce) THEN
+    v_status := 'invalid_pass';
+    v_reason := 'replayed';
+  ELSIF v_student.is_blocked THEN
+    v_status := 'blocked';
+  ELSE
+    SELECT f.status, f.fare, f.rule INTO v_fare_status, v_fare, v_fare_rule
+    FROM evaluate_fare(v_policy, v_student.id, p_scanned_at, p_timezone) f;
+
+    IF v_fare_status = 'success' THEN
+      SELECT s.id INTO v_subscription_id
+      FROM pass_subscriptions s
+      WHERE s.student_id = v_student.id
+        AND s.route_id = v_route.id
+        AND s.status = 'active'
+        AND (p_scanned_at AT TIME ZONE p_timezone)::DATE BETWEEN s.valid_from AND s.valid_until
+      ORDER BY s.valid_from
+      LIMIT 1;
+
+      IF v_subscription_id IS NOT NULL THEN
+        v_fare := 0;
+        v_fare_rule := 'pass';
+      END IF;
+    END IF;
+
+    IF v_fare_status = 'limit_exceeded' THEN
+      v_status := 'limit_exceeded';
+    ELSIF v_fare > 0 AND v_student.wallet_balance < v_fare AND NOT p_offline THEN
+      v_status := 'insufficient_balance';
+    ELSE
+      v_status := 'success';
+      v_fare_deducted := v_fare;
+      v_new_balance := v_student.wallet_balance - v_fare;
+    END IF;
+  END IF;
+
+  IF p_offline THEN
+    v_conflict := CASE
+      WHEN v_status = 'limit_exceeded' OR v_reason = 'replayed' THEN 'duplicate'
+      WHEN v_status <> 'success' THEN 'rejected'
+      WHEN v_new_balance < 0 THEN 'negative_balance'
+    END;
+  END IF;
+
+  IF v_fare_deducted > 0 THEN
+    INSERT INTO transactions (student_id, amount, transaction_type, currency, status, balance_before, balance_after, description)
+    VALUES (v_student.id, v_fare_deducted, 'deduction', 'INR', 'success', v_student.wallet_balance, v_new_balance,
+            'Fare deduction - ' || v_route.route_name)
+    RETURNING id INTO v_transaction_id;
+
+    v_new_balance := post_wallet_journal(v_student.id, -v_fare_deducted, 'fare_revenue', v_transaction_id,
+                                         'Fare deduction - ' || v_route.route_name);
+
+    -- The student's own threshold, or three rides at the route's fare
+    SELECT w.low_balance_threshold INTO v_low_balance_threshold FROM wallet_settings w WHERE w.student_id = v_student.id;
+
+    IF v_new_balance < COALESCE(v_low_balance_threshold, v_policy.ride_fare * 3) THEN
+      INSERT INTO notifications (user_id, title, message, type, is_read)
+      VALUES (v_student.user_id, 'Low Balance Warning',
+              'Your wallet balance is ₹' || to_char(v_new_balance, 'FM999999990.00') || '. Please recharge soon.',
+              'low_balance', FALSE);
+    END IF;
+
+    v_student.wallet_balance := v_new_balance;
+  END IF;
+
+  INSERT INTO scan_logs (id, student_id, driver_id, bus_id, scan_timestamp, scan_status, fare_deducted,
+                         balance_after_scan, pass_nonce, is_offline, sync_conflict, pass_subscription_id,
+                         transaction_id)
+  VALUES (p_scan_id, v_student.id, p_driver_id, v_bus_id, p_scanned_at, v_status, v_fare_deducted, v_new_balance,
+          CASE WHEN v_status = 'invalid_pass' THEN NULL ELSE p_pass_nonce END, p_offline, v_conflict,
+          v_subscription_id, v_transaction_id);
+
+  RETURN jsonb_build_object(
+    'status', v_status,
+    'reason', v_reason,
+    'conflict', v_conflict,
+    'student', to_jsonb(v_student),
+    'fare', COALESCE(v_fare, v_policy.ride_fare),
+    'fare_rule', v_fare_rule,
+    'max_rides_per_day', v_policy.max_rides_per_day,
+    'fare_deducted', v_fare_deducted,
+    'balance_after', v_new_balance
+  );
+END;
+$$;
+
+-- Wallet recharges through the payment gateway. A recharge starts as a pending
+-- transaction keyed by the gateway order id and is credited exactly once, by
+-- whichever of the checkout callback or the webhook arrives first. A failed
+-- payment marks the order failed, but the customer can retry on the same
+-- order, so a later capture still moves a failed order to success.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_order_id ON transactions(order_id) WHERE order_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION settle_payment(
+  p_order_id TEXT,
+  p_payment_id TEXT,
+  p_success BOOLEAN,
+  p_amount_paise NUMERIC DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tx transactions%ROWTYPE;
+  v_student students%ROWTYPE;
+  v_success BOOLEAN := p_success;
+  v_new_balance NUMERIC;
+BEGIN
+  SELECT * INTO v_tx FROM transactions WHERE order_id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('found', FALSE);
+  END IF;
+
+  -- Never credit more or less than the order was created for
+  IF v_success AND p_amount_paise IS NOT NULL AND p_amount_paise <> ROUND(v_tx.amount * 100) THEN
+    v_success := FALSE;
+  END IF;
+
+  IF v_tx.status = 'success' OR (v_tx.status = 'failed' AND NOT v_success) THEN
+    RETURN jsonb_build_object(
+      'found', TRUE,
+      'already_settled', TRUE,
+      'status', v_tx.status,
+      'transaction_id', v_tx.id,
+      'balance_after', v_tx.balance_after
+    );
+  END IF;
+
+  SELECT * INTO v_student FROM students WHERE id = v_tx.student_id FOR UPDATE;
+
+  IF v_success THEN
+    v_new_balance := post_wallet_journal(v_student.id, v_tx.amount, 'gateway_clearing', v_tx.id,
+                                         'Wallet recharge - ' || p_order_id);
+
+    UPDATE transactions
+    SET status = 'success', payment_id = p_payment_id, balance_before = v_student.wallet_balance,
+        balance_after = v_new_balance, updated_at = NOW()
+    WHERE id = v_tx.id;
+
+    INSERT INTO notifications (user_id, title, message, type, is_read)
+    VALUES (v_student.user_id, 'Wallet Recharged',
+            '₹' || v_tx.amount::text || ' has been added to your wallet. New balance: ₹' ||
+            to_char(v_new_balance, 'FM999999990.00'),
+            'recharge', FALSE);
+  ELSE
+    v_new_balance := v_student.wallet_balance;
+
+    UPDATE transactions
+    SET status = 'failed', payment_id = COALESCE(p_payment_id, payment_id), balance_before = v_student.wallet_balance,
+        balance_after = v_student.wallet_balance, updated_at = NOW()
+    WHERE id = v_tx.id;
+  END IF;
+
+  IF v_tx.auto_recharge THEN
+    PERFORM record_auto_recharge_result(v_student.id, v_success);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'found', TRUE,
+    'already_settled', FALSE,
+    'status', CASE WHEN v_success THEN 'success' ELSE 'failed' END,
+    'transaction_id', v_tx.id,
+    'balance_after', v_new_balance
+  );
+END;
+$$;
+
+-- Pending recharges the customer walked away from. They are failed as if the
+-- gateway had reported it, and can still be credited if a capture turns up.
+CREATE OR REPLACE FUNCTION expire_pending_payments(p_older_than INTERVAL DEFAULT INTERVAL '1 hour')
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order_id TEXT;
+  v_expired INTEGER := 0;
+BEGIN
+  FOR v_order_id IN
+    SELECT order_id
+    FROM transactions
+    WHERE status = 'pending'
+      AND order_id IS NOT NULL
+      AND created_at < NOW() - p_older_than
+  LOOP
+    PERFORM settle_payment(v_order_id, NULL, FALSE);
+    v_expired := v_expired + 1;
+  END LOOP;
+
+  RETURN v_expired;
+END;
+$$;
+
+-- Live bus positions: the driver app inserts a throttled GPS fix while a trip
+-- is active, and Track Bus follows them over realtime.
+ALTER TABLE bus_locations ADD COLUMN IF NOT EXISTS trip_id UUID REFERENCES active_trips(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bus_locations_trip_id ON bus_locations(trip_id, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_bus_locations_bus_id ON bus_locations(bus_id, timestamp DESC);
+
+ALTER TABLE bus_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to bus_locations" ON bus_locations
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow drivers to insert bus_locations" ON bus_locations
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM drivers WHERE drivers.id = bus_locations.driver_id AND drivers.user_id = auth.uid())
+  );
+
+CREATE POLICY "Allow drivers to update bus_locations" ON bus_locations
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM drivers WHERE drivers.id = bus_locations.driver_id AND drivers.user_id = auth.uid())
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE bus_locations;
+
+-- Historical travel times between consecutive stops of a route, used by the
+-- ETA service (server/eta.ts). Each segment is bucketed by the local hour and
+-- weekday the bus left the earlier stop; travel is departed -> next arrived,
+-- dwell is arrived -> departed at the later stop. Medians keep one stuck or
+-- forgotten trip from skewing the estimate.
+CREATE OR REPLACE FUNCTION route_segment_times(
+  p_route_id UUID,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata',
+  p_since TIMESTAMPTZ DEFAULT NOW() - INTERVAL '60 days'
+)
+RETURNS TABLE (
+  from_stop_id UUID,
+  to_stop_id UUID,
+  hour_of_day INTEGER,
+  day_of_week INTEGER,
+  travel_seconds NUMERIC,
+  dwell_seconds NUMERIC,
+  samples INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH events AS (
+    SELECT
+      e.trip_id,
+      s.id AS stop_id,
+      s.sequence,
+      e.arrived_at,
+      e.departed_at
+    FROM trip_stop_events e
+    JOIN active_trips t ON t.id = e.trip_id
+    JOIN route_stops s ON s.id = e.route_stop_id
+    WHERE t.route_id = p_route_id
+      AND t.started_at >= p_since
+  ),
+  segments AS (
+    SELECT
+      a.stop_id AS from_stop_id,
+      b.stop_id AS to_stop_id,
+      EXTRACT(HOUR FROM a.departed_at AT TIME ZONE p_timezone)::INTEGER AS hour_of_day,
+      EXTRACT(DOW FROM a.departed_at AT TIME ZONE p_timezone)::INTEGER AS day_of_week,
+      EXTRACT(EPOCH FROM b.arrived_at - a.departed_at) AS travel,
+      EXTRACT(EPOCH FROM b.departed_at - b.arrived_at) AS dwell
+    FROM events a
+    JOIN events b
+      ON b.trip_id = a.trip_id
+     AND b.sequence = (
+       SELECT MIN(n.sequence) FROM events n
+       WHERE n.trip_id = a.trip_id AND n.sequence > a.sequence
+     )
+    WHERE a.departed_at IS NOT NULL
+      AND b.arrived_at IS NOT NULL
+      AND b.arrived_at > a.departed_at
+  )
+  SELECT
+    from_stop_id,
+    to_stop_id,
+    hour_of_day,
+    day_of_week,
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY travel)::NUMERIC AS travel_seconds,
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY dwell)::NUMERIC AS dwell_seconds,
+    COUNT(*)::INTEGER AS samples
+  FROM segments
+  GROUP BY from_stop_id, to_stop_id, hour_of_day, day_of_week;
+$$;
+
+-- Boarding stop ("my stop") per student, and an opt-in for approaching-bus alerts
+ALTER TABLE students ADD COLUMN IF NOT EXISTS boarding_stop_id UUID REFERENCES route_stops(id) ON DELETE SET NULL;
+ALTER TABLE students ADD COLUMN IF NOT EXISTS notify_bus_approaching BOOLEAN DEFAULT TRUE;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('recharge', 'deduction', 'low_balance', 'scan', 'system', 'bus_approaching'));
+
+-- One approaching-bus alert per student per trip
+CREATE TABLE IF NOT EXISTS bus_approaching_alerts (
+  trip_id UUID NOT NULL REFERENCES active_trips(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (trip_id, student_id)
+);
+
+ALTER TABLE bus_approaching_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Notifies opted-in students once an active trip has departed a stop that is
+-- at most p_stops_before stops ahead of their boarding stop. Called
+-- periodically by the server (server/bus-alerts.ts); the alerts table makes
+-- repeated calls, and overlapping server instances, send each alert once.
+CREATE OR REPLACE FUNCTION notify_bus_approaching(
+  p_stops_before INTEGER DEFAULT 2,
+  p_since TIMESTAMPTZ DEFAULT NOW() - INTERVAL '15 minutes'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_alert RECORD;
+  v_notification_id UUID;
+  v_sent INTEGER := 0;
+BEGIN
+  FOR v_alert IN
+    SELECT DISTINCT ON (t.id, st.id)
+      t.id AS trip_id,
+      st.id AS student_id,
+      st.user_id,
+      b.bus_number,
+      departed.stop_name AS departed_stop,
+      boarding.stop_name AS boarding_stop,
+      (
+        SELECT COUNT(*) FROM route_stops r
+        WHERE r.route_id = t.route_id
+          AND r.sequence > departed.sequence
+          AND r.sequence <= boarding.sequence
+      ) AS stops_away
+    FROM trip_stop_events e
+    JOIN active_trips t ON t.id = e.trip_id AND t.is_active = TRUE
+    JOIN route_stops departed ON departed.id = e.route_stop_id
+    JOIN buses b ON b.id = t.bus_id
+    JOIN students st
+      ON st.bus_route_id = t.route_id
+     AND st.notify_bus_approaching = TRUE
+     AND st.is_blocked = FALSE
+    JOIN route_stops boarding
+      ON boarding.id = st.boarding_stop_id
+     AND boarding.route_id = t.route_id
+     AND boarding.sequence > departed.sequence
+    WHERE e.status = 'departed'
+      AND e.departed_at >= p_since
+      AND NOT EXISTS (
+        SELECT 1 FROM bus_approaching_alerts a
+        WHERE a.trip_id = t.id AND a.student_id = st.id
+      )
+    ORDER BY t.id, st.id, departed.sequence DESC
+  LOOP
+    CONTINUE WHEN v_alert.stops_away > p_stops_before;
+
+    INSERT INTO bus_approaching_alerts (trip_id, student_id)
+    VALUES (v_alert.trip_id, v_alert.student_id)
+    ON CONFLICT DO NOTHING;
+
+    CONTINUE WHEN NOT FOUND;
+
+    INSERT INTO notifications (user_id, title, message, type, is_read)
+    VALUES (
+      v_alert.user_id,
+      'Bus Approaching',
+      CASE WHEN v_alert.stops_away = 1
+        THEN format('Bus %s has left %s. %s is the next stop.', v_alert.bus_number, v_alert.departed_stop, v_alert.boarding_stop)
+        ELSE format('Bus %s has left %s and is %s stops from %s.', v_alert.bus_number, v_alert.departed_stop, v_alert.stops_away, v_alert.boarding_stop)
+      END,
+      'bus_approaching',
+      FALSE
+    )
+    RETURNING id INTO v_notification_id;
+
+    UPDATE bus_approaching_alerts
+    SET notification_id = v_notification_id
+    WHERE trip_id = v_alert.trip_id AND student_id = v_alert.student_id;
+
+    v_sent := v_sent + 1;
+  END LOOP;
+
+  RETURN v_sent;
+END;
+$$;
+
+-- Set when the fare a scan charged is refunded (see reverse_fare_deduction());
+-- the reports below leave refunded fares out of their totals
+ALTER TABLE scan_logs ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMPTZ;
+
+-- Admin reports (GET /api/reports/*): aggregates over a range of local days,
+-- p_from to p_to inclusive, optionally for one route. Scans belong to the
+-- route of the bus they were made on; transactions to the student's route.
+CREATE OR REPLACE FUNCTION report_scans_by_day(
+  p_from DATE,
+  p_to DATE,
+  p_route_id UUID DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (day DATE, scan_status TEXT, scans BIGINT, fares NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (s.scan_timestamp AT TIME ZONE p_timezone)::DATE AS day,
+         s.scan_status::TEXT,
+         COUNT(*) AS scans,
+         COALESCE(SUM(s.fare_deducted) FILTER (WHERE s.reversed_at IS NULL), 0) AS fares
+  FROM scan_logs s
+  LEFT JOIN buses b ON b.id = s.bus_id
+  WHERE s.scan_timestamp >= (p_from::TIMESTAMP AT TIME ZONE p_timezone)
+    AND s.scan_timestamp < ((p_to + 1)::TIMESTAMP AT TIME ZONE p_timezone)
+    AND (p_route_id IS NULL OR b.route_id = p_route_id)
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+CREATE OR REPLACE FUNCTION report_transactions_by_day(
+  p_from DATE,
+  p_to DATE,
+  p_route_id UUID DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (day DATE, transaction_type TEXT, amount NUMERIC, transactions BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (t.created_at AT TIME ZONE p_timezone)::DATE AS day,
+         t.transaction_type::TEXT,
+         COALESCE(SUM(t.amount), 0) AS amount,
+         COUNT(*) AS transactions
+  FROM transactions t
+  LEFT JOIN students st ON st.id = t.student_id
+  WHERE t.status = 'success'
+    AND t.created_at >= (p_from::TIMESTAMP AT TIME ZONE p_timezone)
+    AND t.created_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE p_timezone)
+    AND (p_route_id IS NULL OR st.bus_route_id = p_route_id)
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+-- Per-route totals for the range; students are counted as assigned now
+CREATE OR REPLACE FUNCTION report_routes(
+  p_from DATE,
+  p_to DATE,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (
+  route_id UUID,
+  route_number TEXT,
+  route_name TEXT,
+  students BIGINT,
+  scans BIGINT,
+  successful_scans BIGINT,
+  fares NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT r.id,
+         r.route_number::TEXT,
+         r.route_name::TEXT,
+         (SELECT COUNT(*) FROM students st WHERE st.bus_route_id = r.id),
+         COUNT(s.id),
+         COUNT(s.id) FILTER (WHERE s.scan_status = 'success'),
+         COALESCE(SUM(s.fare_deducted) FILTER (WHERE s.reversed_at IS NULL), 0)
+  FROM bus_routes r
+  LEFT JOIN buses b ON b.route_id = r.id
+  LEFT JOIN scan_logs s ON s.bus_id = b.id
+    AND s.scan_timestamp >= (p_from::TIMESTAMP AT TIME ZONE p_timezone)
+    AND s.scan_timestamp < ((p_to + 1)::TIMESTAMP AT TIME ZONE p_timezone)
+  GROUP BY r.id, r.route_number, r.route_name
+  ORDER BY r.route_number;
+$$;
+
+-- Wallet position as of now. A student is active when they are on a route,
+-- not blocked, and either hold a pass covering today or can pay for a ride.
+CREATE OR REPLACE FUNCTION report_wallet_summary(
+  p_route_id UUID DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (students BIGINT, avg_balance NUMERIC, active_students BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COUNT(*),
+         COALESCE(AVG(st.wallet_balance), 0),
+         COUNT(*) FILTER (
+           WHERE st.bus_route_id IS NOT NULL
+             AND NOT COALESCE(st.is_blocked, FALSE)
+             AND (
+               st.wallet_balance >= (effective_fare_policy(st.bus_route_id)).ride_fare
+               OR EXISTS (
+                 SELECT 1 FROM pass_subscriptions ps
+                 WHERE ps.student_id = st.id
+                   AND ps.route_id = st.bus_route_id
+                   AND ps.status = 'active'
+                   AND (NOW() AT TIME ZONE p_timezone)::DATE BETWEEN ps.valid_from AND ps.valid_until
+               )
+             )
+         )
+  FROM students st
+  WHERE p_route_id IS NULL OR st.bus_route_id = p_route_id;
+$$;
+
+-- Exports (GET /api/exports/*): the rows behind the transaction and scan log
+-- exports, filtered like the reports above. Rows come in (time, id) order,
+-- p_limit at a time, starting after the row keyed p_after_at, p_after_id, so
+-- each page is read from where the last one ended.
+-- The *_totals functions summarize exactly the rows the export will contain.
+DROP FUNCTION IF EXISTS export_transactions(DATE, DATE, UUID, TEXT, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION export_transactions(
+  p_from DATE,
+  p_to DATE,
+  p_route_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata',
+  p_after_at TIMESTAMPTZ DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT NULL
+) RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMPTZ,
+  enrollment_no TEXT,
+  student_name TEXT,
+  route_number TEXT,
+  transaction_type TEXT,
+  status TEXT,
+  amount NUMERIC,
+  balance_after NUMERIC,
+  reference TEXT,
+  description TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT t.id,
+         t.created_at,
+         st.enrollment_no::TEXT,
+         st.full_name::TEXT,
+         r.route_number::TEXT,
+         t.transaction_type::TEXT,
+         t.status::TEXT,
+         t.amount,
+         t.balance_after,
+         COALESCE(t.payment_id, t.order_id)::TEXT,
+         t.description::TEXT
+  FROM transactions t
+  LEFT JOIN students st ON st.id = t.student_id
+  LEFT JOIN bus_routes r ON r.id = st.bus_route_id
+  WHERE t.created_at >= (p_from::TIMESTAMP AT TIME ZONE p_timezone)
+    AND t.created_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE p_timezone)
+    AND (p_route_id IS NULL OR st.bus_route_id = p_route_id)
+    AND (p_status IS NULL OR t.status = p_status)
+    AND (p_type IS NULL OR t.transaction_type = p_type)
+    AND (p_after_at IS NULL OR (t.created_at, t.id) > (p_after_at, p_after_id))
+  ORDER BY t.created_at, t.id
+  LIMIT p_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION export_transaction_totals(
+  p_from DATE,
+  p_to DATE,
+  p_route_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_type TEXT DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (transaction_type TEXT, status TEXT, transactions BIGINT, amount NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT e.transaction_type, e.status, COUNT(*), COALESCE(SUM(e.amount), 0)
+  FROM export_transactions(p_from, p_to, p_route_id, p_status, p_type, p_timezone) e
+  GROUP BY 1, 2;
+$$;
+
+DROP FUNCTION IF EXISTS export_scans(DATE, DATE, UUID, UUID, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION export_scans(
+  p_from DATE,
+  p_to DATE,
+  p_route_id UUID DEFAULT NULL,
+  p_driver_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata',
+  p_after_at TIMESTAMPTZ DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT NULL
+) RETURNS TABLE (
+  id UUID,
+  scan_timestamp TIMESTAMPTZ,
+  enrollment_no TEXT,
+  student_name TEXT,
+  route_number TEXT,
+  bus_number TEXT,
+  driver_name TEXT,
+  scan_status TEXT,
+  fare_deducted NUMERIC,
+  balance_after_scan NUMERIC,
+  is_offline BOOLEAN
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.id,
+         s.scan_timestamp,
+         st.enrollment_no::TEXT,
+         st.full_name::TEXT,
+         r.route_number::TEXT,
+         b.bus_number::TEXT,
+         d.full_name::TEXT,
+         s.scan_status::TEXT,
+         s.fare_deducted,
+         s.balance_after_scan,
+         COALESCE(s.is_offline, FALSE)
+  FROM scan_logs s
+  LEFT JOIN students st ON st.id = s.student_id
+  LEFT JOIN buses b ON b.id = s.bus_id
+  LEFT JOIN bus_routes r ON r.id = b.route_id
+  LEFT JOIN drivers d ON d.id = s.driver_id
+  WHERE s.scan_timestamp >= (p_from::TIMESTAMP AT TIME ZONE p_timezone)
+    AND s.scan_timestamp < ((p_to + 1)::TIMESTAMP AT TIME ZONE p_timezone)
+    AND (p_route_id IS NULL OR b.route_id = p_route_id)
+    AND (p_driver_id IS NULL OR s.driver_id = p_driver_id)
+    AND (p_status IS NULL OR s.scan_status = p_status)
+    AND (p_after_at IS NULL OR (s.scan_timestamp, s.id) > (p_after_at, p_after_id))
+  ORDER BY s.scan_timestamp, s.id
+  LIMIT p_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION export_scan_totals(
+  p_from DATE,
+  p_to DATE,
+  p_route_id UUID DEFAULT NULL,
+  p_driver_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (scan_status TEXT, scans BIGINT, fares NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT e.scan_status, COUNT(*), COALESCE(SUM(e.fare_deducted), 0)
+  FROM export_scans(p_from, p_to, p_route_id, p_driver_id, p_status, p_timezone) e
+  GROUP BY 1;
+$$;
+
+-- Audit log: one row per admin change, shown on the admin Audit Log page.
+-- Writes admins make through the Supabase client are captured by the
+-- audit_admin_change() trigger below; writes the server makes on an admin's
+-- behalf (creating drivers, student imports) run as the service role and are
+-- recorded by the server itself. Rows are never updated or deleted.
+CREATE TABLE IF NOT EXISTS audit_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  actor_email TEXT,
+  action VARCHAR(50) NOT NULL,
+  entity_type VARCHAR(50) NOT NULL,
+  entity_id TEXT,
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor ON audit_events(actor_id, created_at DESC);
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow admins to read audit_events" ON audit_events
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+-- Records inserts, updates and deletes made by a signed-in admin. Changes by
+-- students, drivers and the service role are not admin actions and are
+-- skipped, as are updates that leave the row unchanged.
+CREATE OR REPLACE FUNCTION audit_admin_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor users%ROWTYPE;
+  v_before JSONB;
+  v_after JSONB;
+BEGIN
+  SELECT * INTO v_actor FROM users WHERE id = auth.uid() AND role = 'admin';
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    v_before := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_after := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_before = v_after THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_events (actor_id, actor_email, action, entity_type, entity_id, before, after)
+  VALUES (
+    v_actor.id,
+    v_actor.email,
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    COALESCE(v_after, v_before)->>'id',
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'students', 'drivers', 'buses', 'bus_routes', 'route_stops',
+    'fare_policies', 'pass_products', 'transactions', 'notifications'
+  ] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_admin_change ON %I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_admin_change AFTER INSERT OR UPDATE OR DELETE ON %I
+         FOR EACH ROW EXECUTE FUNCTION audit_admin_change()',
+      v_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Wallet ledger: every change to a wallet is a journal of two immutable
+-- ledger_entries that sum to zero - the student's wallet account on one side
+-- and a house account on the other (gateway_clearing for recharges,
+-- fare_revenue, pass_revenue, adjustments, opening_balance). A student's
+-- balance is the sum of their student_wallet entries; students.wallet_balance
+-- is a cached copy that only post_wallet_journal() may change, and
+-- reconcile_wallets() checks the two still agree.
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  journal_id UUID NOT NULL,
+  account VARCHAR(30) NOT NULL CHECK (account IN (
+    'student_wallet', 'gateway_clearing', 'fare_revenue', 'pass_revenue', 'adjustments', 'opening_balance'
+  )),
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  amount NUMERIC NOT NULL CHECK (amount <> 0),
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_student ON ledger_entries(student_id, account);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_journal ON ledger_entries(journal_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction ON ledger_entries(transaction_id);
+
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by post_wallet_journal(), through the server
+CREATE POLICY "Allow students to read their ledger_entries" ON ledger_entries
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM students WHERE students.id = ledger_entries.student_id AND students.user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+-- Entries are never edited. Changes made by a foreign key cascade (a student
+-- or transaction being deleted) run one trigger level down and are let through.
+CREATE OR REPLACE FUNCTION protect_ledger_entries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+  RAISE EXCEPTION 'Ledger entries cannot be changed';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_ledger_entries ON ledger_entries;
+CREATE TRIGGER protect_ledger_entries BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION protect_ledger_entries();
+
+-- Checked at commit, once every entry of the journal has been written
+CREATE OR REPLACE FUNCTION check_ledger_journal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (SELECT SUM(amount) FROM ledger_entries WHERE journal_id = NEW.journal_id) <> 0 THEN
+    RAISE EXCEPTION 'Ledger journal % does not balance', NEW.journal_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_ledger_journal ON ledger_entries;
+CREATE CONSTRAINT TRIGGER check_ledger_journal AFTER INSERT ON ledger_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION check_ledger_journal();
+
+-- The only way to move money in or out of a wallet. The caller must already
+-- hold the student row lock (SELECT ... FOR UPDATE), as process_scan(),
+-- purchase_pass() and settle_payment() do. Returns the new balance.
+CREATE OR REPLACE FUNCTION post_wallet_journal(
+  p_student_id UUID,
+  p_amount NUMERIC,
+  p_contra_account TEXT,
+  p_transaction_id UUID,
+  p_description TEXT
+) RETURNS NUMERIC
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_journal_id UUID := gen_random_uuid();
+  v_balance NUMERIC;
+BEGIN
+  INSERT INTO ledger_entries (journal_id, account, student_id, transaction_id, amount, description)
+  VALUES (v_journal_id, 'student_wallet', p_student_id, p_transaction_id, p_amount, p_description),
+         (v_journal_id, p_contra_account, p_student_id, p_transaction_id, -p_amount, p_description);
+
+  PERFORM set_config('app.ledger_posting', 'on', TRUE);
+  UPDATE students
+  SET wallet_balance = COALESCE(wallet_balance, 0) + p_amount, updated_at = NOW()
+  WHERE id = p_student_id
+  RETURNING wallet_balance INTO v_balance;
+  PERFORM set_config('app.ledger_posting', 'off', TRUE);
+
+  RETURN v_balance;
+END;
+$$;
+
+-- Rejects any other change to wallet_balance, including students editing
+-- their own row through the Supabase client
+CREATE OR REPLACE FUNCTION guard_wallet_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('app.ledger_posting', TRUE) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND COALESCE(NEW.wallet_balance, 0) <> 0 THEN
+    RAISE EXCEPTION 'New wallets start at zero; credit them through the ledger';
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.wallet_balance IS DISTINCT FROM OLD.wallet_balance THEN
+    RAISE EXCEPTION 'Wallet balances can only change through the ledger';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Wallets that existed before the ledger get an opening balance journal, so
+-- their ledger sum starts equal to the stored balance. Must run before the
+-- guard below is in place.
+WITH opening AS (
+  SELECT gen_random_uuid() AS journal_id, s.id AS student_id, s.wallet_balance AS amount
+  FROM students s
+  WHERE COALESCE(s.wallet_balance, 0) <> 0
+    AND NOT EXISTS (SELECT 1 FROM ledger_entries e WHERE e.student_id = s.id)
+)
+INSERT INTO ledger_entries (journal_id, account, student_id, amount, description)
+SELECT journal_id, 'student_wallet', student_id, amount, 'Opening balance' FROM opening
+UNION ALL
+SELECT journal_id, 'opening_balance', student_id, -amount, 'Opening balance' FROM opening;
+
+DROP TRIGGER IF EXISTS guard_wallet_balance ON students;
+CREATE TRIGGER guard_wallet_balance BEFORE INSERT OR UPDATE OF wallet_balance ON students
+  FOR EACH ROW EXECUTE FUNCTION guard_wallet_balance();
+
+-- Admin balance correction (called by POST /api/admin/students/:id/adjust-balance).
+-- The balance may not go below zero.
+CREATE OR REPLACE FUNCTION admin_adjust_balance(
+  p_student_id UUID,
+  p_amount NUMERIC,
+  p_reason TEXT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_student students%ROWTYPE;
+  v_description TEXT;
+  v_transaction_id UUID;
+  v_new_balance NUMERIC;
+BEGIN
+  SELECT * INTO v_student FROM students WHERE id = p_student_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF v_student.wallet_balance + p_amount < 0 THEN
+    RETURN jsonb_build_object('status', 'negative_balance', 'balance_before', v_student.wallet_balance);
+  END IF;
+
+  v_description := 'Admin adjustment: ' || CASE WHEN p_amount > 0 THEN '+' ELSE '' END ||
+                   to_char(p_amount, 'FM999999990.00') ||
+                   COALESCE(' - ' || NULLIF(p_reason, ''), '');
+
+  INSERT INTO transactions (student_id, amount, transaction_type, currency, status, balance_before, balance_after, description)
+  VALUES (v_student.id, ABS(p_amount), 'admin_adjustment', 'INR', 'success', v_student.wallet_balance,
+          v_student.wallet_balance + p_amount, v_description)
+  RETURNING id INTO v_transaction_id;
+
+  v_new_balance := post_wallet_journal(v_student.id, p_amount, 'adjustments', v_transaction_id, v_description);
+
+  INSERT INTO notifications (user_id, title, message, type, is_read)
+  VALUES (v_student.user_id, 'Wallet Adjusted',
+          'Your wallet balance has been adjusted by ₹' || to_char(p_amount, 'FM999999990.00') ||
+          '. New balance: ₹' || to_char(v_new_balance, 'FM999999990.00'),
+          'system', FALSE);
+
+  RETURN jsonb_build_object(
+    'status', 'success',
+    'transaction_id', v_transaction_id,
+    'balance_before', v_student.wallet_balance,
+    'balance_after', v_new_balance
+  );
+END;
+$$;
+
+-- Reconciliation (hourly from the server, or on demand from the admin
+-- Reconciliation page): records every student whose stored balance differs
+-- from their ledger sum
+CREATE TABLE IF NOT EXISTS wallet_reconciliation_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  triggered_by VARCHAR(20) NOT NULL CHECK (triggered_by IN ('schedule', 'admin')),
+  students_checked INTEGER NOT NULL,
+  mismatches INTEGER NOT NULL,
+  total_difference NUMERIC NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS wallet_reconciliation_issues (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES wallet_reconciliation_runs(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  stored_balance NUMERIC NOT NULL,
+  ledger_balance NUMERIC NOT NULL,
+  difference NUMERIC NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_reconciliation_runs_created_at ON wallet_reconciliation_runs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wallet_reconciliation_issues_run ON wallet_reconciliation_issues(run_id);
+
+ALTER TABLE wallet_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallet_reconciliation_issues ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow admins to read wallet_reconciliation_runs" ON wallet_reconciliation_runs
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+CREATE POLICY "Allow admins to read wallet_reconciliation_issues" ON wallet_reconciliation_issues
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+CREATE OR REPLACE FUNCTION reconcile_wallets(p_triggered_by TEXT DEFAULT 'schedule')
+RETURNS wallet_reconciliation_runs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_run wallet_reconciliation_runs%ROWTYPE;
+BEGIN
+  WITH mismatches AS (
+    SELECT s.id AS student_id,
+           COALESCE(s.wallet_balance, 0) AS stored_balance,
+           COALESCE(l.balance, 0) AS ledger_balance
+    FROM students s
+    LEFT JOIN (
+      SELECT student_id, SUM(amount) AS balance
+      FROM ledger_entries
+      WHERE account = 'student_wallet'
+      GROUP BY student_id
+    ) l ON l.student_id = s.id
+    WHERE COALESCE(s.wallet_balance, 0) <> COALESCE(l.balance, 0)
+  ), run AS (
+    INSERT INTO wallet_reconciliation_runs (triggered_by, students_checked, mismatches, total_difference)
+    SELECT p_triggered_by,
+           (SELECT COUNT(*) FROM students),
+           COUNT(*),
+           COALESCE(SUM(m.stored_balance - m.ledger_balance), 0)
+    FROM mismatches m
+    RETURNING *
+  ), issues AS (
+    INSERT INTO wallet_reconciliation_issues (run_id, student_id, stored_balance, ledger_balance, difference)
+    SELECT run.id, m.student_id, m.stored_balance, m.ledger_balance, m.stored_balance - m.ledger_balance
+    FROM run, mismatches m
+  )
+  SELECT * INTO v_run FROM run;
+
+  RETURN v_run;
+END;
+$$;
+
+-- Functions that move money are for the server (service role) only
+REVOKE EXECUTE ON FUNCTION post_wallet_journal(UUID, NUMERIC, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION admin_adjust_balance(UUID, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reconcile_wallets(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_scan(UUID, UUID, UUID, TEXT, TIMESTAMPTZ, TEXT, TIMESTAMPTZ, BOOLEAN, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION purchase_pass(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_payment(TEXT, TEXT, BOOLEAN, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_pending_payments(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Refunds: a wrong fare deduction is reversed by a linked 'refund'
+-- transaction for the same amount, posted back to the wallet through the
+-- ledger. The original deduction keeps its status and is marked reversed, as
+-- is its scan, which then no longer counts toward ride limits and fare caps.
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_transaction_type_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_transaction_type_check
+  CHECK (transaction_type IN ('recharge', 'deduction', 'admin_adjustment', 'pass_purchase', 'refund'));
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS refund_of UUID REFERENCES transactions(id) ON DELETE SET NULL;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMPTZ;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS reversed_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS reversal_reason TEXT;
+
+-- A deduction can only be refunded once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_refund_of ON transactions(refund_of) WHERE refund_of IS NOT NULL;
+
+-- The fare deduction a scan caused, set by process_scan()
+ALTER TABLE scan_logs ADD COLUMN IF NOT EXISTS transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scan_logs_transaction_id ON scan_logs(transaction_id);
+
+-- Reverses a fare deduction (called by POST /api/transactions/:id/reverse, an
+-- admin-only route, and by resolve_fare_dispute()). p_actor_id is the admin
+-- doing it; students ask for a refund by opening a dispute.
+DROP FUNCTION IF EXISTS reverse_fare_deduction(UUID, UUID, TEXT, UUID, INTEGER, INTEGER);
+CREATE OR REPLACE FUNCTION reverse_fare_deduction(
+  p_transaction_id UUID,
+  p_actor_id UUID,
+  p_reason TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tx transactions%ROWTYPE;
+  v_student students%ROWTYPE;
+  v_refund transactions%ROWTYPE;
+  v_description TEXT;
+  v_new_balance NUMERIC;
+BEGIN
+  SELECT * INTO v_tx FROM transactions WHERE id = p_transaction_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF v_tx.reversed_at IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'already_reversed');
+  END IF;
+
+  IF v_tx.transaction_type <> 'deduction' OR v_tx.status <> 'success' THEN
+    RETURN jsonb_build_object('status', 'not_reversible');
+  END IF;
+
+  SELECT * INTO v_student FROM students WHERE id = v_tx.student_id FOR UPDATE;
+
+  v_description := 'Refund' || COALESCE(' - ' || NULLIF(p_reason, ''), '');
+
+  INSERT INTO transactions (student_id, amount, transaction_type, currency, status, balance_before, balance_after,
+                            description, refund_of)
+  VALUES (v_student.id, v_tx.amount, 'refund', 'INR', 'success', v_student.wallet_balance,
+          v_student.wallet_balance + v_tx.amount, v_description, v_tx.id)
+  RETURNING * INTO v_refund;
+
+  v_new_balance := post_wallet_journal(v_student.id, v_tx.amount, 'fare_revenue', v_refund.id, v_description);
+
+  UPDATE transactions
+  SET reversed_at = NOW(), reversed_by = p_actor_id, reversal_reason = NULLIF(p_reason, ''), updated_at = NOW()
+  WHERE id = v_tx.id;
+
+  UPDATE scan_logs SET reversed_at = NOW() WHERE transaction_id = v_tx.id;
+
+  INSERT INTO notifications (user_id, title, message, type, is_read)
+  VALUES (v_student.user_id, 'Fare Refunded',
+          '₹' || to_char(v_tx.amount, 'FM999999990.00') || ' for "' || COALESCE(v_tx.description, 'a fare') ||
+          '" has been refunded to your wallet. New balance: ₹' || to_char(v_new_balance, 'FM999999990.00'),
+          'recharge', FALSE);
+
+  RETURN jsonb_build_object(
+    'status', 'success',
+    'refund', to_jsonb(v_refund),
+    'balance_after', v_new_balance
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reverse_fare_deduction(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- Fare disputes
+-- ============================================================
+
+-- A student's ticket against a fare deduction. At most one per transaction;
+-- comments from the student and admins are kept in dispute_comments.
+CREATE TABLE IF NOT EXISTS fare_disputes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL UNIQUE REFERENCES transactions(id) ON DELETE CASCADE,
+  reason VARCHAR(30) NOT NULL
+    CHECK (reason IN ('not_on_bus', 'charged_twice', 'wrong_fare', 'had_pass', 'other')),
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'approved', 'rejected')),
+  resolution_note TEXT,
+  resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  refund_transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS dispute_comments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  dispute_id UUID NOT NULL REFERENCES fare_disputes(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  author_role VARCHAR(20) NOT NULL CHECK (author_role IN ('student', 'admin')),
+  message TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fare_disputes_status ON fare_disputes(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_fare_disputes_student_id ON fare_disputes(student_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dispute_comments_dispute_id ON dispute_comments(dispute_id, created_at);
+
+-- Reads only; disputes are opened, commented on and resolved through the
+-- server's /api/disputes routes
+ALTER TABLE fare_disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dispute_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow students to read own fare_disputes" ON fare_disputes
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM students WHERE students.id = fare_disputes.student_id AND students.user_id = auth.uid())
+  );
+
+CREATE POLICY "Allow admins to read fare_disputes" ON fare_disputes
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+CREATE POLICY "Allow students to read own dispute_comments" ON dispute_comments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM fare_disputes d
+      JOIN students s ON s.id = d.student_id
+      WHERE d.id = dispute_comments.dispute_id AND s.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Allow admins to read dispute_comments" ON dispute_comments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+-- Approves (refunding the fare through reverse_fare_deduction) or rejects an
+-- open dispute, and tells the student. Called by POST /api/disputes/:id/resolve.
+CREATE OR REPLACE FUNCTION resolve_fare_dispute(
+  p_dispute_id UUID,
+  p_admin_id UUID,
+  p_approve BOOLEAN,
+  p_note TEXT
+) RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_dispute fare_disputes%ROWTYPE;
+  v_refund JSONB;
+  v_refund_id UUID;
+  v_user_id UUID;
+BEGIN
+  SELECT * INTO v_dispute FROM fare_disputes WHERE id = p_dispute_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF v_dispute.status <> 'open' THEN
+    RETURN jsonb_build_object('status', 'already_resolved');
+  END IF;
+
+  IF p_approve THEN
+    v_refund := reverse_fare_deduction(v_dispute.transaction_id, p_admin_id,
+                                       COALESCE(NULLIF(p_note, ''), 'Dispute approved'));
+
+    IF v_refund->>'status' = 'success' THEN
+      v_refund_id := (v_refund->'refund'->>'id')::UUID;
+    -- A fare already refunded some other way can still be approved
+    ELSIF v_refund->>'status' <> 'already_reversed' THEN
+      RETURN v_refund;
+    END IF;
+  END IF;
+
+  UPDATE fare_disputes
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      resolution_note = NULLIF(p_note, ''),
+      resolved_by = p_admin_id,
+      resolved_at = NOW(),
+      refund_transaction_id = v_refund_id,
+      updated_at = NOW()
+  WHERE id = p_dispute_id
+  RETURNING * INTO v_dispute;
+
+  SELECT user_id INTO v_user_id FROM students WHERE id = v_dispute.student_id;
+
+  INSERT INTO notifications (user_id, title, message, type, is_read)
+  VALUES (
+    v_user_id,
+    CASE WHEN p_approve THEN 'Dispute Approved' ELSE 'Dispute Rejected' END,
+    CASE WHEN p_approve
+      THEN 'Your fare dispute was approved' || CASE WHEN v_refund_id IS NOT NULL THEN ' and the fare refunded' ELSE '' END
+      ELSE 'Your fare dispute was rejected'
+    END || COALESCE(': ' || NULLIF(p_note, ''), '.'),
+    'system',
+    FALSE
+  );
+
+  RETURN jsonb_build_object('status', 'success', 'dispute', to_jsonb(v_dispute));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION resolve_fare_dispute(UUID, UUID, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- Wallet settings and auto-recharge
+-- ============================================================
+
+-- Per-student wallet preferences. A missing row means the defaults: warn
+-- below three rides, in-app and push, no auto-recharge.
+CREATE TABLE IF NOT EXISTS wallet_settings (
+  student_id UUID PRIMARY KEY REFERENCES students(id) ON DELETE CASCADE,
+  low_balance_threshold NUMERIC(10, 2) CHECK (low_balance_threshold >= 0),
+  -- Channels besides in-app that low-balance warnings are also sent to
+  low_balance_channels TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (low_balance_channels <@ ARRAY['email', 'sms']::TEXT[]),
+  auto_recharge_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  auto_recharge_amount NUMERIC(10, 2) CHECK (auto_recharge_amount > 0),
+  auto_recharge_threshold NUMERIC(10, 2) CHECK (auto_recharge_threshold >= 0),
+  -- The gateway token the student authorised for recurring charges
+  mandate_status VARCHAR(20) NOT NULL DEFAULT 'none'
+    CHECK (mandate_status IN ('none', 'pending', 'active', 'paused', 'revoked')),
+  gateway_customer_id TEXT,
+  gateway_token_id TEXT,
+  mandate_order_id TEXT,
+  auto_recharge_attempted_at TIMESTAMPTZ,
+  auto_recharge_failures INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Written only through the server's /api/wallet/settings routes
+ALTER TABLE wallet_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow students to read own wallet_settings" ON wallet_settings
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM students WHERE students.id = wallet_settings.student_id AND students.user_id = auth.uid())
+  );
+
+CREATE POLICY "Allow admins to read wallet_settings" ON wallet_settings
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+-- Recharges charged to a saved token rather than paid at checkout
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS auto_recharge BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Picks the students whose balance is below their auto-recharge threshold and
+-- marks them attempted, so each is charged once however many server
+-- instances call this. A failed charge is retried after p_retry_minutes.
+CREATE OR REPLACE FUNCTION claim_auto_recharges(
+  p_student_id UUID DEFAULT NULL,
+  p_retry_minutes INTEGER DEFAULT 60
+) RETURNS TABLE (
+  student_id UUID,
+  amount NUMERIC,
+  customer_id TEXT,
+  token_id TEXT,
+  email TEXT,
+  phone TEXT
+)
+LANGUAGE sql
+AS $$
+  UPDATE wallet_settings w
+  SET auto_recharge_attempted_at = NOW(), updated_at = NOW()
+  FROM students s
+  JOIN users u ON u.id = s.user_id
+  WHERE s.id = w.student_id
+    AND (p_student_id IS NULL OR w.student_id = p_student_id)
+    AND w.auto_recharge_enabled
+    AND w.mandate_status = 'active'
+    AND w.gateway_token_id IS NOT NULL
+    AND s.wallet_balance < w.auto_recharge_threshold
+    AND (w.auto_recharge_attempted_at IS NULL
+         OR w.auto_recharge_attempted_at < NOW() - make_interval(mins => p_retry_minutes))
+  RETURNING w.student_id, w.auto_recharge_amount, w.gateway_customer_id, w.gateway_token_id, u.email::TEXT, s.phone::TEXT;
+$$;
+
+-- Called by settle_payment() for auto-recharges. Three failures in a row
+-- pause the mandate until the student sets it up again.
+CREATE OR REPLACE FUNCTION record_auto_recharge_result(p_student_id UUID, p_success BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_settings wallet_settings%ROWTYPE;
+BEGIN
+  IF p_success THEN
+    UPDATE wallet_settings
+    SET auto_recharge_attempted_at = NULL, auto_recharge_failures = 0, updated_at = NOW()
+    WHERE student_id = p_student_id;
+    RETURN;
+  END IF;
+
+  UPDATE wallet_settings
+  SET auto_recharge_failures = auto_recharge_failures + 1,
+      mandate_status = CASE WHEN auto_recharge_failures + 1 >= 3 THEN 'paused' ELSE mandate_status END,
+      updated_at = NOW()
+  WHERE student_id = p_student_id
+  RETURNING * INTO v_settings;
+
+  INSERT INTO notifications (user_id, title, message, type, is_read)
+  SELECT s.user_id, 'Auto-recharge Failed',
+         CASE WHEN v_settings.mandate_status = 'paused'
+           THEN 'Auto-recharge failed three times and has been paused. Set it up again from your wallet.'
+           ELSE 'We could not auto-recharge your wallet. We will try again later.'
+         END,
+         'low_balance', FALSE
+  FROM students s
+  WHERE s.id = p_student_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_auto_recharges(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_auto_recharge_result(UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- Email and SMS notification delivery
+-- ============================================================
+
+-- Per-user channels, besides in-app, for each notification type. A missing
+-- row means the type's default (see queue_notification_deliveries()).
+-- Low-balance warnings follow wallet_settings.low_balance_channels instead.
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(30) NOT NULL CHECK (type IN ('recharge', 'deduction', 'scan', 'system', 'bus_approaching')),
+  channels TEXT[] NOT NULL DEFAULT '{}' CHECK (channels <@ ARRAY['email', 'sms']::TEXT[]),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, type)
+);
+
+-- Written only through the server's /api/notifications/preferences routes
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow users to read own notification_preferences" ON notification_preferences
+  FOR SELECT USING (user_id = auth.uid());
+
+-- One row per notification per external channel. The title and message are
+-- copied so a delivery still goes out (and its history stays) when the
+-- in-app notification is deleted. Sent by server/notification-delivery.ts.
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  channel VARCHAR(10) NOT NULL CHECK (channel IN ('email', 'sms')),
+  recipient TEXT NOT NULL,
+  type VARCHAR(30) NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  provider_message_id TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (notification_id, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due ON notification_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user ON notification_deliveries(user_id, created_at DESC);
+
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow users to read own notification_deliveries" ON notification_deliveries
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Allow admins to read notification_deliveries" ON notification_deliveries
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+-- Queues a delivery for each channel the recipient wants this notification
+-- type on; push gets one per subscribed browser (push_subscriptions, below).
+-- Runs for every notification, whether the server or a database function
+-- inserted it. Unless the user has chosen otherwise, recharges and system
+-- messages (refunds, disputes) are emailed and pushed, low-balance and
+-- bus-approaching alerts are pushed, and the rest are in-app only. Keep the
+-- defaults in step with DEFAULT_NOTIFICATION_CHANNELS.
+CREATE OR REPLACE FUNCTION queue_notification_deliveries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_channels TEXT[];
+  v_email TEXT;
+  v_phone TEXT;
+BEGIN
+  IF NEW.type = 'low_balance' THEN
+    SELECT w.low_balance_channels INTO v_channels
+    FROM wallet_settings w
+    JOIN students s ON s.id = w.student_id
+    WHERE s.user_id = NEW.user_id;
+
+    IF NOT FOUND THEN
+      v_channels := ARRAY['push'];
+    END IF;
+  ELSE
+    SELECT p.channels INTO v_channels
+    FROM notification_preferences p
+    WHERE p.user_id = NEW.user_id AND p.type = NEW.type;
+
+    IF NOT FOUND THEN
+      v_channels := CASE
+        WHEN NEW.type IN ('recharge', 'system') THEN ARRAY['email', 'push']
+        WHEN NEW.type = 'bus_approaching' THEN ARRAY['push']
+        ELSE '{}'::TEXT[]
+      END;
+    END IF;
+  END IF;
+
+  IF COALESCE(cardinality(v_channels), 0) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT u.email, COALESCE(s.phone, d.phone) INTO v_email, v_phone
+  FROM users u
+  LEFT JOIN students s ON s.user_id = u.id
+  LEFT JOIN drivers d ON d.user_id = u.id
+  WHERE u.id = NEW.user_id;
+
+  INSERT INTO notification_deliveries (notification_id, user_id, channel, recipient, type, title, message)
+  SELECT NEW.id, NEW.user_id, c.channel, c.recipient, NEW.type, NEW.title, NEW.message
+  FROM (
+    SELECT ch AS channel, CASE ch WHEN 'email' THEN v_email ELSE v_phone END AS recipient
+    FROM unnest(v_channels) AS ch
+    WHERE ch <> 'push'
+    UNION ALL
+    SELECT 'push', ps.endpoint
+    FROM push_subscriptions ps
+    WHERE ps.user_id = NEW.user_id AND 'push' = ANY (v_channels)
+  ) c
+  WHERE NULLIF(c.recipient, '') IS NOT NULL
+  ON CONFLICT (notification_id, channel, recipient) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notifications_queue_deliveries ON notifications;
+CREATE TRIGGER notifications_queue_deliveries
+  AFTER INSERT ON notifications
+  FOR EACH ROW EXECUTE FUNCTION queue_notification_deliveries();
+
+-- Hands out due deliveries, marking them sending so overlapping server
+-- instances never pick the same one. A delivery stuck in sending (the server
+-- died mid-send) is picked up again after p_stale_minutes.
+CREATE OR REPLACE FUNCTION claim_notification_deliveries(
+  p_limit INTEGER DEFAULT 50,
+  p_stale_minutes INTEGER DEFAULT 10
+) RETURNS SETOF notification_deliveries
+LANGUAGE sql
+AS $$
+  UPDATE notification_deliveries d
+  SET status = 'sending', attempts = d.attempts + 1, updated_at = NOW()
+  WHERE d.id IN (
+    SELECT id
+    FROM notification_deliveries
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'sending' AND updated_at < NOW() - make_interval(mins => p_stale_minutes))
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_notification_deliveries() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_notification_deliveries(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- Web push notifications
+-- ============================================================
+
+-- One row per browser a user has allowed push notifications on. Expired
+-- subscriptions are removed when the push service rejects them.
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  endpoint TEXT UNIQUE NOT NULL,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+-- Written only through the server's /api/push/subscriptions routes
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow users to read own push_subscriptions" ON push_subscriptions
+  FOR SELECT USING (user_id = auth.uid());
+
+-- Push is a third delivery channel. Its recipient is the subscription
+-- endpoint, so one notification can have several push deliveries.
+ALTER TABLE notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_channel_check;
+ALTER TABLE notification_deliveries ADD CONSTRAINT notification_deliveries_channel_check
+  CHECK (channel IN ('email', 'sms', 'push'));
+
+ALTER TABLE notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_notification_id_channel_key;
+ALTER TABLE notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_notification_id_channel_recipient_key;
+ALTER TABLE notification_deliveries ADD CONSTRAINT notification_deliveries_notification_id_channel_recipient_key
+  UNIQUE (notification_id, channel, recipient);
+
+ALTER TABLE notification_preferences DROP CONSTRAINT IF EXISTS notification_preferences_channels_check;
+ALTER TABLE notification_preferences ADD CONSTRAINT notification_preferences_channels_check
+  CHECK (channels <@ ARRAY['email', 'sms', 'push']::TEXT[]);
+
+ALTER TABLE wallet_settings DROP CONSTRAINT IF EXISTS wallet_settings_low_balance_channels_check;
+ALTER TABLE wallet_settings ADD CONSTRAINT wallet_settings_low_balance_channels_check
+  CHECK (low_balance_channels <@ ARRAY['email', 'sms', 'push']::TEXT[]);
+ALTER TABLE wallet_settings ALTER COLUMN low_balance_channels SET DEFAULT ARRAY['push']::TEXT[];
+
+-- ============================================================
+-- Timetable
+-- ============================================================
+
+-- Scheduled departures from a route's first stop. days are weekdays the slot
+-- runs on, 0 (Sunday) - 6. direction only labels the run (morning to campus,
+-- evening back); the bus still serves the stops in sequence. A slot with a
+-- bus_id is only matched to trips of that bus.
+CREATE TABLE IF NOT EXISTS timetable_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  route_id UUID NOT NULL REFERENCES bus_routes(id) ON DELETE CASCADE,
+  direction VARCHAR(10) NOT NULL CHECK (direction IN ('morning', 'evening')),
+  departure_time TIME NOT NULL,
+  days INTEGER[] NOT NULL DEFAULT ARRAY[1, 2, 3, 4, 5]
+    CHECK (cardinality(days) > 0 AND days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]),
+  bus_id UUID REFERENCES buses(id) ON DELETE SET NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (route_id, direction, departure_time)
+);
+
+-- Days without service, for one route or (route_id NULL) every route
+CREATE TABLE IF NOT EXISTS timetable_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  holiday_date DATE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  route_id UUID REFERENCES bus_routes(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_timetable_slots_route ON timetable_slots(route_id, departure_time);
+CREATE INDEX IF NOT EXISTS idx_timetable_holidays_date ON timetable_holidays(holiday_date);
+
+-- Minutes after a slot's departure that the bus is due at the stop; NULL
+-- stops have no scheduled time
+ALTER TABLE route_stops ADD COLUMN IF NOT EXISTS scheduled_offset_minutes INTEGER
+  CHECK (scheduled_offset_minutes >= 0);
+
+-- The slot a trip runs and its departure time that day, set on insert
+ALTER TABLE active_trips ADD COLUMN IF NOT EXISTS timetable_slot_id UUID
+  REFERENCES timetable_slots(id) ON DELETE SET NULL;
+ALTER TABLE active_trips ADD COLUMN IF NOT EXISTS scheduled_departure TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_active_trips_slot ON active_trips(timetable_slot_id, scheduled_departure);
+
+ALTER TABLE timetable_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE timetable_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to timetable_slots" ON timetable_slots
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow admins to manage timetable_slots" ON timetable_slots
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+CREATE POLICY "Allow read access to timetable_holidays" ON timetable_holidays
+  FOR SELECT USING (true);
+
+CREATE POLICY "Allow admins to manage timetable_holidays" ON timetable_holidays
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  ) WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+DROP TRIGGER IF EXISTS audit_admin_change ON timetable_slots;
+CREATE TRIGGER audit_admin_change AFTER INSERT OR UPDATE OR DELETE ON timetable_slots
+  FOR EACH ROW EXECUTE FUNCTION audit_admin_change();
+
+DROP TRIGGER IF EXISTS audit_admin_change ON timetable_holidays;
+CREATE TRIGGER audit_admin_change AFTER INSERT OR UPDATE OR DELETE ON timetable_holidays
+  FOR EACH ROW EXECUTE FUNCTION audit_admin_change();
+
+-- Departures of a route from p_from on, over p_days local days, skipping
+-- holidays. A departure some trip was linked to comes with that trip.
+CREATE OR REPLACE FUNCTION upcoming_departures(
+  p_route_id UUID,
+  p_from TIMESTAMPTZ DEFAULT NOW(),
+  p_days INTEGER DEFAULT 2,
+  p_limit INTEGER DEFAULT 10,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (
+  slot_id UUID,
+  direction VARCHAR,
+  scheduled_departure TIMESTAMPTZ,
+  bus_id UUID,
+  trip_id UUID,
+  trip_started_at TIMESTAMPTZ,
+  trip_active BOOLEAN
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.id, s.direction, d.scheduled, s.bus_id, t.id, t.started_at, t.is_active
+  FROM timetable_slots s
+  CROSS JOIN LATERAL (
+    SELECT (p_from AT TIME ZONE p_timezone)::DATE + n AS service_date
+    FROM generate_series(0, p_days - 1) AS n
+  ) service_day
+  CROSS JOIN LATERAL (
+    SELECT (service_day.service_date + s.departure_time) AT TIME ZONE p_timezone AS scheduled
+  ) d
+  LEFT JOIN active_trips t ON t.timetable_slot_id = s.id AND t.scheduled_departure = d.scheduled
+  WHERE s.route_id = p_route_id
+    AND s.is_active
+    AND EXTRACT(DOW FROM service_day.service_date)::INTEGER = ANY (s.days)
+    AND d.scheduled >= p_from
+    AND NOT EXISTS (
+      SELECT 1 FROM timetable_holidays h
+      WHERE h.holiday_date = service_day.service_date
+        AND (h.route_id IS NULL OR h.route_id = p_route_id)
+    )
+  ORDER BY d.scheduled
+  LIMIT p_limit;
+$$;
+
+-- Service-wide settings the database needs without a server to ask, such as
+-- the local timezone of the timetable when a driver's app starts a trip. The
+-- server writes its SCAN_TIMEZONE here when it starts.
+CREATE TABLE IF NOT EXISTS service_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO service_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE service_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow read access to service_settings" ON service_settings
+  FOR SELECT USING (true);
+
+-- Links every new trip to the route's departure nearest its start, within
+-- an hour either side, that no other trip has taken. Values sent by the
+-- driver's app are ignored so lateness can be trusted. Departures are laid
+-- out in the service timezone from service_settings.
+CREATE OR REPLACE FUNCTION link_trip_to_timetable()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_started_at TIMESTAMPTZ := COALESCE(NEW.started_at, NOW());
+  v_timezone TEXT;
+BEGIN
+  NEW.timetable_slot_id := NULL;
+  NEW.scheduled_departure := NULL;
+
+  SELECT s.timezone INTO v_timezone FROM service_settings s;
+
+  SELECT u.slot_id, u.scheduled_departure
+  INTO NEW.timetable_slot_id, NEW.scheduled_departure
+  FROM upcoming_departures(
+    NEW.route_id, v_started_at - INTERVAL '60 minutes', 2, 50, COALESCE(v_timezone, 'Asia/Kolkata')
+  ) u
+  WHERE u.trip_id IS NULL
+    AND (u.bus_id IS NULL OR u.bus_id = NEW.bus_id)
+    AND u.scheduled_departure <= v_started_at + INTERVAL '60 minutes'
+  ORDER BY abs(EXTRACT(EPOCH FROM u.scheduled_departure - v_started_at))
+  LIMIT 1;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_trip_to_timetable ON active_trips;
+CREATE TRIGGER link_trip_to_timetable BEFORE INSERT ON active_trips
+  FOR EACH ROW EXECUTE FUNCTION link_trip_to_timetable();
+
+-- ============================================================
+-- On-time performance
+-- ============================================================
+
+-- Finished trips started on local days p_from to p_to, with their duration
+-- from the first stop departure to the last stop arrival (trip start and end
+-- when stop events are missing)
+CREATE OR REPLACE FUNCTION performance_trips(
+  p_from DATE,
+  p_to DATE,
+  p_route_id UUID DEFAULT NULL,
+  p_driver_id UUID DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (
+  trip_id UUID,
+  route_id UUID,
+  driver_id UUID,
+  day DATE,
+  scheduled_departure TIMESTAMPTZ,
+  duration_seconds NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT t.id,
+         t.route_id,
+         t.driver_id,
+         (t.started_at AT TIME ZONE p_timezone)::DATE,
+         t.scheduled_departure,
+         NULLIF(GREATEST(
+           EXTRACT(EPOCH FROM COALESCE(ev.last_arrival, t.ended_at) - COALESCE(ev.first_departure, t.started_at)),
+           0
+         ), 0)
+  FROM active_trips t
+  LEFT JOIN LATERAL (
+    SELECT MIN(e.departed_at) AS first_departure, MAX(e.arrived_at) AS last_arrival
+    FROM trip_stop_events e
+    WHERE e.trip_id = t.id
+  ) ev ON TRUE
+  WHERE t.ended_at IS NOT NULL
+    AND t.started_at >= (p_from::TIMESTAMP AT TIME ZONE p_timezone)
+    AND t.started_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE p_timezone)
+    AND (p_route_id IS NULL OR t.route_id = p_route_id)
+    AND (p_driver_id IS NULL OR t.driver_id = p_driver_id)
+$$;
+
+-- Every stop visit of those trips: an event the bus arrived at or left, so
+-- skipped and never-reached stops are not counted. The route's first stop is
+-- timed by its departure, later stops (even when the first was skipped) by
+-- their arrival. delay_seconds compares that with the trip's timetabled
+-- departure plus the stop's offset, so it is NULL for unscheduled trips and
+-- for stops without an offset (the first stop defaults to 0).
+CREATE OR REPLACE FUNCTION performance_stop_visits(
+  p_from DATE,
+  p_to DATE,
+  p_route_id UUID DEFAULT NULL,
+  p_driver_id UUID DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (
+  trip_id UUID,
+  route_id UUID,
+  driver_id UUID,
+  day DATE,
+  route_stop_id UUID,
+  sequence INTEGER,
+  delay_seconds NUMERIC,
+  dwell_seconds NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH visits AS (
+    SELECT t.trip_id,
+           t.route_id,
+           t.driver_id,
+           t.day,
+           t.scheduled_departure,
+           s.id AS route_stop_id,
+           s.sequence,
+           s.scheduled_offset_minutes,
+           s.sequence = (
+             SELECT MIN(f.sequence) FROM route_stops f WHERE f.route_id = s.route_id
+           ) AS is_first,
+           e.arrived_at,
+           e.departed_at
+    FROM performance_trips(p_from, p_to, p_route_id, p_driver_id, p_timezone) t
+    JOIN trip_stop_events e ON e.trip_id = t.trip_id
+    JOIN route_stops s ON s.id = e.route_stop_id
+    WHERE e.arrived_at IS NOT NULL OR e.departed_at IS NOT NULL
+  )
+  SELECT v.trip_id,
+         v.route_id,
+         v.driver_id,
+         v.day,
+         v.route_stop_id,
+         v.sequence,
+         EXTRACT(EPOCH FROM
+           CASE WHEN v.is_first THEN v.departed_at ELSE v.arrived_at END
+           - (v.scheduled_departure + make_interval(
+               mins => COALESCE(v.scheduled_offset_minutes, CASE WHEN v.is_first THEN 0 END)
+             ))
+         ),
+         CASE WHEN v.departed_at >= v.arrived_at
+           THEN EXTRACT(EPOCH FROM v.departed_at - v.arrived_at)
+         END
+  FROM visits v
+$$;
+
+-- Trip and stop timing totals per p_group: 'route', 'driver', 'day' or 'all'.
+-- A timed stop is on time when it is at most p_early_seconds early and
+-- p_late_seconds late.
+CREATE OR REPLACE FUNCTION report_performance(
+  p_from DATE,
+  p_to DATE,
+  p_group TEXT,
+  p_route_id UUID DEFAULT NULL,
+  p_driver_id UUID DEFAULT NULL,
+  p_early_seconds INTEGER DEFAULT 60,
+  p_late_seconds INTEGER DEFAULT 300,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (
+  group_key TEXT,
+  trips BIGINT,
+  scheduled_trips BIGINT,
+  timed_stops BIGINT,
+  on_time_stops BIGINT,
+  avg_delay_seconds NUMERIC,
+  avg_duration_seconds NUMERIC,
+  median_duration_seconds NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH trip_totals AS (
+    SELECT CASE p_group
+             WHEN 'route' THEN t.route_id::TEXT
+             WHEN 'driver' THEN t.driver_id::TEXT
+             WHEN 'day' THEN t.day::TEXT
+             ELSE 'all'
+           END AS group_key,
+           COUNT(*) AS trips,
+           COUNT(t.scheduled_departure) AS scheduled_trips,
+           AVG(t.duration_seconds) AS avg_duration_seconds,
+           percentile_cont(0.5) WITHIN GROUP (ORDER BY t.duration_seconds)::NUMERIC AS median_duration_seconds
+    FROM performance_trips(p_from, p_to, p_route_id, p_driver_id, p_timezone) t
+    GROUP BY 1
+  ),
+  stop_totals AS (
+    SELECT CASE p_group
+             WHEN 'route' THEN v.route_id::TEXT
+             WHEN 'driver' THEN v.driver_id::TEXT
+             WHEN 'day' THEN v.day::TEXT
+             ELSE 'all'
+           END AS group_key,
+           COUNT(v.delay_seconds) AS timed_stops,
+           COUNT(*) FILTER (WHERE v.delay_seconds BETWEEN -p_early_seconds AND p_late_seconds) AS on_time_stops,
+           AVG(v.delay_seconds) AS avg_delay_seconds
+    FROM performance_stop_visits(p_from, p_to, p_route_id, p_driver_id, p_timezone) v
+    GROUP BY 1
+  )
+  SELECT tt.group_key,
+         tt.trips,
+         tt.scheduled_trips,
+         COALESCE(st.timed_stops, 0),
+         COALESCE(st.on_time_stops, 0),
+         st.avg_delay_seconds,
+         tt.avg_duration_seconds,
+         tt.median_duration_seconds
+  FROM trip_totals tt
+  LEFT JOIN stop_totals st ON st.group_key = tt.group_key
+  ORDER BY tt.group_key;
+$$;
+
+-- Delay and dwell per stop of one route
+CREATE OR REPLACE FUNCTION report_performance_stops(
+  p_from DATE,
+  p_to DATE,
+  p_route_id UUID,
+  p_driver_id UUID DEFAULT NULL,
+  p_early_seconds INTEGER DEFAULT 60,
+  p_late_seconds INTEGER DEFAULT 300,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (
+  route_stop_id UUID,
+  stop_name TEXT,
+  sequence INTEGER,
+  visits BIGINT,
+  timed_visits BIGINT,
+  on_time_visits BIGINT,
+  avg_delay_seconds NUMERIC,
+  median_dwell_seconds NUMERIC,
+  p90_dwell_seconds NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.id,
+         s.stop_name::TEXT,
+         s.sequence,
+         COUNT(v.trip_id),
+         COUNT(v.delay_seconds),
+         COUNT(*) FILTER (WHERE v.delay_seconds BETWEEN -p_early_seconds AND p_late_seconds),
+         AVG(v.delay_seconds),
+         percentile_cont(0.5) WITHIN GROUP (ORDER BY v.dwell_seconds)::NUMERIC,
+         percentile_cont(0.9) WITHIN GROUP (ORDER BY v.dwell_seconds)::NUMERIC
+  FROM route_stops s
+  LEFT JOIN performance_stop_visits(p_from, p_to, p_route_id, p_driver_id, p_timezone) v
+    ON v.route_stop_id = s.id
+  WHERE s.route_id = p_route_id
+  GROUP BY s.id, s.stop_name, s.sequence
+  ORDER BY s.sequence;
+$$;
+
+-- Stop visits by dwell time: bucket 0 is below p_bounds[1], bucket n is from
+-- p_bounds[n] up to the next bound
+CREATE OR REPLACE FUNCTION report_performance_dwell(
+  p_from DATE,
+  p_to DATE,
+  p_bounds INTEGER[],
+  p_route_id UUID DEFAULT NULL,
+  p_driver_id UUID DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (bucket INTEGER, visits BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT width_bucket(v.dwell_seconds, p_bounds::NUMERIC[]), COUNT(*)
+  FROM performance_stop_visits(p_from, p_to, p_route_id, p_driver_id, p_timezone) v
+  WHERE v.dwell_seconds IS NOT NULL
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+-- ============================================================
+-- Occupancy
+-- ============================================================
+
+-- Who is on board each trip. A boarding is recorded for every successful
+-- scan made during the trip; the student alights with an exit scan, when
+-- the bus leaves their own stop after they boarded elsewhere (the evening
+-- run home), or when the trip ends.
+CREATE TABLE IF NOT EXISTS trip_boardings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id UUID NOT NULL REFERENCES active_trips(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  scan_log_id UUID UNIQUE REFERENCES scan_logs(id) ON DELETE SET NULL,
+  boarded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  boarded_stop_id UUID REFERENCES route_stops(id) ON DELETE SET NULL,
+  alighted_at TIMESTAMPTZ,
+  alighted_stop_id UUID REFERENCES route_stops(id) ON DELETE SET NULL,
+  alight_method VARCHAR(20) CHECK (alight_method IN ('exit_scan', 'stop', 'trip_end')),
+  CHECK ((alighted_at IS NULL) = (alight_method IS NULL))
+);
+
+-- A student is on board a trip at most once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trip_boardings_on_board
+  ON trip_boardings(trip_id, student_id) WHERE alighted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_trip_boardings_trip ON trip_boardings(trip_id, boarded_at);
+
+-- Students on board, kept in step with trip_boardings so Track Bus and the
+-- driver's app follow it over realtime
+ALTER TABLE active_trips ADD COLUMN IF NOT EXISTS occupancy INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE trip_boardings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow students to read own trip_boardings" ON trip_boardings
+  FOR SELECT USING (
+    student_id IN (SELECT id FROM students WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Allow admins to read trip_boardings" ON trip_boardings
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+-- The stop a trip was at, or last reached, at p_at; the first stop before
+-- the bus has reached any
+CREATE OR REPLACE FUNCTION trip_stop_at(p_trip_id UUID, p_at TIMESTAMPTZ)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT rs.id
+  FROM active_trips t
+  JOIN route_stops rs ON rs.route_id = t.route_id
+  LEFT JOIN trip_stop_events e ON e.trip_id = t.id AND e.route_stop_id = rs.id AND e.arrived_at <= p_at
+  WHERE t.id = p_trip_id
+  ORDER BY e.arrived_at DESC NULLS LAST, rs.sequence
+  LIMIT 1;
+$$;
+
+-- Boards the student onto the trip and at the stop the scan was linked to
+-- (see link_scan_to_trip). Offline scans synced after the trip ended are
+-- boarded and alighted at its end.
+CREATE OR REPLACE FUNCTION record_trip_boarding()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_trip active_trips%ROWTYPE;
+BEGIN
+  IF NEW.scan_status <> 'success' OR NEW.trip_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_trip FROM active_trips WHERE id = NEW.trip_id;
+
+  INSERT INTO trip_boardings (trip_id, student_id, scan_log_id, boarded_at, boarded_stop_id,
+                              alighted_at, alight_method)
+  VALUES (v_trip.id, NEW.student_id, NEW.id, NEW.scan_timestamp, NEW.route_stop_id,
+          CASE WHEN v_trip.is_active THEN NULL ELSE v_trip.ended_at END,
+          CASE WHEN v_trip.is_active THEN NULL ELSE 'trip_end' END)
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_trip_boarding ON scan_logs;
+CREATE TRIGGER record_trip_boarding AFTER INSERT ON scan_logs
+  FOR EACH ROW EXECUTE FUNCTION record_trip_boarding();
+
+-- Leaving a stop drops off the students who live there, unless they just
+-- got on there
+CREATE OR REPLACE FUNCTION alight_at_home_stop()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE trip_boardings b
+  SET alighted_at = COALESCE(NEW.departed_at, NOW()),
+      alighted_stop_id = NEW.route_stop_id,
+      alight_method = 'stop'
+  FROM students s
+  WHERE b.trip_id = NEW.trip_id
+    AND b.alighted_at IS NULL
+    AND s.id = b.student_id
+    AND s.boarding_stop_id = NEW.route_stop_id
+    AND b.boarded_stop_id IS DISTINCT FROM NEW.route_stop_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS alight_at_home_stop ON trip_stop_events;
+CREATE TRIGGER alight_at_home_stop AFTER UPDATE OF status ON trip_stop_events
+  FOR EACH ROW
+  WHEN (NEW.status = 'departed' AND OLD.status IS DISTINCT FROM 'departed')
+  EXECUTE FUNCTION alight_at_home_stop();
+
+-- Everyone still on board gets off when the trip ends
+CREATE OR REPLACE FUNCTION alight_on_trip_end()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE trip_boardings
+  SET alighted_at = COALESCE(NEW.ended_at, NOW()),
+      alight_method = 'trip_end'
+  WHERE trip_id = NEW.id AND alighted_at IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS alight_on_trip_end ON active_trips;
+CREATE TRIGGER alight_on_trip_end AFTER UPDATE OF is_active ON active_trips
+  FOR EACH ROW
+  WHEN (OLD.is_active AND NOT NEW.is_active)
+  EXECUTE FUNCTION alight_on_trip_end();
+
+CREATE OR REPLACE FUNCTION update_trip_occupancy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_trip_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.trip_id ELSE NEW.trip_id END;
+BEGIN
+  UPDATE active_trips t
+  SET occupancy = (SELECT COUNT(*) FROM trip_boardings b WHERE b.trip_id = v_trip_id AND b.alighted_at IS NULL)
+  WHERE t.id = v_trip_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_trip_occupancy ON trip_boardings;
+CREATE TRIGGER update_trip_occupancy AFTER INSERT OR UPDATE OR DELETE ON trip_boardings
+  FOR EACH ROW EXECUTE FUNCTION update_trip_occupancy();
+
+-- Exit scan (POST /api/scans/exit): the student gets off the driver's
+-- running trip at its current stop. Status is 'alighted', 'not_on_board' or
+-- 'no_trip'; the trip's occupancy and the bus capacity come back either way.
+CREATE OR REPLACE FUNCTION record_exit_scan(
+  p_student_id UUID,
+  p_driver_id UUID,
+  p_scanned_at TIMESTAMPTZ DEFAULT NOW()
+) RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_trip_id UUID;
+  v_capacity INTEGER;
+  v_boarding_id UUID;
+BEGIN
+  SELECT t.id, b.capacity INTO v_trip_id, v_capacity
+  FROM drivers d
+  JOIN buses b ON b.id = d.bus_id
+  JOIN active_trips t ON t.bus_id = b.id AND t.is_active
+  WHERE d.id = p_driver_id
+  ORDER BY t.started_at DESC
+  LIMIT 1;
+
+  IF v_trip_id IS NULL THEN
+    RETURN jsonb_build_object('status', 'no_trip');
+  END IF;
+
+  UPDATE trip_boardings
+  SET alighted_at = p_scanned_at,
+      alighted_stop_id = trip_stop_at(v_trip_id, p_scanned_at),
+      alight_method = 'exit_scan'
+  WHERE trip_id = v_trip_id AND student_id = p_student_id AND alighted_at IS NULL
+  RETURNING id INTO v_boarding_id;
+
+  RETURN jsonb_build_object(
+    'status', CASE WHEN v_boarding_id IS NULL THEN 'not_on_board' ELSE 'alighted' END,
+    'on_board', (SELECT occupancy FROM active_trips WHERE id = v_trip_id),
+    'capacity', v_capacity
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_exit_scan(UUID, UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Most students on board at once on each trip started on local days p_from
+-- to p_to, with its bus's capacity. Alightings sort before boardings at the
+-- same instant.
+CREATE OR REPLACE FUNCTION trip_peak_loads(
+  p_from DATE,
+  p_to DATE,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (trip_id UUID, route_id UUID, capacity INTEGER, peak_load BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH trips AS (
+    SELECT t.id, t.route_id, b.capacity
+    FROM active_trips t
+    JOIN buses b ON b.id = t.bus_id
+    WHERE t.started_at >= (p_from::TIMESTAMP AT TIME ZONE p_timezone)
+      AND t.started_at < ((p_to + 1)::TIMESTAMP AT TIME ZONE p_timezone)
+  ),
+  changes AS (
+    SELECT b.trip_id, b.boarded_at AS at, 1 AS delta
+    FROM trip_boardings b JOIN trips ON trips.id = b.trip_id
+    UNION ALL
+    SELECT b.trip_id, b.alighted_at, -1
+    FROM trip_boardings b JOIN trips ON trips.id = b.trip_id
+    WHERE b.alighted_at IS NOT NULL
+  ),
+  loads AS (
+    SELECT c.trip_id,
+           SUM(c.delta) OVER (PARTITION BY c.trip_id ORDER BY c.at, c.delta ROWS UNBOUNDED PRECEDING) AS load
+    FROM changes c
+  )
+  SELECT trips.id, trips.route_id, trips.capacity, COALESCE(MAX(loads.load), 0)
+  FROM trips
+  LEFT JOIN loads ON loads.trip_id = trips.id
+  GROUP BY trips.id, trips.route_id, trips.capacity;
+$$;
+
+-- Per-route peak loads for the admin reports; peak_load_ratio is the
+-- fullest any trip got against its bus's capacity
+CREATE OR REPLACE FUNCTION report_route_loads(
+  p_from DATE,
+  p_to DATE,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (
+  route_id UUID,
+  trips BIGINT,
+  peak_load BIGINT,
+  avg_peak_load NUMERIC,
+  peak_load_ratio NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT l.route_id,
+         COUNT(*),
+         MAX(l.peak_load),
+         AVG(l.peak_load),
+         MAX(l.peak_load::NUMERIC / NULLIF(l.capacity, 0))
+  FROM trip_peak_loads(p_from, p_to, p_timezone) l
+  GROUP BY l.route_id;
+$$;
+
+-- ============================================================
+-- Scan trips and stops
+-- ============================================================
+
+-- The trip a scan was made on and the stop the student boarded at, set on
+-- insert by link_scan_to_trip()
+ALTER TABLE scan_logs ADD COLUMN IF NOT EXISTS trip_id UUID REFERENCES active_trips(id) ON DELETE SET NULL;
+ALTER TABLE scan_logs ADD COLUMN IF NOT EXISTS route_stop_id UUID REFERENCES route_stops(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scan_logs_trip_id ON scan_logs(trip_id, scan_timestamp);
+CREATE INDEX IF NOT EXISTS idx_scan_logs_route_stop_id ON scan_logs(route_stop_id);
+
+-- Great-circle distance in meters
+CREATE OR REPLACE FUNCTION distance_meters(
+  p_lat1 DOUBLE PRECISION,
+  p_lng1 DOUBLE PRECISION,
+  p_lat2 DOUBLE PRECISION,
+  p_lng2 DOUBLE PRECISION
+) RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2) +
+    cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+  ));
+$$;
+
+-- Where on its route a trip was at p_at: the stop nearest the bus's last GPS
+-- fix, if that fix is recent and the stop within p_radius_meters, otherwise
+-- the stop it had last reached (trip_stop_at)
+CREATE OR REPLACE FUNCTION scan_stop(
+  p_trip_id UUID,
+  p_at TIMESTAMPTZ,
+  p_radius_meters INTEGER DEFAULT 300,
+  p_max_fix_age INTERVAL DEFAULT INTERVAL '2 minutes'
+) RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT rs.id
+      FROM (
+        SELECT l.latitude, l.longitude
+        FROM bus_locations l
+        WHERE l.trip_id = p_trip_id
+          AND l.timestamp <= p_at
+          AND l.timestamp > p_at - p_max_fix_age
+        ORDER BY l.timestamp DESC
+        LIMIT 1
+      ) fix
+      JOIN active_trips t ON t.id = p_trip_id
+      JOIN route_stops rs ON rs.route_id = t.route_id
+      WHERE rs.latitude IS NOT NULL
+        AND rs.longitude IS NOT NULL
+        AND distance_meters(fix.latitude, fix.longitude, rs.latitude, rs.longitude) <= p_radius_meters
+      ORDER BY distance_meters(fix.latitude, fix.longitude, rs.latitude, rs.longitude)
+      LIMIT 1
+    ),
+    trip_stop_at(p_trip_id, p_at)
+  );
+$$;
+
+-- Links every new scan to the trip its bus was running at the scan time
+-- (offline scans are synced later, so this goes by scan_timestamp rather
+-- than is_active) and to the stop the bus was at
+CREATE OR REPLACE FUNCTION link_scan_to_trip()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.trip_id := NULL;
+  NEW.route_stop_id := NULL;
+
+  SELECT t.id INTO NEW.trip_id
+  FROM active_trips t
+  WHERE t.bus_id = NEW.bus_id
+    AND t.started_at <= NEW.scan_timestamp
+    AND (t.ended_at IS NULL OR t.ended_at >= NEW.scan_timestamp)
+  ORDER BY t.started_at DESC
+  LIMIT 1;
+
+  IF NEW.trip_id IS NOT NULL THEN
+    NEW.route_stop_id := scan_stop(NEW.trip_id, NEW.scan_timestamp);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_scan_to_trip ON scan_logs;
+CREATE TRIGGER link_scan_to_trip BEFORE INSERT ON scan_logs
+  FOR EACH ROW EXECUTE FUNCTION link_scan_to_trip();
+
+-- Earlier scans, linked from the stop events alone (their GPS fixes are
+-- usually gone)
+UPDATE scan_logs s
+SET trip_id = t.id
+FROM active_trips t
+WHERE s.trip_id IS NULL
+  AND t.bus_id = s.bus_id
+  AND t.started_at <= s.scan_timestamp
+  AND (t.ended_at IS NULL OR t.ended_at >= s.scan_timestamp);
+
+UPDATE scan_logs
+SET route_stop_id = trip_stop_at(trip_id, scan_timestamp)
+WHERE trip_id IS NOT NULL AND route_stop_id IS NULL;
+
+-- Boardings (successful scans) per stop of one route over local days p_from
+-- to p_to; students counts each student once per stop
+CREATE OR REPLACE FUNCTION report_stop_boardings(
+  p_from DATE,
+  p_to DATE,
+  p_route_id UUID,
+  p_timezone TEXT DEFAULT 'Asia/Kolkata'
+) RETURNS TABLE (
+  route_stop_id UUID,
+  stop_name TEXT,
+  sequence INTEGER,
+  boardings BIGINT,
+  students BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT rs.id,
+         rs.stop_name::TEXT,
+         rs.sequence,
+         COUNT(s.id),
+         COUNT(DISTINCT s.student_id)
+  FROM route_stops rs
+  LEFT JOIN scan_logs s ON s.route_stop_id = rs.id
+    AND s.scan_status = 'success'
+    AND s.scan_timestamp >= (p_from::TIMESTAMP AT TIME ZONE p_timezone)
+    AND s.scan_timestamp < ((p_to + 1)::TIMESTAMP AT TIME ZONE p_timezone)
+  WHERE rs.route_id = p_route_id
+  GROUP BY rs.id, rs.stop_name, rs.sequence
+  ORDER BY rs.sequence;
+$$;
+
+-- ============================================================
+-- Breadcrumb retention
+-- ============================================================
+-- Trip replay reads a finished trip's GPS fixes from bus_locations. Fixes are
+-- kept as recorded while complaints are still likely, then thinned to one per
+-- p_keep_every_seconds (plus each trip's last fix) by the server's retention
+-- job. downsample_bus_locations() works through up to p_batch finished trips
+-- per call and stamps each one so it is not scanned again.
+ALTER TABLE active_trips ADD COLUMN IF NOT EXISTS breadcrumbs_downsampled_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_active_trips_downsample
+  ON active_trips(ended_at)
+  WHERE is_active = FALSE AND breadcrumbs_downsampled_at IS NULL;
+
+CREATE OR REPLACE FUNCTION downsample_bus_locations(
+  p_older_than INTERVAL DEFAULT INTERVAL '30 days',
+  p_keep_every_seconds INTEGER DEFAULT 60,
+  p_batch INTEGER DEFAULT 200
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_trip_ids UUID[];
+  v_deleted INTEGER := 0;
+BEGIN
+  IF p_keep_every_seconds <= 0 THEN
+    RAISE EXCEPTION 'p_keep_every_seconds must be positive';
+  END IF;
+
+  SELECT array_agg(id) INTO v_trip_ids
+  FROM (
+    SELECT id
+    FROM active_trips
+    WHERE is_active = FALSE
+      AND breadcrumbs_downsampled_at IS NULL
+      AND ended_at < NOW() - p_older_than
+    ORDER BY ended_at
+    LIMIT p_batch
+    FOR UPDATE SKIP LOCKED
+  ) due;
+
+  IF v_trip_ids IS NULL THEN
+    RETURN jsonb_build_object('trips', 0, 'deleted', 0);
+  END IF;
+
+  WITH ranked AS (
+    SELECT id,
+           row_number() OVER (
+             PARTITION BY trip_id, floor(extract(epoch FROM timestamp) / p_keep_every_seconds)
+             ORDER BY timestamp
+           ) AS bucket_rank,
+           row_number() OVER (PARTITION BY trip_id ORDER BY timestamp DESC) AS last_rank
+    FROM bus_locations
+    WHERE trip_id = ANY(v_trip_ids)
+  )
+  DELETE FROM bus_locations l
+  USING ranked r
+  WHERE l.id = r.id
+    AND r.bucket_rank > 1
+    AND r.last_rank > 1;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  UPDATE active_trips
+  SET breadcrumbs_downsampled_at = NOW()
+  WHERE id = ANY(v_trip_ids);
+
+  RETURN jsonb_build_object('trips', array_length(v_trip_ids, 1), 'deleted', v_deleted);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION downsample_bus_locations(INTERVAL, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;